@@ -25,6 +25,14 @@ const config = [
       ...prettierConfig.rules,
     },
   },
+  {
+    // The core rule counts parameter names in function types as unused
+    files: ["**/*.{ts,tsx}"],
+    rules: {
+      "no-unused-vars": "off",
+      "@typescript-eslint/no-unused-vars": "error",
+    },
+  },
   prettierConfig,
 ];
 
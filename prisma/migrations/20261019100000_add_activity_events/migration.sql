@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "ActivityEntity" AS ENUM ('PROJECT', 'TASK', 'USER');
+
+-- CreateEnum
+CREATE TYPE "ActivityAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE');
+
+-- CreateTable
+CREATE TABLE "ActivityEvent" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT,
+    "actorEmail" TEXT,
+    "entityType" "ActivityEntity" NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "action" "ActivityAction" NOT NULL,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ActivityEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ActivityEvent_projectId_createdAt_idx" ON "ActivityEvent"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ActivityEvent_entityType_entityId_idx" ON "ActivityEvent"("entityType", "entityId");
+
+-- CreateIndex
+CREATE INDEX "ActivityEvent_actorId_idx" ON "ActivityEvent"("actorId");
+
+-- CreateIndex
+CREATE INDEX "ActivityEvent_createdAt_idx" ON "ActivityEvent"("createdAt");
+
+-- Make the ledger append-only
+CREATE FUNCTION "activity_event_immutable"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'ActivityEvent rows are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ActivityEvent_immutable"
+    BEFORE UPDATE OR DELETE ON "ActivityEvent"
+    FOR EACH ROW EXECUTE FUNCTION "activity_event_immutable"();
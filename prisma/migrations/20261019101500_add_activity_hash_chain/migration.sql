@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "ActivityEvent" ADD COLUMN     "hash" TEXT,
+ADD COLUMN     "prevHash" TEXT,
+ADD COLUMN     "sequence" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ActivityEvent_projectId_sequence_key" ON "ActivityEvent"("projectId", "sequence");
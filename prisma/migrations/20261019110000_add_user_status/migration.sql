@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "UserStatus" AS ENUM ('ACTIVE', 'DEACTIVATED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "deactivatedAt" TIMESTAMP(3),
+ADD COLUMN     "status" "UserStatus" NOT NULL DEFAULT 'ACTIVE';
+
+-- CreateIndex
+CREATE INDEX "User_status_idx" ON "User"("status");
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "position" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill: number each status column of each project oldest first
+UPDATE "Task" AS t
+SET "position" = ranked."rowNumber" * 1024
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "projectId", "status" ORDER BY "createdAt") AS "rowNumber"
+    FROM "Task"
+) AS ranked
+WHERE t."id" = ranked."id";
+
+-- CreateIndex
+CREATE INDEX "Task_projectId_status_position_idx" ON "Task"("projectId", "status", "position");
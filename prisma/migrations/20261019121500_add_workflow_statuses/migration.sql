@@ -0,0 +1,31 @@
+-- AlterTable: task statuses become keys of the project's workflow
+ALTER TABLE "Task" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "Task" ALTER COLUMN "status" TYPE TEXT USING "status"::TEXT;
+ALTER TABLE "Task" ALTER COLUMN "status" SET DEFAULT 'TODO';
+
+-- AlterEnum: the fixed statuses now classify workflow statuses
+ALTER TYPE "TaskStatus" RENAME TO "TaskStatusCategory";
+
+-- CreateTable
+CREATE TABLE "WorkflowStatus" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" "TaskStatusCategory" NOT NULL,
+    "position" INTEGER NOT NULL,
+    "next" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkflowStatus_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowStatus_projectId_key_key" ON "WorkflowStatus"("projectId", "key");
+
+-- CreateIndex
+CREATE INDEX "WorkflowStatus_projectId_position_idx" ON "WorkflowStatus"("projectId", "position");
+
+-- AddForeignKey
+ALTER TABLE "WorkflowStatus" ADD CONSTRAINT "WorkflowStatus_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "TaskPriority" AS ENUM ('LOW', 'MEDIUM', 'HIGH', 'URGENT');
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "priority" "TaskPriority" NOT NULL DEFAULT 'MEDIUM',
+ADD COLUMN     "startDate" DATE,
+ADD COLUMN     "dueDate" DATE,
+ADD COLUMN     "estimatedHours" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "Task_projectId_dueDate_idx" ON "Task"("projectId", "dueDate");
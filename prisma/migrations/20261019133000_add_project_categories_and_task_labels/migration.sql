@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "ProjectCategory" AS ENUM ('WATER', 'EDUCATION', 'HEALTH', 'HOUSING', 'ENVIRONMENT', 'FOOD', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "category" "ProjectCategory" NOT NULL DEFAULT 'OTHER';
+
+-- CreateTable
+CREATE TABLE "TaskLabel" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaskLabel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskLabelLink" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "labelId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskLabelLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Project_category_idx" ON "Project"("category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskLabel_projectId_name_key" ON "TaskLabel"("projectId", "name");
+
+-- CreateIndex
+CREATE INDEX "TaskLabelLink_labelId_idx" ON "TaskLabelLink"("labelId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskLabelLink_taskId_labelId_key" ON "TaskLabelLink"("taskId", "labelId");
+
+-- AddForeignKey
+ALTER TABLE "TaskLabel" ADD CONSTRAINT "TaskLabel_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskLabelLink" ADD CONSTRAINT "TaskLabelLink_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskLabelLink" ADD CONSTRAINT "TaskLabelLink_labelId_fkey" FOREIGN KEY ("labelId") REFERENCES "TaskLabel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
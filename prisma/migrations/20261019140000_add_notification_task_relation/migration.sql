@@ -0,0 +1,10 @@
+-- Notifications about tasks deleted before this relation existed
+UPDATE "Notification" SET "taskId" = NULL
+WHERE "taskId" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "Task" WHERE "Task"."id" = "Notification"."taskId");
+
+-- CreateIndex
+CREATE INDEX "Notification_taskId_idx" ON "Notification"("taskId");
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE SET NULL ON UPDATE CASCADE;
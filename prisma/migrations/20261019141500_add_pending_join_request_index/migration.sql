@@ -0,0 +1,13 @@
+-- Keep only the newest pending request where a user has several
+UPDATE "JoinRequest" AS jr SET "status" = 'CANCELLED', "reviewedAt" = CURRENT_TIMESTAMP
+WHERE jr."status" = 'PENDING'
+  AND EXISTS (
+    SELECT 1 FROM "JoinRequest" newer
+    WHERE newer."projectId" = jr."projectId"
+      AND newer."userId" = jr."userId"
+      AND newer."status" = 'PENDING'
+      AND (newer."createdAt", newer."id") > (jr."createdAt", jr."id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JoinRequest_projectId_userId_pending_key" ON "JoinRequest"("projectId", "userId") WHERE "status" = 'PENDING';
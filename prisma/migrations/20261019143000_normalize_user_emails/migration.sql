@@ -0,0 +1,9 @@
+-- Store emails trimmed and lowercased, as signup and login now expect.
+-- Rows that would collide with another account are left as they are.
+UPDATE "User" AS u SET "email" = lower(trim(u."email"))
+WHERE u."email" <> lower(trim(u."email"))
+  AND NOT EXISTS (
+    SELECT 1 FROM "User" other
+    WHERE other."id" <> u."id"
+      AND lower(trim(other."email")) = lower(trim(u."email"))
+  );
@@ -1,5 +1,5 @@
 // prisma/seed.ts
-const { PrismaClient, ProjectStatus, TaskStatus } = require('@prisma/client')
+const { PrismaClient, ProjectStatus, ProjectCategory } = require('@prisma/client')
 
 const prisma = new PrismaClient()
 
@@ -18,12 +18,13 @@ async function main() {
   // Use upsert for the project as well to make the seed idempotent
   const project = await prisma.project.upsert({
     where: { id: 'water-for-all-project-id' }, // We can use a fixed ID for the seed
-    update: {},
+    update: { category: ProjectCategory.WATER },
     create: {
       id: 'water-for-all-project-id',
       title: 'Water for All',
       description: 'Building sustainable water wells in remote villages.',
       status: ProjectStatus.IN_PROGRESS,
+      category: ProjectCategory.WATER,
       ownerId: user.id,
     },
   })
@@ -32,22 +33,84 @@ async function main() {
   await prisma.task.deleteMany({
     where: { projectId: project.id },
   })
+  await prisma.milestone.deleteMany({
+    where: { projectId: project.id },
+  })
+  await prisma.taskLabel.deleteMany({
+    where: { projectId: project.id },
+  })
+
+  const fieldwork = await prisma.taskLabel.create({
+    data: { name: 'Fieldwork', color: '#0EA5E9', projectId: project.id },
+  })
+  const needsFunding = await prisma.taskLabel.create({
+    data: { name: 'Needs funding', color: '#F59E0B', projectId: project.id },
+  })
+
+  const siteReady = await prisma.milestone.create({
+    data: {
+      title: 'Site ready for drilling',
+      description: 'Location chosen and equipment on site.',
+      targetDate: new Date('2026-12-01T00:00:00.000Z'),
+      projectId: project.id,
+    },
+  })
+
+  const survey = await prisma.task.create({
+    data: {
+      title: 'Geological Survey',
+      description: 'Identify the best location for the well.',
+      status: 'DONE',
+      projectId: project.id,
+      milestoneId: siteReady.id,
+      labels: { create: [{ labelId: fieldwork.id }] },
+    },
+  })
 
-  await prisma.task.createMany({
-    data: [
-      {
-        title: 'Geological Survey',
-        description: 'Identify the best location for the well.',
-        status: TaskStatus.DONE,
-        projectId: project.id,
+  // A bigger task broken down into subtasks and a checklist
+  const procurement = await prisma.task.create({
+    data: {
+      title: 'Drilling Equipment Procurement',
+      description: 'Purchase or rent drilling rigs.',
+      status: 'IN_PROGRESS',
+      projectId: project.id,
+      milestoneId: siteReady.id,
+      labels: { create: [{ labelId: needsFunding.id }] },
+      checklistItems: {
+        create: [
+          { text: 'Confirm budget with finance', done: true, position: 1 },
+          { text: 'Book transport to the site', position: 2 },
+        ],
       },
-      {
-        title: 'Drilling Equipment Procurement',
-        description: 'Purchase or rent drilling rigs.',
-        status: TaskStatus.IN_PROGRESS,
-        projectId: project.id,
+      subtasks: {
+        create: [
+          {
+            title: 'Collect supplier quotes',
+            status: 'DONE',
+            projectId: project.id,
+          },
+          {
+            title: 'Compare rent vs. buy costs',
+            status: 'IN_PROGRESS',
+            projectId: project.id,
+          },
+          {
+            title: 'Sign the rig contract',
+            projectId: project.id,
+          },
+        ],
       },
-    ],
+    },
+  })
+
+  // Drilling can't start before the survey is done
+  await prisma.taskDependency.create({
+    data: {
+      projectId: project.id,
+      blockerId: survey.id,
+      blockedId: procurement.id,
+      createdById: user.id,
+    },
   })
 
   console.log('Seeding finished.')
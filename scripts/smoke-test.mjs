@@ -1,4 +1,6 @@
 const BASE = 'http://localhost:3000'
+// Personal API token (Settings > API Tokens); skips signup/login when set
+const API_TOKEN = process.env.API_TOKEN
 
 async function signup() {
   const res = await fetch(`${BASE}/api/auth/signup`, {
@@ -51,6 +53,11 @@ async function run() {
     console.error('Server did not become available')
     process.exit(1)
   }
+  if (API_TOKEN) {
+    const res = await getUser(API_TOKEN)
+    if (res.status >= 400) { process.exit(1) }
+    return
+  }
   const su = await signup()
   if (su.status >= 400 && su.status !== 409) { process.exit(1) }
   const loginRes = await login()
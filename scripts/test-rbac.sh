@@ -61,10 +61,23 @@ USER_LOGIN=$(curl -s -X POST "$BASE_URL/api/auth/login" \
 echo "Response: $USER_LOGIN"
 echo ""
 
+# Personal API tokens (Settings > API Tokens) can stand in for the cookies:
+#   ADMIN_API_TOKEN=clp_... USER_API_TOKEN=clp_... ./scripts/test-rbac.sh
+if [ -n "$ADMIN_API_TOKEN" ]; then
+  ADMIN_AUTH=(-H "Authorization: Bearer $ADMIN_API_TOKEN")
+else
+  ADMIN_AUTH=(-b admin_cookies.txt)
+fi
+if [ -n "$USER_API_TOKEN" ]; then
+  USER_AUTH=(-H "Authorization: Bearer $USER_API_TOKEN")
+else
+  USER_AUTH=(-b user_cookies.txt)
+fi
+
 # Test 5: Admin Access to /api/admin (Should Succeed)
 echo "5️⃣ Testing Admin Access to /api/admin (Should Succeed ✅)..."
 ADMIN_ACCESS=$(curl -s -X GET "$BASE_URL/api/admin" \
-  -b admin_cookies.txt)
+  "${ADMIN_AUTH[@]}")
 
 echo "Response: $ADMIN_ACCESS"
 echo ""
@@ -72,7 +85,7 @@ echo ""
 # Test 6: User Access to /api/admin (Should Fail ❌)
 echo "6️⃣ Testing Regular User Access to /api/admin (Should Fail ❌)..."
 USER_ACCESS_ADMIN=$(curl -s -X GET "$BASE_URL/api/admin" \
-  -b user_cookies.txt)
+  "${USER_AUTH[@]}")
 
 echo "Response: $USER_ACCESS_ADMIN"
 echo ""
@@ -80,7 +93,7 @@ echo ""
 # Test 7: User Access to /api/users (Should Succeed ✅)
 echo "7️⃣ Testing Regular User Access to /api/users (Should Succeed ✅)..."
 USER_ACCESS_USERS=$(curl -s -X GET "$BASE_URL/api/users" \
-  -b user_cookies.txt)
+  "${USER_AUTH[@]}")
 
 echo "Response: $USER_ACCESS_USERS"
 echo ""
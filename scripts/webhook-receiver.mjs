@@ -0,0 +1,82 @@
+// Local webhook receiver for trying out project webhooks.
+//
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs
+//
+// Then add a webhook pointing at http://localhost:4000/ on the project's
+// Webhooks page. Every request is printed with its signature check.
+//
+// Env:
+//   PORT            port to listen on (default 4000)
+//   WEBHOOK_SECRET  secret shown when the webhook was created; without it
+//                   signatures are not checked
+//   FAIL_FIRST      answer the first N attempts of each delivery with 500,
+//                   to watch the retry queue (set WEBHOOK_RETRY_BASE_MS=1000
+//                   on the app to keep the backoff short)
+//   MAX_SKEW        reject timestamps older than this many seconds (default 300)
+import { createServer } from 'node:http'
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+const PORT = Number(process.env.PORT || 4000)
+const SECRET = process.env.WEBHOOK_SECRET
+const FAIL_FIRST = Number(process.env.FAIL_FIRST || 0)
+const MAX_SKEW = Number(process.env.MAX_SKEW || 300)
+
+const attemptsByDelivery = new Map()
+
+function verifySignature(timestamp, body, signature) {
+  if (!SECRET) return 'skipped (no WEBHOOK_SECRET)'
+  if (!timestamp || !signature) return 'missing headers'
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp))
+  if (!(age <= MAX_SKEW)) return `stale timestamp (${Math.round(age)}s old)`
+
+  const expected = 'sha256=' + createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex')
+  const a = Buffer.from(expected)
+  const b = Buffer.from(signature)
+  return a.length === b.length && timingSafeEqual(a, b) ? 'valid' : 'INVALID'
+}
+
+const server = createServer((req, res) => {
+  let body = ''
+  req.on('data', chunk => { body += chunk })
+  req.on('end', () => {
+    const event = req.headers['x-collabledger-event']
+    const deliveryId = req.headers['x-collabledger-delivery']
+    const signature = verifySignature(
+      req.headers['x-collabledger-timestamp'],
+      body,
+      req.headers['x-collabledger-signature']
+    )
+
+    const attempt = (attemptsByDelivery.get(deliveryId) || 0) + 1
+    attemptsByDelivery.set(deliveryId, attempt)
+
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`)
+    console.log(`  event=${event} delivery=${deliveryId} attempt=${attempt} signature=${signature}`)
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2))
+    } catch {
+      console.log(body)
+    }
+
+    if (SECRET && signature !== 'valid') {
+      res.writeHead(401, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ ok: false, error: `signature ${signature}` }))
+      return
+    }
+
+    if (attempt <= FAIL_FIRST) {
+      console.log(`  -> 500 (failing attempt ${attempt} of ${FAIL_FIRST})`)
+      res.writeHead(500, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ ok: false, error: 'simulated failure' }))
+      return
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ ok: true }))
+  })
+})
+
+server.listen(PORT, () => {
+  console.log(`Webhook receiver listening on http://localhost:${PORT}/`)
+})
@@ -0,0 +1,507 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import { ConfirmDialog } from "@/components/modals/ConfirmDialog";
+import { LoadingOverlay } from "@/components/ui/LoadingOverlay";
+import { useConfirm } from "@/hooks/useConfirm";
+import { useSessionRefresh } from "@/hooks/useSessionRefresh";
+import { usePermissions } from "@/hooks/usePermissions";
+import { showSuccessToast, showErrorToast } from "@/lib/toastHelpers";
+
+type UserRole = "ADMIN" | "EDITOR" | "USER";
+type UserStatus = "ACTIVE" | "DEACTIVATED";
+
+interface AdminUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  status: UserStatus;
+  deactivatedAt: string | null;
+  emailVerifiedAt: string | null;
+  createdAt: string;
+  _count: {
+    projects: number;
+    memberships: number;
+  };
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+const ROLES: UserRole[] = ["ADMIN", "EDITOR", "USER"];
+const PAGE_SIZE = 20;
+
+function UserStatusBadge({ status }: { status: UserStatus }) {
+  const styles = {
+    ACTIVE: "bg-green-100 text-green-800 border-green-200",
+    DEACTIVATED: "bg-red-100 text-red-800 border-red-200",
+  };
+
+  return (
+    <span
+      className={`px-3 py-1 rounded-full text-xs font-semibold border ${styles[status]}`}
+    >
+      {status}
+    </span>
+  );
+}
+
+export default function AdminPage() {
+  const [currentUserId, setCurrentUserId] = useState<string>("");
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loadingUsers, setLoadingUsers] = useState(false);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [roleFilter, setRoleFilter] = useState<"" | UserRole>("");
+  const [statusFilter, setStatusFilter] = useState<"" | UserStatus>("");
+  const [page, setPage] = useState(1);
+
+  const { confirm, confirmProps } = useConfirm();
+  useSessionRefresh();
+  const { can, loaded: permissionsLoaded } = usePermissions();
+  const isAuthorized = can("user:manage");
+
+  const fetchCurrentUser = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/me", {
+        credentials: "include",
+      });
+
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setCurrentUserId(data.data?.id ?? "");
+    } catch (err) {
+      console.error("[ADMIN][CURRENT_USER] Fetch failed:", err);
+    }
+  }, []);
+
+  const fetchUsers = useCallback(async () => {
+    setLoadingUsers(true);
+
+    try {
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE),
+      });
+      if (search) params.set("search", search);
+      if (roleFilter) params.set("role", roleFilter);
+      if (statusFilter) params.set("status", statusFilter);
+
+      const response = await fetch(`/api/admin/users?${params}`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to load users");
+      }
+
+      const data = await response.json();
+      setUsers(data.data?.users ?? []);
+      setPagination(data.data?.pagination ?? null);
+    } catch (err) {
+      console.error("[ADMIN][USERS] Fetch failed:", err);
+      showErrorToast("Failed to load users");
+    } finally {
+      setLoadingUsers(false);
+    }
+  }, [page, search, roleFilter, statusFilter]);
+
+  useEffect(() => {
+    fetchCurrentUser();
+  }, [fetchCurrentUser]);
+
+  useEffect(() => {
+    if (isAuthorized) {
+      fetchUsers();
+    }
+  }, [isAuthorized, fetchUsers]);
+
+  const updateUser = async (
+    user: AdminUser,
+    changes: { role?: UserRole; status?: UserStatus },
+    successMessage: string
+  ) => {
+    setBusyUserId(user.id);
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to update user");
+      }
+
+      setUsers((prev) =>
+        prev.map((u) => (u.id === user.id ? { ...u, ...data.data } : u))
+      );
+      showSuccessToast(successMessage);
+    } catch (err) {
+      console.error("[ADMIN][UPDATE_USER] Failed:", err);
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to update user"
+      );
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleRoleChange = async (user: AdminUser, role: UserRole) => {
+    if (role === user.role) return;
+
+    const confirmed = await confirm({
+      title: "Change Role",
+      message: `Change ${user.email} from ${user.role} to ${role}?`,
+      confirmText: "Change Role",
+      cancelText: "Cancel",
+      variant: role === "ADMIN" ? "danger" : "info",
+    });
+
+    if (!confirmed) return;
+
+    await updateUser(user, { role }, `${user.email} is now ${role}`);
+  };
+
+  const handleToggleStatus = async (user: AdminUser) => {
+    const deactivating = user.status === "ACTIVE";
+
+    const confirmed = await confirm({
+      title: deactivating ? "Deactivate Account" : "Reactivate Account",
+      message: deactivating
+        ? `${user.email} will be signed out everywhere and will not be able to sign in until reactivated. Continue?`
+        : `Allow ${user.email} to sign in again?`,
+      confirmText: deactivating ? "Deactivate" : "Reactivate",
+      cancelText: "Cancel",
+      variant: deactivating ? "danger" : "info",
+    });
+
+    if (!confirmed) return;
+
+    await updateUser(
+      user,
+      { status: deactivating ? "DEACTIVATED" : "ACTIVE" },
+      deactivating
+        ? `${user.email} has been deactivated`
+        : `${user.email} has been reactivated`
+    );
+  };
+
+  const handleForceLogout = async (user: AdminUser) => {
+    const confirmed = await confirm({
+      title: "Force Logout",
+      message: `Sign ${user.email} out of every device?`,
+      confirmText: "Force Logout",
+      cancelText: "Cancel",
+      variant: "danger",
+    });
+
+    if (!confirmed) return;
+
+    setBusyUserId(user.id);
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/logout`, {
+        method: "POST",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to force logout");
+      }
+
+      showSuccessToast(
+        `Revoked ${data.data.revokedCount} session(s) for ${user.email}`
+      );
+    } catch (err) {
+      console.error("[ADMIN][FORCE_LOGOUT] Failed:", err);
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to force logout"
+      );
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleSearch = (e: { preventDefault: () => void }) => {
+    e.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  if (!permissionsLoaded) {
+    return <LoadingOverlay message="Loading admin console..." fullScreen />;
+  }
+
+  if (!isAuthorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-linear-to-br from-green-50 via-emerald-50 to-teal-50">
+        <div className="bg-white rounded-2xl shadow-lg p-10 text-center max-w-md">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Admin access required
+          </h1>
+          <p className="text-gray-600 mb-6">
+            Only administrators can manage users.
+          </p>
+          <Link
+            href="/dashboard"
+            className="inline-block px-5 py-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-xl transition-colors"
+          >
+            Back to Dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="min-h-screen bg-linear-to-br from-green-50 via-emerald-50 to-teal-50">
+        <header className="bg-white/80 backdrop-blur-lg shadow-sm border-b border-emerald-100 sticky top-0 z-50">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-5 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-linear-to-br from-emerald-600 to-green-600 rounded-xl flex items-center justify-center shadow-lg">
+                <span className="text-white font-bold text-xl">C</span>
+              </div>
+              <h1 className="text-2xl font-bold bg-linear-to-r from-emerald-700 to-green-600 bg-clip-text text-transparent">
+                Admin Console
+              </h1>
+            </div>
+            <Link
+              href="/dashboard"
+              className="px-5 py-2 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl transition-all duration-300 hover:shadow-md"
+            >
+              Back to Dashboard
+            </Link>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold text-gray-900 mb-2">Users</h2>
+            <p className="text-gray-600">
+              Search accounts, change roles, and deactivate or sign out users.
+            </p>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white rounded-2xl shadow-sm border border-emerald-100 p-5 mb-6 flex flex-col md:flex-row gap-4">
+            <form onSubmit={handleSearch} className="flex-1 flex gap-2">
+              <input
+                type="text"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search by name or email"
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-gray-900"
+              />
+              <button
+                type="submit"
+                className="px-5 py-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-xl transition-colors"
+              >
+                Search
+              </button>
+            </form>
+            <select
+              value={roleFilter}
+              onChange={(e) => {
+                setPage(1);
+                setRoleFilter(e.target.value as "" | UserRole);
+              }}
+              className="px-4 py-2 border border-gray-300 rounded-xl text-gray-900 bg-white"
+            >
+              <option value="">All roles</option>
+              {ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setPage(1);
+                setStatusFilter(e.target.value as "" | UserStatus);
+              }}
+              className="px-4 py-2 border border-gray-300 rounded-xl text-gray-900 bg-white"
+            >
+              <option value="">All statuses</option>
+              <option value="ACTIVE">Active</option>
+              <option value="DEACTIVATED">Deactivated</option>
+            </select>
+          </div>
+
+          {/* User table */}
+          <div className="bg-white rounded-2xl shadow-sm border border-emerald-100 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-emerald-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Projects
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Joined
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {loadingUsers && users.length === 0 ? (
+                  <tr>
+                    <td
+                      colSpan={6}
+                      className="px-6 py-10 text-center text-gray-500"
+                    >
+                      Loading users...
+                    </td>
+                  </tr>
+                ) : users.length === 0 ? (
+                  <tr>
+                    <td
+                      colSpan={6}
+                      className="px-6 py-10 text-center text-gray-500"
+                    >
+                      No users match these filters.
+                    </td>
+                  </tr>
+                ) : (
+                  users.map((user) => {
+                    const isSelf = user.id === currentUserId;
+                    const isBusy = busyUserId === user.id;
+
+                    return (
+                      <tr key={user.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4">
+                          <div className="font-medium text-gray-900">
+                            {user.name || "—"}
+                            {isSelf && (
+                              <span className="ml-2 text-xs text-emerald-600">
+                                (you)
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {user.email}
+                          </div>
+                          {!user.emailVerifiedAt && (
+                            <div className="text-xs text-amber-600">
+                              Email not verified
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <select
+                            value={user.role}
+                            disabled={isSelf || isBusy}
+                            onChange={(e) =>
+                              handleRoleChange(user, e.target.value as UserRole)
+                            }
+                            className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white disabled:opacity-50"
+                          >
+                            {ROLES.map((role) => (
+                              <option key={role} value={role}>
+                                {role}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-6 py-4">
+                          <UserStatusBadge status={user.status} />
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {user._count.projects} owned ·{" "}
+                          {user._count.memberships} joined
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {new Date(user.createdAt).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => handleForceLogout(user)}
+                              disabled={isSelf || isBusy}
+                              className="px-3 py-1 text-xs font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+                            >
+                              Force Logout
+                            </button>
+                            <button
+                              onClick={() => handleToggleStatus(user)}
+                              disabled={isSelf || isBusy}
+                              className={`px-3 py-1 text-xs font-semibold rounded-lg transition-colors disabled:opacity-50 ${
+                                user.status === "ACTIVE"
+                                  ? "text-red-700 bg-red-50 hover:bg-red-100"
+                                  : "text-green-700 bg-green-50 hover:bg-green-100"
+                              }`}
+                            >
+                              {user.status === "ACTIVE"
+                                ? "Deactivate"
+                                : "Reactivate"}
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          {pagination && pagination.pages > 1 && (
+            <div className="flex items-center justify-between mt-6">
+              <p className="text-sm text-gray-600">
+                Page {pagination.page} of {pagination.pages} ·{" "}
+                {pagination.total} users
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(p - 1, 1))}
+                  disabled={page <= 1 || loadingUsers}
+                  className="px-4 py-2 text-sm font-semibold text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-xl disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={page >= pagination.pages || loadingUsers}
+                  className="px-4 py-2 text-sm font-semibold text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-xl disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </main>
+      </div>
+
+      <ConfirmDialog {...confirmProps} />
+    </>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Admin Audit Log
+ *
+ * Site-wide feed of the activity ledger. Optional filters:
+ * ?entityType=PROJECT|TASK|USER&entityId=...&action=CREATE|UPDATE|DELETE
+ * &actorId=...&projectId=...&from=ISO date&to=ISO date
+ */
+
+import { NextRequest } from "next/server";
+import type { ActivityAction, ActivityEntity, Prisma } from "@prisma/client";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { withPermission } from "@/lib/authorization";
+import {
+  ACTIVITY_ACTIONS,
+  ACTIVITY_ENTITIES,
+  listActivity,
+} from "@/lib/activity";
+
+export const GET = withPermission(
+  "audit:view",
+  async (req: NextRequest, auth) => {
+    const context = { route: "/api/admin/audit", method: "GET" };
+
+    try {
+      const { searchParams } = new URL(req.url);
+      const page = parseInt(searchParams.get("page") || "1", 10);
+      const limit = parseInt(searchParams.get("limit") || "50", 10);
+      const entityType = searchParams.get("entityType");
+      const action = searchParams.get("action");
+      const entityId = searchParams.get("entityId");
+      const actorId = searchParams.get("actorId");
+      const projectId = searchParams.get("projectId");
+      const from = searchParams.get("from");
+      const to = searchParams.get("to");
+
+      // Validate pagination params
+      if (page < 1 || limit < 1 || limit > 200) {
+        return handleValidationError("Invalid pagination parameters", context);
+      }
+
+      if (
+        entityType &&
+        !ACTIVITY_ENTITIES.includes(entityType as ActivityEntity)
+      ) {
+        return handleValidationError("Invalid entityType filter", context);
+      }
+
+      if (action && !ACTIVITY_ACTIONS.includes(action as ActivityAction)) {
+        return handleValidationError("Invalid action filter", context);
+      }
+
+      const fromDate = from ? new Date(from) : null;
+      const toDate = to ? new Date(to) : null;
+      if (
+        (fromDate && isNaN(fromDate.getTime())) ||
+        (toDate && isNaN(toDate.getTime()))
+      ) {
+        return handleValidationError("from/to must be valid dates", context);
+      }
+
+      const where: Prisma.ActivityEventWhereInput = {};
+      if (entityType) where.entityType = entityType as ActivityEntity;
+      if (action) where.action = action as ActivityAction;
+      if (entityId) where.entityId = entityId;
+      if (actorId) where.actorId = actorId;
+      if (projectId) where.projectId = projectId;
+      if (fromDate || toDate) {
+        where.createdAt = {
+          ...(fromDate ? { gte: fromDate } : {}),
+          ...(toDate ? { lte: toDate } : {}),
+        };
+      }
+
+      const { total, events } = await listActivity(where, page, limit);
+
+      logger.info("Audit log retrieved successfully", {
+        route: context.route,
+        userId: auth.userId,
+        filters: Object.keys(where),
+        page,
+        limit,
+        totalCount: total,
+      });
+
+      return sendSuccess(
+        {
+          events,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+          },
+        },
+        "Audit log retrieved successfully",
+        200
+      );
+    } catch (error) {
+      return handleError(error, context);
+    }
+  }
+);
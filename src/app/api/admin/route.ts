@@ -2,37 +2,47 @@
  * Admin-Only Routes
  *
  * These routes are protected by middleware and only accessible to users with ADMIN role.
- * Middleware automatically blocks non-admin requests with 403 Forbidden response.
+ * The handler re-checks the role against the database, so a demoted admin
+ * loses access immediately.
  */
 
-import { NextRequest, NextResponse } from "next/server";
-import { extractUserFromHeaders } from "@/lib/auth";
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/authorization";
 import { sendSuccess } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
 
-export async function GET(req: NextRequest) {
-  // User context is guaranteed to be available here
-  // Middleware has already verified JWT and role
-  const user = extractUserFromHeaders(req);
+export const GET = withPermission(
+  "admin:access",
+  async (_req: NextRequest, auth) => {
+    const context = { route: "/api/admin", method: "GET" };
 
-  return NextResponse.json(
-    sendSuccess(
-      {
-        message: "Welcome to admin panel! You have full access.",
-        user: {
-          id: user?.id,
-          email: user?.email,
-          role: user?.role,
+    try {
+      return sendSuccess(
+        {
+          message: "Welcome to admin panel! You have full access.",
+          user: {
+            id: auth.userId,
+            email: auth.userEmail,
+            role: auth.userRole,
+          },
+          adminCapabilities: [
+            { name: "List and search users", endpoint: "GET /api/admin/users" },
+            {
+              name: "Change roles, deactivate or reactivate users",
+              endpoint: "PATCH /api/admin/users/:id",
+            },
+            {
+              name: "Force logout a user",
+              endpoint: "POST /api/admin/users/:id/logout",
+            },
+            { name: "Access audit logs", endpoint: "GET /api/admin/audit" },
+          ],
         },
-        adminCapabilities: [
-          "View all users",
-          "Manage user roles and permissions",
-          "View system analytics",
-          "Access audit logs",
-          "Manage system settings",
-        ],
-      },
-      "Admin access granted"
-    ),
-    { status: 200 }
-  );
-}
+        "Admin access granted",
+        200
+      );
+    } catch (error) {
+      return handleError(error, context);
+    }
+  }
+);
@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { withPermission } from "@/lib/authorization";
+import { revokeAllSessions } from "@/lib/sessions";
+
+/**
+ * Force logout: revoke every session of a user
+ */
+export const POST = withPermission(
+  "user:manage",
+  async (
+    _req: NextRequest,
+    auth,
+    { params }: { params: Promise<{ id: string }> }
+  ) => {
+    const context = { route: "/api/admin/users/[id]/logout", method: "POST" };
+
+    try {
+      const { id } = await params;
+
+      // Validate ID
+      if (!id || typeof id !== "string") {
+        return handleValidationError("Invalid user ID", context);
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!user) {
+        return handleNotFound("User", { ...context, userId: id });
+      }
+
+      const revokedCount = await revokeAllSessions(id, "FORCED_LOGOUT");
+
+      logger.info("User force-logged out by admin", {
+        route: context.route,
+        userId: auth.userId,
+        targetUserId: id,
+        revokedCount,
+      });
+
+      return sendSuccess(
+        { revokedCount },
+        "User signed out of all sessions",
+        200
+      );
+    } catch (error) {
+      return handleError(error, context);
+    }
+  }
+);
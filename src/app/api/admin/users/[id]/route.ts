@@ -0,0 +1,134 @@
+import { NextRequest } from "next/server";
+import type { UserRole, UserStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { withPermission } from "@/lib/authorization";
+import { recordActivity } from "@/lib/activity";
+import { revokeAllSessions } from "@/lib/sessions";
+import {
+  USER_ROLES,
+  USER_STATUSES,
+  adminUserSelect,
+  invalidateUsersListCache,
+} from "@/lib/adminUsers";
+
+/**
+ * Change a user's role and/or status (deactivate / reactivate).
+ * Deactivating signs the user out everywhere.
+ */
+export const PATCH = withPermission(
+  "user:manage",
+  async (
+    req: NextRequest,
+    auth,
+    { params }: { params: Promise<{ id: string }> }
+  ) => {
+    const context = { route: "/api/admin/users/[id]", method: "PATCH" };
+
+    try {
+      const { id } = await params;
+      const body = await req.json();
+      const { role, status } = body;
+
+      // Validate ID
+      if (!id || typeof id !== "string") {
+        return handleValidationError("Invalid user ID", context);
+      }
+
+      if (role === undefined && status === undefined) {
+        return handleValidationError(
+          "At least one field is required to update",
+          context
+        );
+      }
+
+      if (role !== undefined && !USER_ROLES.includes(role as UserRole)) {
+        return handleValidationError("Invalid role value", context);
+      }
+
+      if (
+        status !== undefined &&
+        !USER_STATUSES.includes(status as UserStatus)
+      ) {
+        return handleValidationError("Invalid status value", context);
+      }
+
+      // Admins cannot demote or lock themselves out
+      if (id === auth.userId) {
+        return handleValidationError(
+          "You cannot change your own role or status",
+          context
+        );
+      }
+
+      const existingUser = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true, role: true, status: true, deactivatedAt: true },
+      });
+
+      if (!existingUser) {
+        return handleNotFound("User", { ...context, userId: id });
+      }
+
+      const updateData: {
+        role?: UserRole;
+        status?: UserStatus;
+        deactivatedAt?: Date | null;
+      } = {};
+      if (role !== undefined) updateData.role = role;
+      if (status !== undefined && status !== existingUser.status) {
+        updateData.status = status;
+        updateData.deactivatedAt = status === "DEACTIVATED" ? new Date() : null;
+      }
+
+      const updatedUser = await prisma.$transaction(async (tx) => {
+        const user = await tx.user.update({
+          where: { id },
+          data: updateData,
+          select: adminUserSelect,
+        });
+
+        await recordActivity(tx, {
+          actor: auth,
+          entityType: "USER",
+          entityId: id,
+          action: "UPDATE",
+          before: existingUser,
+          after: {
+            id: user.id,
+            role: user.role,
+            status: user.status,
+            deactivatedAt: user.deactivatedAt,
+          },
+        });
+
+        return user;
+      });
+
+      let revokedCount = 0;
+      if (updateData.status === "DEACTIVATED") {
+        revokedCount = await revokeAllSessions(id, "DEACTIVATED");
+      }
+
+      logger.info("User updated by admin", {
+        route: context.route,
+        userId: auth.userId,
+        targetUserId: id,
+        updatedFields: Object.keys(updateData),
+        revokedCount,
+      });
+
+      await invalidateUsersListCache({ ...context, userId: id });
+
+      return sendSuccess(updatedUser, "User updated successfully", 200);
+    } catch (error) {
+      return handleError(error, context);
+    }
+  }
+);
@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server";
+import type { Prisma, UserRole, UserStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { withPermission } from "@/lib/authorization";
+import { USER_ROLES, USER_STATUSES, adminUserSelect } from "@/lib/adminUsers";
+
+/**
+ * List users for the admin console.
+ * Filters: ?search= (email or name), ?role=, ?status=, ?page=, ?limit=
+ */
+export const GET = withPermission(
+  "user:manage",
+  async (req: NextRequest, auth) => {
+    const context = { route: "/api/admin/users", method: "GET" };
+
+    try {
+      const { searchParams } = new URL(req.url);
+      const page = parseInt(searchParams.get("page") || "1", 10);
+      const limit = parseInt(searchParams.get("limit") || "20", 10);
+      const search = searchParams.get("search")?.trim();
+      const role = searchParams.get("role");
+      const status = searchParams.get("status");
+
+      // Validate pagination params
+      if (page < 1 || limit < 1 || limit > 100) {
+        return handleValidationError("Invalid pagination parameters", context);
+      }
+
+      if (role && !USER_ROLES.includes(role as UserRole)) {
+        return handleValidationError("Invalid role filter", context);
+      }
+
+      if (status && !USER_STATUSES.includes(status as UserStatus)) {
+        return handleValidationError("Invalid status filter", context);
+      }
+
+      const where: Prisma.UserWhereInput = {};
+      if (role) where.role = role as UserRole;
+      if (status) where.status = status as UserStatus;
+      if (search) {
+        where.OR = [
+          { email: { contains: search, mode: "insensitive" } },
+          { name: { contains: search, mode: "insensitive" } },
+        ];
+      }
+
+      const [total, users] = await Promise.all([
+        prisma.user.count({ where }),
+        prisma.user.findMany({
+          where,
+          select: adminUserSelect,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+      ]);
+
+      logger.info("Admin users listed", {
+        route: context.route,
+        userId: auth.userId,
+        page,
+        limit,
+        totalCount: total,
+      });
+
+      return sendSuccess(
+        {
+          users,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+          },
+        },
+        "Users retrieved successfully",
+        200
+      );
+    } catch (error) {
+      return handleError(error, context);
+    }
+  }
+);
@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { sendPasswordResetEmail } from "@/lib/authTokens";
+import { enforceRateLimits, getClientIp } from "@/lib/rateLimit";
+import { normalizeEmail } from "@/lib/auth";
+
+/**
+ * Start a password reset. Always answers the same way so the endpoint
+ * cannot be used to discover which emails have accounts.
+ */
+export async function POST(req: NextRequest) {
+  const context = { route: "/api/auth/forgot-password", method: "POST" };
+
+  try {
+    const body = await req.json();
+    const { email } = body;
+
+    if (!email || typeof email !== "string") {
+      return handleValidationError("Email is required", context);
+    }
+
+    const account = normalizeEmail(email);
+
+    const limited = await enforceRateLimits(
+      [
+        {
+          name: "forgot-password:ip",
+          limit: 10,
+          windowSeconds: 60 * 60,
+          identifier: getClientIp(req),
+        },
+        {
+          name: "forgot-password:account",
+          limit: 3,
+          windowSeconds: 60 * 60,
+          identifier: account,
+        },
+      ],
+      context
+    );
+    if (limited) {
+      return limited;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: account },
+      select: { id: true, email: true, name: true },
+    });
+
+    if (user) {
+      await sendPasswordResetEmail(user);
+      logger.info("Password reset email sent", {
+        route: context.route,
+        userId: user.id,
+      });
+    }
+
+    return sendSuccess(
+      { sent: true },
+      "If an account exists for that email, a reset link is on its way.",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -1,15 +1,20 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { sendSuccess, sendError } from "@/lib/responseHandler";
-import {
-  handleError,
-  handleValidationError,
-  handleNotFound,
-} from "@/lib/errorHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
 import { ERROR_CODES } from "@/lib/errorCodes";
 import { logger } from "@/lib/logger";
-import { comparePasswords } from "@/lib/password";
-import { signJWT } from "@/lib/auth";
+import { verifyPassword } from "@/lib/password";
+import { normalizeEmail } from "@/lib/auth";
+import { createSession, setAuthCookies } from "@/lib/sessions";
+import {
+  clearFailedLogins,
+  enforceRateLimits,
+  getClientIp,
+  getLockoutSeconds,
+  recordFailedLogin,
+  tooManyRequestsResponse,
+} from "@/lib/rateLimit";
 
 export async function POST(req: NextRequest) {
   const context = { route: "/api/auth/login", method: "POST" };
@@ -27,18 +32,55 @@ export async function POST(req: NextRequest) {
       return handleValidationError("Password is required", context);
     }
 
+    const account = normalizeEmail(email);
+
+    // Throttle per IP (credential stuffing) and per account (guessing)
+    const limited = await enforceRateLimits(
+      [
+        {
+          name: "login:ip",
+          limit: 20,
+          windowSeconds: 60,
+          identifier: getClientIp(req),
+        },
+        {
+          name: "login:account",
+          limit: 10,
+          windowSeconds: 60,
+          identifier: account,
+        },
+      ],
+      context
+    );
+    if (limited) {
+      return limited;
+    }
+
+    const lockoutSeconds = await getLockoutSeconds(account);
+    if (lockoutSeconds > 0) {
+      return tooManyRequestsResponse(
+        "Too many failed login attempts. Please try again later.",
+        lockoutSeconds,
+        ERROR_CODES.ACCOUNT_LOCKED
+      );
+    }
+
     // Find user (include password and role for verification)
     const user = await prisma.user.findUnique({
-      where: { email },
+      where: { email: account },
     });
 
-    if (!user) {
-      return handleNotFound("User", { ...context, email });
-    }
+    // Unknown email and wrong password must be indistinguishable
+    const isValid = await verifyPassword(password, user?.password);
+
+    if (!user || !isValid) {
+      const lockedFor = await recordFailedLogin(account);
+
+      logger.warn("Login failed", {
+        route: context.route,
+        lockedFor,
+      });
 
-    // Verify password if user has one
-    if (!user.password) {
-      // This case handles users who might have been created without a password
       return sendError(
         "Invalid credentials",
         ERROR_CODES.INVALID_CREDENTIALS,
@@ -46,23 +88,36 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const isValid = await comparePasswords(password, user.password);
+    await clearFailedLogins(account);
 
-    if (!isValid) {
+    // Only checked once the password is right, so they reveal nothing new
+    if (user.status !== "ACTIVE") {
       return sendError(
-        "Invalid credentials",
-        ERROR_CODES.INVALID_CREDENTIALS,
-        401
+        "This account has been deactivated",
+        ERROR_CODES.ACCOUNT_DEACTIVATED,
+        403
       );
     }
 
-    // Generate JWT
-    const token = signJWT({ id: user.id, email: user.email, role: user.role });
+    if (!user.emailVerifiedAt) {
+      return sendError(
+        "Please verify your email address before signing in",
+        ERROR_CODES.EMAIL_NOT_VERIFIED,
+        403
+      );
+    }
+
+    // Start a session (short-lived access token + rotating refresh token)
+    const { session, accessToken, refreshToken } = await createSession(
+      user,
+      req
+    );
 
     logger.info("User login successful", {
       route: context.route,
       userId: user.id,
       email: user.email,
+      sessionId: session.id,
     });
 
     // Return user info (excluding password)
@@ -76,14 +131,8 @@ export async function POST(req: NextRequest) {
     // Create response with user info
     const response = sendSuccess(userInfo, "Login successful", 200);
 
-    // Set HTTP-only cookie with JWT token
-    response.cookies.set("token", token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-      path: "/",
-    });
+    // Set HTTP-only access and refresh token cookies
+    setAuthCookies(response, accessToken, refreshToken);
 
     return response;
   } catch (error) {
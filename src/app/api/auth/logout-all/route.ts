@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { clearAuthCookies, revokeAllSessions } from "@/lib/sessions";
+
+/**
+ * "Sign out everywhere": revoke every session of the current user,
+ * including the one making this request
+ */
+export async function POST(req: NextRequest) {
+  const context = { route: "/api/auth/logout-all", method: "POST" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const revokedCount = await revokeAllSessions(auth.userId!, "LOGOUT_ALL");
+
+    logger.info("All sessions revoked", {
+      route: context.route,
+      userId: auth.userId,
+      revokedCount,
+    });
+
+    const response = sendSuccess(
+      { revokedCount },
+      "Signed out of all devices",
+      200
+    );
+
+    clearAuthCookies(response);
+
+    return response;
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
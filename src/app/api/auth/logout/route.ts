@@ -1,26 +1,46 @@
-import { NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import {
+  REFRESH_TOKEN_COOKIE,
+  clearAuthCookies,
+  revokeSession,
+  revokeSessionByRefreshToken,
+} from "@/lib/sessions";
+
+/**
+ * Sign out of the current device: revoke its session server-side so the
+ * tokens stop working even if they were copied, then clear the cookies
+ */
+export async function POST(req: NextRequest) {
+  const context = { route: "/api/auth/logout", method: "POST" };
 
-export async function POST() {
   try {
-    const response = NextResponse.json(
-      { success: true, message: "Logged out successfully" },
-      { status: 200 }
-    );
+    const refreshToken = req.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+    let revoked = refreshToken
+      ? await revokeSessionByRefreshToken(refreshToken, "LOGOUT")
+      : false;
+
+    // API clients without the refresh cookie can sign out with their access token
+    if (!revoked) {
+      const auth = await verifyApiRequest(req);
+      if (auth.success && auth.sessionId) {
+        await revokeSession(auth.sessionId, "LOGOUT");
+        revoked = true;
+      }
+    }
+
+    logger.info("User logged out", { route: context.route, revoked });
+
+    const response = sendSuccess({ revoked }, "Logged out successfully", 200);
 
-    // Clear the auth token cookie
-    response.cookies.set("token", "", {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 0,
-    });
+    // Clear the auth cookies
+    clearAuthCookies(response);
 
     return response;
   } catch (error) {
-    console.error("Logout error:", error);
-    return NextResponse.json(
-      { success: false, error: "Internal server error" },
-      { status: 500 }
-    );
+    return handleError(error, context);
   }
 }
@@ -0,0 +1,62 @@
+import { NextRequest } from "next/server";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { getProjectRelationship } from "@/lib/authorization";
+import { listPermissions } from "@/lib/permissions";
+
+/**
+ * What the current user may do, so the UI can hide controls they can't use.
+ * Global permissions are always returned; pass ?projectId= to also get the
+ * permissions held on that project.
+ */
+export async function GET(req: NextRequest) {
+  const context = { route: "/api/auth/me/permissions", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const projectId = new URL(req.url).searchParams.get("projectId");
+
+    let project = null;
+    if (projectId !== null) {
+      if (!projectId) {
+        return handleValidationError("Invalid project ID", context);
+      }
+
+      const access = await getProjectRelationship(auth.userId!, projectId);
+      if (!access) {
+        return handleNotFound("Project", { ...context, projectId });
+      }
+
+      project = {
+        id: projectId,
+        isOwner: access.relationship.isOwner,
+        memberRole: access.relationship.memberRole,
+        permissions: listPermissions(auth, "project", {
+          type: "project",
+          relationship: access.relationship,
+        }),
+      };
+    }
+
+    return sendSuccess(
+      {
+        role: auth.userRole,
+        permissions: listPermissions(auth, "global"),
+        project,
+      },
+      "Permissions retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -4,7 +4,7 @@ import { sendSuccess } from "@/lib/responseHandler";
 
 export async function GET(req: NextRequest) {
   // Verify authentication
-  const authResult = verifyApiRequest(req);
+  const authResult = await verifyApiRequest(req);
 
   if (!authResult.success) {
     return authResult.error;
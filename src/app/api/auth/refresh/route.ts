@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sendSuccess, sendError } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { ERROR_CODES } from "@/lib/errorCodes";
+import { logger } from "@/lib/logger";
+import { ACCESS_TOKEN_TTL_SECONDS, signJWT } from "@/lib/auth";
+import {
+  REFRESH_TOKEN_COOKIE,
+  RotationResult,
+  clearAuthCookies,
+  rotateRefreshToken,
+  setAuthCookies,
+} from "@/lib/sessions";
+import { safeRedirectPath } from "@/lib/redirects";
+
+type RotatedSession = Extract<RotationResult, { status: "rotated" }>;
+
+/**
+ * Rotate the refresh token and mint a new access token
+ */
+async function refreshSession(
+  refreshToken: string,
+  context: { route: string; method: string }
+): Promise<
+  | { success: true; rotated: RotatedSession; accessToken: string }
+  | { success: false; status: RotationResult["status"] }
+> {
+  const result = await rotateRefreshToken(refreshToken);
+
+  if (result.status !== "rotated") {
+    if (result.status === "reused") {
+      logger.warn("Refresh token reuse detected; session revoked", context);
+    }
+    return { success: false, status: result.status };
+  }
+
+  const accessToken = signJWT({
+    id: result.user.id,
+    email: result.user.email,
+    role: result.user.role,
+    sid: result.session.id,
+  });
+
+  logger.info("Session refreshed", {
+    ...context,
+    userId: result.user.id,
+    sessionId: result.session.id,
+  });
+
+  return { success: true, rotated: result, accessToken };
+}
+
+/**
+ * Exchange a refresh token (cookie, or `refreshToken` in the JSON body for
+ * non-browser clients) for a new access token and refresh token
+ */
+export async function POST(req: NextRequest) {
+  const context = { route: "/api/auth/refresh", method: "POST" };
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const bodyToken =
+      typeof body?.refreshToken === "string" ? body.refreshToken : null;
+    const refreshToken =
+      bodyToken ?? req.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+    if (!refreshToken) {
+      return sendError(
+        "Refresh token is missing",
+        ERROR_CODES.MISSING_TOKEN,
+        401
+      );
+    }
+
+    const result = await refreshSession(refreshToken, context);
+
+    if (!result.success) {
+      const response = sendError(
+        result.status === "invalid"
+          ? "Invalid refresh token"
+          : "Session has been revoked or has expired",
+        result.status === "invalid"
+          ? ERROR_CODES.INVALID_TOKEN
+          : ERROR_CODES.SESSION_REVOKED,
+        401
+      );
+      clearAuthCookies(response);
+      return response;
+    }
+
+    const { user, refreshToken: nextRefreshToken } = result.rotated;
+
+    const response = sendSuccess(
+      {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+        },
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+        // Cookie-less clients need the new tokens in the body
+        ...(bodyToken
+          ? { accessToken: result.accessToken, refreshToken: nextRefreshToken }
+          : {}),
+      },
+      "Session refreshed",
+      200
+    );
+
+    setAuthCookies(response, result.accessToken, nextRefreshToken);
+
+    return response;
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Browser navigation variant used by the page middleware when the access
+ * token has expired: refresh, then send the user back to `?redirect=`
+ * (or to the login page if the session is gone)
+ */
+export async function GET(req: NextRequest) {
+  const context = { route: "/api/auth/refresh", method: "GET" };
+
+  try {
+    const redirectPath = safeRedirectPath(
+      req.nextUrl.searchParams.get("redirect")
+    );
+    const refreshToken = req.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+    const result = refreshToken
+      ? await refreshSession(refreshToken, context)
+      : null;
+
+    if (!result?.success) {
+      const loginUrl = new URL("/login", req.url);
+      loginUrl.searchParams.set("redirect", redirectPath);
+      loginUrl.searchParams.set("reason", "session_expired");
+
+      const response = NextResponse.redirect(loginUrl);
+      clearAuthCookies(response);
+      return response;
+    }
+
+    const response = NextResponse.redirect(new URL(redirectPath, req.url));
+    setAuthCookies(response, result.accessToken, result.rotated.refreshToken);
+    return response;
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess, sendError } from "@/lib/responseHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
+import { ERROR_CODES } from "@/lib/errorCodes";
+import { logger } from "@/lib/logger";
+import { hashPassword } from "@/lib/password";
+import { consumeAuthToken } from "@/lib/authTokens";
+import { revokeAllSessions } from "@/lib/sessions";
+import { clearFailedLogins } from "@/lib/rateLimit";
+import { normalizeEmail } from "@/lib/auth";
+
+/**
+ * Set a new password using the token from the reset link.
+ * Every existing session is signed out afterwards.
+ */
+export async function POST(req: NextRequest) {
+  const context = { route: "/api/auth/reset-password", method: "POST" };
+
+  try {
+    const body = await req.json();
+    const { token, password } = body;
+
+    if (!token || typeof token !== "string") {
+      return handleValidationError("Reset token is required", context);
+    }
+
+    if (!password || typeof password !== "string" || password.length < 6) {
+      return handleValidationError(
+        "Password is required and must be at least 6 characters",
+        context
+      );
+    }
+
+    const userId = await consumeAuthToken(token, "PASSWORD_RESET");
+
+    if (!userId) {
+      return sendError(
+        "Reset link is invalid or has expired",
+        ERROR_CODES.INVALID_TOKEN,
+        400
+      );
+    }
+
+    const hashedPassword = await hashPassword(password);
+
+    // Following the emailed link also proves the address is theirs
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: hashedPassword,
+        emailVerifiedAt: new Date(),
+      },
+      select: { id: true, email: true },
+    });
+
+    const revokedCount = await revokeAllSessions(user.id, "PASSWORD_RESET");
+    await clearFailedLogins(normalizeEmail(user.email));
+
+    logger.info("Password reset", {
+      route: context.route,
+      userId: user.id,
+      revokedCount,
+    });
+
+    return sendSuccess(
+      { reset: true },
+      "Password updated. Please sign in with your new password.",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -4,13 +4,32 @@ import { sendSuccess } from "@/lib/responseHandler";
 import { handleError, handleValidationError } from "@/lib/errorHandler";
 import { logger } from "@/lib/logger";
 import { hashPassword } from "@/lib/password";
-import { signJWT } from "@/lib/auth";
+import { sendVerificationEmail } from "@/lib/authTokens";
 import { redis } from "../../../../../lib/redis";
+import { recordActivity } from "@/lib/activity";
+import { enforceRateLimits, getClientIp } from "@/lib/rateLimit";
+import { normalizeEmail } from "@/lib/auth";
 
 export async function POST(req: NextRequest) {
   const context = { route: "/api/auth/signup", method: "POST" };
 
   try {
+    // Slow down scripted account creation
+    const limited = await enforceRateLimits(
+      [
+        {
+          name: "signup:ip",
+          limit: 10,
+          windowSeconds: 60 * 60,
+          identifier: getClientIp(req),
+        },
+      ],
+      context
+    );
+    if (limited) {
+      return limited;
+    }
+
     const body = await req.json();
     const { email, name, password } = body;
 
@@ -29,9 +48,11 @@ export async function POST(req: NextRequest) {
       return handleValidationError("Name must be a string", context);
     }
 
+    const normalizedEmail = normalizeEmail(email);
+
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
-      where: { email },
+      where: { email: normalizedEmail },
     });
 
     if (existingUser) {
@@ -41,29 +62,47 @@ export async function POST(req: NextRequest) {
     // Hash password
     const hashedPassword = await hashPassword(password);
 
-    // Create user
-    const newUser = await prisma.user.create({
-      data: {
-        email,
-        name: name || null,
-        password: hashedPassword,
-      },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
+    // Create user (the new user is their own actor in the ledger)
+    const newUser = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.create({
+        data: {
+          email: normalizedEmail,
+          name: name || null,
+          password: hashedPassword,
+        },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
 
-    // Generate JWT for auto-login
-    const token = signJWT({
-      id: newUser.id,
-      email: newUser.email,
-      role: newUser.role,
+      await recordActivity(tx, {
+        actor: { userId: user.id, userEmail: user.email },
+        entityType: "USER",
+        entityId: user.id,
+        action: "CREATE",
+        after: user,
+      });
+
+      return user;
     });
+
+    // No session until the address is confirmed; a failed send can be
+    // retried from the login page
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (mailError) {
+      logger.warn("Verification email could not be sent", {
+        route: context.route,
+        userId: newUser.id,
+        mailError,
+      });
+    }
+
     logger.info("User created successfully", {
       route: context.route,
       userId: newUser.id,
@@ -76,6 +115,7 @@ export async function POST(req: NextRequest) {
       email: newUser.email,
       name: newUser.name,
       role: newUser.role,
+      emailVerified: false,
     };
 
     // Best-effort cache invalidation for Redis cached users list
@@ -88,19 +128,11 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // Create response with user info
-    const response = sendSuccess(userInfo, "User created successfully", 201);
-
-    // Set HTTP-only cookie with JWT token for auto-login
-    response.cookies.set("token", token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-      path: "/",
-    });
-
-    return response;
+    return sendSuccess(
+      userInfo,
+      "Account created. Check your email to verify your address.",
+      201
+    );
   } catch (error) {
     return handleError(error, context);
   }
@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { revokeApiToken } from "@/lib/apiTokens";
+
+/**
+ * Revoke one of the current user's API tokens
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/auth/tokens/[id]", method: "DELETE" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid token ID", context);
+    }
+
+    const revoked = await revokeApiToken(auth.userId!, id);
+
+    if (!revoked) {
+      return handleNotFound("API token", { ...context, tokenId: id });
+    }
+
+    logger.info("API token revoked", {
+      route: context.route,
+      userId: auth.userId,
+      tokenId: id,
+    });
+
+    return sendSuccess({ id }, "API token revoked", 200);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { forbiddenResponse } from "@/lib/authorization";
+import { can } from "@/lib/permissions";
+import {
+  MAX_API_TOKEN_TTL_DAYS,
+  apiTokenSelect,
+  createApiToken,
+  isApiTokenScope,
+} from "@/lib/apiTokens";
+
+const MAX_NAME_LENGTH = 100;
+const MAX_ACTIVE_TOKENS = 25;
+
+/**
+ * List the current user's personal API tokens (newest first)
+ */
+export async function GET(req: NextRequest) {
+  const context = { route: "/api/auth/tokens", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: auth.userId! },
+      select: apiTokenSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return sendSuccess({ tokens }, "API tokens retrieved successfully", 200);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Create a personal API token.
+ * Body: { name, scopes: ("read" | "write" | "admin")[], expiresInDays?: number | null }
+ * The raw token is only returned in this response.
+ */
+export async function POST(req: NextRequest) {
+  const context = { route: "/api/auth/tokens", method: "POST" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    // A leaked token must not be able to mint more tokens
+    if (auth.apiTokenId) {
+      return forbiddenResponse("API tokens cannot be used to create tokens");
+    }
+
+    const body = await req.json();
+    const { name, scopes, expiresInDays } = body;
+
+    if (
+      !name ||
+      typeof name !== "string" ||
+      name.trim().length > MAX_NAME_LENGTH
+    ) {
+      return handleValidationError(
+        `Name is required and must be at most ${MAX_NAME_LENGTH} characters`,
+        context
+      );
+    }
+
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every(isApiTokenScope)
+    ) {
+      return handleValidationError(
+        "Scopes must be a non-empty list of read, write and admin",
+        context
+      );
+    }
+
+    if (scopes.includes("admin") && !can(auth, "admin:access")) {
+      return handleValidationError(
+        "Only admins can create tokens with the admin scope",
+        context
+      );
+    }
+
+    if (
+      expiresInDays !== undefined &&
+      expiresInDays !== null &&
+      (!Number.isInteger(expiresInDays) ||
+        expiresInDays < 1 ||
+        expiresInDays > MAX_API_TOKEN_TTL_DAYS)
+    ) {
+      return handleValidationError(
+        `expiresInDays must be a whole number between 1 and ${MAX_API_TOKEN_TTL_DAYS}, or null for no expiry`,
+        context
+      );
+    }
+
+    const activeCount = await prisma.apiToken.count({
+      where: {
+        userId: auth.userId!,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+
+    if (activeCount >= MAX_ACTIVE_TOKENS) {
+      return handleValidationError(
+        `You can have at most ${MAX_ACTIVE_TOKENS} active tokens; revoke one first`,
+        context
+      );
+    }
+
+    const expiresAt = expiresInDays
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const { record, token } = await createApiToken(
+      auth.userId!,
+      name.trim(),
+      [...new Set(scopes)],
+      expiresAt
+    );
+
+    logger.info("API token created", {
+      route: context.route,
+      userId: auth.userId,
+      tokenId: record.id,
+      scopes: record.scopes,
+    });
+
+    return sendSuccess(
+      { ...record, token },
+      "API token created. Copy it now; it will not be shown again.",
+      201
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { sendVerificationEmail } from "@/lib/authTokens";
+import { enforceRateLimits, getClientIp } from "@/lib/rateLimit";
+import { normalizeEmail } from "@/lib/auth";
+
+/**
+ * Send a fresh verification link. The response is the same whether or not
+ * the address belongs to an unverified account.
+ */
+export async function POST(req: NextRequest) {
+  const context = { route: "/api/auth/verify-email/resend", method: "POST" };
+
+  try {
+    const body = await req.json();
+    const { email } = body;
+
+    if (!email || typeof email !== "string") {
+      return handleValidationError("Email is required", context);
+    }
+
+    const account = normalizeEmail(email);
+
+    const limited = await enforceRateLimits(
+      [
+        {
+          name: "verify-resend:ip",
+          limit: 10,
+          windowSeconds: 60 * 60,
+          identifier: getClientIp(req),
+        },
+        {
+          name: "verify-resend:account",
+          limit: 3,
+          windowSeconds: 60 * 60,
+          identifier: account,
+        },
+      ],
+      context
+    );
+    if (limited) {
+      return limited;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: account },
+      select: { id: true, email: true, name: true, emailVerifiedAt: true },
+    });
+
+    if (user && !user.emailVerifiedAt) {
+      await sendVerificationEmail(user);
+      logger.info("Verification email re-sent", {
+        route: context.route,
+        userId: user.id,
+      });
+    }
+
+    return sendSuccess(
+      { sent: true },
+      "If that account still needs verifying, a new link is on its way.",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
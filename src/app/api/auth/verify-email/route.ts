@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess, sendError } from "@/lib/responseHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
+import { ERROR_CODES } from "@/lib/errorCodes";
+import { logger } from "@/lib/logger";
+import { consumeAuthToken } from "@/lib/authTokens";
+
+/**
+ * Confirm an email address with the token from the verification link
+ */
+export async function POST(req: NextRequest) {
+  const context = { route: "/api/auth/verify-email", method: "POST" };
+
+  try {
+    const body = await req.json();
+    const { token } = body;
+
+    if (!token || typeof token !== "string") {
+      return handleValidationError("Verification token is required", context);
+    }
+
+    const userId = await consumeAuthToken(token, "EMAIL_VERIFICATION");
+
+    if (!userId) {
+      return sendError(
+        "Verification link is invalid or has expired",
+        ERROR_CODES.INVALID_TOKEN,
+        400
+      );
+    }
+
+    await prisma.user.updateMany({
+      where: { id: userId, emailVerifiedAt: null },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    logger.info("Email verified", { route: context.route, userId });
+
+    return sendSuccess(
+      { verified: true },
+      "Email verified successfully. You can now sign in.",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import {
+  authorizeProjectAction,
+  forbiddenResponse,
+} from "@/lib/authorization";
+import {
+  commentSelect,
+  recordCommentActivity,
+  validateCommentBody,
+} from "@/lib/comments";
+
+/**
+ * Edit a comment (author only)
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/comments/[id]", method: "PATCH" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const { body: commentBody } = body;
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid comment ID", context);
+    }
+
+    const bodyError = validateCommentBody(commentBody);
+    if (bodyError) {
+      return handleValidationError(bodyError, context);
+    }
+
+    const existingComment = await prisma.comment.findUnique({
+      where: { id },
+    });
+
+    if (!existingComment) {
+      return handleNotFound("Comment", { ...context, commentId: id });
+    }
+
+    if (existingComment.authorId !== auth.userId) {
+      return forbiddenResponse("Only the author can edit a comment");
+    }
+
+    const updatedComment = await prisma.$transaction(async (tx) => {
+      const updated = await tx.comment.update({
+        where: { id },
+        data: {
+          body: commentBody.trim(),
+          editedAt: new Date(),
+        },
+        select: commentSelect,
+      });
+
+      await recordCommentActivity(tx, auth, existingComment, updated);
+
+      return updated;
+    });
+
+    logger.info("Comment updated successfully", {
+      route: context.route,
+      commentId: id,
+    });
+
+    return sendSuccess(updatedComment, "Comment updated successfully", 200);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Delete a comment and its replies.
+ * Authors may delete their own comments; moderators may delete any.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/comments/[id]", method: "DELETE" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid comment ID", context);
+    }
+
+    const existingComment = await prisma.comment.findUnique({
+      where: { id },
+    });
+
+    if (!existingComment) {
+      return handleNotFound("Comment", { ...context, commentId: id });
+    }
+
+    if (existingComment.authorId !== auth.userId) {
+      const access = await authorizeProjectAction(
+        auth,
+        existingComment.projectId,
+        "comment:moderate",
+        context
+      );
+      if (!access.success) {
+        return access.error;
+      }
+    }
+
+    // Replies are removed with their parent (onDelete: Cascade)
+    await prisma.$transaction(async (tx) => {
+      await tx.comment.delete({
+        where: { id },
+      });
+
+      await recordCommentActivity(tx, auth, existingComment, null);
+    });
+
+    logger.info("Comment deleted successfully", {
+      route: context.route,
+      commentId: id,
+    });
+
+    return sendSuccess(
+      { message: "Comment deleted successfully" },
+      "Comment deleted successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
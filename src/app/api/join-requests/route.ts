@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { joinRequestSelect } from "@/lib/joinRequests";
+
+/**
+ * List the authenticated user's own join requests across all projects
+ */
+export async function GET(req: NextRequest) {
+  const context = { route: "/api/join-requests", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+    const userId = auth.userId!;
+
+    const joinRequests = await prisma.joinRequest.findMany({
+      where: { userId },
+      select: joinRequestSelect,
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    });
+
+    logger.info("Join requests retrieved successfully", {
+      route: context.route,
+      userId,
+      totalCount: joinRequests.length,
+    });
+
+    return sendSuccess(
+      { joinRequests },
+      "Join requests retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { notificationSelect } from "@/lib/notifications";
+
+/**
+ * Mark one of the current user's notifications read or unread.
+ * Body: { read: boolean }
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/notifications/[id]", method: "PATCH" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const { read } = body;
+
+    if (typeof read !== "boolean") {
+      return handleValidationError("Read must be a boolean", context);
+    }
+
+    // Scoped to the caller so other users' notifications look missing
+    const { count } = await prisma.notification.updateMany({
+      where: { id, userId: auth.userId! },
+      data: { readAt: read ? new Date() : null },
+    });
+
+    if (count === 0) {
+      return handleNotFound("Notification", { ...context, notificationId: id });
+    }
+
+    const notification = await prisma.notification.findUnique({
+      where: { id },
+      select: notificationSelect,
+    });
+
+    return sendSuccess(notification, "Notification updated successfully", 200);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError } from "@/lib/errorHandler";
+import { verifyApiRequest } from "@/lib/apiAuth";
+
+/**
+ * Mark all of the current user's notifications as read
+ */
+export async function POST(req: NextRequest) {
+  const context = { route: "/api/notifications/read-all", method: "POST" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { count } = await prisma.notification.updateMany({
+      where: { userId: auth.userId!, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return sendSuccess(
+      { updatedCount: count },
+      "All notifications marked as read",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
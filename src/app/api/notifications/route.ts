@@ -0,0 +1,70 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { notificationSelect } from "@/lib/notifications";
+
+/**
+ * List the current user's notifications, newest first, with the number
+ * still unread.
+ * Query: ?unread=true&page=&limit=
+ */
+export async function GET(req: NextRequest) {
+  const context = { route: "/api/notifications", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const unreadOnly = searchParams.get("unread") === "true";
+    const page = parseInt(searchParams.get("page") || "1", 10);
+    const limit = parseInt(searchParams.get("limit") || "20", 10);
+
+    // Validate pagination params
+    if (page < 1 || limit < 1 || limit > 100) {
+      return handleValidationError(
+        "Invalid pagination parameters. Page and limit must be positive, limit must not exceed 100.",
+        context
+      );
+    }
+
+    const userId = auth.userId!;
+    const where = {
+      userId,
+      ...(unreadOnly ? { readAt: null } : {}),
+    };
+
+    const [total, unreadCount, notifications] = await Promise.all([
+      prisma.notification.count({ where }),
+      prisma.notification.count({ where: { userId, readAt: null } }),
+      prisma.notification.findMany({
+        where,
+        select: notificationSelect,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return sendSuccess(
+      {
+        notifications,
+        unreadCount,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+      "Notifications retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
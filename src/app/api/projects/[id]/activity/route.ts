@@ -0,0 +1,94 @@
+import { NextRequest } from "next/server";
+import type { ActivityEntity } from "@prisma/client";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { ACTIVITY_ENTITIES, listActivity } from "@/lib/activity";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/activity", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+    const page = parseInt(searchParams.get("page") || "1", 10);
+    const limit = parseInt(searchParams.get("limit") || "20", 10);
+    const entityType = searchParams.get("entityType");
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid project ID", context);
+    }
+
+    // Validate pagination params
+    if (page < 1 || limit < 1 || limit > 100) {
+      return handleValidationError("Invalid pagination parameters", {
+        ...context,
+        projectId: id,
+      });
+    }
+
+    if (
+      entityType &&
+      !ACTIVITY_ENTITIES.includes(entityType as ActivityEntity)
+    ) {
+      return handleValidationError("Invalid entityType filter", {
+        ...context,
+        projectId: id,
+      });
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "activity:view",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const { total, events } = await listActivity(
+      {
+        projectId: id,
+        ...(entityType ? { entityType: entityType as ActivityEntity } : {}),
+      },
+      page,
+      limit
+    );
+
+    logger.info("Project activity retrieved successfully", {
+      route: context.route,
+      projectId: id,
+      page,
+      limit,
+      totalCount: total,
+    });
+
+    return sendSuccess(
+      {
+        events,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+      "Project activity retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import {
+  commentSelect,
+  listComments,
+  recordCommentActivity,
+  validateCommentBody,
+  validateParentComment,
+} from "@/lib/comments";
+import { notifyComment } from "@/lib/notifications";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/comments", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+    const page = parseInt(searchParams.get("page") || "1", 10);
+    const limit = parseInt(searchParams.get("limit") || "20", 10);
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid project ID", context);
+    }
+
+    // Validate pagination params
+    if (page < 1 || limit < 1 || limit > 100) {
+      return handleValidationError("Invalid pagination parameters", {
+        ...context,
+        projectId: id,
+      });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return handleNotFound("Project", { ...context, projectId: id });
+    }
+
+    const { total, comments } = await listComments(
+      { projectId: id, taskId: null },
+      page,
+      limit
+    );
+
+    logger.info("Project comments retrieved successfully", {
+      route: context.route,
+      projectId: id,
+      page,
+      limit,
+      totalCount: total,
+    });
+
+    return sendSuccess(
+      {
+        comments,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+      "Comments retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/comments", method: "POST" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const { body: commentBody, parentId } = body;
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid project ID", context);
+    }
+
+    const bodyError = validateCommentBody(commentBody);
+    if (bodyError) {
+      return handleValidationError(bodyError, context);
+    }
+
+    if (
+      parentId !== undefined &&
+      parentId !== null &&
+      typeof parentId !== "string"
+    ) {
+      return handleValidationError("ParentId must be a string", context);
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "comment:create",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const scope = { projectId: id, taskId: null };
+
+    if (parentId) {
+      const parentError = await validateParentComment(parentId, scope);
+      if (parentError) {
+        return handleValidationError(parentError, context);
+      }
+    }
+
+    const comment = await prisma.$transaction(async (tx) => {
+      const created = await tx.comment.create({
+        data: {
+          ...scope,
+          body: commentBody.trim(),
+          authorId: auth.userId!,
+          parentId: parentId || null,
+        },
+        select: commentSelect,
+      });
+
+      await recordCommentActivity(tx, auth, null, created);
+
+      return created;
+    });
+
+    logger.info("Comment created successfully", {
+      route: context.route,
+      projectId: id,
+      commentId: comment.id,
+    });
+
+    await notifyComment(auth, comment);
+
+    return sendSuccess(comment, "Comment created successfully", 201);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError, handleNotFound } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { recordActivity } from "@/lib/activity";
+import { publishProjectEvent } from "@/lib/realtime";
+import { getBlockerIds } from "@/lib/dependencies";
+
+/**
+ * Remove a dependency link
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; dependencyId: string }> }
+) {
+  const context = {
+    route: "/api/projects/[id]/dependencies/[dependencyId]",
+    method: "DELETE",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id, dependencyId } = await params;
+
+    const dependency = await prisma.taskDependency.findUnique({
+      where: { id: dependencyId },
+      select: { id: true, projectId: true, blockedId: true },
+    });
+
+    if (!dependency || dependency.projectId !== id) {
+      return handleNotFound("Dependency", {
+        ...context,
+        projectId: id,
+        dependencyId,
+      });
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "task:update",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const blockerIdsBefore = await getBlockerIds(tx, dependency.blockedId);
+
+      await tx.taskDependency.delete({ where: { id: dependencyId } });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "TASK",
+        entityId: dependency.blockedId,
+        projectId: id,
+        action: "UPDATE",
+        before: { blockedByIds: blockerIdsBefore },
+        after: { blockedByIds: await getBlockerIds(tx, dependency.blockedId) },
+      });
+    });
+
+    logger.info("Dependency deleted successfully", {
+      route: context.route,
+      projectId: id,
+      dependencyId,
+    });
+
+    await publishProjectEvent(id, auth, {
+      type: "dependency.deleted",
+      dependencyId,
+    });
+
+    return sendSuccess(
+      { message: "Dependency deleted successfully" },
+      "Dependency deleted successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
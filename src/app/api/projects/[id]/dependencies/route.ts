@@ -0,0 +1,194 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { recordActivity } from "@/lib/activity";
+import { lockProject } from "@/lib/ledger";
+import { publishProjectEvent } from "@/lib/realtime";
+import {
+  dependencySelect,
+  getBlockerIds,
+  listProjectDependencies,
+} from "@/lib/dependencies";
+import { wouldCreateCycle } from "@/lib/dependencyGraph";
+
+type ProjectDependency = Awaited<
+  ReturnType<typeof listProjectDependencies>
+>[number];
+
+/**
+ * List the dependency links between a project's tasks
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/dependencies", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return handleNotFound("Project", { ...context, projectId: id });
+    }
+
+    const dependencies = await listProjectDependencies(id);
+
+    return sendSuccess(
+      { dependencies },
+      "Dependencies retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Make one task block another.
+ * Body: { blockerId, blockedId } - `blockerId` must be done before
+ * `blockedId` can start
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/dependencies", method: "POST" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    const { blockerId, blockedId } = await req.json();
+
+    if (
+      !blockerId ||
+      typeof blockerId !== "string" ||
+      !blockedId ||
+      typeof blockedId !== "string"
+    ) {
+      return handleValidationError(
+        "blockerId and blockedId are required and must be strings",
+        context
+      );
+    }
+
+    if (blockerId === blockedId) {
+      return handleValidationError("A task cannot block itself", context);
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "task:update",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const taskCount = await prisma.task.count({
+      where: { id: { in: [blockerId, blockedId] }, projectId: id },
+    });
+    if (taskCount !== 2) {
+      return handleValidationError("Both tasks must belong to this project", {
+        ...context,
+        projectId: id,
+        blockerId,
+        blockedId,
+      });
+    }
+
+    // Check for loops against the links as they are inside the transaction.
+    // The project lock makes concurrent additions take turns: otherwise A→B
+    // and B→A could each see an acyclic graph and both be inserted.
+    const result = await prisma.$transaction<
+      { error: string } | { dependency: ProjectDependency }
+    >(async (tx) => {
+      await lockProject(tx, id);
+      const links = await listProjectDependencies(id, tx);
+
+      if (
+        links.some(
+          (link) => link.blockerId === blockerId && link.blockedId === blockedId
+        )
+      ) {
+        return { error: "This dependency already exists" };
+      }
+
+      if (wouldCreateCycle(links, blockerId, blockedId)) {
+        return {
+          error:
+            "This dependency would create a cycle: the blocked task already blocks the other one",
+        };
+      }
+
+      const blockerIdsBefore = await getBlockerIds(tx, blockedId);
+
+      const dependency = await tx.taskDependency.create({
+        data: { projectId: id, blockerId, blockedId, createdById: auth.userId },
+        select: dependencySelect,
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "TASK",
+        entityId: blockedId,
+        projectId: id,
+        action: "UPDATE",
+        before: { blockedByIds: blockerIdsBefore },
+        after: { blockedByIds: await getBlockerIds(tx, blockedId) },
+      });
+
+      return { dependency };
+    });
+
+    if ("error" in result) {
+      return handleValidationError(result.error, {
+        ...context,
+        projectId: id,
+        blockerId,
+        blockedId,
+      });
+    }
+
+    logger.info("Dependency created successfully", {
+      route: context.route,
+      projectId: id,
+      dependencyId: result.dependency.id,
+    });
+
+    await publishProjectEvent(id, auth, {
+      type: "dependency.created",
+      dependency: result.dependency,
+    });
+
+    return sendSuccess(
+      result.dependency,
+      "Dependency created successfully",
+      201
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
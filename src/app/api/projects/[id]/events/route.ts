@@ -0,0 +1,113 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { handleError, handleNotFound } from "@/lib/errorHandler";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { ACCESS_TOKEN_TTL_SECONDS } from "@/lib/auth";
+import { subscribeToProject } from "@/lib/realtime";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Comment line sent periodically so proxies keep the connection open */
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+/** How long EventSource waits before reconnecting after the stream ends */
+const RECONNECT_DELAY_MS = 3 * 1000;
+
+/**
+ * Streams are closed when the access token they were opened with expires,
+ * so the client reconnects and is authenticated again
+ */
+const MAX_STREAM_DURATION_MS = ACCESS_TOKEN_TTL_SECONDS * 1000;
+
+/**
+ * Server-Sent Events stream of a project's task and project changes.
+ * Each event's data is a JSON ProjectEventMessage; an initial `ready` event
+ * tells the client the subscription is live.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/events", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return handleNotFound("Project", { ...context, projectId: id });
+    }
+
+    const encoder = new TextEncoder();
+    let close = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+
+        const send = (chunk: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            close();
+          }
+        };
+
+        const unsubscribe = subscribeToProject(id, (message) => {
+          send(`data: ${JSON.stringify(message)}\n\n`);
+        });
+
+        const heartbeat = setInterval(
+          () => send(": heartbeat\n\n"),
+          HEARTBEAT_INTERVAL_MS
+        );
+        const expiry = setTimeout(() => close(), MAX_STREAM_DURATION_MS);
+
+        close = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          clearTimeout(expiry);
+          unsubscribe();
+          req.signal.removeEventListener("abort", close);
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        req.signal.addEventListener("abort", close);
+
+        send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+        send(`event: ready\ndata: {"projectId":${JSON.stringify(id)}}\n\n`);
+      },
+      cancel() {
+        close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        // Stop nginx from buffering the stream
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
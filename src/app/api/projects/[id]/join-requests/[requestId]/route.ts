@@ -0,0 +1,205 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendError, sendSuccess } from "@/lib/responseHandler";
+import { ERROR_CODES } from "@/lib/errorCodes";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { revalidateTag } from "next/cache";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction, forbiddenResponse } from "@/lib/authorization";
+import { recordActivity } from "@/lib/activity";
+import {
+  joinRequestSelect,
+  JOIN_REQUEST_ACTIONS,
+  JoinRequestAction,
+} from "@/lib/joinRequests";
+
+const MAX_NOTE_LENGTH = 500;
+
+const STATUS_BY_ACTION = {
+  approve: "APPROVED",
+  reject: "REJECTED",
+  cancel: "CANCELLED",
+} as const;
+
+/**
+ * Review a join request.
+ * - approve / reject: callers with member:invite (owner, admins)
+ * - cancel: the requester only
+ * Only PENDING requests can change state.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; requestId: string }> }
+) {
+  const context = {
+    route: "/api/projects/[id]/join-requests/[requestId]",
+    method: "PATCH",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+    const userId = auth.userId!;
+
+    const { id, requestId } = await params;
+    const body = await req.json();
+    const { action, note } = body;
+
+    // Validate IDs
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid project ID", context);
+    }
+
+    if (!requestId || typeof requestId !== "string") {
+      return handleValidationError("Invalid join request ID", context);
+    }
+
+    if (!JOIN_REQUEST_ACTIONS.includes(action)) {
+      return handleValidationError(
+        `Action must be one of: ${JOIN_REQUEST_ACTIONS.join(", ")}`,
+        context
+      );
+    }
+
+    if (note !== undefined && note !== null) {
+      if (typeof note !== "string") {
+        return handleValidationError("Note must be a string", context);
+      }
+      if (note.length > MAX_NOTE_LENGTH) {
+        return handleValidationError(
+          `Note must be at most ${MAX_NOTE_LENGTH} characters`,
+          context
+        );
+      }
+    }
+
+    const joinRequest = await prisma.joinRequest.findFirst({
+      where: { id: requestId, projectId: id },
+    });
+
+    if (!joinRequest) {
+      return handleNotFound("Join request", {
+        ...context,
+        projectId: id,
+        joinRequestId: requestId,
+      });
+    }
+
+    const reviewAction = action as JoinRequestAction;
+
+    if (reviewAction === "cancel") {
+      if (joinRequest.userId !== userId) {
+        return forbiddenResponse(
+          "Only the requester can cancel a join request"
+        );
+      }
+    } else {
+      const access = await authorizeProjectAction(
+        auth,
+        id,
+        "member:invite",
+        context
+      );
+      if (!access.success) {
+        return access.error;
+      }
+    }
+
+    if (joinRequest.status !== "PENDING") {
+      return sendError(
+        `Join request has already been ${joinRequest.status.toLowerCase()}`,
+        ERROR_CODES.CONFLICT,
+        409
+      );
+    }
+
+    const status = STATUS_BY_ACTION[reviewAction];
+
+    const updatedRequest = await prisma.$transaction(async (tx) => {
+      // Only a still-pending request changes state, so of two reviews sent
+      // at the same time (say approve and reject) exactly one wins
+      const { count } = await tx.joinRequest.updateMany({
+        where: { id: requestId, status: "PENDING" },
+        data: {
+          status,
+          reviewNote: note?.trim() || null,
+          reviewedById: reviewAction === "cancel" ? null : userId,
+          reviewedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      // Approving a request is what grants membership
+      if (status === "APPROVED") {
+        const existingMember = await tx.projectMember.findUnique({
+          where: {
+            projectId_userId: { projectId: id, userId: joinRequest.userId },
+          },
+          select: { id: true },
+        });
+
+        if (!existingMember) {
+          const member = await tx.projectMember.create({
+            data: { projectId: id, userId: joinRequest.userId },
+            select: { userId: true, role: true },
+          });
+
+          await recordActivity(tx, {
+            actor: auth,
+            entityType: "PROJECT",
+            entityId: id,
+            projectId: id,
+            action: "UPDATE",
+            before: { member: null },
+            after: { member },
+          });
+        }
+      }
+
+      return tx.joinRequest.findUniqueOrThrow({
+        where: { id: requestId },
+        select: joinRequestSelect,
+      });
+    });
+
+    if (!updatedRequest) {
+      return sendError(
+        "Join request has already been reviewed",
+        ERROR_CODES.CONFLICT,
+        409
+      );
+    }
+
+    logger.info("Join request updated successfully", {
+      route: context.route,
+      projectId: id,
+      joinRequestId: requestId,
+      status,
+      userId,
+    });
+
+    if (status === "APPROVED") {
+      // Invalidate relevant caches after a successful write
+      revalidateTag("projects", { expire: 0 });
+      revalidateTag(`project:${id}`, { expire: 0 });
+    }
+
+    return sendSuccess(
+      updatedRequest,
+      `Join request ${status.toLowerCase()} successfully`,
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
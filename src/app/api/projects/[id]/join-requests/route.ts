@@ -0,0 +1,214 @@
+import { NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendError, sendSuccess } from "@/lib/responseHandler";
+import { ERROR_CODES } from "@/lib/errorCodes";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { joinRequestSelect } from "@/lib/joinRequests";
+import { getProjectRelationship } from "@/lib/authorization";
+import { can } from "@/lib/permissions";
+import { recordActivity } from "@/lib/activity";
+import { notifyJoinRequest } from "@/lib/notifications";
+
+const MAX_MESSAGE_LENGTH = 500;
+
+function pendingRequestConflict() {
+  return sendError(
+    "You already have a pending request for this project",
+    ERROR_CODES.CONFLICT,
+    409
+  );
+}
+
+/**
+ * List join requests for a project.
+ * Reviewers (owner, admins) see every request; anyone else only sees their own.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/join-requests", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+    const userId = auth.userId!;
+
+    const { id } = await params;
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid project ID", context);
+    }
+
+    const access = await getProjectRelationship(userId, id);
+
+    if (!access) {
+      return handleNotFound("Project", { ...context, projectId: id });
+    }
+
+    const canReview = can(auth, "member:invite", {
+      type: "project",
+      relationship: access.relationship,
+    });
+
+    const joinRequests = await prisma.joinRequest.findMany({
+      where: canReview ? { projectId: id } : { projectId: id, userId },
+      select: joinRequestSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    logger.info("Join requests retrieved successfully", {
+      route: context.route,
+      projectId: id,
+      totalCount: joinRequests.length,
+      canReview,
+    });
+
+    return sendSuccess(
+      { joinRequests },
+      "Join requests retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Ask to join a project. The owner approves or rejects it later.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/join-requests", method: "POST" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+    const userId = auth.userId!;
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const { message } = body;
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid project ID", context);
+    }
+
+    if (message !== undefined && message !== null) {
+      if (typeof message !== "string") {
+        return handleValidationError("Message must be a string", context);
+      }
+      if (message.length > MAX_MESSAGE_LENGTH) {
+        return handleValidationError(
+          `Message must be at most ${MAX_MESSAGE_LENGTH} characters`,
+          context
+        );
+      }
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+    });
+
+    if (!project) {
+      return handleNotFound("Project", { ...context, projectId: id });
+    }
+
+    if (project.ownerId === userId) {
+      return handleValidationError(
+        "Project owners cannot request to join their own project",
+        context
+      );
+    }
+
+    const [existingMember, pendingRequest] = await Promise.all([
+      prisma.projectMember.findUnique({
+        where: { projectId_userId: { projectId: id, userId } },
+      }),
+      prisma.joinRequest.findFirst({
+        where: { projectId: id, userId, status: "PENDING" },
+      }),
+    ]);
+
+    if (existingMember) {
+      return handleValidationError(
+        "You are already a member of this project",
+        context
+      );
+    }
+
+    if (pendingRequest) {
+      return pendingRequestConflict();
+    }
+
+    let joinRequest;
+    try {
+      joinRequest = await prisma.$transaction(async (tx) => {
+        const created = await tx.joinRequest.create({
+          data: {
+            projectId: id,
+            userId,
+            message: message?.trim() || null,
+          },
+          select: joinRequestSelect,
+        });
+
+        await recordActivity(tx, {
+          actor: auth,
+          entityType: "PROJECT",
+          entityId: id,
+          projectId: id,
+          action: "UPDATE",
+          before: { joinRequest: null },
+          after: {
+            joinRequest: {
+              id: created.id,
+              userId,
+              status: created.status,
+              message: created.message,
+            },
+          },
+        });
+
+        return created;
+      });
+    } catch (error) {
+      // A concurrent request got in first (one pending request per user)
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return pendingRequestConflict();
+      }
+      throw error;
+    }
+
+    logger.info("Join request created successfully", {
+      route: context.route,
+      projectId: id,
+      joinRequestId: joinRequest.id,
+      userId,
+    });
+
+    await notifyJoinRequest(auth, project);
+
+    return sendSuccess(joinRequest, "Join request sent successfully", 201);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,196 @@
+import { NextRequest } from "next/server";
+import { revalidateTag } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { recordActivity } from "@/lib/activity";
+import { publishProjectEvent } from "@/lib/realtime";
+import { isLabelNameTaken, labelSelect, parseLabelInput } from "@/lib/labels";
+
+/**
+ * Rename or recolor a label.
+ * Body: { name?, color? }
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; labelId: string }> }
+) {
+  const context = {
+    route: "/api/projects/[id]/labels/[labelId]",
+    method: "PATCH",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id, labelId } = await params;
+    const body = await req.json();
+
+    const parsed = parseLabelInput(body, true);
+    if ("error" in parsed) {
+      return handleValidationError(parsed.error, {
+        ...context,
+        projectId: id,
+        labelId,
+      });
+    }
+
+    if (Object.keys(parsed.data).length === 0) {
+      return handleValidationError(
+        "At least one field (name, color) must be provided",
+        { ...context, projectId: id, labelId }
+      );
+    }
+
+    const existing = await prisma.taskLabel.findUnique({
+      where: { id: labelId },
+      select: labelSelect,
+    });
+    if (!existing || existing.projectId !== id) {
+      return handleNotFound("Label", { ...context, projectId: id, labelId });
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "label:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    if (
+      parsed.data.name &&
+      (await isLabelNameTaken(id, parsed.data.name, labelId))
+    ) {
+      return handleValidationError(
+        `A label named "${parsed.data.name}" already exists`,
+        { ...context, projectId: id, labelId }
+      );
+    }
+
+    const label = await prisma.$transaction(async (tx) => {
+      const label = await tx.taskLabel.update({
+        where: { id: labelId },
+        data: parsed.data,
+        select: labelSelect,
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "UPDATE",
+        before: {
+          label: { id: labelId, name: existing.name, color: existing.color },
+        },
+        after: { label: { id: labelId, name: label.name, color: label.color } },
+      });
+
+      return label;
+    });
+
+    // Tasks carry their labels' names and colors
+    revalidateTag(`project:${id}`, { expire: 0 });
+    revalidateTag(`projectTasks:${id}`, { expire: 0 });
+
+    logger.info("Label updated successfully", {
+      route: context.route,
+      projectId: id,
+      labelId,
+    });
+
+    await publishProjectEvent(id, auth, { type: "label.updated", label });
+
+    return sendSuccess(label, "Label updated successfully", 200);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Delete a label, taking it off every task that carries it
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; labelId: string }> }
+) {
+  const context = {
+    route: "/api/projects/[id]/labels/[labelId]",
+    method: "DELETE",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id, labelId } = await params;
+
+    const existing = await prisma.taskLabel.findUnique({
+      where: { id: labelId },
+      select: labelSelect,
+    });
+    if (!existing || existing.projectId !== id) {
+      return handleNotFound("Label", { ...context, projectId: id, labelId });
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "label:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.taskLabel.delete({ where: { id: labelId } });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "UPDATE",
+        before: {
+          label: { id: labelId, name: existing.name, color: existing.color },
+        },
+        after: { label: null },
+      });
+    });
+
+    revalidateTag(`project:${id}`, { expire: 0 });
+    revalidateTag(`projectTasks:${id}`, { expire: 0 });
+
+    logger.info("Label deleted successfully", {
+      route: context.route,
+      projectId: id,
+      labelId,
+    });
+
+    await publishProjectEvent(id, auth, { type: "label.deleted", labelId });
+
+    return sendSuccess(
+      { message: "Label deleted successfully" },
+      "Label deleted successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
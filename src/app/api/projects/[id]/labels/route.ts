@@ -0,0 +1,142 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { recordActivity } from "@/lib/activity";
+import { publishProjectEvent } from "@/lib/realtime";
+import {
+  MAX_LABELS,
+  isLabelNameTaken,
+  labelSelect,
+  listProjectLabels,
+  parseLabelInput,
+} from "@/lib/labels";
+
+/**
+ * List a project's task labels by name
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/labels", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return handleNotFound("Project", { ...context, projectId: id });
+    }
+
+    const labels = await listProjectLabels(id);
+
+    return sendSuccess({ labels }, "Labels retrieved successfully", 200);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Add a task label to a project.
+ * Body: { name, color } - color is a hex color such as #10B981
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/labels", method: "POST" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+
+    const parsed = parseLabelInput(body);
+    if ("error" in parsed) {
+      return handleValidationError(parsed.error, {
+        ...context,
+        projectId: id,
+      });
+    }
+    const { name, color } = parsed.data as Required<typeof parsed.data>;
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "label:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const labelCount = await prisma.taskLabel.count({
+      where: { projectId: id },
+    });
+    if (labelCount >= MAX_LABELS) {
+      return handleValidationError(
+        `A project can have at most ${MAX_LABELS} labels`,
+        { ...context, projectId: id }
+      );
+    }
+
+    if (await isLabelNameTaken(id, name)) {
+      return handleValidationError(`A label named "${name}" already exists`, {
+        ...context,
+        projectId: id,
+      });
+    }
+
+    const label = await prisma.$transaction(async (tx) => {
+      const label = await tx.taskLabel.create({
+        data: { projectId: id, name, color },
+        select: labelSelect,
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "UPDATE",
+        before: { label: null },
+        after: { label: { id: label.id, name, color } },
+      });
+
+      return label;
+    });
+
+    logger.info("Label created successfully", {
+      route: context.route,
+      projectId: id,
+      labelId: label.id,
+    });
+
+    await publishProjectEvent(id, auth, { type: "label.created", label });
+
+    return sendSuccess(label, "Label created successfully", 201);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest } from "next/server";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { verifyProjectChain } from "@/lib/ledger";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/ledger/verify", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid project ID", context);
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "activity:view",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const verification = await verifyProjectChain(id);
+
+    if (verification.valid) {
+      logger.info("Project ledger verified", {
+        route: context.route,
+        projectId: id,
+        length: verification.length,
+      });
+    } else {
+      logger.warn("Project ledger verification failed", {
+        route: context.route,
+        projectId: id,
+        brokenLink: verification.brokenLink,
+      });
+    }
+
+    return sendSuccess(
+      verification,
+      verification.valid ? "Ledger chain is intact" : "Ledger chain is broken",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
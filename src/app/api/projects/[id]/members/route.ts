@@ -0,0 +1,300 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { revalidateTag } from "next/cache";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { recordActivity } from "@/lib/activity";
+
+const memberSelect = {
+  id: true,
+  projectId: true,
+  userId: true,
+  role: true,
+  joinedAt: true,
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} as const;
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/members", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid project ID", context);
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        owner: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      return handleNotFound("Project", { ...context, projectId: id });
+    }
+
+    const members = await prisma.projectMember.findMany({
+      where: { projectId: id },
+      select: memberSelect,
+      orderBy: { joinedAt: "asc" },
+    });
+
+    logger.info("Project members retrieved successfully", {
+      route: context.route,
+      projectId: id,
+      totalCount: members.length,
+    });
+
+    return sendSuccess(
+      { owner: project.owner, members },
+      "Project members retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Add a member to a project directly (requires member:invite).
+ * Contributors who want to join send a join request instead.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/members", method: "POST" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const { userId: memberUserId, role } = body;
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid project ID", context);
+    }
+
+    if (!memberUserId || typeof memberUserId !== "string") {
+      return handleValidationError(
+        "UserId is required and must be a string",
+        context
+      );
+    }
+
+    if (role !== undefined && !["MAINTAINER", "CONTRIBUTOR"].includes(role)) {
+      return handleValidationError("Invalid member role", context);
+    }
+
+    // Contributors who want in should send a join request instead
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "member:invite",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+    const project = access.project!;
+
+    if (memberUserId === project.ownerId) {
+      return handleValidationError(
+        "The project owner cannot be added as a member",
+        context
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: memberUserId },
+    });
+
+    if (!user) {
+      return handleNotFound("User", { ...context, userId: memberUserId });
+    }
+
+    const existingMember = await prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId: id, userId: memberUserId } },
+    });
+
+    if (existingMember) {
+      return handleValidationError(
+        "User is already a member of this project",
+        context
+      );
+    }
+
+    const member = await prisma.$transaction(async (tx) => {
+      const created = await tx.projectMember.create({
+        data: {
+          projectId: id,
+          userId: memberUserId,
+          ...(role ? { role } : {}),
+        },
+        select: memberSelect,
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "UPDATE",
+        before: { member: null },
+        after: { member: { userId: created.userId, role: created.role } },
+      });
+
+      return created;
+    });
+
+    logger.info("Project member added successfully", {
+      route: context.route,
+      projectId: id,
+      userId: memberUserId,
+    });
+
+    // Invalidate relevant caches after a successful write
+    revalidateTag("projects", { expire: 0 });
+    revalidateTag(`project:${id}`, { expire: 0 });
+
+    return sendSuccess(member, "Member added successfully", 201);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Leave a project. Callers with member:remove may remove another member
+ * with ?userId=<id>.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/members", method: "DELETE" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+    const userId = auth.userId!;
+
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+    const targetUserId = searchParams.get("userId") || userId;
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid project ID", context);
+    }
+
+    // Leaving needs no extra permission; removing somebody else does
+    if (targetUserId !== userId) {
+      const access = await authorizeProjectAction(
+        auth,
+        id,
+        "member:remove",
+        context
+      );
+      if (!access.success) {
+        return access.error;
+      }
+    } else {
+      const project = await prisma.project.findUnique({
+        where: { id },
+      });
+
+      if (!project) {
+        return handleNotFound("Project", { ...context, projectId: id });
+      }
+    }
+
+    const existingMember = await prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId: id, userId: targetUserId } },
+    });
+
+    if (!existingMember) {
+      return handleNotFound("Member", {
+        ...context,
+        projectId: id,
+        userId: targetUserId,
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.projectMember.delete({
+        where: { id: existingMember.id },
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "UPDATE",
+        before: {
+          member: {
+            userId: existingMember.userId,
+            role: existingMember.role,
+          },
+        },
+        after: { member: null },
+      });
+    });
+
+    logger.info("Project member removed successfully", {
+      route: context.route,
+      projectId: id,
+      userId: targetUserId,
+    });
+
+    // Invalidate relevant caches after a successful write
+    revalidateTag("projects", { expire: 0 });
+    revalidateTag(`project:${id}`, { expire: 0 });
+
+    return sendSuccess(
+      { message: "Member removed successfully" },
+      "Member removed successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
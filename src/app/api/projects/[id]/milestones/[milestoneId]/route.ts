@@ -0,0 +1,197 @@
+import { NextRequest } from "next/server";
+import { revalidateTag } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { recordActivity } from "@/lib/activity";
+import { publishProjectEvent } from "@/lib/realtime";
+import {
+  findMilestone,
+  getIsDoneStatus,
+  milestoneSelect,
+  parseMilestoneInput,
+  toMilestoneResponse,
+  toMilestoneSnapshot,
+} from "@/lib/milestones";
+
+/**
+ * Update a milestone.
+ * Body: { title?, description?, targetDate? } - null clears the
+ * description or target date
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; milestoneId: string }> }
+) {
+  const context = {
+    route: "/api/projects/[id]/milestones/[milestoneId]",
+    method: "PATCH",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id, milestoneId } = await params;
+    const body = await req.json();
+
+    const parsed = parseMilestoneInput(body, true);
+    if ("error" in parsed) {
+      return handleValidationError(parsed.error, {
+        ...context,
+        projectId: id,
+        milestoneId,
+      });
+    }
+
+    if (Object.keys(parsed.data).length === 0) {
+      return handleValidationError(
+        "At least one field (title, description, targetDate) must be provided",
+        { ...context, projectId: id, milestoneId }
+      );
+    }
+
+    const existing = await findMilestone(milestoneId);
+    if (!existing || existing.projectId !== id) {
+      return handleNotFound("Milestone", {
+        ...context,
+        projectId: id,
+        milestoneId,
+      });
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "milestone:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const milestone = await tx.milestone.update({
+        where: { id: milestoneId },
+        data: parsed.data,
+        select: milestoneSelect,
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "UPDATE",
+        before: { milestone: toMilestoneSnapshot(existing) },
+        after: { milestone: toMilestoneSnapshot(milestone) },
+      });
+
+      return milestone;
+    });
+
+    const milestone = toMilestoneResponse(updated, await getIsDoneStatus(id));
+
+    logger.info("Milestone updated successfully", {
+      route: context.route,
+      projectId: id,
+      milestoneId,
+    });
+
+    await publishProjectEvent(id, auth, {
+      type: "milestone.updated",
+      milestone,
+    });
+
+    return sendSuccess(milestone, "Milestone updated successfully", 200);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Delete a milestone. Its tasks stay in the project without a milestone.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; milestoneId: string }> }
+) {
+  const context = {
+    route: "/api/projects/[id]/milestones/[milestoneId]",
+    method: "DELETE",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id, milestoneId } = await params;
+
+    const existing = await findMilestone(milestoneId);
+    if (!existing || existing.projectId !== id) {
+      return handleNotFound("Milestone", {
+        ...context,
+        projectId: id,
+        milestoneId,
+      });
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "milestone:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.milestone.delete({ where: { id: milestoneId } });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "UPDATE",
+        before: { milestone: toMilestoneSnapshot(existing) },
+        after: { milestone: null },
+      });
+    });
+
+    // Its tasks lost their milestoneId
+    revalidateTag(`project:${id}`, { expire: 0 });
+    revalidateTag(`projectTasks:${id}`, { expire: 0 });
+
+    logger.info("Milestone deleted successfully", {
+      route: context.route,
+      projectId: id,
+      milestoneId,
+    });
+
+    await publishProjectEvent(id, auth, {
+      type: "milestone.deleted",
+      milestoneId,
+    });
+
+    return sendSuccess(
+      { message: "Milestone deleted successfully" },
+      "Milestone deleted successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,150 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { recordActivity } from "@/lib/activity";
+import { publishProjectEvent } from "@/lib/realtime";
+import {
+  MAX_MILESTONES,
+  getIsDoneStatus,
+  listProjectMilestones,
+  milestoneSelect,
+  parseMilestoneInput,
+  toMilestoneResponse,
+  toMilestoneSnapshot,
+} from "@/lib/milestones";
+
+/**
+ * List a project's milestones with their completion, soonest first
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/milestones", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return handleNotFound("Project", { ...context, projectId: id });
+    }
+
+    const milestones = await listProjectMilestones(id);
+
+    return sendSuccess(
+      { milestones },
+      "Milestones retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Add a milestone to a project.
+ * Body: { title, description?, targetDate? } - targetDate is "YYYY-MM-DD"
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/milestones", method: "POST" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+
+    const parsed = parseMilestoneInput(body);
+    if ("error" in parsed) {
+      return handleValidationError(parsed.error, {
+        ...context,
+        projectId: id,
+      });
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "milestone:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const milestoneCount = await prisma.milestone.count({
+      where: { projectId: id },
+    });
+    if (milestoneCount >= MAX_MILESTONES) {
+      return handleValidationError(
+        `A project can have at most ${MAX_MILESTONES} milestones`,
+        { ...context, projectId: id }
+      );
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const milestone = await tx.milestone.create({
+        data: {
+          projectId: id,
+          title: parsed.data.title!,
+          description: parsed.data.description ?? null,
+          targetDate: parsed.data.targetDate ?? null,
+        },
+        select: milestoneSelect,
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "UPDATE",
+        before: { milestone: null },
+        after: { milestone: toMilestoneSnapshot(milestone) },
+      });
+
+      return milestone;
+    });
+
+    const milestone = toMilestoneResponse(created, await getIsDoneStatus(id));
+
+    logger.info("Milestone created successfully", {
+      route: context.route,
+      projectId: id,
+      milestoneId: milestone.id,
+    });
+
+    await publishProjectEvent(id, auth, {
+      type: "milestone.created",
+      milestone,
+    });
+
+    return sendSuccess(milestone, "Milestone created successfully", 201);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
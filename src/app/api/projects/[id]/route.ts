@@ -8,6 +8,17 @@ import {
 } from "@/lib/errorHandler";
 import { logger } from "@/lib/logger";
 import { revalidateTag, unstable_cache } from "next/cache";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import {
+  taskAssigneesSelect,
+  taskChecklistSelect,
+  taskLabelsSelect,
+} from "@/lib/tasks";
+import { PROJECT_CATEGORIES, isProjectCategory } from "@/lib/projectCategories";
+import { recordActivity } from "@/lib/activity";
+import { dispatchWebhooks, enqueueWebhookEvent } from "@/lib/webhooks";
+import { publishProjectEvent } from "@/lib/realtime";
 
 export async function GET(
   _req: NextRequest,
@@ -32,9 +43,37 @@ export async function GET(
             title: true,
             description: true,
             status: true,
+            category: true,
             ownerId: true,
             createdAt: true,
             updatedAt: true,
+            owner: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+            tasks: {
+              select: {
+                id: true,
+                title: true,
+                description: true,
+                status: true,
+                position: true,
+                priority: true,
+                startDate: true,
+                dueDate: true,
+                estimatedHours: true,
+                parentId: true,
+                milestoneId: true,
+                createdAt: true,
+                assignees: taskAssigneesSelect,
+                checklistItems: taskChecklistSelect,
+                labels: taskLabelsSelect,
+              },
+              orderBy: { createdAt: "desc" },
+            },
           },
         });
       },
@@ -66,9 +105,14 @@ export async function PATCH(
   const context = { route: "/api/projects/[id]", method: "PATCH" };
 
   try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
     const { id } = await params;
     const body = await req.json();
-    const { title, description, status } = body;
+    const { title, description, status, category } = body;
 
     // Validate ID
     if (!id || typeof id !== "string") {
@@ -79,7 +123,8 @@ export async function PATCH(
     if (
       title === undefined &&
       description === undefined &&
-      status === undefined
+      status === undefined &&
+      category === undefined
     ) {
       return handleValidationError(
         "At least one field is required to update",
@@ -103,13 +148,22 @@ export async function PATCH(
       return handleValidationError("Invalid status value", context);
     }
 
-    // Check if project exists
-    const existingProject = await prisma.project.findUnique({
-      where: { id },
-    });
+    if (category !== undefined && !isProjectCategory(category)) {
+      return handleValidationError(
+        `Category must be one of: ${PROJECT_CATEGORIES.join(", ")}`,
+        context
+      );
+    }
 
-    if (!existingProject) {
-      return handleNotFound("Project", { ...context, projectId: id });
+    // Check the project exists and the caller may edit it
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "project:update",
+      context
+    );
+    if (!access.success) {
+      return access.error;
     }
 
     // Update project
@@ -117,19 +171,47 @@ export async function PATCH(
     if (title !== undefined) updateData.title = title;
     if (description !== undefined) updateData.description = description;
     if (status !== undefined) updateData.status = status;
+    if (category !== undefined) updateData.category = category;
 
-    const updatedProject = await prisma.project.update({
-      where: { id },
-      data: updateData,
-      select: {
-        id: true,
-        title: true,
-        description: true,
-        status: true,
-        ownerId: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    const previousStatus = access.project!.status;
+    let webhooksQueued = 0;
+
+    const updatedProject = await prisma.$transaction(async (tx) => {
+      const project = await tx.project.update({
+        where: { id },
+        data: updateData,
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          status: true,
+          category: true,
+          ownerId: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "UPDATE",
+        before: access.project,
+        after: project,
+      });
+
+      if (project.status !== previousStatus) {
+        webhooksQueued = await enqueueWebhookEvent(
+          tx,
+          id,
+          "project.status_changed",
+          { project, previousStatus }
+        );
+      }
+
+      return project;
     });
 
     logger.info("Project updated successfully", {
@@ -143,6 +225,15 @@ export async function PATCH(
     revalidateTag(`project:${id}`, { expire: 0 });
     revalidateTag(`projectTasks:${id}`, { expire: 0 });
 
+    if (webhooksQueued > 0) {
+      dispatchWebhooks();
+    }
+
+    await publishProjectEvent(id, auth, {
+      type: "project.updated",
+      project: updatedProject,
+    });
+
     return sendSuccess(updatedProject, "Project updated successfully", 200);
   } catch (error) {
     return handleError(error, context);
@@ -150,12 +241,17 @@ export async function PATCH(
 }
 
 export async function DELETE(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const context = { route: "/api/projects/[id]", method: "DELETE" };
 
   try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
     const { id } = await params;
 
     // Validate ID
@@ -163,18 +259,31 @@ export async function DELETE(
       return handleValidationError("Invalid project ID", context);
     }
 
-    // Check if project exists
-    const existingProject = await prisma.project.findUnique({
-      where: { id },
-    });
-
-    if (!existingProject) {
-      return handleNotFound("Project", { ...context, projectId: id });
+    // Check the project exists and the caller may delete it
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "project:delete",
+      context
+    );
+    if (!access.success) {
+      return access.error;
     }
 
-    // Delete project (cascades to tasks)
-    await prisma.project.delete({
-      where: { id },
+    // Delete project (cascades to tasks); the ledger entry survives it
+    await prisma.$transaction(async (tx) => {
+      await tx.project.delete({
+        where: { id },
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "DELETE",
+        before: access.project,
+      });
     });
 
     logger.info("Project deleted successfully", {
@@ -187,6 +296,8 @@ export async function DELETE(
     revalidateTag(`project:${id}`, { expire: 0 });
     revalidateTag(`projectTasks:${id}`, { expire: 0 });
 
+    await publishProjectEvent(id, auth, { type: "project.deleted" });
+
     return sendSuccess(
       { message: "Project deleted successfully" },
       "Project deleted successfully",
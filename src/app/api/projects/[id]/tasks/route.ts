@@ -8,7 +8,71 @@ import {
 } from "@/lib/errorHandler";
 import { logger } from "@/lib/logger";
 import { unstable_cache } from "next/cache";
+import type { Prisma, TaskPriority } from "@prisma/client";
+import {
+  TASK_PRIORITIES,
+  taskSelect,
+  parseCalendarDate,
+  startOfTodayUtc,
+} from "@/lib/tasks";
+import { STATUS_KEY_PATTERN, getProjectWorkflow } from "@/lib/workflows";
+import { getTaskProgress, groupSubtasks } from "@/lib/taskProgress";
+
+/** Sort fields, each with its default direction */
+const TASK_SORTS = {
+  createdAt: "desc",
+  updatedAt: "desc",
+  title: "asc",
+  position: "asc",
+  priority: "desc",
+  startDate: "asc",
+  dueDate: "asc",
+  estimatedHours: "desc",
+} as const;
+
+type TaskSort = keyof typeof TASK_SORTS;
+
+/** Nullable sort fields; tasks without a value always sort last */
+const NULLABLE_SORTS: readonly TaskSort[] = [
+  "startDate",
+  "dueDate",
+  "estimatedHours",
+];
+
+interface TaskListQuery {
+  page: number;
+  limit: number;
+  sort: TaskSort;
+  order: "asc" | "desc";
+  status: string | null;
+  priorities: TaskPriority[];
+  labelIds: string[];
+  dueAfter: string | null;
+  dueBefore: string | null;
+  /** Today's date (YYYY-MM-DD) when only overdue tasks are wanted */
+  overdueOn: string | null;
+  view: "flat" | "nested";
+}
 
+/**
+ * List a project's tasks.
+ *
+ * Query parameters:
+ * - `sort`: createdAt (default), updatedAt, title, position, priority,
+ *   startDate, dueDate or estimatedHours; `order`: asc or desc
+ * - `status`: a workflow status key
+ * - `priority`: one or more priorities, comma separated (e.g. HIGH,URGENT)
+ * - `label`: one or more label IDs, comma separated; tasks carrying any
+ *   of them
+ * - `dueAfter` / `dueBefore`: due date range (YYYY-MM-DD, inclusive)
+ * - `overdue=true`: due before today and not in a done status
+ * - `view`: `flat` (default) lists tasks and subtasks alike; `nested` lists
+ *   top-level tasks, each with its `subtasks`. Filters, sorting and
+ *   pagination apply to the listed tasks, not to nested subtasks.
+ *
+ * Every task carries its `progress`, rolled up from its subtasks and
+ * checklist.
+ */
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -20,6 +84,15 @@ export async function GET(
     const { searchParams } = new URL(req.url);
     const page = parseInt(searchParams.get("page") || "1", 10);
     const limit = parseInt(searchParams.get("limit") || "10", 10);
+    const sort = searchParams.get("sort") || "createdAt";
+    const order = searchParams.get("order");
+    const status = searchParams.get("status");
+    const priority = searchParams.get("priority");
+    const label = searchParams.get("label");
+    const dueAfter = searchParams.get("dueAfter");
+    const dueBefore = searchParams.get("dueBefore");
+    const overdue = searchParams.get("overdue");
+    const view = searchParams.get("view") || "flat";
 
     // Validate ID
     if (!id || typeof id !== "string") {
@@ -37,6 +110,89 @@ export async function GET(
       });
     }
 
+    if (!Object.hasOwn(TASK_SORTS, sort)) {
+      return handleValidationError(
+        `sort must be one of: ${Object.keys(TASK_SORTS).join(", ")}`,
+        { ...context, projectId: id }
+      );
+    }
+
+    if (order !== null && order !== "asc" && order !== "desc") {
+      return handleValidationError("order must be asc or desc", {
+        ...context,
+        projectId: id,
+      });
+    }
+
+    if (status !== null && !STATUS_KEY_PATTERN.test(status)) {
+      return handleValidationError("Invalid status value", {
+        ...context,
+        projectId: id,
+      });
+    }
+
+    const priorities = priority ? priority.split(",") : [];
+    if (
+      !priorities.every((value) =>
+        TASK_PRIORITIES.includes(value as TaskPriority)
+      )
+    ) {
+      return handleValidationError(
+        `priority must be one or more of: ${TASK_PRIORITIES.join(", ")}`,
+        { ...context, projectId: id }
+      );
+    }
+
+    const labelIds = label ? label.split(",") : [];
+    if (labelIds.some((labelId) => labelId.trim().length === 0)) {
+      return handleValidationError(
+        "label must be one or more label IDs, comma separated",
+        { ...context, projectId: id }
+      );
+    }
+
+    if (
+      (dueAfter !== null && !parseCalendarDate(dueAfter)) ||
+      (dueBefore !== null && !parseCalendarDate(dueBefore))
+    ) {
+      return handleValidationError(
+        "dueAfter and dueBefore must be dates in YYYY-MM-DD format",
+        { ...context, projectId: id }
+      );
+    }
+
+    if (overdue !== null && overdue !== "true" && overdue !== "false") {
+      return handleValidationError("overdue must be true or false", {
+        ...context,
+        projectId: id,
+      });
+    }
+
+    if (view !== "flat" && view !== "nested") {
+      return handleValidationError("view must be flat or nested", {
+        ...context,
+        projectId: id,
+      });
+    }
+
+    const query: TaskListQuery = {
+      page,
+      limit,
+      sort: sort as TaskSort,
+      order: order ?? TASK_SORTS[sort as TaskSort],
+      status,
+      priorities: priorities as TaskPriority[],
+      labelIds,
+      dueAfter,
+      dueBefore,
+      // Part of the cache key, so cached results roll over at midnight
+      overdueOn:
+        overdue === "true"
+          ? startOfTodayUtc().toISOString().slice(0, 10)
+          : null,
+      view,
+    };
+
     // Check if project exists
     const project = await prisma.project.findUnique({
       where: { id },
@@ -47,43 +203,98 @@ export async function GET(
     }
 
     const getProjectTasksCached = unstable_cache(
-      async (projectId: string, pageArg: number, limitArg: number) => {
-        const skip = (pageArg - 1) * limitArg;
+      async (projectId: string, queryArg: TaskListQuery) => {
+        const where: Prisma.TaskWhereInput = { projectId };
+        const dueDate: Prisma.DateTimeNullableFilter = {};
+
+        // Done is a workflow category, so look up which statuses count
+        const workflow = await getProjectWorkflow(projectId);
+        const doneKeys = workflow.statuses
+          .filter((workflowStatus) => workflowStatus.category === "DONE")
+          .map((workflowStatus) => workflowStatus.key);
+        const isDone = (status: string) => doneKeys.includes(status);
+
+        if (queryArg.view === "nested") where.parentId = null;
+
+        if (queryArg.status) where.status = queryArg.status;
+        if (queryArg.priorities.length > 0) {
+          where.priority = { in: queryArg.priorities };
+        }
+        if (queryArg.labelIds.length > 0) {
+          where.labels = { some: { labelId: { in: queryArg.labelIds } } };
+        }
+        if (queryArg.dueAfter) {
+          dueDate.gte = parseCalendarDate(queryArg.dueAfter)!;
+        }
+        if (queryArg.dueBefore) {
+          dueDate.lte = parseCalendarDate(queryArg.dueBefore)!;
+        }
+
+        if (queryArg.overdueOn) {
+          dueDate.lt = parseCalendarDate(queryArg.overdueOn)!;
+          where.NOT = { status: { in: doneKeys } };
+        }
+
+        if (Object.keys(dueDate).length > 0) where.dueDate = dueDate;
+
+        const orderBy: Prisma.TaskOrderByWithRelationInput[] = [
+          {
+            [queryArg.sort]: NULLABLE_SORTS.includes(queryArg.sort)
+              ? { sort: queryArg.order, nulls: "last" }
+              : queryArg.order,
+          },
+        ];
+        if (queryArg.sort !== "createdAt") orderBy.push({ createdAt: "desc" });
 
         const [total, tasks] = await Promise.all([
-          prisma.task.count({
-            where: { projectId },
-          }),
+          prisma.task.count({ where }),
           prisma.task.findMany({
-            where: { projectId },
-            skip,
-            take: limitArg,
-            select: {
-              id: true,
-              title: true,
-              description: true,
-              status: true,
-              projectId: true,
-              createdAt: true,
-              updatedAt: true,
-            },
-            orderBy: { createdAt: "desc" },
+            where,
+            skip: (queryArg.page - 1) * queryArg.limit,
+            take: queryArg.limit,
+            select: taskSelect,
+            orderBy,
           }),
         ]);
 
-        return { total, tasks };
+        const subtasksOf = groupSubtasks(
+          await prisma.task.findMany({
+            where: { parentId: { in: tasks.map((task) => task.id) } },
+            select: taskSelect,
+            orderBy: { createdAt: "asc" },
+          })
+        );
+
+        const tasksWithProgress = tasks.map((task) => {
+          const subtasks = subtasksOf.get(task.id) ?? [];
+          return {
+            ...task,
+            progress: getTaskProgress(task, subtasks, isDone),
+            ...(queryArg.view === "nested" && {
+              // Subtasks are one level deep, so they have none of their own
+              subtasks: subtasks.map((subtask) => ({
+                ...subtask,
+                progress: getTaskProgress(subtask, [], isDone),
+              })),
+            }),
+          };
+        });
+
+        return { total, tasks: tasksWithProgress };
       },
       ["api-project-tasks", id],
       { revalidate: 30, tags: [`project:${id}`, `projectTasks:${id}`] }
     );
 
-    const { total, tasks } = await getProjectTasksCached(id, page, limit);
+    const { total, tasks } = await getProjectTasksCached(id, query);
 
     logger.info("Project tasks retrieved successfully", {
       route: context.route,
       projectId: id,
       page,
       limit,
+      sort: query.sort,
+      view: query.view,
       totalCount: total,
     });
 
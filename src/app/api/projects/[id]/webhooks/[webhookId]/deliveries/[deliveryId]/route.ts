@@ -0,0 +1,83 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { dispatchWebhooks, webhookDeliverySelect } from "@/lib/webhooks";
+
+/**
+ * Redeliver a finished delivery: puts it back in the queue with a fresh
+ * set of attempts. The receiver sees the same delivery id again.
+ */
+export async function POST(
+  req: NextRequest,
+  {
+    params,
+  }: { params: Promise<{ id: string; webhookId: string; deliveryId: string }> }
+) {
+  const context = {
+    route: "/api/projects/[id]/webhooks/[webhookId]/deliveries/[deliveryId]",
+    method: "POST",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id, webhookId, deliveryId } = await params;
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "webhook:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, webhookId, webhook: { projectId: id } },
+      select: { id: true, status: true },
+    });
+
+    if (!delivery) {
+      return handleNotFound("Webhook delivery", { ...context, deliveryId });
+    }
+
+    if (delivery.status === "PENDING") {
+      return handleValidationError("This delivery is still queued", context);
+    }
+
+    const requeued = await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: "PENDING",
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        error: null,
+      },
+      select: webhookDeliverySelect,
+    });
+
+    logger.info("Webhook delivery requeued", {
+      route: context.route,
+      webhookId,
+      deliveryId,
+    });
+
+    dispatchWebhooks();
+
+    return sendSuccess(requeued, "Webhook delivery requeued", 202);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest } from "next/server";
+import type { WebhookDeliveryStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { webhookDeliverySelect } from "@/lib/webhooks";
+
+const DELIVERY_STATUSES: readonly WebhookDeliveryStatus[] = [
+  "PENDING",
+  "SUCCEEDED",
+  "FAILED",
+];
+
+/**
+ * Delivery log of a webhook, newest first.
+ * Query: ?status=PENDING|SUCCEEDED|FAILED&page=&limit=
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> }
+) {
+  const context = {
+    route: "/api/projects/[id]/webhooks/[webhookId]/deliveries",
+    method: "GET",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id, webhookId } = await params;
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get("status");
+    const page = parseInt(searchParams.get("page") || "1", 10);
+    const limit = parseInt(searchParams.get("limit") || "20", 10);
+
+    if (
+      status !== null &&
+      !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)
+    ) {
+      return handleValidationError("Invalid status value", context);
+    }
+
+    // Validate pagination params
+    if (page < 1 || limit < 1 || limit > 100) {
+      return handleValidationError(
+        "Invalid pagination parameters. Page and limit must be positive, limit must not exceed 100.",
+        context
+      );
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "webhook:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const webhook = await prisma.webhook.findFirst({
+      where: { id: webhookId, projectId: id },
+      select: { id: true },
+    });
+
+    if (!webhook) {
+      return handleNotFound("Webhook", { ...context, webhookId });
+    }
+
+    const where = {
+      webhookId,
+      ...(status ? { status: status as WebhookDeliveryStatus } : {}),
+    };
+
+    const [total, deliveries] = await Promise.all([
+      prisma.webhookDelivery.count({ where }),
+      prisma.webhookDelivery.findMany({
+        where,
+        select: webhookDeliverySelect,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return sendSuccess(
+      {
+        deliveries,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+      "Webhook deliveries retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,219 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { recordActivity } from "@/lib/activity";
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  isWebhookEvent,
+  toWebhookSnapshot,
+  validateWebhookUrl,
+  webhookSelect,
+} from "@/lib/webhooks";
+
+type WebhookRouteParams = {
+  params: Promise<{ id: string; webhookId: string }>;
+};
+
+/**
+ * Update a webhook.
+ * Body: { url?, events?, active?, rotateSecret?: true }
+ * A rotated secret is only returned in this response.
+ */
+export async function PATCH(req: NextRequest, { params }: WebhookRouteParams) {
+  const context = {
+    route: "/api/projects/[id]/webhooks/[webhookId]",
+    method: "PATCH",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id, webhookId } = await params;
+    const body = await req.json();
+    const { url, events, active, rotateSecret } = body;
+
+    if (
+      url === undefined &&
+      events === undefined &&
+      active === undefined &&
+      rotateSecret === undefined
+    ) {
+      return handleValidationError(
+        "At least one field is required to update",
+        context
+      );
+    }
+
+    if (url !== undefined) {
+      const urlError = validateWebhookUrl(url);
+      if (urlError) {
+        return handleValidationError(urlError, context);
+      }
+    }
+
+    if (
+      events !== undefined &&
+      (!Array.isArray(events) ||
+        events.length === 0 ||
+        !events.every(isWebhookEvent))
+    ) {
+      return handleValidationError(
+        `Events must be a non-empty list of: ${WEBHOOK_EVENTS.join(", ")}`,
+        context
+      );
+    }
+
+    if (active !== undefined && typeof active !== "boolean") {
+      return handleValidationError("Active must be a boolean", context);
+    }
+
+    if (rotateSecret !== undefined && rotateSecret !== true) {
+      return handleValidationError("rotateSecret must be true", context);
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "webhook:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const existing = await prisma.webhook.findFirst({
+      where: { id: webhookId, projectId: id },
+      select: webhookSelect,
+    });
+
+    if (!existing) {
+      return handleNotFound("Webhook", { ...context, webhookId });
+    }
+
+    const secret = rotateSecret ? generateWebhookSecret() : undefined;
+
+    const webhook = await prisma.$transaction(async (tx) => {
+      const updated = await tx.webhook.update({
+        where: { id: webhookId },
+        data: {
+          ...(url !== undefined ? { url } : {}),
+          ...(events !== undefined
+            ? { events: Array.from(new Set(events)) }
+            : {}),
+          ...(active !== undefined ? { active } : {}),
+          ...(secret ? { secret } : {}),
+        },
+        select: webhookSelect,
+      });
+
+      // A rotation is recorded without the secret itself
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "UPDATE",
+        before: { webhook: toWebhookSnapshot(existing) },
+        after: {
+          webhook: toWebhookSnapshot(updated),
+          ...(secret ? { webhookSecretRotated: true } : {}),
+        },
+      });
+
+      return updated;
+    });
+
+    logger.info("Webhook updated successfully", {
+      route: context.route,
+      projectId: id,
+      webhookId,
+      secretRotated: !!secret,
+    });
+
+    return sendSuccess(
+      secret ? { ...webhook, secret } : webhook,
+      "Webhook updated successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Delete a webhook together with its delivery log
+ */
+export async function DELETE(req: NextRequest, { params }: WebhookRouteParams) {
+  const context = {
+    route: "/api/projects/[id]/webhooks/[webhookId]",
+    method: "DELETE",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id, webhookId } = await params;
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "webhook:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const existing = await prisma.webhook.findFirst({
+      where: { id: webhookId, projectId: id },
+      select: webhookSelect,
+    });
+
+    if (!existing) {
+      return handleNotFound("Webhook", { ...context, webhookId });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.webhook.delete({ where: { id: webhookId } });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "UPDATE",
+        before: { webhook: toWebhookSnapshot(existing) },
+        after: { webhook: null },
+      });
+    });
+
+    logger.info("Webhook deleted successfully", {
+      route: context.route,
+      projectId: id,
+      webhookId,
+    });
+
+    return sendSuccess(
+      { message: "Webhook deleted successfully" },
+      "Webhook deleted successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError, handleNotFound } from "@/lib/errorHandler";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { dispatchWebhooks, enqueueWebhookPing } from "@/lib/webhooks";
+
+/**
+ * Queue a "ping" delivery so the owner can check their receiver.
+ * The outcome shows up in the delivery log.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> }
+) {
+  const context = {
+    route: "/api/projects/[id]/webhooks/[webhookId]/test",
+    method: "POST",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id, webhookId } = await params;
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "webhook:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const webhook = await prisma.webhook.findFirst({
+      where: { id: webhookId, projectId: id },
+      select: { id: true },
+    });
+
+    if (!webhook) {
+      return handleNotFound("Webhook", { ...context, webhookId });
+    }
+
+    const delivery = await enqueueWebhookPing(webhookId, id);
+    dispatchWebhooks();
+
+    return sendSuccess(delivery, "Test delivery queued", 202);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,170 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { recordActivity } from "@/lib/activity";
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  isWebhookEvent,
+  toWebhookSnapshot,
+  validateWebhookUrl,
+  webhookSelect,
+} from "@/lib/webhooks";
+
+const MAX_WEBHOOKS_PER_PROJECT = 10;
+
+/**
+ * List a project's webhooks (requires webhook:manage)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/webhooks", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid project ID", context);
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "webhook:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const webhooks = await prisma.webhook.findMany({
+      where: { projectId: id },
+      select: webhookSelect,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return sendSuccess(
+      { webhooks, events: WEBHOOK_EVENTS },
+      "Webhooks retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Subscribe a URL to project events.
+ * Body: { url, events: string[] }
+ * The signing secret is only returned in this response.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/webhooks", method: "POST" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const { url, events } = body;
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid project ID", context);
+    }
+
+    const urlError = validateWebhookUrl(url);
+    if (urlError) {
+      return handleValidationError(urlError, context);
+    }
+
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      !events.every(isWebhookEvent)
+    ) {
+      return handleValidationError(
+        `Events must be a non-empty list of: ${WEBHOOK_EVENTS.join(", ")}`,
+        context
+      );
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      id,
+      "webhook:manage",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const webhookCount = await prisma.webhook.count({
+      where: { projectId: id },
+    });
+    if (webhookCount >= MAX_WEBHOOKS_PER_PROJECT) {
+      return handleValidationError(
+        `A project can have at most ${MAX_WEBHOOKS_PER_PROJECT} webhooks`,
+        context
+      );
+    }
+
+    const secret = generateWebhookSecret();
+    const webhook = await prisma.$transaction(async (tx) => {
+      const created = await tx.webhook.create({
+        data: {
+          projectId: id,
+          url,
+          secret,
+          events: Array.from(new Set(events)),
+        },
+        select: webhookSelect,
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: id,
+        projectId: id,
+        action: "UPDATE",
+        before: { webhook: null },
+        after: { webhook: toWebhookSnapshot(created) },
+      });
+
+      return created;
+    });
+
+    logger.info("Webhook created successfully", {
+      route: context.route,
+      projectId: id,
+      webhookId: webhook.id,
+      events: webhook.events,
+    });
+
+    return sendSuccess(
+      { ...webhook, secret },
+      "Webhook created successfully",
+      201
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -0,0 +1,215 @@
+import { NextRequest } from "next/server";
+import { revalidateTag } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import type { Actor } from "@/lib/permissions";
+import { recordActivity } from "@/lib/activity";
+import { publishProjectEvent } from "@/lib/realtime";
+import {
+  DEFAULT_WORKFLOW,
+  TASK_STATUS_CATEGORIES,
+  getProjectWorkflow,
+  parseWorkflowStatuses,
+  type WorkflowStatusDefinition,
+} from "@/lib/workflows";
+
+/**
+ * Statuses that still hold tasks but are missing from `keys`
+ */
+async function findStatusesInUse(
+  projectId: string,
+  keys: string[]
+): Promise<{ status: string; tasks: number }[]> {
+  const groups = await prisma.task.groupBy({
+    by: ["status"],
+    where: { projectId, status: { notIn: keys } },
+    _count: { _all: true },
+  });
+
+  return groups.map((group) => ({
+    status: group.status,
+    tasks: group._count._all,
+  }));
+}
+
+/**
+ * Replace a project's workflow (the default one when `statuses` is null),
+ * refusing to drop statuses that still hold tasks
+ */
+async function saveWorkflow(
+  auth: Actor & { userEmail?: string },
+  id: string,
+  statuses: WorkflowStatusDefinition[] | null,
+  context: { route: string; method: string }
+) {
+  const access = await authorizeProjectAction(
+    auth,
+    id,
+    "workflow:manage",
+    context
+  );
+  if (!access.success) {
+    return access.error;
+  }
+
+  const keys = (statuses ?? DEFAULT_WORKFLOW).map((status) => status.key);
+  const inUse = await findStatusesInUse(id, keys);
+  if (inUse.length > 0) {
+    return handleValidationError(
+      `Move the tasks out of these statuses before removing them: ${inUse
+        .map(({ status, tasks }) => `${status} (${tasks})`)
+        .join(", ")}`,
+      { ...context, projectId: id }
+    );
+  }
+
+  const workflow = await prisma.$transaction(async (tx) => {
+    const before = await getProjectWorkflow(id, tx);
+
+    await tx.workflowStatus.deleteMany({ where: { projectId: id } });
+
+    if (statuses) {
+      await tx.workflowStatus.createMany({
+        data: statuses.map((status, position) => ({
+          projectId: id,
+          key: status.key,
+          name: status.name,
+          category: status.category,
+          next: status.next,
+          position,
+        })),
+      });
+    }
+
+    const after = await getProjectWorkflow(id, tx);
+
+    await recordActivity(tx, {
+      actor: auth,
+      entityType: "PROJECT",
+      entityId: id,
+      projectId: id,
+      action: "UPDATE",
+      before: { workflow: before.statuses },
+      after: { workflow: after.statuses },
+    });
+
+    return after;
+  });
+
+  logger.info("Project workflow updated", {
+    route: context.route,
+    projectId: id,
+    statuses: keys,
+    isDefault: workflow.isDefault,
+  });
+
+  // Task stats on project lists depend on status categories
+  revalidateTag("projects", { expire: 0 });
+  revalidateTag(`project:${id}`, { expire: 0 });
+
+  await publishProjectEvent(id, auth, {
+    type: "workflow.updated",
+    workflow,
+  });
+
+  return sendSuccess(workflow, "Workflow updated successfully", 200);
+}
+
+/**
+ * A project's task statuses (in board order) and allowed transitions
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/workflow", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return handleNotFound("Project", { ...context, projectId: id });
+    }
+
+    const workflow = await getProjectWorkflow(id);
+
+    return sendSuccess(
+      { ...workflow, categories: TASK_STATUS_CATEGORIES },
+      "Workflow retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Replace the workflow.
+ * Body: { statuses: [{ key, name, category, next: [key, ...] }, ...] }
+ * (board order; a status's `next` lists where its tasks may move)
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/workflow", method: "PUT" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+
+    const parsed = parseWorkflowStatuses(body?.statuses);
+    if ("error" in parsed) {
+      return handleValidationError(parsed.error, context);
+    }
+
+    return await saveWorkflow(auth, id, parsed.statuses, context);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+/**
+ * Go back to the default workflow
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/projects/[id]/workflow", method: "DELETE" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    return await saveWorkflow(auth, id, null, context);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
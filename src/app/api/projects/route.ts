@@ -9,13 +9,29 @@ import {
 import { logger } from "@/lib/logger";
 import { revalidateTag, unstable_cache } from "next/cache";
 import { verifyApiRequest } from "@/lib/apiAuth";
+import { recordActivity } from "@/lib/activity";
+import { describeTaskStatus } from "@/lib/workflows";
+import {
+  PROJECT_CATEGORIES,
+  isProjectCategory,
+  parseProjectCategories,
+} from "@/lib/projectCategories";
 
+/**
+ * List projects, newest first.
+ *
+ * Query parameters:
+ * - `mine=true`, `contributed=true` or `public=true`: projects the caller
+ *   owns, is a member of, or does not own
+ * - `category`: one or more cause categories, comma separated
+ *   (e.g. WATER,HEALTH)
+ */
 export async function GET(req: NextRequest) {
   const context = { route: "/api/projects", method: "GET" };
 
   try {
     // Verify authentication (runs in Node runtime, can use crypto)
-    const auth = verifyApiRequest(req);
+    const auth = await verifyApiRequest(req);
     if (!auth.success) {
       return auth.error;
     }
@@ -28,6 +44,7 @@ export async function GET(req: NextRequest) {
     const mine = searchParams.get("mine") === "true";
     const publicProjects = searchParams.get("public") === "true";
     const contributed = searchParams.get("contributed") === "true";
+    const categories = parseProjectCategories(searchParams.get("category"));
 
     // Validate pagination params
     if (page < 1 || limit < 1 || limit > 100) {
@@ -37,23 +54,27 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    const cacheKey = `api-projects-list:${userId}:${page}:${limit}:${mine}:${publicProjects}:${contributed}`;
+    if (!categories) {
+      return handleValidationError(
+        `category must be one or more of: ${PROJECT_CATEGORIES.join(", ")}`,
+        context
+      );
+    }
+
+    const cacheKey = `api-projects-list:${userId}:${page}:${limit}:${mine}:${publicProjects}:${contributed}:${categories.join(",")}`;
     const getProjectsCached = unstable_cache(
       async () => {
         const skip = (page - 1) * limit;
 
-        // This query param is used by the dashboard, but the backend support
-        // may not exist yet. Return an empty list gracefully (no crash).
-        if (contributed) {
-          return { total: 0, projects: [] as unknown[] };
-        }
-
         // Build filter based on query params
         let where: Record<string, unknown> = {};
 
         if (mine) {
           // Get projects owned by current user
           where = { ownerId: userId };
+        } else if (contributed) {
+          // Get projects the current user is a member of
+          where = { members: { some: { userId } } };
         } else if (publicProjects) {
           // Get projects NOT owned by current user
           where = {
@@ -61,6 +82,10 @@ export async function GET(req: NextRequest) {
           };
         }
 
+        if (categories.length > 0) {
+          where = { ...where, category: { in: categories } };
+        }
+
         const [total, projects] = await Promise.all([
           prisma.project.count({ where }),
           prisma.project.findMany({
@@ -72,6 +97,7 @@ export async function GET(req: NextRequest) {
               title: true,
               description: true,
               status: true,
+              category: true,
               ownerId: true,
               createdAt: true,
               updatedAt: true,
@@ -86,14 +112,29 @@ export async function GET(req: NextRequest) {
                 select: {
                   id: true,
                   status: true,
+                  dueDate: true,
                 },
               },
+              workflowStatuses: {
+                select: { key: true, name: true, category: true },
+              },
             },
             orderBy: { createdAt: "desc" },
           }),
         ]);
 
-        return { total, projects };
+        // Tell open tasks from finished ones whatever the workflow calls them
+        return {
+          total,
+          projects: projects.map(({ workflowStatuses, ...project }) => ({
+            ...project,
+            tasks: project.tasks.map((task) => ({
+              ...task,
+              statusCategory: describeTaskStatus(workflowStatuses, task.status)
+                .category,
+            })),
+          })),
+        };
       },
       [cacheKey],
       { revalidate: 30, tags: ["projects"] }
@@ -108,6 +149,7 @@ export async function GET(req: NextRequest) {
       mine,
       publicProjects,
       contributed,
+      categories,
       userId: userId || undefined,
     });
 
@@ -134,14 +176,14 @@ export async function POST(req: NextRequest) {
 
   try {
     // Verify authentication (runs in Node runtime, can use crypto)
-    const auth = verifyApiRequest(req);
+    const auth = await verifyApiRequest(req);
     if (!auth.success) {
       return auth.error;
     }
     const userId = auth.userId!;
 
     const body = await req.json();
-    const { title, description, ownerId } = body;
+    const { title, description, ownerId, category } = body;
 
     // Validate required fields
     if (!title || typeof title !== "string") {
@@ -158,6 +200,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (category !== undefined && !isProjectCategory(category)) {
+      return handleValidationError(
+        `Category must be one of: ${PROJECT_CATEGORIES.join(", ")}`,
+        context
+      );
+    }
+
     // Enforce ownerId = authenticated user (production-safe)
     const effectiveOwnerId =
       ownerId && typeof ownerId === "string" ? ownerId : userId;
@@ -177,22 +226,37 @@ export async function POST(req: NextRequest) {
       return handleNotFound("Owner", { ...context, ownerId: effectiveOwnerId });
     }
 
-    // Create project
-    const newProject = await prisma.project.create({
-      data: {
-        title,
-        description,
-        ownerId: effectiveOwnerId,
-      },
-      select: {
-        id: true,
-        title: true,
-        description: true,
-        status: true,
-        ownerId: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    // Create project and record it in the activity ledger
+    const newProject = await prisma.$transaction(async (tx) => {
+      const project = await tx.project.create({
+        data: {
+          title,
+          description,
+          category,
+          ownerId: effectiveOwnerId,
+        },
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          status: true,
+          category: true,
+          ownerId: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "PROJECT",
+        entityId: project.id,
+        projectId: project.id,
+        action: "CREATE",
+        after: project,
+      });
+
+      return project;
     });
 
     logger.info("Project created successfully", {
@@ -0,0 +1,76 @@
+import { NextRequest } from "next/server";
+import { sendSuccess } from "@/lib/responseHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  SEARCH_TYPES,
+  parseSearchTypes,
+  search,
+  validateSearchQuery,
+} from "@/lib/search";
+
+/**
+ * Search projects, tasks and comments, best match first.
+ *
+ * Query parameters:
+ * - `q`: the search text; supports "quoted phrases", `or` and -excluded
+ *   words
+ * - `type`: one or more of project, task and comment, comma separated
+ *   (default: all)
+ * - `limit`: results to return (default 10, at most 50)
+ */
+export async function GET(req: NextRequest) {
+  const context = { route: "/api/search", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const query = searchParams.get("q");
+    const types = parseSearchTypes(searchParams.get("type"));
+    const limit = parseInt(
+      searchParams.get("limit") || String(DEFAULT_SEARCH_LIMIT),
+      10
+    );
+
+    const queryError = validateSearchQuery(query);
+    if (queryError) {
+      return handleValidationError(queryError, context);
+    }
+
+    if (!types) {
+      return handleValidationError(
+        `type must be one or more of: ${SEARCH_TYPES.join(", ")}`,
+        context
+      );
+    }
+
+    if (!(limit >= 1 && limit <= MAX_SEARCH_LIMIT)) {
+      return handleValidationError(
+        `limit must be between 1 and ${MAX_SEARCH_LIMIT}`,
+        context
+      );
+    }
+
+    const results = await search(query!, { types, limit });
+
+    logger.info("Search completed", {
+      userId: auth.userId,
+      types,
+      results: results.length,
+    });
+
+    return sendSuccess(
+      { query: query!.trim(), results },
+      "Search results retrieved successfully"
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
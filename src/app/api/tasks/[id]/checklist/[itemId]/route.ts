@@ -0,0 +1,155 @@
+import { NextRequest } from "next/server";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { validateChecklistText } from "@/lib/tasks";
+import {
+  changeChecklist,
+  checklistItemSelect,
+  findTaskWithChecklist,
+} from "@/lib/checklists";
+
+/**
+ * Tick off or rename a checklist item
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  const context = {
+    route: "/api/tasks/[id]/checklist/[itemId]",
+    method: "PATCH",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id, itemId } = await params;
+    const { text, done } = await req.json();
+
+    if (text === undefined && done === undefined) {
+      return handleValidationError(
+        "At least one field is required to update",
+        context
+      );
+    }
+
+    if (text !== undefined) {
+      const textError = validateChecklistText(text);
+      if (textError) {
+        return handleValidationError(textError, context);
+      }
+    }
+
+    if (done !== undefined && typeof done !== "boolean") {
+      return handleValidationError("Done must be a boolean", context);
+    }
+
+    const task = await findTaskWithChecklist(id);
+
+    if (!task || !task.checklistItems.some((item) => item.id === itemId)) {
+      return handleNotFound("Checklist item", {
+        ...context,
+        taskId: id,
+        itemId,
+      });
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      task.projectId,
+      "task:update",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    const item = await changeChecklist(auth, task, (tx) =>
+      tx.taskChecklistItem.update({
+        where: { id: itemId },
+        data: {
+          ...(text !== undefined && { text: text.trim() }),
+          ...(done !== undefined && { done }),
+        },
+        select: checklistItemSelect,
+      })
+    );
+
+    logger.info("Checklist item updated successfully", {
+      route: context.route,
+      taskId: id,
+      itemId,
+    });
+
+    return sendSuccess(item, "Checklist item updated successfully", 200);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  const context = {
+    route: "/api/tasks/[id]/checklist/[itemId]",
+    method: "DELETE",
+  };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id, itemId } = await params;
+
+    const task = await findTaskWithChecklist(id);
+
+    if (!task || !task.checklistItems.some((item) => item.id === itemId)) {
+      return handleNotFound("Checklist item", {
+        ...context,
+        taskId: id,
+        itemId,
+      });
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      task.projectId,
+      "task:update",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    await changeChecklist(auth, task, (tx) =>
+      tx.taskChecklistItem.delete({ where: { id: itemId } })
+    );
+
+    logger.info("Checklist item deleted successfully", {
+      route: context.route,
+      taskId: id,
+      itemId,
+    });
+
+    return sendSuccess(
+      { message: "Checklist item deleted successfully" },
+      "Checklist item deleted successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
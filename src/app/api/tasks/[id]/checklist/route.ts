@@ -0,0 +1,91 @@
+import { NextRequest } from "next/server";
+import { sendSuccess } from "@/lib/responseHandler";
+import {
+  handleError,
+  handleValidationError,
+  handleNotFound,
+} from "@/lib/errorHandler";
+import { logger } from "@/lib/logger";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import { MAX_CHECKLIST_ITEMS, validateChecklistText } from "@/lib/tasks";
+import {
+  changeChecklist,
+  checklistItemSelect,
+  findTaskWithChecklist,
+} from "@/lib/checklists";
+
+/**
+ * Add an item to the bottom of a task's checklist
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const context = { route: "/api/tasks/[id]/checklist", method: "POST" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { id } = await params;
+    const { text } = await req.json();
+
+    // Validate ID
+    if (!id || typeof id !== "string") {
+      return handleValidationError("Invalid task ID", context);
+    }
+
+    const textError = validateChecklistText(text);
+    if (textError) {
+      return handleValidationError(textError, context);
+    }
+
+    const task = await findTaskWithChecklist(id);
+
+    if (!task) {
+      return handleNotFound("Task", { ...context, taskId: id });
+    }
+
+    const access = await authorizeProjectAction(
+      auth,
+      task.projectId,
+      "task:update",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    if (task.checklistItems.length >= MAX_CHECKLIST_ITEMS) {
+      return handleValidationError(
+        `A checklist can have at most ${MAX_CHECKLIST_ITEMS} items`,
+        { ...context, taskId: id }
+      );
+    }
+
+    const lastItem = task.checklistItems[task.checklistItems.length - 1];
+    const item = await changeChecklist(auth, task, (tx) =>
+      tx.taskChecklistItem.create({
+        data: {
+          taskId: id,
+          text: text.trim(),
+          position: (lastItem?.position ?? 0) + 1,
+        },
+        select: checklistItemSelect,
+      })
+    );
+
+    logger.info("Checklist item created successfully", {
+      route: context.route,
+      taskId: id,
+      itemId: item.id,
+    });
+
+    return sendSuccess(item, "Checklist item created successfully", 201);
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
@@ -8,7 +8,44 @@ import {
 } from "@/lib/errorHandler";
 import { logger } from "@/lib/logger";
 import { revalidateTag } from "next/cache";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction } from "@/lib/authorization";
+import {
+  taskSelect,
+  taskChecklistSelect,
+  taskLabelsSelect,
+  parseUserIdList,
+  findUnassignableUserIds,
+  toTaskActivitySnapshot,
+  nextTaskPosition,
+  placeTaskInColumn,
+  parseTaskPlanningFields,
+  isValidTaskSchedule,
+  validateParentTask,
+} from "@/lib/tasks";
+import { recordActivity } from "@/lib/activity";
+import { dispatchWebhooks, enqueueWebhookEvent } from "@/lib/webhooks";
+import { notifyTaskAssigned, notifyTaskChanged } from "@/lib/notifications";
+import { publishProjectEvent } from "@/lib/realtime";
+import { findUnfinishedBlockers } from "@/lib/dependencies";
+import { validateTaskMilestone } from "@/lib/milestones";
+import { findForeignLabelIds, parseLabelIds } from "@/lib/labels";
+import {
+  canTransition,
+  findWorkflowStatus,
+  getProjectWorkflow,
+} from "@/lib/workflows";
 
+/**
+ * Update a task. Status changes must be allowed by the project's workflow,
+ * and a task cannot be started or finished while its blockers are open;
+ * `parentId` makes the task a subtask (null makes it top-level again) and
+ * `milestoneId` puts it under a milestone of its project (null removes it).
+ * `labelIds` replaces the task's labels with labels of its project.
+ * Besides its fields, a task can be moved on the board:
+ * `index` is the 0-based place in its (new) status column; a status change
+ * without an index moves the task to the bottom of the new column.
+ */
 export async function PATCH(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -16,9 +53,25 @@ export async function PATCH(
   const context = { route: "/api/tasks/[id]", method: "PATCH" };
 
   try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
     const { id } = await params;
     const body = await req.json();
-    const { title, description, status } = body;
+    const {
+      title,
+      description,
+      status,
+      index,
+      parentId,
+      milestoneId,
+      labelIds,
+      assigneeIds,
+      assign,
+      unassign,
+    } = body;
 
     // Validate ID
     if (!id || typeof id !== "string") {
@@ -29,7 +82,18 @@ export async function PATCH(
     if (
       title === undefined &&
       description === undefined &&
-      status === undefined
+      status === undefined &&
+      index === undefined &&
+      parentId === undefined &&
+      milestoneId === undefined &&
+      labelIds === undefined &&
+      body.priority === undefined &&
+      body.startDate === undefined &&
+      body.dueDate === undefined &&
+      body.estimatedHours === undefined &&
+      assigneeIds === undefined &&
+      assign === undefined &&
+      unassign === undefined
     ) {
       return handleValidationError(
         "At least one field is required to update",
@@ -50,52 +114,378 @@ export async function PATCH(
       return handleValidationError("Description must be a string", context);
     }
 
+    if (status !== undefined && typeof status !== "string") {
+      return handleValidationError("Invalid status value", context);
+    }
+
     if (
-      status !== undefined &&
-      !["TODO", "IN_PROGRESS", "DONE"].includes(status)
+      parentId !== undefined &&
+      parentId !== null &&
+      typeof parentId !== "string"
     ) {
-      return handleValidationError("Invalid status value", context);
+      return handleValidationError("ParentId must be a string", context);
+    }
+
+    if (
+      milestoneId !== undefined &&
+      milestoneId !== null &&
+      typeof milestoneId !== "string"
+    ) {
+      return handleValidationError("MilestoneId must be a string", context);
+    }
+
+    const labelIdList =
+      labelIds === undefined ? undefined : parseLabelIds(labelIds);
+    if (labelIdList === null) {
+      return handleValidationError(
+        "labelIds must be an array of label IDs",
+        context
+      );
+    }
+
+    const planning = parseTaskPlanningFields(body);
+    if ("error" in planning) {
+      return handleValidationError(planning.error, context);
+    }
+
+    if (index !== undefined && (!Number.isInteger(index) || index < 0)) {
+      return handleValidationError(
+        "Index must be a non-negative integer",
+        context
+      );
+    }
+
+    // Assignees: either a full replacement list, or assign/unassign deltas
+    const assigneeIdList =
+      assigneeIds === undefined ? undefined : parseUserIdList(assigneeIds);
+    const assignList = assign === undefined ? [] : parseUserIdList(assign);
+    const unassignList =
+      unassign === undefined ? [] : parseUserIdList(unassign);
+
+    if (
+      assigneeIdList === null ||
+      assignList === null ||
+      unassignList === null
+    ) {
+      return handleValidationError(
+        "assigneeIds, assign and unassign must be arrays of user IDs",
+        context
+      );
+    }
+
+    if (
+      assigneeIdList !== undefined &&
+      (assignList.length > 0 || unassignList.length > 0)
+    ) {
+      return handleValidationError(
+        "Use either assigneeIds or assign/unassign, not both",
+        context
+      );
     }
 
     // Check if task exists
     const existingTask = await prisma.task.findUnique({
       where: { id },
+      include: {
+        assignees: { select: { user: { select: { id: true } } } },
+        checklistItems: taskChecklistSelect,
+        labels: taskLabelsSelect,
+      },
     });
 
     if (!existingTask) {
       return handleNotFound("Task", { ...context, taskId: id });
     }
 
+    const access = await authorizeProjectAction(
+      auth,
+      existingTask.projectId,
+      "task:update",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    if (parentId && parentId !== existingTask.parentId) {
+      const parentError = await validateParentTask(parentId, {
+        id,
+        projectId: existingTask.projectId,
+      });
+      if (parentError) {
+        return handleValidationError(parentError, { ...context, taskId: id });
+      }
+    }
+
+    if (milestoneId && milestoneId !== existingTask.milestoneId) {
+      const milestoneError = await validateTaskMilestone(
+        milestoneId,
+        existingTask.projectId
+      );
+      if (milestoneError) {
+        return handleValidationError(milestoneError, {
+          ...context,
+          taskId: id,
+        });
+      }
+    }
+
+    if (labelIdList) {
+      const foreignLabelIds = await findForeignLabelIds(
+        existingTask.projectId,
+        labelIdList
+      );
+      if (foreignLabelIds.length > 0) {
+        return handleValidationError("Labels must belong to this project", {
+          ...context,
+          taskId: id,
+          foreignLabelIds,
+        });
+      }
+    }
+
+    // The dates not being changed still have to fit around the new ones
+    if (
+      !isValidTaskSchedule(
+        planning.data.startDate === undefined
+          ? existingTask.startDate
+          : planning.data.startDate,
+        planning.data.dueDate === undefined
+          ? existingTask.dueDate
+          : planning.data.dueDate
+      )
+    ) {
+      return handleValidationError(
+        "The start date must be on or before the due date",
+        { ...context, taskId: id }
+      );
+    }
+
+    // Status moves must follow the project's workflow
+    const workflow = await getProjectWorkflow(existingTask.projectId);
+    if (status !== undefined && status !== existingTask.status) {
+      const toStatus = findWorkflowStatus(workflow, status);
+      if (!toStatus) {
+        return handleValidationError("Invalid status value", {
+          ...context,
+          taskId: id,
+          status,
+        });
+      }
+
+      if (!canTransition(workflow, existingTask.status, status)) {
+        const fromName =
+          findWorkflowStatus(workflow, existingTask.status)?.name ??
+          existingTask.status;
+        return handleValidationError(
+          `Tasks in "${fromName}" cannot move to "${toStatus.name}"`,
+          { ...context, taskId: id, from: existingTask.status, to: status }
+        );
+      }
+
+      // Blocked tasks cannot be started or finished
+      if (toStatus.category !== "TODO") {
+        const blockers = await findUnfinishedBlockers(id, workflow);
+        if (blockers.length > 0) {
+          return handleValidationError(
+            `This task is blocked by unfinished tasks: ${blockers
+              .map((blocker) => `"${blocker.title}"`)
+              .join(", ")}`,
+            {
+              ...context,
+              taskId: id,
+              blockerIds: blockers.map((blocker) => blocker.id),
+            }
+          );
+        }
+      }
+    }
+
+    // Work out the assignee changes relative to the current set
+    const currentAssigneeIds = existingTask.assignees.map((a) => a.user.id);
+    const targetAssigneeIds = new Set(assigneeIdList ?? currentAssigneeIds);
+    assignList.forEach((userId) => targetAssigneeIds.add(userId));
+    unassignList.forEach((userId) => targetAssigneeIds.delete(userId));
+
+    const addedAssigneeIds = [...targetAssigneeIds].filter(
+      (userId) => !currentAssigneeIds.includes(userId)
+    );
+    const removedAssigneeIds = currentAssigneeIds.filter(
+      (userId) => !targetAssigneeIds.has(userId)
+    );
+    const assigneesChanged =
+      addedAssigneeIds.length > 0 || removedAssigneeIds.length > 0;
+
+    if (assigneesChanged) {
+      // Anyone who can update the task may (un)assign themselves;
+      // changing somebody else's assignment needs task:assign
+      const onlySelf = [...addedAssigneeIds, ...removedAssigneeIds].every(
+        (userId) => userId === auth.userId
+      );
+      if (!onlySelf) {
+        const assignAccess = await authorizeProjectAction(
+          auth,
+          existingTask.projectId,
+          "task:assign",
+          context
+        );
+        if (!assignAccess.success) {
+          return assignAccess.error;
+        }
+      }
+
+      const unassignable = await findUnassignableUserIds(
+        existingTask.projectId,
+        addedAssigneeIds
+      );
+      if (unassignable.length > 0) {
+        return handleValidationError(
+          "Assignees must be the project owner or project members",
+          { ...context, taskId: id, unassignable }
+        );
+      }
+    }
+
     // Update task
-    const updateData: any = {};
+    const updateData: any = { ...planning.data };
     if (title !== undefined) updateData.title = title;
     if (description !== undefined) updateData.description = description;
     if (status !== undefined) updateData.status = status;
+    if (parentId !== undefined) updateData.parentId = parentId || null;
+    if (milestoneId !== undefined) {
+      updateData.milestoneId = milestoneId || null;
+    }
 
-    const updatedTask = await prisma.task.update({
-      where: { id },
-      data: updateData,
-      select: {
-        id: true,
-        title: true,
-        description: true,
-        status: true,
-        projectId: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    let webhooksQueued = 0;
+    let taskChanged = false;
+    let onlyReordered = false;
+    let reordered: { id: string; position: number }[] = [];
+    const updatedTask = await prisma.$transaction(async (tx) => {
+      const targetStatus = status ?? existingTask.status;
+      if (index !== undefined) {
+        const placement = await placeTaskInColumn(
+          tx,
+          { id, projectId: existingTask.projectId, status: targetStatus },
+          index
+        );
+        updateData.position = placement.position;
+        reordered = placement.reordered;
+      } else if (targetStatus !== existingTask.status) {
+        updateData.position = await nextTaskPosition(
+          tx,
+          existingTask.projectId,
+          targetStatus,
+          id
+        );
+      }
+
+      if (removedAssigneeIds.length > 0) {
+        await tx.taskAssignee.deleteMany({
+          where: { taskId: id, userId: { in: removedAssigneeIds } },
+        });
+      }
+
+      if (addedAssigneeIds.length > 0) {
+        await tx.taskAssignee.createMany({
+          data: addedAssigneeIds.map((userId) => ({
+            taskId: id,
+            userId,
+            assignedById: auth.userId,
+          })),
+          skipDuplicates: true,
+        });
+      }
+
+      if (labelIdList) {
+        await tx.taskLabelLink.deleteMany({
+          where: { taskId: id, labelId: { notIn: labelIdList } },
+        });
+        await tx.taskLabelLink.createMany({
+          data: labelIdList.map((labelId) => ({ taskId: id, labelId })),
+          skipDuplicates: true,
+        });
+      }
+
+      const task = await tx.task.update({
+        where: { id },
+        data: updateData,
+        select: taskSelect,
+      });
+
+      const activity = await recordActivity(tx, {
+        actor: auth,
+        entityType: "TASK",
+        entityId: id,
+        projectId: task.projectId,
+        action: "UPDATE",
+        before: toTaskActivitySnapshot(existingTask),
+        after: toTaskActivitySnapshot(task),
+      });
+
+      // No ledger event means nothing changed, so there is nothing to announce
+      taskChanged = activity !== null;
+      // Board moves within a column are not worth notifying anyone about
+      onlyReordered =
+        activity !== null &&
+        Object.keys(activity.changes as object).every(
+          (field) => field === "position"
+        );
+      if (activity) {
+        webhooksQueued = await enqueueWebhookEvent(
+          tx,
+          task.projectId,
+          "task.updated",
+          { task, changes: activity.changes }
+        );
+      }
+
+      return task;
     });
 
     logger.info("Task updated successfully", {
       route: context.route,
       taskId: id,
       updatedFields: Object.keys(updateData),
+      addedAssigneeIds,
+      removedAssigneeIds,
     });
 
     // Invalidate relevant caches after a successful write
+    revalidateTag("projects", { expire: 0 });
     revalidateTag(`project:${updatedTask.projectId}`, { expire: 0 });
     revalidateTag(`projectTasks:${updatedTask.projectId}`, { expire: 0 });
 
+    if (webhooksQueued > 0) {
+      dispatchWebhooks();
+    }
+
+    if (taskChanged) {
+      await publishProjectEvent(updatedTask.projectId, auth, {
+        type: "task.updated",
+        task: updatedTask,
+      });
+
+      if (reordered.length > 0) {
+        await publishProjectEvent(updatedTask.projectId, auth, {
+          type: "tasks.reordered",
+          positions: reordered,
+        });
+      }
+    }
+
+    if (taskChanged && !onlyReordered) {
+      await notifyTaskAssigned(auth, updatedTask, addedAssigneeIds);
+      await notifyTaskChanged(auth, updatedTask, "updated", {
+        status:
+          updatedTask.status !== existingTask.status
+            ? (findWorkflowStatus(workflow, updatedTask.status)?.name ??
+              updatedTask.status)
+            : undefined,
+        assigneeIds: updatedTask.assignees.map(({ user }) => user.id),
+        skipUserIds: addedAssigneeIds,
+      });
+    }
+
     return sendSuccess(updatedTask, "Task updated successfully", 200);
   } catch (error) {
     return handleError(error, context);
@@ -103,12 +493,17 @@ export async function PATCH(
 }
 
 export async function DELETE(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const context = { route: "/api/tasks/[id]", method: "DELETE" };
 
   try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
     const { id } = await params;
 
     // Validate ID
@@ -119,15 +514,45 @@ export async function DELETE(
     // Check if task exists
     const existingTask = await prisma.task.findUnique({
       where: { id },
+      include: {
+        assignees: { select: { user: { select: { id: true } } } },
+        checklistItems: taskChecklistSelect,
+        labels: taskLabelsSelect,
+      },
     });
 
     if (!existingTask) {
       return handleNotFound("Task", { ...context, taskId: id });
     }
 
-    // Delete task
-    await prisma.task.delete({
-      where: { id },
+    const access = await authorizeProjectAction(
+      auth,
+      existingTask.projectId,
+      "task:delete",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    // Delete task, record it in the activity ledger and queue webhooks
+    const webhooksQueued = await prisma.$transaction(async (tx) => {
+      await tx.task.delete({
+        where: { id },
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "TASK",
+        entityId: id,
+        projectId: existingTask.projectId,
+        action: "DELETE",
+        before: toTaskActivitySnapshot(existingTask),
+      });
+
+      return enqueueWebhookEvent(tx, existingTask.projectId, "task.deleted", {
+        task: toTaskActivitySnapshot(existingTask),
+      });
     });
 
     logger.info("Task deleted successfully", {
@@ -136,9 +561,23 @@ export async function DELETE(
     });
 
     // Invalidate relevant caches after a successful write
+    revalidateTag("projects", { expire: 0 });
     revalidateTag(`project:${existingTask.projectId}`, { expire: 0 });
     revalidateTag(`projectTasks:${existingTask.projectId}`, { expire: 0 });
 
+    if (webhooksQueued > 0) {
+      dispatchWebhooks();
+    }
+
+    await publishProjectEvent(existingTask.projectId, auth, {
+      type: "task.deleted",
+      taskId: id,
+    });
+
+    await notifyTaskChanged(auth, existingTask, "deleted", {
+      assigneeIds: existingTask.assignees.map(({ user }) => user.id),
+    });
+
     return sendSuccess(
       { message: "Task deleted successfully" },
       "Task deleted successfully",
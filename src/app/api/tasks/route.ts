@@ -1,20 +1,175 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { sendSuccess } from "@/lib/responseHandler";
-import {
-  handleError,
-  handleValidationError,
-  handleNotFound,
-} from "@/lib/errorHandler";
+import { handleError, handleValidationError } from "@/lib/errorHandler";
 import { logger } from "@/lib/logger";
 import { revalidateTag } from "next/cache";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { authorizeProjectAction, forbiddenResponse } from "@/lib/authorization";
+import { can } from "@/lib/permissions";
+import {
+  taskAssigneesSelect,
+  taskChecklistSelect,
+  taskLabelsSelect,
+  taskSelect,
+  toTaskActivitySnapshot,
+  nextTaskPosition,
+  parseTaskPlanningFields,
+  isValidTaskSchedule,
+  validateParentTask,
+} from "@/lib/tasks";
+import { recordActivity } from "@/lib/activity";
+import { dispatchWebhooks, enqueueWebhookEvent } from "@/lib/webhooks";
+import { notifyTaskChanged } from "@/lib/notifications";
+import { publishProjectEvent } from "@/lib/realtime";
+import {
+  STATUS_KEY_PATTERN,
+  describeTaskStatus,
+  getProjectWorkflow,
+} from "@/lib/workflows";
+import { validateTaskMilestone } from "@/lib/milestones";
+import { findForeignLabelIds, parseLabelIds } from "@/lib/labels";
+
+/**
+ * List tasks across projects by assignee.
+ * `?assignee=me` returns the authenticated user's tasks; admins may pass
+ * any user ID.
+ */
+export async function GET(req: NextRequest) {
+  const context = { route: "/api/tasks", method: "GET" };
+
+  try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const assignee = searchParams.get("assignee");
+    const status = searchParams.get("status");
+    const page = parseInt(searchParams.get("page") || "1", 10);
+    const limit = parseInt(searchParams.get("limit") || "20", 10);
+
+    if (!assignee) {
+      return handleValidationError(
+        "The assignee query parameter is required (e.g. assignee=me)",
+        context
+      );
+    }
+
+    const assigneeId = assignee === "me" ? auth.userId! : assignee;
+    if (!can(auth, "task:list-assigned", { type: "user", id: assigneeId })) {
+      return forbiddenResponse("You can only list your own tasks");
+    }
+
+    if (status !== null && !STATUS_KEY_PATTERN.test(status)) {
+      return handleValidationError("Invalid status value", context);
+    }
+
+    // Validate pagination params
+    if (page < 1 || limit < 1 || limit > 100) {
+      return handleValidationError(
+        "Invalid pagination parameters. Page and limit must be positive, limit must not exceed 100.",
+        context
+      );
+    }
+
+    const where = {
+      assignees: { some: { userId: assigneeId } },
+      ...(status ? { status } : {}),
+    };
+
+    const [total, tasks] = await Promise.all([
+      prisma.task.count({ where }),
+      prisma.task.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          status: true,
+          position: true,
+          priority: true,
+          startDate: true,
+          dueDate: true,
+          estimatedHours: true,
+          parentId: true,
+          milestoneId: true,
+          projectId: true,
+          createdAt: true,
+          updatedAt: true,
+          project: {
+            select: {
+              id: true,
+              title: true,
+              workflowStatuses: {
+                select: { key: true, name: true, category: true },
+              },
+            },
+          },
+          assignees: taskAssigneesSelect,
+          checklistItems: taskChecklistSelect,
+          labels: taskLabelsSelect,
+        },
+        orderBy: { updatedAt: "desc" },
+      }),
+    ]);
+
+    // Status keys only mean something within their project's workflow
+    const tasksWithStatus = tasks.map(
+      ({ project: { workflowStatuses, ...project }, ...task }) => {
+        const { name, category } = describeTaskStatus(
+          workflowStatuses,
+          task.status
+        );
+        return {
+          ...task,
+          statusName: name,
+          statusCategory: category,
+          project,
+        };
+      }
+    );
+
+    logger.info("Assigned tasks retrieved successfully", {
+      route: context.route,
+      assigneeId,
+      page,
+      limit,
+      totalCount: total,
+    });
+
+    return sendSuccess(
+      {
+        tasks: tasksWithStatus,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+      "Tasks retrieved successfully",
+      200
+    );
+  } catch (error) {
+    return handleError(error, context);
+  }
+}
 
 export async function POST(req: NextRequest) {
   const context = { route: "/api/tasks", method: "POST" };
 
   try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
     const body = await req.json();
-    const { title, description, projectId } = body;
+    const { title, description, projectId, parentId, milestoneId } = body;
 
     // Validate required fields
     if (!title || typeof title !== "string") {
@@ -39,31 +194,118 @@ export async function POST(req: NextRequest) {
       return handleValidationError("Description must be a string", context);
     }
 
-    // Check if project exists
-    const project = await prisma.project.findUnique({
-      where: { id: projectId },
-    });
+    const planning = parseTaskPlanningFields(body);
+    if ("error" in planning) {
+      return handleValidationError(planning.error, context);
+    }
 
-    if (!project) {
-      return handleNotFound("Project", { ...context, projectId });
+    if (!isValidTaskSchedule(planning.data.startDate, planning.data.dueDate)) {
+      return handleValidationError(
+        "The start date must be on or before the due date",
+        context
+      );
     }
 
-    // Create task
-    const newTask = await prisma.task.create({
-      data: {
-        title,
-        description: description || null,
-        projectId,
-      },
-      select: {
-        id: true,
-        title: true,
-        description: true,
-        status: true,
-        projectId: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    if (
+      parentId !== undefined &&
+      parentId !== null &&
+      typeof parentId !== "string"
+    ) {
+      return handleValidationError("ParentId must be a string", context);
+    }
+
+    if (
+      milestoneId !== undefined &&
+      milestoneId !== null &&
+      typeof milestoneId !== "string"
+    ) {
+      return handleValidationError("MilestoneId must be a string", context);
+    }
+
+    const labelIds =
+      body.labelIds === undefined ? [] : parseLabelIds(body.labelIds);
+    if (!labelIds) {
+      return handleValidationError(
+        "labelIds must be an array of label IDs",
+        context
+      );
+    }
+
+    // Check the project exists and the caller may add tasks to it
+    const access = await authorizeProjectAction(
+      auth,
+      projectId,
+      "task:create",
+      context
+    );
+    if (!access.success) {
+      return access.error;
+    }
+
+    if (parentId) {
+      const parentError = await validateParentTask(parentId, { projectId });
+      if (parentError) {
+        return handleValidationError(parentError, context);
+      }
+    }
+
+    if (milestoneId) {
+      const milestoneError = await validateTaskMilestone(
+        milestoneId,
+        projectId
+      );
+      if (milestoneError) {
+        return handleValidationError(milestoneError, context);
+      }
+    }
+
+    const foreignLabelIds = await findForeignLabelIds(projectId, labelIds);
+    if (foreignLabelIds.length > 0) {
+      return handleValidationError("Labels must belong to this project", {
+        ...context,
+        foreignLabelIds,
+      });
+    }
+
+    const workflow = await getProjectWorkflow(projectId);
+    const initialStatus = workflow.statuses[0].key;
+
+    // Create task, record it in the activity ledger and queue webhooks
+    let webhooksQueued = 0;
+    const newTask = await prisma.$transaction(async (tx) => {
+      const task = await tx.task.create({
+        data: {
+          title,
+          description: description || null,
+          ...planning.data,
+          parentId: parentId || null,
+          milestoneId: milestoneId || null,
+          projectId,
+          labels: { create: labelIds.map((labelId) => ({ labelId })) },
+          // New tasks go to the bottom of the workflow's first column
+          status: initialStatus,
+          position: await nextTaskPosition(tx, projectId, initialStatus),
+        },
+        select: taskSelect,
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "TASK",
+        entityId: task.id,
+        projectId: task.projectId,
+        action: "CREATE",
+        after: toTaskActivitySnapshot(task),
+      });
+
+      webhooksQueued = await enqueueWebhookEvent(
+        tx,
+        task.projectId,
+        "task.created",
+        { task }
+      );
+
+      return task;
     });
 
     logger.info("Task created successfully", {
@@ -73,9 +315,21 @@ export async function POST(req: NextRequest) {
     });
 
     // Invalidate relevant caches after a successful write
+    revalidateTag("projects", { expire: 0 });
     revalidateTag(`project:${newTask.projectId}`, { expire: 0 });
     revalidateTag(`projectTasks:${newTask.projectId}`, { expire: 0 });
 
+    if (webhooksQueued > 0) {
+      dispatchWebhooks();
+    }
+
+    await publishProjectEvent(newTask.projectId, auth, {
+      type: "task.created",
+      task: newTask,
+    });
+
+    await notifyTaskChanged(auth, newTask, "created");
+
     return sendSuccess(newTask, "Task created successfully", 201);
   } catch (error) {
     return handleError(error, context);
@@ -9,6 +9,10 @@ import {
 import { logger } from "@/lib/logger";
 import { unstable_cache } from "next/cache";
 import { redis } from "../../../../../lib/redis";
+import { verifyApiRequest } from "@/lib/apiAuth";
+import { forbiddenResponse } from "@/lib/authorization";
+import { can } from "@/lib/permissions";
+import { recordActivity } from "@/lib/activity";
 
 const USERS_LIST_KEY = "users:list";
 
@@ -67,6 +71,11 @@ export async function PATCH(
   const context = { route: "/api/users/[id]", method: "PATCH" };
 
   try {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error;
+    }
+
     const { id } = await params;
 
     // Validate ID
@@ -74,6 +83,10 @@ export async function PATCH(
       return handleValidationError("Invalid user ID", context);
     }
 
+    if (!can(auth, "user:update", { type: "user", id })) {
+      return forbiddenResponse("You can only update your own profile");
+    }
+
     const body = await req.json();
     const { name } = body;
 
@@ -94,16 +107,29 @@ export async function PATCH(
       return handleNotFound("User", { ...context, userId: id });
     }
 
-    const updatedUser = await prisma.user.update({
-      where: { id },
-      data: { name },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    const updatedUser = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.update({
+        where: { id },
+        data: { name },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+
+      await recordActivity(tx, {
+        actor: auth,
+        entityType: "USER",
+        entityId: id,
+        action: "UPDATE",
+        before: existingUser,
+        after: user,
+      });
+
+      return user;
     });
 
     // Cache invalidation (best-effort)
@@ -4,6 +4,11 @@ import { sendSuccess } from "@/lib/responseHandler";
 import { handleError, handleValidationError } from "@/lib/errorHandler";
 import { logger } from "@/lib/logger";
 import { redis } from "../../../../lib/redis";
+import { withPermission } from "@/lib/authorization";
+import { recordActivity } from "@/lib/activity";
+import { hashPassword } from "@/lib/password";
+import { sendVerificationEmail } from "@/lib/authTokens";
+import { normalizeEmail } from "@/lib/auth";
 
 const USERS_LIST_TTL_SECONDS = 60;
 const USERS_LIST_KEY = "users:list";
@@ -120,64 +125,97 @@ export async function GET(req: NextRequest) {
   }
 }
 
-export async function POST(req: NextRequest) {
-  const context = { route: "/api/users", method: "POST" };
+// Self-service accounts go through /api/auth/signup; this needs user:create
+export const POST = withPermission(
+  "user:create",
+  async (req: NextRequest, auth) => {
+    const context = { route: "/api/users", method: "POST" };
 
-  try {
-    const body = await req.json();
-    const { email, name, password } = body;
-
-    if (!email || typeof email !== "string") {
-      return handleValidationError(
-        "Email is required and must be a string",
-        context
-      );
-    }
+    try {
+      const body = await req.json();
+      const { email, name, password } = body;
+
+      if (!email || typeof email !== "string") {
+        return handleValidationError(
+          "Email is required and must be a string",
+          context
+        );
+      }
 
-    if (!password || typeof password !== "string") {
-      return handleValidationError(
-        "Password is required and must be a string",
-        context
-      );
-    }
+      if (!password || typeof password !== "string") {
+        return handleValidationError(
+          "Password is required and must be a string",
+          context
+        );
+      }
 
-    if (name !== undefined && name !== null && typeof name !== "string") {
-      return handleValidationError("Name must be a string", context);
-    }
+      if (name !== undefined && name !== null && typeof name !== "string") {
+        return handleValidationError("Name must be a string", context);
+      }
 
-    const existingUser = await prisma.user.findUnique({ where: { email } });
-    if (existingUser) {
-      return handleValidationError("User already exists", context);
-    }
+      const normalizedEmail = normalizeEmail(email);
 
-    const newUser = await prisma.user.create({
-      data: {
-        email,
-        name: name ?? null,
-        password,
-      },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
+      const existingUser = await prisma.user.findUnique({
+        where: { email: normalizedEmail },
+      });
+      if (existingUser) {
+        return handleValidationError("User already exists", context);
+      }
 
-    // Cache invalidation (best-effort)
-    try {
-      await redis.del(USERS_LIST_KEY);
-      logger.info(`Cache Invalidated: ${USERS_LIST_KEY}`, context);
-    } catch (redisError) {
-      logger.warn("Redis delete failed during invalidation", {
-        ...context,
-        redisError,
+      const hashedPassword = await hashPassword(password);
+
+      const newUser = await prisma.$transaction(async (tx) => {
+        const user = await tx.user.create({
+          data: {
+            email: normalizedEmail,
+            name: name ?? null,
+            password: hashedPassword,
+          },
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+        });
+
+        await recordActivity(tx, {
+          actor: auth,
+          entityType: "USER",
+          entityId: user.id,
+          action: "CREATE",
+          after: user,
+        });
+
+        return user;
       });
-    }
 
-    return sendSuccess(newUser, "User created successfully", 201);
-  } catch (error) {
-    return handleError(error, context);
+      // The new user confirms their own address before signing in
+      try {
+        await sendVerificationEmail(newUser);
+      } catch (mailError) {
+        logger.warn("Verification email could not be sent", {
+          ...context,
+          userId: newUser.id,
+          mailError,
+        });
+      }
+
+      // Cache invalidation (best-effort)
+      try {
+        await redis.del(USERS_LIST_KEY);
+        logger.info(`Cache Invalidated: ${USERS_LIST_KEY}`, context);
+      } catch (redisError) {
+        logger.warn("Redis delete failed during invalidation", {
+          ...context,
+          redisError,
+        });
+      }
+
+      return sendSuccess(newUser, "User created successfully", 201);
+    } catch (error) {
+      return handleError(error, context);
+    }
   }
-}
+);
@@ -3,11 +3,21 @@
 import { useEffect, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import Image from "next/image";
 import { CreateProjectModal } from "@/components/modals/CreateProjectModal";
+import { JoinRequestModal } from "@/components/modals/JoinRequestModal";
 import { ConfirmDialog } from "@/components/modals/ConfirmDialog";
 import { LoadingOverlay } from "@/components/ui/LoadingOverlay";
 import { useConfirm } from "@/hooks/useConfirm";
+import { useSessionRefresh } from "@/hooks/useSessionRefresh";
+import { usePermissions } from "@/hooks/usePermissions";
 import { showSuccessToast, showErrorToast } from "@/lib/toastHelpers";
+import {
+  PROJECT_CATEGORIES,
+  PROJECT_CATEGORY_IMAGES,
+  PROJECT_CATEGORY_LABELS,
+  type ProjectCategory,
+} from "@/lib/projectCategories";
 
 // Types based on Prisma schema
 interface Project {
@@ -15,6 +25,7 @@ interface Project {
   title: string;
   description: string;
   status: "IDEA" | "IN_PROGRESS" | "COMPLETED";
+  category: ProjectCategory;
   ownerId: string;
   createdAt: string;
   updatedAt: string;
@@ -26,14 +37,55 @@ interface Project {
   tasks?: Array<{
     id: string;
     status: string;
+    statusCategory: TaskStatusCategory;
+    dueDate: string | null;
   }>;
 }
 
+// Tasks use per-project workflow statuses; the category says what they mean
+type TaskStatusCategory = "TODO" | "IN_PROGRESS" | "DONE";
+
+interface AssignedTask {
+  id: string;
+  title: string;
+  status: string;
+  statusName: string;
+  statusCategory: TaskStatusCategory;
+  updatedAt: string;
+  project: {
+    id: string;
+    title: string;
+  };
+}
+
+interface JoinRequest {
+  id: string;
+  projectId: string;
+  status: "PENDING" | "APPROVED" | "REJECTED" | "CANCELLED";
+  message: string | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  project: {
+    id: string;
+    title: string;
+  };
+}
+
 interface DashboardStats {
   totalProjects: number;
   activeProjects: number;
   completedTasks: number;
   pendingTasks: number;
+  overdueTasks: number;
+  dueThisWeekTasks: number;
+}
+
+// Due dates are calendar days; compare them as YYYY-MM-DD in local time
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
 }
 
 // Count-up animation hook for stats
@@ -95,6 +147,41 @@ function StatusBadge({ status }: { status: string }) {
   );
 }
 
+// Task status pill for the My Tasks panel
+function TaskStatusBadge({ task }: { task: AssignedTask }) {
+  const styles: Record<TaskStatusCategory, string> = {
+    TODO: "bg-yellow-100 text-yellow-800 border-yellow-200",
+    IN_PROGRESS: "bg-blue-100 text-blue-800 border-blue-200",
+    DONE: "bg-green-100 text-green-800 border-green-200",
+  };
+
+  return (
+    <span
+      className={`px-3 py-1 rounded-full text-xs font-semibold border ${styles[task.statusCategory]}`}
+    >
+      {task.statusName}
+    </span>
+  );
+}
+
+// Join request status pill
+function JoinRequestStatusBadge({ status }: { status: JoinRequest["status"] }) {
+  const styles = {
+    PENDING: "bg-amber-100 text-amber-800 border-amber-200",
+    APPROVED: "bg-green-100 text-green-800 border-green-200",
+    REJECTED: "bg-red-100 text-red-800 border-red-200",
+    CANCELLED: "bg-gray-100 text-gray-700 border-gray-200",
+  };
+
+  return (
+    <span
+      className={`px-3 py-1 rounded-full text-xs font-semibold border ${styles[status]}`}
+    >
+      {status}
+    </span>
+  );
+}
+
 // Animated stat card component
 function StatCard({
   label,
@@ -146,17 +233,28 @@ export default function DashboardPage() {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [userId, setUserId] = useState<string>("");
   const { confirm, confirmProps } = useConfirm();
+  useSessionRefresh();
+  const { can } = usePermissions();
 
   // Three distinct sections - independent state
   const [myCreatedProjects, setMyCreatedProjects] = useState<Project[]>([]);
   const [contributedProjects, setContributedProjects] = useState<Project[]>([]);
   const [openProjects, setOpenProjects] = useState<Project[]>([]);
+  // Causes the Open Projects grid is narrowed to (none: every cause)
+  const [openCategories, setOpenCategories] = useState<ProjectCategory[]>([]);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  const [myTasks, setMyTasks] = useState<AssignedTask[]>([]);
+  const [joinRequestProject, setJoinRequestProject] = useState<Project | null>(
+    null
+  );
 
   const [stats, setStats] = useState<DashboardStats>({
     totalProjects: 0,
     activeProjects: 0,
     completedTasks: 0,
     pendingTasks: 0,
+    overdueTasks: 0,
+    dueThisWeekTasks: 0,
   });
 
   const calculateStats = useCallback((projects: Project[]) => {
@@ -165,17 +263,34 @@ export default function DashboardPage() {
       (p) => p.status === "IN_PROGRESS"
     ).length;
 
-    // Calculate task stats
+    // Calculate task stats; "this week" is today and the six days after
     let completedTasks = 0;
     let pendingTasks = 0;
+    let overdueTasks = 0;
+    let dueThisWeekTasks = 0;
+
+    const now = new Date();
+    const today = toDateKey(now);
+    const weekEnd = toDateKey(
+      new Date(now.getFullYear(), now.getMonth(), now.getDate() + 6)
+    );
 
     projects.forEach((project) => {
       if (project.tasks) {
         project.tasks.forEach((task) => {
-          if (task.status === "DONE") {
+          if (task.statusCategory === "DONE") {
             completedTasks++;
-          } else {
-            pendingTasks++;
+            return;
+          }
+
+          pendingTasks++;
+
+          const due = task.dueDate?.slice(0, 10);
+          if (!due) return;
+          if (due < today) {
+            overdueTasks++;
+          } else if (due <= weekEnd) {
+            dueThisWeekTasks++;
           }
         });
       }
@@ -186,6 +301,8 @@ export default function DashboardPage() {
       activeProjects,
       completedTasks,
       pendingTasks,
+      overdueTasks,
+      dueThisWeekTasks,
     });
   }, []);
 
@@ -224,17 +341,16 @@ export default function DashboardPage() {
 
   const fetchContributedProjects = useCallback(async () => {
     try {
-      // Note: This endpoint may need to be implemented on backend
-      // For now, we'll handle gracefully if it doesn't exist
+      // Projects the current user has joined as a member
       // Cookie is sent automatically
       const response = await fetch("/api/projects?contributed=true&limit=100", {
         credentials: "include",
       });
 
-      // Gracefully handle if endpoint not implemented yet
+      // Treat errors as empty list - don't crash the dashboard
       if (!response.ok) {
         console.warn(
-          `[DASHBOARD][CONTRIBUTED_PROJECTS] API returned ${response.status} - treating as empty (may not be implemented yet)`
+          `[DASHBOARD][CONTRIBUTED_PROJECTS] API returned ${response.status} - treating as empty`
         );
         setContributedProjects([]);
         return;
@@ -254,10 +370,16 @@ export default function DashboardPage() {
     }
   }, []);
 
-  const fetchOpenProjects = useCallback(async () => {
+  // Open projects, narrowed to `categories` when any are given
+  const fetchOpenProjects = useCallback(async (categories: ProjectCategory[] = []) => {
     try {
+      const query = new URLSearchParams({ public: "true", limit: "100" });
+      if (categories.length > 0) {
+        query.set("category", categories.join(","));
+      }
+
       // Cookie is sent automatically
-      const response = await fetch("/api/projects?public=true&limit=100", {
+      const response = await fetch(`/api/projects?${query}`, {
         credentials: "include",
       });
 
@@ -284,6 +406,65 @@ export default function DashboardPage() {
     }
   }, []);
 
+  const toggleOpenCategory = (category: ProjectCategory) => {
+    const next = openCategories.includes(category)
+      ? openCategories.filter((selected) => selected !== category)
+      : [...openCategories, category];
+    setOpenCategories(next);
+    fetchOpenProjects(next);
+  };
+
+  const fetchMyTasks = useCallback(async () => {
+    try {
+      // Cookie is sent automatically
+      const response = await fetch("/api/tasks?assignee=me&limit=20", {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        console.warn(
+          `[DASHBOARD][MY_TASKS] API returned ${response.status} - treating as empty`
+        );
+        setMyTasks([]);
+        return;
+      }
+
+      const data = await response.json();
+      const tasks = data.data?.tasks || [];
+
+      console.log(`[DASHBOARD][MY_TASKS] Loaded ${tasks.length} tasks`);
+      setMyTasks(tasks);
+    } catch (err) {
+      // Network or parsing error - treat as empty, NOT a crash
+      console.error("[DASHBOARD][MY_TASKS] Fetch failed:", err);
+      setMyTasks([]);
+    }
+  }, []);
+
+  const fetchMyJoinRequests = useCallback(async () => {
+    try {
+      // Cookie is sent automatically
+      const response = await fetch("/api/join-requests", {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        console.warn(
+          `[DASHBOARD][JOIN_REQUESTS] API returned ${response.status} - treating as empty`
+        );
+        setJoinRequests([]);
+        return;
+      }
+
+      const data = await response.json();
+      setJoinRequests(data.data?.joinRequests || []);
+    } catch (err) {
+      // Network or parsing error - treat as empty, NOT a crash
+      console.error("[DASHBOARD][JOIN_REQUESTS] Fetch failed:", err);
+      setJoinRequests([]);
+    }
+  }, []);
+
   const fetchCurrentUser = useCallback(async () => {
     try {
       const response = await fetch("/api/auth/me", {
@@ -309,6 +490,7 @@ export default function DashboardPage() {
   const fetchDashboardData = useCallback(async () => {
     console.log("[DASHBOARD] Starting data fetch...");
     setLoading(true);
+    setOpenCategories([]);
 
     // Fetch all sections independently and in parallel
     await Promise.all([
@@ -316,11 +498,20 @@ export default function DashboardPage() {
       fetchMyCreatedProjects(),
       fetchContributedProjects(),
       fetchOpenProjects(),
+      fetchMyJoinRequests(),
+      fetchMyTasks(),
     ]);
 
     setLoading(false);
     console.log("[DASHBOARD] Data fetch complete");
-  }, [fetchCurrentUser, fetchMyCreatedProjects, fetchContributedProjects, fetchOpenProjects]);
+  }, [
+    fetchCurrentUser,
+    fetchMyCreatedProjects,
+    fetchContributedProjects,
+    fetchOpenProjects,
+    fetchMyJoinRequests,
+    fetchMyTasks,
+  ]);
 
   useEffect(() => {
     // Middleware already handles auth - just fetch data
@@ -356,6 +547,38 @@ export default function DashboardPage() {
     router.push("/login");
   };
 
+  const handleLogoutEverywhere = async () => {
+    const confirmed = await confirm({
+      title: "Sign Out Everywhere",
+      message:
+        "This signs you out on every device and browser, including this one. Continue?",
+      confirmText: "Sign Out Everywhere",
+      cancelText: "Cancel",
+      variant: "danger",
+    });
+
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch("/api/auth/logout-all", {
+        method: "POST",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to sign out everywhere");
+      }
+
+      showSuccessToast("Signed out of all devices");
+    } catch (err) {
+      console.error("Logout everywhere error:", err);
+      showErrorToast("Failed to sign out everywhere. Please try again.");
+      return;
+    }
+
+    router.push("/login");
+  };
+
   const currentDate = new Date().toLocaleDateString("en-US", {
     weekday: "long",
     year: "numeric",
@@ -363,6 +586,13 @@ export default function DashboardPage() {
     day: "numeric",
   });
 
+  const contributedProjectIds = new Set(contributedProjects.map((p) => p.id));
+  const pendingRequestProjectIds = new Set(
+    joinRequests
+      .filter((request) => request.status === "PENDING")
+      .map((request) => request.projectId)
+  );
+
   if (loading) {
     return <LoadingOverlay message="Loading your dashboard..." fullScreen />;
   }
@@ -459,12 +689,32 @@ export default function DashboardPage() {
                 <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></div>
                 <span className="text-sm font-medium text-gray-700">User</span>
               </div>
+              {can("admin:access") && (
+                <Link
+                  href="/admin"
+                  className="hidden sm:block px-5 py-2 text-sm font-semibold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 rounded-xl transition-all duration-300 hover:shadow-md"
+                >
+                  Admin
+                </Link>
+              )}
+              <Link
+                href="/settings"
+                className="hidden sm:block px-5 py-2 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl transition-all duration-300 hover:shadow-md"
+              >
+                Settings
+              </Link>
               <button
                 onClick={handleLogout}
                 className="px-5 py-2 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl transition-all duration-300 hover:shadow-md"
               >
                 Logout
               </button>
+              <button
+                onClick={handleLogoutEverywhere}
+                className="hidden sm:block px-5 py-2 text-sm font-semibold text-red-700 bg-red-50 hover:bg-red-100 rounded-xl transition-all duration-300 hover:shadow-md"
+              >
+                Sign Out Everywhere
+              </button>
             </div>
           </div>
         </header>
@@ -491,7 +741,7 @@ export default function DashboardPage() {
           </div>
 
           {/* Stats Cards */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-20">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-20">
             <StatCard
               label="Total Projects"
               value={stats.totalProjects}
@@ -512,8 +762,68 @@ export default function DashboardPage() {
               value={stats.pendingTasks}
               delay={300}
             />
+            <StatCard
+              label="Overdue Tasks"
+              value={stats.overdueTasks}
+              delay={400}
+            />
+            <StatCard
+              label="Due This Week"
+              value={stats.dueThisWeekTasks}
+              delay={500}
+            />
           </div>
 
+          {/* My Tasks */}
+          <section className="mb-20 section-enter">
+            <div className="flex items-center justify-between mb-8">
+              <div>
+                <h3 className="text-3xl font-bold text-gray-900 mb-2">
+                  My Tasks
+                </h3>
+                <p className="text-gray-600">
+                  Work assigned to you across all projects
+                </p>
+              </div>
+              <div className="px-4 py-2 bg-amber-100 rounded-full">
+                <span className="text-sm font-bold text-amber-700">
+                  {myTasks.filter((task) => task.statusCategory !== "DONE").length}{" "}
+                  open
+                </span>
+              </div>
+            </div>
+            {myTasks.length === 0 ? (
+              <div className="bg-white rounded-3xl shadow-xl p-10 text-center border-2 border-dashed border-amber-200">
+                <div className="w-16 h-16 bg-linear-to-br from-amber-100 to-yellow-100 rounded-full mx-auto flex items-center justify-center mb-4">
+                  <span className="text-3xl">📋</span>
+                </div>
+                <p className="text-gray-600">
+                  No tasks are assigned to you yet.
+                </p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-2xl shadow-lg border border-amber-100 divide-y divide-gray-100">
+                {myTasks.map((task) => (
+                  <Link
+                    key={task.id}
+                    href={`/projects/${task.project.id}`}
+                    className="flex items-center justify-between gap-4 px-6 py-4 hover:bg-amber-50/50 transition-colors"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-900 truncate">
+                        {task.title}
+                      </p>
+                      <p className="text-sm text-gray-500 truncate">
+                        {task.project.title}
+                      </p>
+                    </div>
+                    <TaskStatusBadge task={task} />
+                  </Link>
+                ))}
+              </div>
+            )}
+          </section>
+
           <WaveDivider />
           <WaveDivider />
 
@@ -666,6 +976,40 @@ export default function DashboardPage() {
                 ))}
               </div>
             )}
+
+            {joinRequests.length > 0 && (
+              <div className="mt-10 bg-white rounded-2xl shadow-lg p-6 border border-blue-100">
+                <h4 className="text-lg font-bold text-gray-900 mb-4">
+                  My Join Requests
+                </h4>
+                <ul className="divide-y divide-gray-100">
+                  {joinRequests.map((request) => (
+                    <li
+                      key={request.id}
+                      className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"
+                    >
+                      <div>
+                        <Link
+                          href={`/projects/${request.projectId}`}
+                          className="font-semibold text-gray-900 hover:text-blue-600 transition-colors"
+                        >
+                          {request.project.title}
+                        </Link>
+                        <p className="text-xs text-gray-500">
+                          Requested{" "}
+                          {new Date(request.createdAt).toLocaleDateString(
+                            "en-US",
+                            { month: "short", day: "numeric", year: "numeric" }
+                          )}
+                          {request.reviewNote && ` · "${request.reviewNote}"`}
+                        </p>
+                      </div>
+                      <JoinRequestStatusBadge status={request.status} />
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </section>
 
           <WaveDivider />
@@ -695,6 +1039,40 @@ export default function DashboardPage() {
                 </div>
               </div>
             </div>
+            <div
+              className="flex flex-wrap gap-2 mb-8"
+              role="group"
+              aria-label="Filter open projects by cause"
+            >
+              <button
+                onClick={() => {
+                  setOpenCategories([]);
+                  fetchOpenProjects();
+                }}
+                aria-pressed={openCategories.length === 0}
+                className={`px-4 py-2 rounded-full text-sm font-semibold border transition-colors ${
+                  openCategories.length === 0
+                    ? "bg-emerald-600 text-white border-emerald-600"
+                    : "bg-white text-gray-700 border-gray-200 hover:border-emerald-400"
+                }`}
+              >
+                All causes
+              </button>
+              {PROJECT_CATEGORIES.map((category) => (
+                <button
+                  key={category}
+                  onClick={() => toggleOpenCategory(category)}
+                  aria-pressed={openCategories.includes(category)}
+                  className={`px-4 py-2 rounded-full text-sm font-semibold border transition-colors ${
+                    openCategories.includes(category)
+                      ? "bg-emerald-600 text-white border-emerald-600"
+                      : "bg-white text-gray-700 border-gray-200 hover:border-emerald-400"
+                  }`}
+                >
+                  {PROJECT_CATEGORY_LABELS[category]}
+                </button>
+              ))}
+            </div>
             {openProjects.length === 0 ? (
               <div className="bg-white rounded-3xl shadow-xl p-16 text-center">
                 <div className="float-animation mb-6">
@@ -703,11 +1081,14 @@ export default function DashboardPage() {
                   </div>
                 </div>
                 <h4 className="text-xl font-bold text-gray-900 mb-3">
-                  No Open Projects Yet
+                  {openCategories.length > 0
+                    ? "No Matching Projects"
+                    : "No Open Projects Yet"}
                 </h4>
                 <p className="text-gray-600 max-w-md mx-auto">
-                  There are no open projects available at the moment. Check back
-                  later!
+                  {openCategories.length > 0
+                    ? "No open projects work for these causes yet. Try another cause."
+                    : "There are no open projects available at the moment. Check back later!"}
                 </p>
               </div>
             ) : (
@@ -725,11 +1106,20 @@ export default function DashboardPage() {
                           <h4 className="text-xl font-bold text-gray-900 mb-2 group-hover:text-emerald-600 transition-colors">
                             {project.title}
                           </h4>
-                          <StatusBadge status={project.status} />
-                        </div>
-                        <div className="w-14 h-14 bg-linear-to-br from-emerald-400 to-green-400 rounded-2xl flex items-center justify-center shadow-lg">
-                          <span className="text-3xl">🎯</span>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <StatusBadge status={project.status} />
+                            <span className="px-3 py-1 bg-teal-50 text-teal-800 border border-teal-200 rounded-full text-xs font-semibold">
+                              {PROJECT_CATEGORY_LABELS[project.category]}
+                            </span>
+                          </div>
                         </div>
+                        <Image
+                          src={PROJECT_CATEGORY_IMAGES[project.category]}
+                          alt=""
+                          width={56}
+                          height={56}
+                          className="w-14 h-14 rounded-2xl shadow-lg"
+                        />
                       </div>
                       <div className="mb-4 p-3 bg-emerald-50 rounded-xl flex items-center gap-2">
                         <div className="w-8 h-8 bg-emerald-200 rounded-full flex items-center justify-center">
@@ -744,12 +1134,28 @@ export default function DashboardPage() {
                       <p className="text-gray-600 text-sm mb-6 line-clamp-3 leading-relaxed">
                         {project.description}
                       </p>
-                      <Link
-                        href={`/projects/${project.id}`}
-                        className="block w-full px-6 py-4 text-base font-bold text-white bg-linear-to-r from-emerald-600 to-green-600 hover:from-emerald-700 hover:to-green-700 rounded-2xl transition-all duration-300 hover:shadow-xl text-center glow-on-hover"
-                      >
-                        🤲 Contribute Now
-                      </Link>
+                      {contributedProjectIds.has(project.id) ? (
+                        <Link
+                          href={`/projects/${project.id}`}
+                          className="block w-full px-6 py-4 text-base font-bold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 rounded-2xl transition-all duration-300 text-center"
+                        >
+                          ✅ You&apos;re Contributing
+                        </Link>
+                      ) : pendingRequestProjectIds.has(project.id) ? (
+                        <button
+                          disabled
+                          className="block w-full px-6 py-4 text-base font-bold text-amber-700 bg-amber-50 rounded-2xl text-center cursor-not-allowed"
+                        >
+                          ⏳ Request Pending
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => setJoinRequestProject(project)}
+                          className="block w-full px-6 py-4 text-base font-bold text-white bg-linear-to-r from-emerald-600 to-green-600 hover:from-emerald-700 hover:to-green-700 rounded-2xl transition-all duration-300 hover:shadow-xl text-center glow-on-hover"
+                        >
+                          🤲 Contribute Now
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -779,6 +1185,12 @@ export default function DashboardPage() {
         onSuccess={() => fetchDashboardData()}
         ownerId={userId}
       />
+      <JoinRequestModal
+        isOpen={joinRequestProject !== null}
+        onClose={() => setJoinRequestProject(null)}
+        onSuccess={() => fetchMyJoinRequests()}
+        project={joinRequestProject}
+      />
       <ConfirmDialog {...confirmProps} />
     </>
   );
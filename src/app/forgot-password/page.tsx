@@ -0,0 +1,119 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import Link from "next/link";
+import { Inter } from "next/font/google";
+import { showErrorToast } from "@/lib/toastHelpers";
+
+const inter = Inter({ subsets: ["latin"] });
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const trimmedEmail = email.trim();
+    if (!trimmedEmail.includes("@")) {
+      showErrorToast("Please enter a valid email address");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: trimmedEmail }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        showErrorToast(data.message || "Could not send reset link");
+        return;
+      }
+
+      setSentMessage(data.message);
+    } catch (err) {
+      console.error("[FORGOT PASSWORD ERROR]", err);
+      showErrorToast("An error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="relative min-h-screen flex items-center bg-gray-900 overflow-hidden">
+      <div
+        className="absolute inset-0 z-0 bg-cover bg-center bg-no-repeat"
+        style={{ backgroundImage: "url('/assets/image.png')" }}
+      >
+        <div className="absolute inset-0 bg-green-900/40 backdrop-blur-[2px]"></div>
+      </div>
+
+      <div
+        className={`relative z-10 w-full min-h-screen flex items-center justify-start px-4 sm:px-8 md:px-16 lg:px-24 ${inter.className}`}
+      >
+        <div className="w-full max-w-xl p-12 bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl">
+          <div className="mb-10">
+            <h2 className="text-4xl font-bold text-white tracking-tight">
+              Forgot Password
+            </h2>
+            <p className="mt-3 text-base text-green-100/90 leading-relaxed">
+              Enter your email and we&apos;ll send you a link to reset your
+              password.
+            </p>
+          </div>
+
+          {sentMessage ? (
+            <div className="px-4 py-3 rounded-lg bg-green-500/20 border border-green-300/30 text-sm text-green-50">
+              {sentMessage}
+            </div>
+          ) : (
+            <form className="space-y-8" onSubmit={handleSubmit}>
+              <div>
+                <label
+                  htmlFor="email"
+                  className="block text-sm font-medium text-green-50 mb-2"
+                >
+                  Email address
+                </label>
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  className="appearance-none block w-full px-4 py-3.5 bg-white/5 border border-white/10 placeholder-green-200/30 text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-green-400/50 focus:border-green-400/50 transition-all text-base"
+                  placeholder="name@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full flex justify-center py-3.5 px-4 text-base font-bold rounded-lg text-white bg-green-600 hover:bg-green-500 transition-all shadow-lg disabled:opacity-70 disabled:cursor-not-allowed"
+              >
+                {loading ? "Sending..." : "Send reset link"}
+              </button>
+            </form>
+          )}
+
+          <div className="mt-8 text-center">
+            <Link
+              href="/login"
+              className="text-sm font-medium text-green-300 hover:text-white transition-colors"
+            >
+              Back to sign in
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
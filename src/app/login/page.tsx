@@ -1,13 +1,20 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { Inter } from "next/font/google";
 import { showSuccessToast, showErrorToast } from "@/lib/toastHelpers";
+import { DEFAULT_REDIRECT_PATH, safeRedirectPath } from "@/lib/redirects";
 
 const inter = Inter({ subsets: ["latin"] });
 
+// Why the visitor was sent back to the login page (set by middleware / refresh)
+const REASON_NOTICES: Record<string, string> = {
+  session_expired: "Your session has expired. Please sign in again.",
+  invalid_session: "Your session is no longer valid. Please sign in again.",
+};
+
 export default function LoginPage() {
   const router = useRouter();
 
@@ -21,6 +28,48 @@ export default function LoginPage() {
     password: "",
   });
   const [loading, setLoading] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  const [redirectPath, setRedirectPath] = useState(DEFAULT_REDIRECT_PATH);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get("registered")) {
+      setNotice("Check your inbox for a link to verify your email address.");
+    }
+
+    const reason = params.get("reason");
+    if (reason && REASON_NOTICES[reason]) {
+      setNotice(REASON_NOTICES[reason]);
+    }
+
+    // Only same-site paths, never another origin
+    setRedirectPath(safeRedirectPath(params.get("redirect")));
+  }, []);
+
+  const handleResendVerification = async () => {
+    if (!unverifiedEmail) return;
+
+    try {
+      const response = await fetch("/api/auth/verify-email/resend", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: unverifiedEmail }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        showErrorToast(data.message || "Could not resend the email");
+        return;
+      }
+
+      showSuccessToast(data.message);
+      setUnverifiedEmail(null);
+    } catch (err) {
+      console.error("[LOGIN ERROR] Resend verification failed:", err);
+      showErrorToast("An error occurred. Please try again.");
+    }
+  };
 
   const handleSubmit = async (e: any) => {
     e.preventDefault();
@@ -63,21 +112,24 @@ export default function LoginPage() {
       console.log("[LOGIN] response body:", data);
 
       if (!response.ok) {
+        if (data.error?.code === "EMAIL_NOT_VERIFIED") {
+          setUnverifiedEmail(email);
+        }
         showErrorToast(data.message || "Login failed");
         return;
       }
 
       // Backend sets HTTP-only cookie, no need to manually store anything
       console.log("[LOGIN] ✅ Login successful!");
-      showSuccessToast("Welcome back! Redirecting to dashboard...");
-      console.log("[LOGIN] \u27a1\ufe0f Redirecting to /dashboard in 100ms...");
+      showSuccessToast("Welcome back! Redirecting...");
+      console.log(`[LOGIN] \u27a1\ufe0f Redirecting to ${redirectPath} in 100ms...`);
 
       // Small delay to ensure cookie is set before navigation
       await new Promise((resolve) => setTimeout(resolve, 100));
 
-      // Redirect to dashboard on success
-      console.log("[LOGIN] \ud83d\ude80 Navigating to dashboard now");
-      router.push("/dashboard");
+      // Go back to the page that sent us here (dashboard by default)
+      console.log("[LOGIN] \ud83d\ude80 Navigating now");
+      router.push(redirectPath);
     } catch (err) {
       console.error("[LOGIN ERROR] Network/System error:", err);
       showErrorToast("An error occurred. Please try again.");
@@ -112,6 +164,25 @@ export default function LoginPage() {
             </p>
           </div>
 
+          {notice && (
+            <div className="mb-6 px-4 py-3 rounded-lg bg-green-500/20 border border-green-300/30 text-sm text-green-50">
+              {notice}
+            </div>
+          )}
+
+          {unverifiedEmail && (
+            <div className="mb-6 px-4 py-3 rounded-lg bg-yellow-500/20 border border-yellow-300/30 text-sm text-yellow-50">
+              Your email address hasn&apos;t been verified yet.{" "}
+              <button
+                type="button"
+                onClick={handleResendVerification}
+                className="font-semibold underline hover:text-white"
+              >
+                Resend verification email
+              </button>
+            </div>
+          )}
+
           <form className="space-y-8" onSubmit={handleSubmit}>
             <div className="space-y-6">
               <div>
@@ -138,12 +209,20 @@ export default function LoginPage() {
               </div>
 
               <div>
-                <label
-                  htmlFor="password"
-                  className="block text-sm font-medium text-green-50 mb-2"
-                >
-                  Password
-                </label>
+                <div className="flex items-center justify-between mb-2">
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-medium text-green-50"
+                  >
+                    Password
+                  </label>
+                  <Link
+                    href="/forgot-password"
+                    className="text-sm text-green-300 hover:text-white transition-colors"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
                 <input
                   id="password"
                   name="password"
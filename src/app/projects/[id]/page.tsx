@@ -6,11 +6,48 @@ import Link from "next/link";
 import { CreateTaskModal } from "@/components/modals/CreateTaskModal";
 import { EditTaskModal } from "@/components/modals/EditTaskModal";
 import { EditProjectModal } from "@/components/modals/EditProjectModal";
+import { JoinRequestModal } from "@/components/modals/JoinRequestModal";
+import { CommentThread } from "@/components/comments/CommentThread";
 import { ConfirmDialog } from "@/components/modals/ConfirmDialog";
 import { LoadingOverlay } from "@/components/ui/LoadingOverlay";
 import { useConfirm } from "@/hooks/useConfirm";
+import { useSessionRefresh } from "@/hooks/useSessionRefresh";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  useProjectEvents,
+  type ProjectEventMessage,
+  type TaskDependency,
+  type ProjectMilestone,
+  type ProjectLabel,
+} from "@/hooks/useProjectEvents";
+import { useProjectWorkflow } from "@/hooks/useProjectWorkflow";
 import { showSuccessToast, showErrorToast } from "@/lib/toastHelpers";
-import { Edit2, Trash2 } from "lucide-react";
+import { TaskBoard, type TaskMove } from "@/components/tasks/TaskBoard";
+import {
+  TASK_PRIORITY_LABELS,
+  type TaskPriority,
+} from "@/components/tasks/TaskPlanningFields";
+import {
+  TaskChecklist,
+  type ChecklistItem,
+} from "@/components/tasks/TaskChecklist";
+import { SubtaskList } from "@/components/tasks/SubtaskList";
+import { DependencyView } from "@/components/tasks/DependencyView";
+import {
+  MilestoneTimeline,
+  type MilestoneFormValues,
+} from "@/components/tasks/MilestoneTimeline";
+import {
+  LabelManager,
+  LabelChip,
+  type LabelFormValues,
+} from "@/components/tasks/LabelManager";
+import { getTaskProgress, groupSubtasks } from "@/lib/taskProgress";
+import {
+  PROJECT_CATEGORY_LABELS,
+  type ProjectCategory,
+} from "@/lib/projectCategories";
+import { Edit2, Trash2, UserPlus, LogOut, Check, X, MessageSquare, ListChecks, Webhook, LayoutGrid, Columns3, Workflow, GitBranch, Lock, Flag } from "lucide-react";
 
 // Types based on Prisma schema
 interface Project {
@@ -18,6 +55,7 @@ interface Project {
   title: string;
   description: string;
   status: "IDEA" | "IN_PROGRESS" | "COMPLETED";
+  category: ProjectCategory;
   ownerId: string;
   createdAt: string;
   updatedAt: string;
@@ -31,12 +69,72 @@ interface Project {
     title: string;
     description: string | null;
     status: string;
+    position: number;
+    priority: TaskPriority;
+    startDate: string | null;
+    dueDate: string | null;
+    estimatedHours: number | null;
+    parentId: string | null;
+    milestoneId: string | null;
+    checklistItems: ChecklistItem[];
+    labels: Array<{ label: { id: string; name: string; color: string } }>;
     createdAt: string;
+    assignees?: Array<{
+      user: {
+        id: string;
+        name: string | null;
+        email: string;
+      };
+    }>;
   }>;
 }
 
-// Status badge component
-function StatusBadge({ status }: { status: string }) {
+type ProjectTask = NonNullable<Project["tasks"]>[number];
+
+/**
+ * Replace a task in place, or add it at the top (tasks are newest first)
+ */
+function upsertTask(tasks: ProjectTask[], task: ProjectTask): ProjectTask[] {
+  return tasks.some((existing) => existing.id === task.id)
+    ? tasks.map((existing) => (existing.id === task.id ? task : existing))
+    : [task, ...tasks];
+}
+
+interface ProjectMember {
+  id: string;
+  userId: string;
+  role: "MAINTAINER" | "CONTRIBUTOR";
+  joinedAt: string;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+}
+
+interface JoinRequest {
+  id: string;
+  userId: string;
+  message: string | null;
+  status: "PENDING" | "APPROVED" | "REJECTED" | "CANCELLED";
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+  reviewedBy: {
+    id: string;
+    name: string | null;
+    email: string;
+  } | null;
+}
+
+// Status badge component (`label` overrides the text, e.g. a workflow
+// status name styled by its category)
+function StatusBadge({ status, label }: { status: string; label?: string }) {
   const styles = {
     IDEA: "bg-linear-to-r from-blue-100 to-blue-50 text-blue-800 border-blue-200",
     IN_PROGRESS:
@@ -45,6 +143,10 @@ function StatusBadge({ status }: { status: string }) {
       "bg-linear-to-r from-gray-100 to-gray-50 text-gray-800 border-gray-200",
     TODO: "bg-yellow-100 text-yellow-800 border-yellow-200",
     DONE: "bg-green-100 text-green-800 border-green-200",
+    PENDING: "bg-amber-100 text-amber-800 border-amber-200",
+    APPROVED: "bg-green-100 text-green-800 border-green-200",
+    REJECTED: "bg-red-100 text-red-800 border-red-200",
+    CANCELLED: "bg-gray-100 text-gray-700 border-gray-200",
   };
 
   return (
@@ -54,11 +156,43 @@ function StatusBadge({ status }: { status: string }) {
         "bg-gray-100 text-gray-800 border-gray-200"
       }`}
     >
-      {status.replace("_", " ")}
+      {label ?? status.replace("_", " ")}
     </span>
   );
 }
 
+function PriorityBadge({ priority }: { priority: TaskPriority }) {
+  const styles: Record<TaskPriority, string> = {
+    LOW: "bg-gray-100 text-gray-700 border-gray-200",
+    MEDIUM: "bg-blue-100 text-blue-800 border-blue-200",
+    HIGH: "bg-orange-100 text-orange-800 border-orange-200",
+    URGENT: "bg-red-100 text-red-800 border-red-200",
+  };
+
+  return (
+    <span
+      className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${styles[priority]}`}
+    >
+      {TASK_PRIORITY_LABELS[priority]}
+    </span>
+  );
+}
+
+// Due dates are calendar days stored as UTC midnight
+function formatTaskDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function isPastDue(dueDate: string): boolean {
+  const now = new Date();
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  return new Date(dueDate).getTime() < today;
+}
+
 export default function ProjectDetailPage() {
   const router = useRouter();
   const params = useParams();
@@ -71,12 +205,53 @@ export default function ProjectDetailPage() {
   const [isEditProjectModalOpen, setIsEditProjectModalOpen] = useState(false);
   const [isEditTaskModalOpen, setIsEditTaskModalOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<any>(null);
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [membershipLoading, setMembershipLoading] = useState(false);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  const [isJoinRequestModalOpen, setIsJoinRequestModalOpen] = useState(false);
+  const [discussionTaskId, setDiscussionTaskId] = useState<string | null>(null);
+  const [breakdownTaskId, setBreakdownTaskId] = useState<string | null>(null);
+  const [taskView, setTaskView] = useState<"board" | "list" | "dependencies">(
+    "board"
+  );
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [milestones, setMilestones] = useState<ProjectMilestone[]>([]);
+  const [labels, setLabels] = useState<ProjectLabel[]>([]);
   const { confirm, confirmProps } = useConfirm();
+  useSessionRefresh();
+  const { can, reload: reloadPermissions } = usePermissions(projectId);
+  const {
+    workflow,
+    reload: reloadWorkflow,
+    setWorkflow,
+    findStatus,
+    canTransition,
+  } = useProjectWorkflow(projectId);
+
+  // Apply changes made by anyone (including this tab) as they happen
+  const { connected: live } = useProjectEvents<ProjectTask, Partial<Project>>(
+    projectId,
+    {
+      onEvent: (event) => handleProjectEvent(event),
+      onResync: () => {
+        fetchProject(projectId, { silent: true });
+        fetchDependencies(projectId);
+        fetchMilestones(projectId);
+        fetchLabels(projectId);
+        reloadWorkflow();
+      },
+    }
+  );
 
   useEffect(() => {
     // Middleware already handles auth - just fetch data
     fetchCurrentUser();
     fetchProject(projectId);
+    fetchDependencies(projectId);
+    fetchMilestones(projectId);
+    fetchLabels(projectId);
+    fetchMembers(projectId);
+    fetchJoinRequests(projectId);
   }, [projectId, router]);
 
   const fetchCurrentUser = async () => {
@@ -96,9 +271,14 @@ export default function ProjectDetailPage() {
     }
   };
 
-  const fetchProject = async (id: string) => {
+  const fetchProject = async (
+    id: string,
+    { silent = false }: { silent?: boolean } = {}
+  ) => {
     try {
-      setLoading(true);
+      if (!silent) {
+        setLoading(true);
+      }
 
       // Cookie is sent automatically
       const response = await fetch(`/api/projects/${id}`, {
@@ -128,6 +308,312 @@ export default function ProjectDetailPage() {
     }
   };
 
+  /**
+   * Our own changes arrive over the event stream too; only re-fetch when
+   * the stream is down
+   */
+  const refreshProjectIfOffline = () => {
+    if (!live) {
+      fetchProject(projectId, { silent: true });
+    }
+  };
+
+  const handleProjectEvent = (
+    event: ProjectEventMessage<ProjectTask, Partial<Project>>
+  ) => {
+    switch (event.type) {
+      case "task.created":
+      case "task.updated":
+        setProject((prev) =>
+          prev && { ...prev, tasks: upsertTask(prev.tasks ?? [], event.task) }
+        );
+        break;
+      case "task.deleted":
+        // Subtasks of a deleted task become top-level tasks
+        setProject((prev) =>
+          prev && {
+            ...prev,
+            tasks: (prev.tasks ?? [])
+              .filter((task) => task.id !== event.taskId)
+              .map((task) =>
+                task.parentId === event.taskId
+                  ? { ...task, parentId: null }
+                  : task
+              ),
+          }
+        );
+        // Its dependency links were deleted with it
+        setDependencies((prev) =>
+          prev.filter(
+            (link) =>
+              link.blockerId !== event.taskId && link.blockedId !== event.taskId
+          )
+        );
+        break;
+      case "tasks.reordered": {
+        const positions = new Map(
+          event.positions.map(({ id, position }) => [id, position] as const)
+        );
+        setProject((prev) =>
+          prev && {
+            ...prev,
+            tasks: (prev.tasks ?? []).map((task) =>
+              positions.has(task.id)
+                ? { ...task, position: positions.get(task.id)! }
+                : task
+            ),
+          }
+        );
+        break;
+      }
+      case "project.updated":
+        setProject((prev) => prev && { ...prev, ...event.project });
+        break;
+      case "workflow.updated":
+        setWorkflow(event.workflow);
+        break;
+      case "dependency.created": {
+        const { dependency } = event;
+        setDependencies((prev) =>
+          prev.some((link) => link.id === dependency.id)
+            ? prev
+            : [...prev, dependency]
+        );
+        break;
+      }
+      case "dependency.deleted":
+        setDependencies((prev) =>
+          prev.filter((link) => link.id !== event.dependencyId)
+        );
+        break;
+      case "milestone.created":
+      case "milestone.updated": {
+        const { milestone } = event;
+        setMilestones((prev) =>
+          prev.some((existing) => existing.id === milestone.id)
+            ? prev.map((existing) =>
+                existing.id === milestone.id ? milestone : existing
+              )
+            : [...prev, milestone]
+        );
+        break;
+      }
+      case "milestone.deleted":
+        // Its tasks stay, without a milestone
+        setMilestones((prev) =>
+          prev.filter((milestone) => milestone.id !== event.milestoneId)
+        );
+        setProject((prev) =>
+          prev && {
+            ...prev,
+            tasks: (prev.tasks ?? []).map((task) =>
+              task.milestoneId === event.milestoneId
+                ? { ...task, milestoneId: null }
+                : task
+            ),
+          }
+        );
+        break;
+      case "label.created":
+      case "label.updated": {
+        const { label } = event;
+        setLabels((prev) =>
+          (prev.some((existing) => existing.id === label.id)
+            ? prev.map((existing) => (existing.id === label.id ? label : existing))
+            : [...prev, label]
+          ).sort((a, b) => a.name.localeCompare(b.name))
+        );
+        break;
+      }
+      case "label.deleted":
+        // Deleting a label takes it off every task
+        setLabels((prev) => prev.filter((label) => label.id !== event.labelId));
+        setProject((prev) =>
+          prev && {
+            ...prev,
+            tasks: (prev.tasks ?? []).map((task) => ({
+              ...task,
+              labels: task.labels.filter(
+                ({ label }) => label.id !== event.labelId
+              ),
+            })),
+          }
+        );
+        break;
+      case "project.deleted":
+        // handleDeleteProject already navigates away for the deleter
+        if (event.actorId !== userId) {
+          showErrorToast("This project was deleted");
+          router.push("/dashboard");
+        }
+        break;
+    }
+  };
+
+  const fetchDependencies = async (id: string) => {
+    try {
+      const response = await fetch(`/api/projects/${id}/dependencies`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        setDependencies([]);
+        return;
+      }
+
+      const data = await response.json();
+      setDependencies(data.data?.dependencies || []);
+    } catch (err) {
+      console.error("[PROJECT DETAIL] Failed to fetch dependencies:", err);
+      setDependencies([]);
+    }
+  };
+
+  const fetchMilestones = async (id: string) => {
+    try {
+      const response = await fetch(`/api/projects/${id}/milestones`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        setMilestones([]);
+        return;
+      }
+
+      const data = await response.json();
+      setMilestones(data.data?.milestones || []);
+    } catch (err) {
+      console.error("[PROJECT DETAIL] Failed to fetch milestones:", err);
+      setMilestones([]);
+    }
+  };
+
+  const fetchLabels = async (id: string) => {
+    try {
+      const response = await fetch(`/api/projects/${id}/labels`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        setLabels([]);
+        return;
+      }
+
+      const data = await response.json();
+      setLabels(data.data?.labels || []);
+    } catch (err) {
+      console.error("[PROJECT DETAIL] Failed to fetch labels:", err);
+      setLabels([]);
+    }
+  };
+
+  const fetchMembers = async (id: string) => {
+    try {
+      const response = await fetch(`/api/projects/${id}/members`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        setMembers([]);
+        return;
+      }
+
+      const data = await response.json();
+      setMembers(data.data?.members || []);
+    } catch (err) {
+      console.error("[PROJECT DETAIL] Failed to fetch members:", err);
+      setMembers([]);
+    }
+  };
+
+  const fetchJoinRequests = async (id: string) => {
+    try {
+      const response = await fetch(`/api/projects/${id}/join-requests`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        setJoinRequests([]);
+        return;
+      }
+
+      const data = await response.json();
+      setJoinRequests(data.data?.joinRequests || []);
+    } catch (err) {
+      console.error("[PROJECT DETAIL] Failed to fetch join requests:", err);
+      setJoinRequests([]);
+    }
+  };
+
+  const handleReviewJoinRequest = async (
+    requestId: string,
+    action: "approve" | "reject" | "cancel"
+  ) => {
+    try {
+      setMembershipLoading(true);
+      const response = await fetch(
+        `/api/projects/${projectId}/join-requests/${requestId}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ action }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to update join request");
+      }
+
+      showSuccessToast(result.message || "Join request updated");
+      fetchJoinRequests(projectId);
+      if (action === "approve") {
+        fetchMembers(projectId);
+      }
+      reloadPermissions();
+    } catch (err) {
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to update join request"
+      );
+    } finally {
+      setMembershipLoading(false);
+    }
+  };
+
+  const handleLeaveProject = async () => {
+    const confirmed = await confirm({
+      title: "Leave Project",
+      message: "Are you sure you want to stop contributing to this project?",
+      confirmText: "Leave",
+      cancelText: "Cancel",
+      variant: "danger",
+    });
+
+    if (!confirmed) return;
+
+    try {
+      setMembershipLoading(true);
+      const response = await fetch(`/api/projects/${projectId}/members`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to leave project");
+      }
+
+      showSuccessToast("You left this project");
+      fetchMembers(projectId);
+      reloadPermissions();
+    } catch {
+      showErrorToast("Failed to leave project");
+    } finally {
+      setMembershipLoading(false);
+    }
+  };
+
   const handleDeleteProject = async () => {
     const confirmed = await confirm({
       title: "Delete Project",
@@ -178,12 +664,253 @@ export default function ProjectDetailPage() {
       }
 
       showSuccessToast("Task deleted successfully");
-      fetchProject(projectId);
+      handleProjectEvent({
+        type: "task.deleted",
+        taskId,
+        projectId,
+        actorId: userId,
+        at: new Date().toISOString(),
+      });
     } catch {
       showErrorToast("Failed to delete task");
     }
   };
 
+  /**
+   * Move a task on the board right away, then persist it; the task goes
+   * back where it was if the server refuses
+   */
+  const handleMoveTask = async ({ taskId, status, index, position }: TaskMove) => {
+    const previous = project?.tasks?.find((task) => task.id === taskId);
+    if (!previous) return;
+
+    setProject((prev) =>
+      prev && {
+        ...prev,
+        tasks: upsertTask(prev.tasks ?? [], { ...previous, status, position }),
+      }
+    );
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(
+          status === previous.status ? { index } : { status, index }
+        ),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to move task");
+      }
+
+      setProject((prev) =>
+        prev && { ...prev, tasks: upsertTask(prev.tasks ?? [], result.data) }
+      );
+    } catch (err) {
+      setProject((prev) =>
+        prev && { ...prev, tasks: upsertTask(prev.tasks ?? [], previous) }
+      );
+      showErrorToast(err instanceof Error ? err.message : "Failed to move task");
+    }
+  };
+
+  const handleAddDependency = async (blockerId: string, blockedId: string) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/dependencies`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ blockerId, blockedId }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to add dependency");
+      }
+
+      handleProjectEvent({
+        type: "dependency.created",
+        dependency: result.data,
+        projectId,
+        actorId: userId,
+        at: new Date().toISOString(),
+      });
+    } catch (err) {
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to add dependency"
+      );
+    }
+  };
+
+  const handleRemoveDependency = async (dependencyId: string) => {
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/dependencies/${dependencyId}`,
+        { method: "DELETE", credentials: "include" }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to remove dependency");
+      }
+
+      handleProjectEvent({
+        type: "dependency.deleted",
+        dependencyId,
+        projectId,
+        actorId: userId,
+        at: new Date().toISOString(),
+      });
+    } catch {
+      showErrorToast("Failed to remove dependency");
+    }
+  };
+
+  const handleSaveMilestone = async (
+    values: MilestoneFormValues,
+    milestoneId?: string
+  ) => {
+    try {
+      const response = await fetch(
+        milestoneId
+          ? `/api/projects/${projectId}/milestones/${milestoneId}`
+          : `/api/projects/${projectId}/milestones`,
+        {
+          method: milestoneId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(values),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to save milestone");
+      }
+
+      handleProjectEvent({
+        type: milestoneId ? "milestone.updated" : "milestone.created",
+        milestone: result.data,
+        projectId,
+        actorId: userId,
+        at: new Date().toISOString(),
+      });
+      return true;
+    } catch (err) {
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to save milestone"
+      );
+      return false;
+    }
+  };
+
+  const handleDeleteMilestone = async (milestone: { id: string; title: string }) => {
+    const confirmed = await confirm({
+      title: "Delete Milestone",
+      message: `Delete "${milestone.title}"? Its tasks stay in the project without a milestone.`,
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      variant: "danger",
+    });
+
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/milestones/${milestone.id}`,
+        { method: "DELETE", credentials: "include" }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to delete milestone");
+      }
+
+      showSuccessToast("Milestone deleted successfully");
+      handleProjectEvent({
+        type: "milestone.deleted",
+        milestoneId: milestone.id,
+        projectId,
+        actorId: userId,
+        at: new Date().toISOString(),
+      });
+    } catch {
+      showErrorToast("Failed to delete milestone");
+    }
+  };
+
+  const handleSaveLabel = async (values: LabelFormValues, labelId?: string) => {
+    try {
+      const response = await fetch(
+        labelId
+          ? `/api/projects/${projectId}/labels/${labelId}`
+          : `/api/projects/${projectId}/labels`,
+        {
+          method: labelId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(values),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to save label");
+      }
+
+      handleProjectEvent({
+        type: labelId ? "label.updated" : "label.created",
+        label: result.data,
+        projectId,
+        actorId: userId,
+        at: new Date().toISOString(),
+      });
+      return true;
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : "Failed to save label");
+      return false;
+    }
+  };
+
+  const handleDeleteLabel = async (label: { id: string; name: string }) => {
+    const confirmed = await confirm({
+      title: "Delete Label",
+      message: `Delete "${label.name}"? It will be taken off every task that has it.`,
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      variant: "danger",
+    });
+
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/labels/${label.id}`,
+        { method: "DELETE", credentials: "include" }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to delete label");
+      }
+
+      showSuccessToast("Label deleted successfully");
+      handleProjectEvent({
+        type: "label.deleted",
+        labelId: label.id,
+        projectId,
+        actorId: userId,
+        at: new Date().toISOString(),
+      });
+    } catch {
+      showErrorToast("Failed to delete label");
+    }
+  };
+
   const handleEditTask = (task: any) => {
     setSelectedTask(task);
     setIsEditTaskModalOpen(true);
@@ -222,6 +949,289 @@ export default function ProjectDetailPage() {
   });
 
   const isOwner = userId === project.ownerId;
+  const isMember = members.some((member) => member.userId === userId);
+  // Only used to hide controls; the API enforces the same permissions
+  const canEditProject = can("project:update");
+  const canDeleteProject = can("project:delete");
+  const canCreateTask = can("task:create");
+  const canEditTask = can("task:update");
+  const canDeleteTask = can("task:delete");
+  const canReviewJoinRequests = can("member:invite");
+  const canComment = can("comment:create");
+  const canModerateComments = can("comment:moderate");
+  const canManageWebhooks = can("webhook:manage");
+  const canManageWorkflow = can("workflow:manage");
+  const canManageMilestones = can("milestone:manage");
+  const canManageLabels = can("label:manage");
+  const pendingJoinRequests = joinRequests.filter(
+    (request) => request.status === "PENDING"
+  );
+  const reviewedJoinRequests = joinRequests.filter(
+    (request) => request.status !== "PENDING"
+  );
+  // Non-reviewers only receive their own requests from the API
+  const myPendingRequest = canReviewJoinRequests
+    ? undefined
+    : pendingJoinRequests[0];
+  // Tasks can be assigned to the owner and any project member; without
+  // task:assign people can only (un)assign themselves
+  const assignableUsers = [
+    ...(project.owner ? [project.owner] : []),
+    ...members.map((member) => member.user),
+  ].filter((user) => can("task:assign") || user.id === userId);
+
+  const isDoneStatus = (status: string) =>
+    findStatus(status)?.category === "DONE";
+  const subtasksOf = groupSubtasks(project.tasks ?? []);
+
+  // Open blockers keep a task from being started or finished
+  const openBlockersOf = (taskId: string) =>
+    dependencies
+      .filter((link) => link.blockedId === taskId)
+      .map((link) => project.tasks?.find((task) => task.id === link.blockerId))
+      .filter(
+        (blocker): blocker is ProjectTask =>
+          !!blocker && !isDoneStatus(blocker.status)
+      );
+  const canMoveTaskTo = (task: ProjectTask, status: string) =>
+    canTransition(task.status, status) &&
+    (findStatus(status)?.category === "TODO" ||
+      openBlockersOf(task.id).length === 0);
+
+  const updateChecklist = (taskId: string, checklistItems: ChecklistItem[]) => {
+    setProject((prev) =>
+      prev && {
+        ...prev,
+        tasks: (prev.tasks ?? []).map((task) =>
+          task.id === taskId ? { ...task, checklistItems } : task
+        ),
+      }
+    );
+  };
+
+  const renderTaskProgress = (task: ProjectTask) => {
+    const progress = getTaskProgress(
+      task,
+      subtasksOf.get(task.id) ?? [],
+      isDoneStatus
+    );
+    const { subtasks, checklist } = progress;
+    if (subtasks.total + checklist.total === 0) return null;
+
+    return (
+      <div className="mb-3">
+        <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+          <span>
+            {[
+              subtasks.total > 0 &&
+                `${subtasks.done}/${subtasks.total} subtasks`,
+              checklist.total > 0 &&
+                `${checklist.done}/${checklist.total} checklist`,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </span>
+          <span className="font-semibold">{progress.percent}%</span>
+        </div>
+        <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden">
+          <div
+            className="h-full rounded-full bg-emerald-500 transition-all"
+            style={{ width: `${progress.percent}%` }}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const renderTaskCard = (task: ProjectTask) => (
+    <div
+      key={task.id}
+      className="bg-white rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 p-6 border border-gray-200 hover:border-emerald-300"
+    >
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex-1">
+          <h3 className="text-lg font-bold text-gray-900">{task.title}</h3>
+          {task.parentId && (
+            <p className="text-xs text-gray-500 mt-0.5">
+              Subtask of{" "}
+              {project.tasks?.find((parent) => parent.id === task.parentId)
+                ?.title ?? "another task"}
+            </p>
+          )}
+          {task.labels.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {task.labels.map(({ label }) => (
+                <LabelChip
+                  key={label.id}
+                  label={labels.find((current) => current.id === label.id) ?? label}
+                />
+              ))}
+            </div>
+          )}
+          {task.milestoneId && (
+            <p className="text-xs text-emerald-700 mt-0.5 flex items-center gap-1">
+              <Flag className="h-3 w-3" />
+              {milestones.find((milestone) => milestone.id === task.milestoneId)
+                ?.title ?? "Milestone"}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {openBlockersOf(task.id).length > 0 && (
+            <span
+              title={`Blocked by ${openBlockersOf(task.id)
+                .map((blocker) => blocker.title)
+                .join(", ")}`}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold border bg-amber-100 text-amber-800 border-amber-200"
+            >
+              <Lock className="h-3 w-3" />
+              Blocked
+            </span>
+          )}
+          <StatusBadge
+            status={findStatus(task.status)?.category ?? task.status}
+            label={findStatus(task.status)?.name}
+          />
+          {(canEditTask || canDeleteTask) && (
+            <div className="flex gap-1">
+              {canEditTask && (
+                <button
+                  onClick={() => handleEditTask(task)}
+                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  aria-label="Edit task"
+                >
+                  <Edit2 className="h-4 w-4" />
+                </button>
+              )}
+              {canDeleteTask && (
+                <button
+                  onClick={() => handleDeleteTask(task.id)}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  aria-label="Delete task"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+      {task.description && (
+        <p className="text-gray-600 text-sm mb-4 line-clamp-3">
+          {task.description}
+        </p>
+      )}
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-gray-600">
+        <PriorityBadge priority={task.priority} />
+        {task.dueDate && (
+          <span
+            className={
+              isPastDue(task.dueDate) &&
+              findStatus(task.status)?.category !== "DONE"
+                ? "font-semibold text-red-600"
+                : ""
+            }
+          >
+            Due {formatTaskDate(task.dueDate)}
+          </span>
+        )}
+        {task.startDate && <span>Starts {formatTaskDate(task.startDate)}</span>}
+        {task.estimatedHours !== null && <span>{task.estimatedHours}h est.</span>}
+      </div>
+      {renderTaskProgress(task)}
+      {task.assignees && task.assignees.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-3">
+          {task.assignees.map(({ user }) => (
+            <span
+              key={user.id}
+              className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                user.id === userId
+                  ? "bg-emerald-100 text-emerald-800"
+                  : "bg-gray-100 text-gray-700"
+              }`}
+            >
+              {user.id === userId ? "You" : user.name || user.email}
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          Created:{" "}
+          {new Date(task.createdAt).toLocaleDateString("en-US", {
+            month: "short",
+            day: "numeric",
+            year: "numeric",
+          })}
+        </p>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() =>
+              setBreakdownTaskId(breakdownTaskId === task.id ? null : task.id)
+            }
+            className="inline-flex items-center gap-1 text-xs font-semibold text-emerald-700 hover:text-emerald-900"
+          >
+            <ListChecks className="h-3.5 w-3.5" />
+            {breakdownTaskId === task.id ? "Hide steps" : "Steps"}
+          </button>
+          <button
+            onClick={() =>
+              setDiscussionTaskId(
+                discussionTaskId === task.id ? null : task.id
+              )
+            }
+            className="inline-flex items-center gap-1 text-xs font-semibold text-emerald-700 hover:text-emerald-900"
+          >
+            <MessageSquare className="h-3.5 w-3.5" />
+            {discussionTaskId === task.id ? "Hide discussion" : "Discuss"}
+          </button>
+        </div>
+      </div>
+      {breakdownTaskId === task.id && (
+        <div className="mt-4 pt-4 border-t border-gray-100 space-y-4">
+          <TaskChecklist
+            taskId={task.id}
+            items={task.checklistItems}
+            canEdit={canEditTask}
+            onChange={(items) => updateChecklist(task.id, items)}
+          />
+          {/* Subtasks are one level deep */}
+          {!task.parentId && (
+            <SubtaskList<ProjectTask>
+              projectId={projectId}
+              parentId={task.id}
+              subtasks={(subtasksOf.get(task.id) ?? []).map((subtask) => ({
+                id: subtask.id,
+                title: subtask.title,
+                statusName: findStatus(subtask.status)?.name ?? subtask.status,
+                done: isDoneStatus(subtask.status),
+              }))}
+              canCreate={canCreateTask}
+              onCreated={(subtask) =>
+                setProject((prev) =>
+                  prev && {
+                    ...prev,
+                    tasks: upsertTask(prev.tasks ?? [], subtask),
+                  }
+                )
+              }
+            />
+          )}
+        </div>
+      )}
+      {discussionTaskId === task.id && (
+        <div className="mt-4 pt-4 border-t border-gray-100">
+          <CommentThread
+            endpoint={`/api/tasks/${task.id}/comments`}
+            currentUserId={userId}
+            canComment={canComment}
+            canModerate={canModerateComments}
+            pageSize={5}
+          />
+        </div>
+      )}
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-linear-to-br from-green-50 via-emerald-50 to-teal-50">
@@ -256,6 +1266,9 @@ export default function ProjectDetailPage() {
               <div className="flex-1">
                 <div className="flex items-center gap-3 mb-4">
                   <StatusBadge status={project.status} />
+                  <span className="px-3 py-1 bg-teal-50 text-teal-800 border border-teal-200 rounded-full text-xs font-semibold">
+                    {PROJECT_CATEGORY_LABELS[project.category]}
+                  </span>
                   {isOwner && (
                     <span className="px-3 py-1 bg-emerald-100 text-emerald-800 rounded-full text-xs font-semibold">
                       You Own This
@@ -273,29 +1286,90 @@ export default function ProjectDetailPage() {
                 <div className="w-20 h-20 bg-linear-to-br from-emerald-400 to-green-400 rounded-2xl flex items-center justify-center shadow-lg">
                   <span className="text-5xl">📊</span>
                 </div>
-                {isOwner && (
+                {(canEditProject || canDeleteProject) && (
                   <div className="flex gap-2">
-                    <button
-                      onClick={() => setIsEditProjectModalOpen(true)}
-                      className="flex-1 px-4 py-2 text-sm font-semibold text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors flex items-center justify-center gap-2"
-                      aria-label="Edit project"
-                    >
-                      <Edit2 className="h-4 w-4" />
-                      Edit
-                    </button>
-                    <button
-                      onClick={handleDeleteProject}
-                      className="px-4 py-2 text-sm font-semibold text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
-                      aria-label="Delete project"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
+                    {canEditProject && (
+                      <button
+                        onClick={() => setIsEditProjectModalOpen(true)}
+                        className="flex-1 px-4 py-2 text-sm font-semibold text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors flex items-center justify-center gap-2"
+                        aria-label="Edit project"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                        Edit
+                      </button>
+                    )}
+                    {canDeleteProject && (
+                      <button
+                        onClick={handleDeleteProject}
+                        className="px-4 py-2 text-sm font-semibold text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+                        aria-label="Delete project"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
                   </div>
                 )}
+                {canManageWebhooks && (
+                  <Link
+                    href={`/projects/${project.id}/webhooks`}
+                    className="px-4 py-2 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Webhook className="h-4 w-4" />
+                    Webhooks
+                  </Link>
+                )}
+                {canManageWorkflow && (
+                  <Link
+                    href={`/projects/${project.id}/workflow`}
+                    className="px-4 py-2 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Workflow className="h-4 w-4" />
+                    Workflow
+                  </Link>
+                )}
+                {!isOwner && userId && myPendingRequest && (
+                  <button
+                    onClick={() =>
+                      handleReviewJoinRequest(myPendingRequest.id, "cancel")
+                    }
+                    disabled={membershipLoading}
+                    className="px-4 py-2 text-sm font-semibold text-amber-700 bg-amber-50 hover:bg-amber-100 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-60"
+                  >
+                    <X className="h-4 w-4" />
+                    Cancel Request
+                  </button>
+                )}
+                {!isOwner && userId && !myPendingRequest && (
+                  <button
+                    onClick={
+                      isMember
+                        ? handleLeaveProject
+                        : () => setIsJoinRequestModalOpen(true)
+                    }
+                    disabled={membershipLoading}
+                    className={`px-4 py-2 text-sm font-semibold rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-60 ${
+                      isMember
+                        ? "text-red-600 bg-red-50 hover:bg-red-100"
+                        : "text-white bg-emerald-600 hover:bg-emerald-700"
+                    }`}
+                  >
+                    {isMember ? (
+                      <>
+                        <LogOut className="h-4 w-4" />
+                        Leave
+                      </>
+                    ) : (
+                      <>
+                        <UserPlus className="h-4 w-4" />
+                        Request to Join
+                      </>
+                    )}
+                  </button>
+                )}
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 pt-6 border-t border-gray-200">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 pt-6 border-t border-gray-200">
               <div>
                 <p className="text-sm text-gray-500 mb-1">Project Owner</p>
                 <p className="text-gray-900 font-semibold">
@@ -312,22 +1386,183 @@ export default function ProjectDetailPage() {
                   {project.tasks?.length || 0}
                 </p>
               </div>
+              <div>
+                <p className="text-sm text-gray-500 mb-1">Contributors</p>
+                <p className="text-gray-900 font-semibold">{members.length}</p>
+              </div>
             </div>
+            {members.length > 0 && (
+              <div className="flex flex-wrap gap-2 pt-6">
+                {members.map((member) => (
+                  <span
+                    key={member.id}
+                    className="px-3 py-1 bg-blue-50 text-blue-800 rounded-full text-xs font-semibold"
+                  >
+                    {member.user.name || member.user.email}
+                    {member.role === "MAINTAINER" && " · Maintainer"}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Join Requests */}
+        {joinRequests.length > 0 && (
+          <div className="mb-12 bg-white rounded-3xl shadow-xl p-8 border border-emerald-100">
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">
+              {canReviewJoinRequests ? "Join Requests" : "Your Join Requests"}
+            </h2>
+            {canReviewJoinRequests && pendingJoinRequests.length > 0 && (
+              <ul className="space-y-4 mb-6">
+                {pendingJoinRequests.map((request) => (
+                  <li
+                    key={request.id}
+                    className="p-4 rounded-2xl border border-amber-200 bg-amber-50/50 flex flex-col md:flex-row md:items-center md:justify-between gap-4"
+                  >
+                    <div>
+                      <p className="font-semibold text-gray-900">
+                        {request.user.name || request.user.email}
+                      </p>
+                      {request.message && (
+                        <p className="text-sm text-gray-600 mt-1">
+                          &ldquo;{request.message}&rdquo;
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">
+                        Requested {new Date(request.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() =>
+                          handleReviewJoinRequest(request.id, "approve")
+                        }
+                        disabled={membershipLoading}
+                        className="px-4 py-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-60"
+                      >
+                        <Check className="h-4 w-4" />
+                        Approve
+                      </button>
+                      <button
+                        onClick={() =>
+                          handleReviewJoinRequest(request.id, "reject")
+                        }
+                        disabled={membershipLoading}
+                        className="px-4 py-2 text-sm font-semibold text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-60"
+                      >
+                        <X className="h-4 w-4" />
+                        Reject
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <ul className="divide-y divide-gray-100">
+              {(canReviewJoinRequests ? reviewedJoinRequests : joinRequests).map(
+                (request) => (
+                  <li
+                    key={request.id}
+                    className="py-3 flex items-center justify-between gap-4"
+                  >
+                    <div>
+                      <p className="text-sm font-semibold text-gray-900">
+                        {canReviewJoinRequests
+                          ? request.user.name || request.user.email
+                          : `Requested ${new Date(request.createdAt).toLocaleDateString()}`}
+                      </p>
+                      {request.reviewedAt && (
+                        <p className="text-xs text-gray-500">
+                          {request.status === "CANCELLED"
+                            ? "Cancelled"
+                            : `Reviewed by ${
+                                request.reviewedBy?.name ||
+                                request.reviewedBy?.email ||
+                                "owner"
+                              }`}{" "}
+                          on {new Date(request.reviewedAt).toLocaleDateString()}
+                          {request.reviewNote && ` · "${request.reviewNote}"`}
+                        </p>
+                      )}
+                    </div>
+                    <StatusBadge status={request.status} />
+                  </li>
+                )
+              )}
+            </ul>
+          </div>
+        )}
+
+        {/* Milestones */}
+        {(milestones.length > 0 || canManageMilestones) && (
+          <div className="mb-12 bg-white rounded-3xl shadow-xl p-8 border border-emerald-100">
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">Milestones</h2>
+            <MilestoneTimeline
+              milestones={milestones}
+              tasks={project.tasks ?? []}
+              canManage={canManageMilestones}
+              isDone={isDoneStatus}
+              onSave={handleSaveMilestone}
+              onDelete={handleDeleteMilestone}
+            />
+          </div>
+        )}
+
+        {/* Labels */}
+        {(labels.length > 0 || canManageLabels) && (
+          <div className="mb-12 bg-white rounded-3xl shadow-xl p-8 border border-emerald-100">
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">Labels</h2>
+            <LabelManager
+              labels={labels}
+              canManage={canManageLabels}
+              onSave={handleSaveLabel}
+              onDelete={handleDeleteLabel}
+            />
+          </div>
+        )}
+
         {/* Tasks Section */}
         <div>
           <div className="flex items-center justify-between mb-8">
             <h2 className="text-3xl font-bold text-gray-900">Tasks</h2>
-            {isOwner && (
-              <button 
-                onClick={() => setIsCreateTaskModalOpen(true)}
-                className="px-6 py-3 text-white bg-linear-to-r from-emerald-600 to-green-600 hover:from-emerald-700 hover:to-green-700 rounded-xl transition-all duration-300 hover:shadow-lg font-semibold"
-              >
-                + Add Task
-              </button>
-            )}
+            <div className="flex items-center gap-3">
+              <div className="flex rounded-xl border border-gray-200 bg-white p-1" role="group" aria-label="Task view">
+                {(
+                  [
+                    { view: "board", label: "Board", Icon: Columns3 },
+                    { view: "list", label: "List", Icon: LayoutGrid },
+                    {
+                      view: "dependencies",
+                      label: "Dependencies",
+                      Icon: GitBranch,
+                    },
+                  ] as const
+                ).map(({ view, label, Icon }) => (
+                  <button
+                    key={view}
+                    onClick={() => setTaskView(view)}
+                    aria-pressed={taskView === view}
+                    className={`px-3 py-2 rounded-lg text-sm font-semibold flex items-center gap-1.5 transition-colors ${
+                      taskView === view
+                        ? "bg-emerald-100 text-emerald-800"
+                        : "text-gray-600 hover:text-gray-900"
+                    }`}
+                  >
+                    <Icon className="h-4 w-4" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {canCreateTask && (
+                <button
+                  onClick={() => setIsCreateTaskModalOpen(true)}
+                  className="px-6 py-3 text-white bg-linear-to-r from-emerald-600 to-green-600 hover:from-emerald-700 hover:to-green-700 rounded-xl transition-all duration-300 hover:shadow-lg font-semibold"
+                >
+                  + Add Task
+                </button>
+              )}
+            </div>
           </div>
 
           {!project.tasks || project.tasks.length === 0 ? (
@@ -339,11 +1574,11 @@ export default function ProjectDetailPage() {
                 No Tasks Yet
               </h3>
               <p className="text-gray-600 mb-6">
-                {isOwner
+                {canCreateTask
                   ? "Get started by adding your first task to this project."
                   : "This project doesn't have any tasks yet."}
               </p>
-              {isOwner && (
+              {canCreateTask && (
                 <button 
                   onClick={() => setIsCreateTaskModalOpen(true)}
                   className="px-8 py-4 text-white bg-linear-to-r from-emerald-600 to-green-600 hover:from-emerald-700 hover:to-green-700 rounded-xl transition-all duration-300 hover:shadow-xl font-semibold inline-flex items-center gap-2"
@@ -353,65 +1588,61 @@ export default function ProjectDetailPage() {
                 </button>
               )}
             </div>
+          ) : taskView === "board" ? (
+            workflow ? (
+              <TaskBoard
+                tasks={project.tasks}
+                columns={workflow.statuses.map((status) => ({
+                  status: status.key,
+                  label: status.name,
+                }))}
+                canMove={canEditTask}
+                onMove={handleMoveTask}
+                canDrop={canMoveTaskTo}
+                renderTask={renderTaskCard}
+              />
+            ) : (
+              <p className="text-center text-gray-500 py-12">Loading board...</p>
+            )
+          ) : taskView === "dependencies" ? (
+            <DependencyView
+              tasks={project.tasks}
+              dependencies={dependencies}
+              canEdit={canEditTask}
+              isDone={isDoneStatus}
+              statusName={(status) => findStatus(status)?.name ?? status}
+              onAdd={handleAddDependency}
+              onRemove={handleRemoveDependency}
+            />
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {project.tasks.map((task) => (
-                <div
-                  key={task.id}
-                  className="bg-white rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 p-6 border border-gray-200 hover:border-emerald-300"
-                >
-                  <div className="flex items-start justify-between mb-4">
-                    <h3 className="text-lg font-bold text-gray-900 flex-1">
-                      {task.title}
-                    </h3>
-                    <div className="flex items-center gap-2">
-                      <StatusBadge status={task.status} />
-                      {isOwner && (
-                        <div className="flex gap-1">
-                          <button
-                            onClick={() => handleEditTask(task)}
-                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                            aria-label="Edit task"
-                          >
-                            <Edit2 className="h-4 w-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDeleteTask(task.id)}
-                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                            aria-label="Delete task"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </button>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                  {task.description && (
-                    <p className="text-gray-600 text-sm mb-4 line-clamp-3">
-                      {task.description}
-                    </p>
-                  )}
-                  <p className="text-xs text-gray-500">
-                    Created:{" "}
-                    {new Date(task.createdAt).toLocaleDateString("en-US", {
-                      month: "short",
-                      day: "numeric",
-                      year: "numeric",
-                    })}
-                  </p>
-                </div>
-              ))}
+              {project.tasks.map(renderTaskCard)}
             </div>
           )}
         </div>
+
+        {/* Discussion Section */}
+        <div className="mt-12">
+          <h2 className="text-3xl font-bold text-gray-900 mb-8">Discussion</h2>
+          <div className="bg-white rounded-3xl shadow-xl p-8 border border-gray-200">
+            <CommentThread
+              endpoint={`/api/projects/${projectId}/comments`}
+              currentUserId={userId}
+              canComment={canComment}
+              canModerate={canModerateComments}
+            />
+          </div>
+        </div>
       </main>
 
       {/* Modals */}
       <CreateTaskModal
         isOpen={isCreateTaskModalOpen}
         onClose={() => setIsCreateTaskModalOpen(false)}
-        onSuccess={() => fetchProject(projectId)}
+        onSuccess={refreshProjectIfOffline}
         projectId={projectId}
+        milestones={milestones}
+        labels={labels}
       />
       <EditTaskModal
         isOpen={isEditTaskModalOpen}
@@ -419,13 +1650,22 @@ export default function ProjectDetailPage() {
           setIsEditTaskModalOpen(false);
           setSelectedTask(null);
         }}
-        onSuccess={() => fetchProject(projectId)}
+        onSuccess={refreshProjectIfOffline}
         task={selectedTask}
+        assignableUsers={assignableUsers}
+        milestones={milestones}
+        labels={labels}
       />
       <EditProjectModal
         isOpen={isEditProjectModalOpen}
         onClose={() => setIsEditProjectModalOpen(false)}
-        onSuccess={() => fetchProject(projectId)}
+        onSuccess={refreshProjectIfOffline}
+        project={project}
+      />
+      <JoinRequestModal
+        isOpen={isJoinRequestModalOpen}
+        onClose={() => setIsJoinRequestModalOpen(false)}
+        onSuccess={() => fetchJoinRequests(projectId)}
         project={project}
       />
       <ConfirmDialog {...confirmProps} />
@@ -0,0 +1,586 @@
+"use client";
+
+import { useEffect, useState, useCallback, type FormEvent } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { Copy, RefreshCw, Send, Trash2 } from "lucide-react";
+import { ConfirmDialog } from "@/components/modals/ConfirmDialog";
+import { useConfirm } from "@/hooks/useConfirm";
+import { useSessionRefresh } from "@/hooks/useSessionRefresh";
+import { usePermissions } from "@/hooks/usePermissions";
+import { showSuccessToast, showErrorToast } from "@/lib/toastHelpers";
+
+interface Webhook {
+  id: string;
+  url: string;
+  events: string[];
+  active: boolean;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  event: string;
+  status: "PENDING" | "SUCCEEDED" | "FAILED";
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
+const EVENT_DESCRIPTIONS: Record<string, string> = {
+  "task.created": "A task is added",
+  "task.updated": "A task's details, status or assignees change",
+  "task.deleted": "A task is deleted",
+  "project.status_changed": "The project's status changes",
+};
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDelivery["status"], string> = {
+  PENDING: "bg-amber-100 text-amber-800",
+  SUCCEEDED: "bg-emerald-100 text-emerald-800",
+  FAILED: "bg-red-100 text-red-800",
+};
+
+export default function ProjectWebhooksPage() {
+  const params = useParams();
+  const projectId = params.id as string;
+
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [events, setEvents] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [url, setUrl] = useState("");
+  const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [openWebhookId, setOpenWebhookId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [deliveriesLoading, setDeliveriesLoading] = useState(false);
+
+  const { confirm, confirmProps } = useConfirm();
+  useSessionRefresh();
+  const { can, loaded: permissionsLoaded } = usePermissions(projectId);
+  const canManageWebhooks = can("webhook:manage");
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/webhooks`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to load webhooks");
+      }
+
+      const data = await response.json();
+      setWebhooks(data.data?.webhooks ?? []);
+      setEvents(data.data?.events ?? []);
+      setSelectedEvents((prev) =>
+        prev.length > 0 ? prev : (data.data?.events ?? [])
+      );
+    } catch (err) {
+      console.error("[WEBHOOKS][FETCH] Failed:", err);
+      showErrorToast("Failed to load webhooks");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  const fetchDeliveries = useCallback(
+    async (webhookId: string) => {
+      setDeliveriesLoading(true);
+
+      try {
+        const response = await fetch(
+          `/api/projects/${projectId}/webhooks/${webhookId}/deliveries?limit=20`,
+          { credentials: "include" }
+        );
+
+        if (!response.ok) {
+          throw new Error("Failed to load deliveries");
+        }
+
+        const data = await response.json();
+        setDeliveries(data.data?.deliveries ?? []);
+      } catch (err) {
+        console.error("[WEBHOOKS][DELIVERIES] Failed:", err);
+        showErrorToast("Failed to load deliveries");
+      } finally {
+        setDeliveriesLoading(false);
+      }
+    },
+    [projectId]
+  );
+
+  useEffect(() => {
+    if (permissionsLoaded && canManageWebhooks) {
+      fetchWebhooks();
+    }
+  }, [permissionsLoaded, canManageWebhooks, fetchWebhooks]);
+
+  const toggleEvent = (event: string) => {
+    setSelectedEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+    );
+  };
+
+  const toggleDeliveries = (webhookId: string) => {
+    if (openWebhookId === webhookId) {
+      setOpenWebhookId(null);
+      return;
+    }
+    setOpenWebhookId(webhookId);
+    setDeliveries([]);
+    fetchDeliveries(webhookId);
+  };
+
+  /**
+   * Shared request helper for the webhook actions
+   */
+  const sendRequest = async (path: string, method: string, body?: object) => {
+    const response = await fetch(`/api/projects/${projectId}/webhooks${path}`, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      credentials: "include",
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || "Request failed");
+    }
+
+    return data.data;
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (selectedEvents.length === 0) {
+      showErrorToast("Pick at least one event");
+      return;
+    }
+
+    setCreating(true);
+
+    try {
+      const { secret, ...webhook } = await sendRequest("", "POST", {
+        url: url.trim(),
+        events: selectedEvents,
+      });
+      setWebhooks((prev) => [...prev, webhook]);
+      setRevealedSecret(secret);
+      setUrl("");
+      showSuccessToast("Webhook added");
+    } catch (err) {
+      console.error("[WEBHOOKS][CREATE] Failed:", err);
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to add webhook"
+      );
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook) => {
+    try {
+      const updated = await sendRequest(`/${webhook.id}`, "PATCH", {
+        active: !webhook.active,
+      });
+      setWebhooks((prev) =>
+        prev.map((w) => (w.id === webhook.id ? updated : w))
+      );
+      showSuccessToast(updated.active ? "Webhook enabled" : "Webhook paused");
+    } catch (err) {
+      console.error("[WEBHOOKS][TOGGLE] Failed:", err);
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to update webhook"
+      );
+    }
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    const confirmed = await confirm({
+      title: "Rotate Secret",
+      message:
+        "Deliveries will be signed with a new secret right away. Update your receiver before continuing.",
+      confirmText: "Rotate",
+      cancelText: "Cancel",
+      variant: "danger",
+    });
+
+    if (!confirmed) return;
+
+    try {
+      const { secret } = await sendRequest(`/${webhook.id}`, "PATCH", {
+        rotateSecret: true,
+      });
+      setRevealedSecret(secret);
+      showSuccessToast("Secret rotated");
+    } catch (err) {
+      console.error("[WEBHOOKS][ROTATE] Failed:", err);
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to rotate secret"
+      );
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    const confirmed = await confirm({
+      title: "Delete Webhook",
+      message: `Stop sending events to ${webhook.url}? Its delivery log is deleted too.`,
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      variant: "danger",
+    });
+
+    if (!confirmed) return;
+
+    try {
+      await sendRequest(`/${webhook.id}`, "DELETE");
+      setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+      if (openWebhookId === webhook.id) setOpenWebhookId(null);
+      showSuccessToast("Webhook deleted");
+    } catch (err) {
+      console.error("[WEBHOOKS][DELETE] Failed:", err);
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to delete webhook"
+      );
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    try {
+      await sendRequest(`/${webhook.id}/test`, "POST");
+      showSuccessToast("Test delivery queued");
+      if (openWebhookId === webhook.id) fetchDeliveries(webhook.id);
+    } catch (err) {
+      console.error("[WEBHOOKS][TEST] Failed:", err);
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to send test"
+      );
+    }
+  };
+
+  const handleRedeliver = async (webhookId: string, deliveryId: string) => {
+    try {
+      await sendRequest(`/${webhookId}/deliveries/${deliveryId}`, "POST");
+      showSuccessToast("Delivery requeued");
+      fetchDeliveries(webhookId);
+    } catch (err) {
+      console.error("[WEBHOOKS][REDELIVER] Failed:", err);
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to redeliver"
+      );
+    }
+  };
+
+  const handleCopySecret = async () => {
+    if (!revealedSecret) return;
+
+    try {
+      await navigator.clipboard.writeText(revealedSecret);
+      showSuccessToast("Secret copied to clipboard");
+    } catch {
+      showErrorToast("Could not copy; select the secret and copy it manually");
+    }
+  };
+
+  if (permissionsLoaded && !canManageWebhooks) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-linear-to-br from-green-50 via-emerald-50 to-teal-50">
+        <div className="text-center">
+          <p className="text-gray-700 font-medium mb-4">
+            Only the project owner can manage webhooks.
+          </p>
+          <Link
+            href={`/projects/${projectId}`}
+            className="text-emerald-700 font-semibold hover:text-emerald-900"
+          >
+            ← Back to Project
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="min-h-screen bg-linear-to-br from-green-50 via-emerald-50 to-teal-50">
+        <header className="bg-white/80 backdrop-blur-lg shadow-sm border-b border-emerald-100 sticky top-0 z-50">
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-5 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-linear-to-br from-emerald-600 to-green-600 rounded-xl flex items-center justify-center shadow-lg">
+                <span className="text-white font-bold text-xl">C</span>
+              </div>
+              <h1 className="text-2xl font-bold bg-linear-to-r from-emerald-700 to-green-600 bg-clip-text text-transparent">
+                Webhooks
+              </h1>
+            </div>
+            <Link
+              href={`/projects/${projectId}`}
+              className="text-sm font-medium text-gray-600 hover:text-emerald-600 transition-colors"
+            >
+              ← Back to Project
+            </Link>
+          </div>
+        </header>
+
+        <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900 mb-2">
+              Project Webhooks
+            </h2>
+            <p className="text-gray-600">
+              We POST a signed JSON payload to each URL when the selected events
+              happen. Verify the{" "}
+              <code className="px-1.5 py-0.5 bg-gray-100 rounded text-sm">
+                X-CollabLedger-Signature
+              </code>{" "}
+              header with your secret. Failed deliveries are retried with
+              increasing delays.
+            </p>
+          </div>
+
+          {revealedSecret && (
+            <div className="bg-emerald-50 border border-emerald-200 rounded-2xl p-6">
+              <p className="font-semibold text-emerald-900 mb-2">
+                Copy the signing secret now. You won&apos;t be able to see it
+                again.
+              </p>
+              <div className="flex gap-2">
+                <code className="flex-1 px-4 py-2 bg-white border border-emerald-200 rounded-xl text-sm text-gray-900 break-all">
+                  {revealedSecret}
+                </code>
+                <button
+                  onClick={handleCopySecret}
+                  className="px-4 py-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-xl transition-colors flex items-center gap-2"
+                >
+                  <Copy className="h-4 w-4" />
+                  Copy
+                </button>
+              </div>
+              <button
+                onClick={() => setRevealedSecret(null)}
+                className="mt-3 text-sm font-semibold text-emerald-700 hover:text-emerald-900"
+              >
+                Done
+              </button>
+            </div>
+          )}
+
+          {/* Add webhook */}
+          <form
+            onSubmit={handleCreate}
+            className="bg-white rounded-2xl shadow-sm border border-emerald-100 p-6 space-y-5"
+          >
+            <h3 className="text-lg font-bold text-gray-900">Add webhook</h3>
+            <div>
+              <label
+                htmlFor="webhook-url"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Payload URL
+              </label>
+              <input
+                id="webhook-url"
+                type="url"
+                required
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.org/collabledger-hook"
+                className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-gray-900"
+              />
+            </div>
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-2">
+                Events
+              </legend>
+              <div className="space-y-2">
+                {events.map((event) => (
+                  <label
+                    key={event}
+                    className="flex items-center gap-3 text-sm text-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedEvents.includes(event)}
+                      onChange={() => toggleEvent(event)}
+                      className="h-4 w-4 text-emerald-600 rounded"
+                    />
+                    <span className="font-mono font-semibold">{event}</span>
+                    <span className="text-gray-500">
+                      {EVENT_DESCRIPTIONS[event]}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            <button
+              type="submit"
+              disabled={creating}
+              className="px-6 py-2 text-sm font-semibold text-white bg-linear-to-r from-emerald-600 to-green-600 hover:from-emerald-700 hover:to-green-700 rounded-xl transition-all duration-300 hover:shadow-lg disabled:opacity-60"
+            >
+              {creating ? "Adding..." : "Add Webhook"}
+            </button>
+          </form>
+
+          {/* Existing webhooks */}
+          <div className="space-y-4">
+            {loading ? (
+              <p className="text-center text-gray-500 py-10">
+                Loading webhooks...
+              </p>
+            ) : webhooks.length === 0 ? (
+              <p className="text-center text-gray-500 py-10">
+                This project has no webhooks yet.
+              </p>
+            ) : (
+              webhooks.map((webhook) => (
+                <div
+                  key={webhook.id}
+                  className="bg-white rounded-2xl shadow-sm border border-emerald-100 p-6"
+                >
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                            webhook.active
+                              ? "bg-emerald-100 text-emerald-800"
+                              : "bg-gray-100 text-gray-600"
+                          }`}
+                        >
+                          {webhook.active ? "Active" : "Paused"}
+                        </span>
+                        <span className="font-medium text-gray-900 break-all">
+                          {webhook.url}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-500 font-mono">
+                        {webhook.events.join(", ")}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => handleTest(webhook)}
+                        className="px-3 py-2 text-sm font-semibold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 rounded-lg transition-colors flex items-center gap-1"
+                      >
+                        <Send className="h-4 w-4" />
+                        Test
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(webhook)}
+                        className="px-3 py-2 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                      >
+                        {webhook.active ? "Pause" : "Enable"}
+                      </button>
+                      <button
+                        onClick={() => handleRotateSecret(webhook)}
+                        className="px-3 py-2 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors flex items-center gap-1"
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                        Secret
+                      </button>
+                      <button
+                        onClick={() => toggleDeliveries(webhook.id)}
+                        className="px-3 py-2 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                      >
+                        {openWebhookId === webhook.id
+                          ? "Hide Deliveries"
+                          : "Deliveries"}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(webhook)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        aria-label={`Delete webhook ${webhook.url}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {openWebhookId === webhook.id && (
+                    <div className="mt-6 border-t border-gray-100 pt-4">
+                      <div className="flex items-center justify-between mb-3">
+                        <h4 className="text-sm font-semibold text-gray-700">
+                          Recent deliveries
+                        </h4>
+                        <button
+                          onClick={() => fetchDeliveries(webhook.id)}
+                          className="text-sm font-semibold text-emerald-700 hover:text-emerald-900"
+                        >
+                          Refresh
+                        </button>
+                      </div>
+                      {deliveriesLoading ? (
+                        <p className="text-sm text-gray-500">Loading...</p>
+                      ) : deliveries.length === 0 ? (
+                        <p className="text-sm text-gray-500">
+                          Nothing has been sent yet.
+                        </p>
+                      ) : (
+                        <ul className="divide-y divide-gray-100">
+                          {deliveries.map((delivery) => (
+                            <li
+                              key={delivery.id}
+                              className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm"
+                            >
+                              <div className="min-w-0">
+                                <div className="flex items-center gap-2">
+                                  <span
+                                    className={`px-2 py-0.5 rounded-full text-xs font-semibold ${DELIVERY_STATUS_STYLES[delivery.status]}`}
+                                  >
+                                    {delivery.status}
+                                  </span>
+                                  <span className="font-mono text-gray-900">
+                                    {delivery.event}
+                                  </span>
+                                  <span className="text-gray-500">
+                                    {new Date(
+                                      delivery.createdAt
+                                    ).toLocaleString()}
+                                  </span>
+                                </div>
+                                <p className="text-gray-500 mt-1">
+                                  {delivery.attempts} attempt
+                                  {delivery.attempts === 1 ? "" : "s"}
+                                  {delivery.responseStatus !== null &&
+                                    ` · HTTP ${delivery.responseStatus}`}
+                                  {delivery.error && ` · ${delivery.error}`}
+                                  {delivery.status === "PENDING" &&
+                                    delivery.nextAttemptAt &&
+                                    ` · next try ${new Date(
+                                      delivery.nextAttemptAt
+                                    ).toLocaleTimeString()}`}
+                                </p>
+                              </div>
+                              {delivery.status !== "PENDING" && (
+                                <button
+                                  onClick={() =>
+                                    handleRedeliver(webhook.id, delivery.id)
+                                  }
+                                  className="self-start sm:self-auto px-3 py-1 text-xs font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                                >
+                                  Redeliver
+                                </button>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </main>
+      </div>
+
+      <ConfirmDialog {...confirmProps} />
+    </>
+  );
+}
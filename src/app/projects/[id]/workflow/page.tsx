@@ -0,0 +1,455 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { ConfirmDialog } from "@/components/modals/ConfirmDialog";
+import { useConfirm } from "@/hooks/useConfirm";
+import { useSessionRefresh } from "@/hooks/useSessionRefresh";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  useProjectWorkflow,
+  type ProjectWorkflow,
+  type TaskStatusCategory,
+} from "@/hooks/useProjectWorkflow";
+import { showSuccessToast, showErrorToast } from "@/lib/toastHelpers";
+
+/**
+ * A status being edited. Rows are tracked by `id` so transitions survive
+ * renaming a new status (whose key follows its name until saved).
+ */
+interface DraftStatus {
+  id: string;
+  key: string;
+  name: string;
+  category: TaskStatusCategory;
+  /** Row ids this status may move to */
+  next: string[];
+  isNew: boolean;
+}
+
+const MAX_STATUSES = 12;
+
+const CATEGORY_LABELS: Record<TaskStatusCategory, string> = {
+  TODO: "Not started",
+  IN_PROGRESS: "In progress",
+  DONE: "Done",
+};
+
+/**
+ * "In review" -> "IN_REVIEW"
+ */
+function toStatusKey(name: string): string {
+  const key = name
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 30);
+  if (!key || /^[A-Z]/.test(key)) return key;
+  return `S_${key}`.slice(0, 30);
+}
+
+function toDraft(workflow: ProjectWorkflow): DraftStatus[] {
+  return workflow.statuses.map((status) => ({
+    id: status.key,
+    key: status.key,
+    name: status.name,
+    category: status.category,
+    next: [...status.next],
+    isNew: false,
+  }));
+}
+
+export default function ProjectWorkflowPage() {
+  const params = useParams();
+  const projectId = params.id as string;
+
+  const [draft, setDraft] = useState<DraftStatus[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [newCount, setNewCount] = useState(0);
+
+  const { confirm, confirmProps } = useConfirm();
+  useSessionRefresh();
+  const { can, loaded: permissionsLoaded } = usePermissions(projectId);
+  const canManageWorkflow = can("workflow:manage");
+  const { workflow, setWorkflow } = useProjectWorkflow(projectId);
+
+  useEffect(() => {
+    if (workflow) {
+      setDraft(toDraft(workflow));
+    }
+  }, [workflow]);
+
+  const updateStatus = (id: string, changes: Partial<DraftStatus>) => {
+    setDraft((prev) =>
+      prev.map((status) => {
+        if (status.id !== id) return status;
+        const updated = { ...status, ...changes };
+        // New statuses take their key from their name
+        if (status.isNew && changes.name !== undefined) {
+          updated.key = toStatusKey(changes.name);
+        }
+        return updated;
+      })
+    );
+  };
+
+  const moveStatus = (index: number, offset: -1 | 1) => {
+    setDraft((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeStatus = (id: string) => {
+    setDraft((prev) =>
+      prev
+        .filter((status) => status.id !== id)
+        .map((status) => ({
+          ...status,
+          next: status.next.filter((to) => to !== id),
+        }))
+    );
+  };
+
+  const addStatus = () => {
+    const id = `new-${newCount}`;
+    setNewCount((count) => count + 1);
+    setDraft((prev) => [
+      ...prev,
+      {
+        id,
+        key: "",
+        name: "",
+        category: "IN_PROGRESS",
+        next: [],
+        isNew: true,
+      },
+    ]);
+  };
+
+  const toggleTransition = (fromId: string, toId: string) => {
+    setDraft((prev) =>
+      prev.map((status) =>
+        status.id === fromId
+          ? {
+              ...status,
+              next: status.next.includes(toId)
+                ? status.next.filter((id) => id !== toId)
+                : [...status.next, toId],
+            }
+          : status
+      )
+    );
+  };
+
+  const sendWorkflow = async (method: "PUT" | "DELETE", body?: unknown) => {
+    setSaving(true);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/workflow`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to save workflow");
+      }
+
+      setWorkflow(result.data);
+      showSuccessToast(
+        method === "DELETE" ? "Default workflow restored" : "Workflow saved"
+      );
+    } catch (err) {
+      console.error("[WORKFLOW][SAVE] Failed:", err);
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to save workflow"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const keyById = new Map(draft.map((status) => [status.id, status.key]));
+
+    sendWorkflow("PUT", {
+      statuses: draft.map((status) => ({
+        key: status.key,
+        name: status.name,
+        category: status.category,
+        next: status.next.map((id) => keyById.get(id)),
+      })),
+    });
+  };
+
+  const handleReset = async () => {
+    const confirmed = await confirm({
+      title: "Restore Default Workflow",
+      message:
+        "Go back to To Do, In Progress and Done with every move allowed? Tasks must not be in any other status.",
+      confirmText: "Restore",
+      cancelText: "Cancel",
+      variant: "danger",
+    });
+
+    if (confirmed) {
+      sendWorkflow("DELETE");
+    }
+  };
+
+  if (permissionsLoaded && !canManageWorkflow) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-linear-to-br from-green-50 via-emerald-50 to-teal-50">
+        <div className="text-center">
+          <p className="text-gray-700 font-medium mb-4">
+            Only the project owner can change the workflow.
+          </p>
+          <Link
+            href={`/projects/${projectId}`}
+            className="text-emerald-700 font-semibold hover:text-emerald-900"
+          >
+            ← Back to Project
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="min-h-screen bg-linear-to-br from-green-50 via-emerald-50 to-teal-50">
+        <header className="bg-white/80 backdrop-blur-lg shadow-sm border-b border-emerald-100 sticky top-0 z-50">
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-5 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-linear-to-br from-emerald-600 to-green-600 rounded-xl flex items-center justify-center shadow-lg">
+                <span className="text-white font-bold text-xl">C</span>
+              </div>
+              <h1 className="text-2xl font-bold bg-linear-to-r from-emerald-700 to-green-600 bg-clip-text text-transparent">
+                Workflow
+              </h1>
+            </div>
+            <Link
+              href={`/projects/${projectId}`}
+              className="text-sm font-medium text-gray-600 hover:text-emerald-600 transition-colors"
+            >
+              ← Back to Project
+            </Link>
+          </div>
+        </header>
+
+        <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900 mb-2">
+              Task Statuses
+            </h2>
+            <p className="text-gray-600">
+              Each status is a column on the board, in this order. The
+              category tells CollabLedger whether a task in that status is
+              open or finished. Statuses that still hold tasks can&apos;t be
+              removed.
+            </p>
+          </div>
+
+          {!workflow ? (
+            <p className="text-gray-500">Loading workflow...</p>
+          ) : (
+            <>
+              {/* Statuses */}
+              <section className="bg-white rounded-2xl shadow-sm border border-emerald-100 p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-bold text-gray-900">Statuses</h3>
+                  {workflow.isDefault && (
+                    <span className="text-xs font-semibold text-gray-500 bg-gray-100 rounded-full px-3 py-1">
+                      Default workflow
+                    </span>
+                  )}
+                </div>
+
+                <ul className="space-y-3">
+                  {draft.map((status, index) => (
+                    <li
+                      key={status.id}
+                      className="flex flex-wrap items-center gap-3 p-3 border border-gray-200 rounded-xl"
+                    >
+                      <div className="flex flex-col">
+                        <button
+                          type="button"
+                          onClick={() => moveStatus(index, -1)}
+                          disabled={index === 0}
+                          className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                          aria-label={`Move ${status.name || "status"} up`}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveStatus(index, 1)}
+                          disabled={index === draft.length - 1}
+                          className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                          aria-label={`Move ${status.name || "status"} down`}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </button>
+                      </div>
+                      <input
+                        type="text"
+                        value={status.name}
+                        onChange={(e) =>
+                          updateStatus(status.id, { name: e.target.value })
+                        }
+                        placeholder="Status name"
+                        maxLength={40}
+                        aria-label="Status name"
+                        className="flex-1 min-w-40 px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-gray-900"
+                      />
+                      <code className="text-xs text-gray-500 min-w-24">
+                        {status.key || "—"}
+                      </code>
+                      <select
+                        value={status.category}
+                        onChange={(e) =>
+                          updateStatus(status.id, {
+                            category: e.target.value as TaskStatusCategory,
+                          })
+                        }
+                        aria-label="Category"
+                        className="px-3 py-2 border border-gray-300 rounded-xl text-sm text-gray-900"
+                      >
+                        {(
+                          Object.keys(CATEGORY_LABELS) as TaskStatusCategory[]
+                        ).map((category) => (
+                          <option key={category} value={category}>
+                            {CATEGORY_LABELS[category]}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => removeStatus(status.id)}
+                        disabled={draft.length === 1}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-30"
+                        aria-label={`Remove ${status.name || "status"}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+
+                <button
+                  type="button"
+                  onClick={addStatus}
+                  disabled={draft.length >= MAX_STATUSES}
+                  className="text-sm font-semibold text-emerald-700 hover:text-emerald-900 flex items-center gap-1 disabled:opacity-40"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add status
+                </button>
+              </section>
+
+              {/* Transitions */}
+              <section className="bg-white rounded-2xl shadow-sm border border-emerald-100 p-6 space-y-4">
+                <div>
+                  <h3 className="text-lg font-bold text-gray-900">
+                    Allowed moves
+                  </h3>
+                  <p className="text-sm text-gray-600">
+                    Tick where a task in each row&apos;s status may be moved
+                    to.
+                  </p>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="text-sm">
+                    <thead>
+                      <tr>
+                        <th className="p-2 text-left text-gray-500 font-medium">
+                          From \ To
+                        </th>
+                        {draft.map((to) => (
+                          <th
+                            key={to.id}
+                            className="p-2 text-gray-700 font-semibold"
+                          >
+                            {to.name || "—"}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {draft.map((from) => (
+                        <tr key={from.id} className="border-t border-gray-100">
+                          <th className="p-2 text-left text-gray-700 font-semibold">
+                            {from.name || "—"}
+                          </th>
+                          {draft.map((to) => (
+                            <td key={to.id} className="p-2 text-center">
+                              {from.id === to.id ? (
+                                <span className="text-gray-300">—</span>
+                              ) : (
+                                <input
+                                  type="checkbox"
+                                  checked={from.next.includes(to.id)}
+                                  onChange={() =>
+                                    toggleTransition(from.id, to.id)
+                                  }
+                                  aria-label={`Allow ${from.name} to ${to.name}`}
+                                  className="h-4 w-4 text-emerald-600 rounded"
+                                />
+                              )}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+
+              <div className="flex flex-wrap justify-end gap-3">
+                {!workflow.isDefault && (
+                  <button
+                    type="button"
+                    onClick={handleReset}
+                    disabled={saving}
+                    className="px-5 py-2 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors disabled:opacity-50"
+                  >
+                    Restore default
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setDraft(toDraft(workflow))}
+                  disabled={saving}
+                  className="px-5 py-2 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors disabled:opacity-50"
+                >
+                  Discard changes
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving || draft.some((status) => !status.key)}
+                  className="px-5 py-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-xl transition-colors disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : "Save workflow"}
+                </button>
+              </div>
+            </>
+          )}
+        </main>
+      </div>
+
+      <ConfirmDialog {...confirmProps} />
+    </>
+  );
+}
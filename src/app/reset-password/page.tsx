@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Inter } from "next/font/google";
+import { showSuccessToast, showErrorToast } from "@/lib/toastHelpers";
+
+const inter = Inter({ subsets: ["latin"] });
+
+export default function ResetPasswordPage() {
+  const router = useRouter();
+  const [token, setToken] = useState<string | null>(null);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get("token"));
+  }, []);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (password.length < 6) {
+      showErrorToast("Password must be at least 6 characters long");
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      showErrorToast("Passwords do not match");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        showErrorToast(data.message || "Could not reset password");
+        return;
+      }
+
+      showSuccessToast(data.message);
+      router.push("/login");
+    } catch (err) {
+      console.error("[RESET PASSWORD ERROR]", err);
+      showErrorToast("An error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClassName =
+    "appearance-none block w-full px-4 py-3.5 bg-white/5 border border-white/10 placeholder-green-200/30 text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-green-400/50 focus:border-green-400/50 transition-all text-base";
+
+  return (
+    <div className="relative min-h-screen flex items-center bg-gray-900 overflow-hidden">
+      <div
+        className="absolute inset-0 z-0 bg-cover bg-center bg-no-repeat"
+        style={{ backgroundImage: "url('/assets/image.png')" }}
+      >
+        <div className="absolute inset-0 bg-green-900/40 backdrop-blur-[2px]"></div>
+      </div>
+
+      <div
+        className={`relative z-10 w-full min-h-screen flex items-center justify-start px-4 sm:px-8 md:px-16 lg:px-24 ${inter.className}`}
+      >
+        <div className="w-full max-w-xl p-12 bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl">
+          <div className="mb-10">
+            <h2 className="text-4xl font-bold text-white tracking-tight">
+              Choose a New Password
+            </h2>
+            <p className="mt-3 text-base text-green-100/90 leading-relaxed">
+              You&apos;ll be signed out of every device once it&apos;s changed.
+            </p>
+          </div>
+
+          {token === null ? (
+            <p className="text-sm text-green-50">
+              This reset link is missing its token. Request a new one from the{" "}
+              <Link href="/forgot-password" className="underline">
+                forgot password
+              </Link>{" "}
+              page.
+            </p>
+          ) : (
+            <form className="space-y-8" onSubmit={handleSubmit}>
+              <div className="space-y-6">
+                <div>
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-medium text-green-50 mb-2"
+                  >
+                    New password
+                  </label>
+                  <input
+                    id="password"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    className={inputClassName}
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="confirmPassword"
+                    className="block text-sm font-medium text-green-50 mb-2"
+                  >
+                    Confirm new password
+                  </label>
+                  <input
+                    id="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    className={inputClassName}
+                    placeholder="••••••••"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full flex justify-center py-3.5 px-4 text-base font-bold rounded-lg text-white bg-green-600 hover:bg-green-500 transition-all shadow-lg disabled:opacity-70 disabled:cursor-not-allowed"
+              >
+                {loading ? "Saving..." : "Reset password"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+"use client";
+
+import { useEffect, useState, useCallback, type FormEvent } from "react";
+import Link from "next/link";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import { ConfirmDialog } from "@/components/modals/ConfirmDialog";
+import { useConfirm } from "@/hooks/useConfirm";
+import { useSessionRefresh } from "@/hooks/useSessionRefresh";
+import { usePermissions } from "@/hooks/usePermissions";
+import { showSuccessToast, showErrorToast } from "@/lib/toastHelpers";
+
+type ApiTokenScope = "read" | "write" | "admin";
+
+interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  read: "Read data (GET requests)",
+  write: "Create, update and delete data",
+  admin: "Use admin endpoints (admins only)",
+};
+
+const EXPIRY_OPTIONS = [
+  { label: "7 days", value: 7 },
+  { label: "30 days", value: 30 },
+  { label: "90 days", value: 90 },
+  { label: "1 year", value: 365 },
+  { label: "No expiry", value: null },
+];
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+function tokenState(token: ApiToken): "active" | "expired" | "revoked" {
+  if (token.revokedAt) return "revoked";
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) {
+    return "expired";
+  }
+  return "active";
+}
+
+export default function SettingsPage() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loadingTokens, setLoadingTokens] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(30);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const { confirm, confirmProps } = useConfirm();
+  useSessionRefresh();
+  const { can } = usePermissions();
+
+  const availableScopes: ApiTokenScope[] = can("admin:access")
+    ? ["read", "write", "admin"]
+    : ["read", "write"];
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/tokens", {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to load API tokens");
+      }
+
+      const data = await response.json();
+      setTokens(data.data?.tokens ?? []);
+    } catch (err) {
+      console.error("[SETTINGS][TOKENS] Fetch failed:", err);
+      showErrorToast("Failed to load API tokens");
+    } finally {
+      setLoadingTokens(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      showErrorToast("Give the token a name");
+      return;
+    }
+
+    if (scopes.length === 0) {
+      showErrorToast("Pick at least one scope");
+      return;
+    }
+
+    setCreating(true);
+
+    try {
+      const response = await fetch("/api/auth/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name: name.trim(), scopes, expiresInDays }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to create token");
+      }
+
+      const { token, ...record } = data.data;
+      setNewToken(token);
+      setTokens((prev) => [record, ...prev]);
+      setName("");
+      showSuccessToast("API token created");
+    } catch (err) {
+      console.error("[SETTINGS][CREATE_TOKEN] Failed:", err);
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to create token"
+      );
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+
+    try {
+      await navigator.clipboard.writeText(newToken);
+      showSuccessToast("Token copied to clipboard");
+    } catch {
+      showErrorToast("Could not copy; select the token and copy it manually");
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    const confirmed = await confirm({
+      title: "Revoke Token",
+      message: `Scripts using "${token.name}" will stop working immediately. Revoke it?`,
+      confirmText: "Revoke",
+      cancelText: "Cancel",
+      variant: "danger",
+    });
+
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/auth/tokens/${token.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to revoke token");
+      }
+
+      setTokens((prev) =>
+        prev.map((t) =>
+          t.id === token.id ? { ...t, revokedAt: new Date().toISOString() } : t
+        )
+      );
+      showSuccessToast("API token revoked");
+    } catch (err) {
+      console.error("[SETTINGS][REVOKE_TOKEN] Failed:", err);
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to revoke token"
+      );
+    }
+  };
+
+  return (
+    <>
+      <div className="min-h-screen bg-linear-to-br from-green-50 via-emerald-50 to-teal-50">
+        <header className="bg-white/80 backdrop-blur-lg shadow-sm border-b border-emerald-100 sticky top-0 z-50">
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-5 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-linear-to-br from-emerald-600 to-green-600 rounded-xl flex items-center justify-center shadow-lg">
+                <span className="text-white font-bold text-xl">C</span>
+              </div>
+              <h1 className="text-2xl font-bold bg-linear-to-r from-emerald-700 to-green-600 bg-clip-text text-transparent">
+                Settings
+              </h1>
+            </div>
+            <Link
+              href="/dashboard"
+              className="px-5 py-2 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl transition-all duration-300 hover:shadow-md"
+            >
+              Back to Dashboard
+            </Link>
+          </div>
+        </header>
+
+        <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900 mb-2 flex items-center gap-3">
+              <KeyRound className="h-7 w-7 text-emerald-600" />
+              Personal API Tokens
+            </h2>
+            <p className="text-gray-600">
+              Use a token from scripts and integrations by sending{" "}
+              <code className="px-1.5 py-0.5 bg-gray-100 rounded text-sm">
+                Authorization: Bearer &lt;token&gt;
+              </code>
+              . Tokens act as you, limited to the scopes you pick.
+            </p>
+          </div>
+
+          {newToken && (
+            <div className="bg-emerald-50 border border-emerald-200 rounded-2xl p-6">
+              <p className="font-semibold text-emerald-900 mb-2">
+                Copy your new token now. You won&apos;t be able to see it again.
+              </p>
+              <div className="flex gap-2">
+                <code className="flex-1 px-4 py-2 bg-white border border-emerald-200 rounded-xl text-sm text-gray-900 break-all">
+                  {newToken}
+                </code>
+                <button
+                  onClick={handleCopy}
+                  className="px-4 py-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-xl transition-colors flex items-center gap-2"
+                >
+                  <Copy className="h-4 w-4" />
+                  Copy
+                </button>
+              </div>
+              <button
+                onClick={() => setNewToken(null)}
+                className="mt-3 text-sm font-semibold text-emerald-700 hover:text-emerald-900"
+              >
+                Done
+              </button>
+            </div>
+          )}
+
+          {/* Create token */}
+          <form
+            onSubmit={handleCreate}
+            className="bg-white rounded-2xl shadow-sm border border-emerald-100 p-6 space-y-5"
+          >
+            <h3 className="text-lg font-bold text-gray-900">New token</h3>
+            <div>
+              <label
+                htmlFor="token-name"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Name
+              </label>
+              <input
+                id="token-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                placeholder="e.g. CI smoke tests"
+                className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-gray-900"
+              />
+            </div>
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-2">
+                Scopes
+              </legend>
+              <div className="space-y-2">
+                {availableScopes.map((scope) => (
+                  <label
+                    key={scope}
+                    className="flex items-center gap-3 text-sm text-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={scopes.includes(scope)}
+                      onChange={() => toggleScope(scope)}
+                      className="h-4 w-4 text-emerald-600 rounded"
+                    />
+                    <span className="font-semibold">{scope}</span>
+                    <span className="text-gray-500">
+                      {SCOPE_DESCRIPTIONS[scope]}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            <div>
+              <label
+                htmlFor="token-expiry"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Expires
+              </label>
+              <select
+                id="token-expiry"
+                value={expiresInDays ?? ""}
+                onChange={(e) =>
+                  setExpiresInDays(
+                    e.target.value ? Number(e.target.value) : null
+                  )
+                }
+                className="px-4 py-2 border border-gray-300 rounded-xl text-gray-900 bg-white"
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.value ?? ""}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={creating}
+              className="px-6 py-2 text-sm font-semibold text-white bg-linear-to-r from-emerald-600 to-green-600 hover:from-emerald-700 hover:to-green-700 rounded-xl transition-all duration-300 hover:shadow-lg disabled:opacity-60"
+            >
+              {creating ? "Creating..." : "Create Token"}
+            </button>
+          </form>
+
+          {/* Existing tokens */}
+          <div className="bg-white rounded-2xl shadow-sm border border-emerald-100 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-emerald-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Token
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Scopes
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Last used
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Expires
+                  </th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {loadingTokens ? (
+                  <tr>
+                    <td
+                      colSpan={5}
+                      className="px-6 py-10 text-center text-gray-500"
+                    >
+                      Loading tokens...
+                    </td>
+                  </tr>
+                ) : tokens.length === 0 ? (
+                  <tr>
+                    <td
+                      colSpan={5}
+                      className="px-6 py-10 text-center text-gray-500"
+                    >
+                      You haven&apos;t created any API tokens yet.
+                    </td>
+                  </tr>
+                ) : (
+                  tokens.map((token) => {
+                    const state = tokenState(token);
+
+                    return (
+                      <tr
+                        key={token.id}
+                        className={state === "active" ? "" : "opacity-60"}
+                      >
+                        <td className="px-6 py-4">
+                          <div className="font-medium text-gray-900">
+                            {token.name}
+                          </div>
+                          <div className="text-xs text-gray-500 font-mono">
+                            {token.prefix}…
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {token.scopes.join(", ")}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {token.lastUsedAt
+                            ? new Date(token.lastUsedAt).toLocaleString()
+                            : "Never"}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {state === "revoked"
+                            ? "Revoked"
+                            : state === "expired"
+                              ? "Expired"
+                              : token.expiresAt
+                                ? formatDate(token.expiresAt)
+                                : "Never"}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          {state === "active" && (
+                            <button
+                              onClick={() => handleRevoke(token)}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                              aria-label={`Revoke ${token.name}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </main>
+      </div>
+
+      <ConfirmDialog {...confirmProps} />
+    </>
+  );
+}
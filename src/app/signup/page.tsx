@@ -61,17 +61,14 @@ export default function SignupPage() {
         return;
       }
 
-      // Backend sets HTTP-only cookie, no need to manually store anything
+      // The account must be verified by email before the first sign-in
       console.log("[SIGNUP] ✅ Signup successful!");
-      showSuccessToast("Account created successfully! Redirecting...");
-      console.log("[SIGNUP] ➡️ Redirecting to /dashboard in 100ms...");
-
-      // Small delay to ensure cookie is set before navigation
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      showSuccessToast(
+        "Account created! Check your email for a verification link."
+      );
 
-      // Redirect to dashboard on success (user is automatically logged in)
-      console.log("[SIGNUP] 🚀 Navigating to dashboard now");
-      router.push("/dashboard");
+      console.log("[SIGNUP] 🚀 Navigating to login now");
+      router.push("/login?registered=1");
     } catch (err) {
       console.error("[SIGNUP ERROR] Network error:", err);
       showErrorToast("An error occurred. Please try again.");
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Inter } from "next/font/google";
+
+const inter = Inter({ subsets: ["latin"] });
+
+type VerifyState = "verifying" | "verified" | "failed";
+
+export default function VerifyEmailPage() {
+  const [state, setState] = useState<VerifyState>("verifying");
+  const [message, setMessage] = useState("Verifying your email address...");
+
+  useEffect(() => {
+    const verify = async () => {
+      const token = new URLSearchParams(window.location.search).get("token");
+
+      if (!token) {
+        setState("failed");
+        setMessage("This verification link is missing its token.");
+        return;
+      }
+
+      try {
+        const response = await fetch("/api/auth/verify-email", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+        });
+        const data = await response.json();
+
+        setState(response.ok ? "verified" : "failed");
+        setMessage(data.message || "Verification failed");
+      } catch (err) {
+        console.error("[VERIFY EMAIL ERROR]", err);
+        setState("failed");
+        setMessage("An error occurred. Please try again.");
+      }
+    };
+
+    verify();
+  }, []);
+
+  return (
+    <div className="relative min-h-screen flex items-center bg-gray-900 overflow-hidden">
+      <div
+        className="absolute inset-0 z-0 bg-cover bg-center bg-no-repeat"
+        style={{ backgroundImage: "url('/assets/image.png')" }}
+      >
+        <div className="absolute inset-0 bg-green-900/40 backdrop-blur-[2px]"></div>
+      </div>
+
+      <div
+        className={`relative z-10 w-full min-h-screen flex items-center justify-start px-4 sm:px-8 md:px-16 lg:px-24 ${inter.className}`}
+      >
+        <div className="w-full max-w-xl p-12 bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl">
+          <h2 className="text-4xl font-bold text-white tracking-tight">
+            {state === "verified"
+              ? "Email Verified"
+              : state === "failed"
+                ? "Verification Failed"
+                : "Verifying..."}
+          </h2>
+          <p className="mt-3 text-base text-green-100/90 leading-relaxed">
+            {message}
+          </p>
+
+          {state !== "verifying" && (
+            <div className="mt-8">
+              <Link
+                href="/login"
+                className="inline-flex justify-center py-3.5 px-6 text-base font-bold rounded-lg text-white bg-green-600 hover:bg-green-500 transition-all shadow-lg"
+              >
+                {state === "verified" ? "Sign in" : "Back to sign in"}
+              </Link>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+"use client";
+
+/**
+ * CommentThread Component
+ * Paginated discussion for a project or a task, with one level of replies.
+ * Authors can edit and delete their own comments; moderators can delete any.
+ */
+import { useCallback, useEffect, useState } from "react";
+import MarkdownText from "@/components/ui/MarkdownText";
+import { showErrorToast, showSuccessToast } from "@/lib/toastHelpers";
+
+interface CommentAuthor {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface Comment {
+  id: string;
+  body: string;
+  authorId: string;
+  parentId: string | null;
+  editedAt: string | null;
+  createdAt: string;
+  author: CommentAuthor;
+  replies?: Comment[];
+}
+
+interface CommentThreadProps {
+  /** Collection endpoint, e.g. /api/projects/:id/comments */
+  endpoint: string;
+  currentUserId: string;
+  canComment: boolean;
+  canModerate?: boolean;
+  pageSize?: number;
+}
+
+export function CommentThread({
+  endpoint,
+  currentUserId,
+  canComment,
+  canModerate = false,
+  pageSize = 10,
+}: CommentThreadProps) {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [newBody, setNewBody] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState("");
+
+  const fetchComments = useCallback(
+    async (pageToLoad: number) => {
+      try {
+        setLoading(true);
+        const response = await fetch(
+          `${endpoint}?page=${pageToLoad}&limit=${pageSize}`,
+          { credentials: "include" }
+        );
+
+        if (!response.ok) {
+          throw new Error("Failed to load comments");
+        }
+
+        const data = await response.json();
+        const loaded: Comment[] = data.data?.comments || [];
+        setComments((current) =>
+          pageToLoad === 1 ? loaded : [...current, ...loaded]
+        );
+        setPage(pageToLoad);
+        setTotalPages(data.data?.pagination?.pages || 1);
+      } catch (err) {
+        console.error("[COMMENTS] Fetch failed:", err);
+        showErrorToast("Failed to load comments");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [endpoint, pageSize]
+  );
+
+  useEffect(() => {
+    fetchComments(1);
+  }, [fetchComments]);
+
+  const postComment = async (body: string, parentId?: string) => {
+    try {
+      setSubmitting(true);
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ body, parentId }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to post comment");
+      }
+
+      if (parentId) {
+        setReplyTo(null);
+        setReplyBody("");
+      } else {
+        setNewBody("");
+      }
+      fetchComments(1);
+    } catch (err) {
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to post comment"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const saveEdit = async (commentId: string) => {
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/comments/${commentId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ body: editBody }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to update comment");
+      }
+
+      setEditingId(null);
+      fetchComments(1);
+    } catch (err) {
+      showErrorToast(
+        err instanceof Error ? err.message : "Failed to update comment"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const deleteComment = async (commentId: string) => {
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/comments/${commentId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete comment");
+      }
+
+      showSuccessToast("Comment deleted");
+      fetchComments(1);
+    } catch {
+      showErrorToast("Failed to delete comment");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderComment = (comment: Comment, isReply: boolean) => {
+    const isAuthor = comment.authorId === currentUserId;
+
+    return (
+      <div
+        key={comment.id}
+        className={isReply ? "pl-6 border-l-2 border-emerald-100" : ""}
+      >
+        <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+          <span className="font-semibold text-gray-800">
+            {comment.author.name || comment.author.email}
+          </span>
+          <span>{new Date(comment.createdAt).toLocaleString()}</span>
+          {comment.editedAt && <span>(edited)</span>}
+        </div>
+
+        {editingId === comment.id ? (
+          <div className="space-y-2">
+            <textarea
+              value={editBody}
+              onChange={(e) => setEditBody(e.target.value)}
+              rows={3}
+              disabled={submitting}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => saveEdit(comment.id)}
+                disabled={submitting || !editBody.trim()}
+                className="px-3 py-1 text-xs font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-60"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setEditingId(null)}
+                disabled={submitting}
+                className="px-3 py-1 text-xs font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <MarkdownText text={comment.body} className="text-sm text-gray-700" />
+        )}
+
+        <div className="flex gap-3 mt-1 text-xs font-semibold">
+          {!isReply && canComment && (
+            <button
+              onClick={() => {
+                setReplyTo(comment.id);
+                setReplyBody("");
+              }}
+              className="text-emerald-700 hover:text-emerald-900"
+            >
+              Reply
+            </button>
+          )}
+          {isAuthor && editingId !== comment.id && (
+            <button
+              onClick={() => {
+                setEditingId(comment.id);
+                setEditBody(comment.body);
+              }}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Edit
+            </button>
+          )}
+          {(isAuthor || canModerate) && (
+            <button
+              onClick={() => deleteComment(comment.id)}
+              disabled={submitting}
+              className="text-red-600 hover:text-red-800"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+
+        {!isReply && (
+          <div className="mt-3 space-y-3">
+            {comment.replies?.map((reply) => renderComment(reply, true))}
+            {replyTo === comment.id && (
+              <div className="pl-6 space-y-2">
+                <textarea
+                  value={replyBody}
+                  onChange={(e) => setReplyBody(e.target.value)}
+                  rows={2}
+                  placeholder="Write a reply (Markdown supported)"
+                  disabled={submitting}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => postComment(replyBody, comment.id)}
+                    disabled={submitting || !replyBody.trim()}
+                    className="px-3 py-1 text-xs font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-60"
+                  >
+                    Reply
+                  </button>
+                  <button
+                    onClick={() => setReplyTo(null)}
+                    disabled={submitting}
+                    className="px-3 py-1 text-xs font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {canComment && (
+        <div className="space-y-2">
+          <textarea
+            value={newBody}
+            onChange={(e) => setNewBody(e.target.value)}
+            rows={3}
+            placeholder="Share an update or ask a question (Markdown supported)"
+            disabled={submitting}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          <div className="flex justify-end">
+            <button
+              onClick={() => postComment(newBody)}
+              disabled={submitting || !newBody.trim()}
+              className="px-4 py-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg disabled:opacity-60"
+            >
+              Comment
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!loading && comments.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments yet.</p>
+      ) : (
+        <div className="space-y-6">
+          {comments.map((comment) => renderComment(comment, false))}
+        </div>
+      )}
+
+      {page < totalPages && (
+        <button
+          onClick={() => fetchComments(page + 1)}
+          disabled={loading}
+          className="text-sm font-semibold text-emerald-700 hover:text-emerald-900"
+        >
+          {loading ? "Loading..." : "Load older comments"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@
  * Appears on all pages
  */
 import Link from "next/link";
+import NotificationBell from "./NotificationBell";
+import SearchPalette from "./SearchPalette";
 
 export default function Header() {
   return (
@@ -23,12 +25,16 @@ export default function Header() {
             <a href="/#projects" className="text-white hover:text-green-400 transition">PROJECTS</a>
             <a href="/#contact" className="text-white hover:text-green-400 transition">CONTACT</a>
           </div>
-          <Link
-            href="/signup"
-            className="bg-green-400 hover:bg-green-500 text-purple-900 font-semibold px-6 py-2 rounded-full transition shadow-lg"
-          >
-            Support Us
-          </Link>
+          <div className="flex items-center gap-4">
+            <SearchPalette />
+            <NotificationBell />
+            <Link
+              href="/signup"
+              className="bg-green-400 hover:bg-green-500 text-purple-900 font-semibold px-6 py-2 rounded-full transition shadow-lg"
+            >
+              Support Us
+            </Link>
+          </div>
         </div>
       </div>
     </nav>
@@ -0,0 +1,131 @@
+/**
+ * NotificationBell Component
+ * Bell icon with unread badge and a dropdown of the latest notifications.
+ * Renders nothing for signed-out visitors.
+ */
+"use client";
+
+import Link from "next/link";
+import { Popover, PopoverButton, PopoverPanel } from "@headlessui/react";
+import { Bell, CheckCheck } from "lucide-react";
+import {
+  useNotifications,
+  type AppNotification,
+} from "@/hooks/useNotifications";
+
+/**
+ * Short relative time, e.g. "5m ago"
+ */
+function timeAgo(value: string): string {
+  const seconds = Math.floor((Date.now() - new Date(value).getTime()) / 1000);
+  if (seconds < 60) return "just now";
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function notificationHref(notification: AppNotification): string {
+  return notification.projectId
+    ? `/projects/${notification.projectId}`
+    : "/dashboard";
+}
+
+export default function NotificationBell() {
+  const {
+    notifications,
+    unreadCount,
+    signedIn,
+    reload,
+    markRead,
+    markAllRead,
+  } = useNotifications();
+
+  if (!signedIn) return null;
+
+  return (
+    <Popover className="relative">
+      <PopoverButton
+        onClick={reload}
+        className="relative p-2 rounded-full text-white hover:text-green-400 focus:outline-none focus:ring-2 focus:ring-green-400 transition"
+        aria-label={
+          unreadCount > 0
+            ? `Notifications (${unreadCount} unread)`
+            : "Notifications"
+        }
+      >
+        <Bell className="h-6 w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 rounded-full bg-green-400 text-purple-900 text-xs font-bold flex items-center justify-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </PopoverButton>
+
+      <PopoverPanel
+        anchor="bottom end"
+        className="z-50 mt-2 w-80 sm:w-96 bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden"
+      >
+        {({ close }) => (
+          <>
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+              <h2 className="text-sm font-bold text-gray-900">Notifications</h2>
+              {unreadCount > 0 && (
+                <button
+                  onClick={markAllRead}
+                  className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 flex items-center gap-1"
+                >
+                  <CheckCheck className="h-4 w-4" />
+                  Mark all read
+                </button>
+              )}
+            </div>
+
+            {notifications.length === 0 ? (
+              <p className="px-4 py-10 text-center text-sm text-gray-500">
+                You&apos;re all caught up.
+              </p>
+            ) : (
+              <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                {notifications.map((notification) => (
+                  <li key={notification.id}>
+                    <Link
+                      href={notificationHref(notification)}
+                      onClick={() => {
+                        markRead(notification.id);
+                        close();
+                      }}
+                      className={`flex gap-3 px-4 py-3 hover:bg-gray-50 transition-colors ${
+                        notification.readAt ? "" : "bg-emerald-50/60"
+                      }`}
+                    >
+                      <span
+                        className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+                          notification.readAt
+                            ? "bg-transparent"
+                            : "bg-emerald-500"
+                        }`}
+                        aria-hidden="true"
+                      />
+                      <span className="min-w-0">
+                        <span className="block text-sm text-gray-900">
+                          {notification.message}
+                        </span>
+                        <span className="block text-xs text-gray-500 mt-0.5">
+                          {notification.project?.title &&
+                            `${notification.project.title} · `}
+                          {timeAgo(notification.createdAt)}
+                        </span>
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </PopoverPanel>
+    </Popover>
+  );
+}
@@ -0,0 +1,201 @@
+/**
+ * SearchPalette Component
+ * Search button that opens a command palette (also on Ctrl+K / ⌘K) for
+ * projects, tasks and comments. Results come in as you type, best match
+ * first with the matching words highlighted; arrow keys move through them
+ * and Enter opens one.
+ */
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  Combobox,
+  ComboboxInput,
+  ComboboxOption,
+  ComboboxOptions,
+  Dialog,
+  DialogBackdrop,
+  DialogPanel,
+} from "@headlessui/react";
+import {
+  FolderOpen,
+  ListTodo,
+  Loader2,
+  MessageSquare,
+  Search,
+} from "lucide-react";
+import {
+  MIN_QUERY_LENGTH,
+  useSearch,
+  type SearchResult,
+  type SearchResultType,
+  type SearchSnippetPart,
+} from "@/hooks/useSearch";
+
+const TYPE_ICONS: Record<SearchResultType, typeof Search> = {
+  project: FolderOpen,
+  task: ListTodo,
+  comment: MessageSquare,
+};
+
+const TYPE_LABELS: Record<SearchResultType, string> = {
+  project: "Project",
+  task: "Task",
+  comment: "Comment",
+};
+
+function resultHref(result: SearchResult): string {
+  return `/projects/${result.projectId}`;
+}
+
+function Highlighted({ parts }: { parts: SearchSnippetPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark
+            key={index}
+            className="bg-green-100 text-inherit font-semibold rounded-sm"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function SearchPalette() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const { results, loading, active, signedIn } = useSearch(query);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setOpen((wasOpen) => !wasOpen);
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const close = () => {
+    setOpen(false);
+    setQuery("");
+  };
+
+  const openResult = (result: SearchResult | null) => {
+    if (!result) return;
+    close();
+    router.push(resultHref(result));
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 p-2 md:px-3 md:py-1.5 rounded-full text-white md:bg-white/10 hover:text-green-400 md:hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-green-400 transition"
+        aria-label="Search"
+      >
+        <Search className="h-5 w-5" />
+        <span className="hidden lg:inline text-sm">Search</span>
+        <kbd className="hidden lg:inline text-xs font-sans text-white/70">
+          Ctrl K
+        </kbd>
+      </button>
+
+      <Dialog open={open} onClose={close} className="relative z-50">
+        <DialogBackdrop className="fixed inset-0 bg-black/30 backdrop-blur-sm" />
+
+        <div className="fixed inset-0 overflow-y-auto p-4 pt-[15vh]">
+          <DialogPanel className="mx-auto max-w-xl overflow-hidden rounded-2xl bg-white shadow-xl">
+            <Combobox<SearchResult | null> onChange={openResult}>
+              <div className="flex items-center gap-3 px-4 border-b border-gray-100">
+                <Search className="h-5 w-5 shrink-0 text-gray-400" />
+                <ComboboxInput
+                  autoFocus
+                  value={query}
+                  onChange={(event) => setQuery(event.target.value)}
+                  placeholder="Search projects, tasks and comments..."
+                  aria-label="Search projects, tasks and comments"
+                  className="h-12 w-full border-0 bg-transparent text-sm text-gray-900 placeholder:text-gray-400 focus:outline-none"
+                />
+                {loading && (
+                  <Loader2 className="h-4 w-4 shrink-0 animate-spin text-gray-400" />
+                )}
+              </div>
+
+              {results.length > 0 && (
+                <ComboboxOptions
+                  static
+                  className="max-h-96 overflow-y-auto py-2"
+                >
+                  {results.map((result) => {
+                    const Icon = TYPE_ICONS[result.type];
+                    return (
+                      <ComboboxOption
+                        key={`${result.type}:${result.id}`}
+                        value={result}
+                        className="flex gap-3 px-4 py-2.5 cursor-pointer data-focus:bg-emerald-50"
+                      >
+                        <Icon className="mt-0.5 h-4 w-4 shrink-0 text-emerald-600" />
+                        <span className="min-w-0">
+                          <span className="block text-sm font-medium text-gray-900 truncate">
+                            {result.type === "comment" && "Comment on "}
+                            <Highlighted parts={result.title} />
+                          </span>
+                          {result.snippet.length > 0 && (
+                            <span className="block text-xs text-gray-600 mt-0.5 line-clamp-2">
+                              <Highlighted parts={result.snippet} />
+                            </span>
+                          )}
+                          <span className="block text-xs text-gray-400 mt-0.5">
+                            {TYPE_LABELS[result.type]}
+                            {result.context && ` · ${result.context}`}
+                          </span>
+                        </span>
+                      </ComboboxOption>
+                    );
+                  })}
+                </ComboboxOptions>
+              )}
+            </Combobox>
+
+            {!signedIn ? (
+              <p className="px-4 py-10 text-center text-sm text-gray-500">
+                <Link
+                  href="/login"
+                  onClick={close}
+                  className="font-semibold text-emerald-700 hover:text-emerald-900"
+                >
+                  Sign in
+                </Link>{" "}
+                to search.
+              </p>
+            ) : !active ? (
+              <p className="px-4 py-10 text-center text-sm text-gray-500">
+                Type at least {MIN_QUERY_LENGTH} characters. Use
+                &quot;quotes&quot; for phrases and -word to leave a word out.
+              </p>
+            ) : (
+              !loading &&
+              results.length === 0 && (
+                <p className="px-4 py-10 text-center text-sm text-gray-500">
+                  No results for &ldquo;{query.trim()}&rdquo;.
+                </p>
+              )
+            )}
+          </DialogPanel>
+        </div>
+      </Dialog>
+    </>
+  );
+}
@@ -9,6 +9,11 @@ import FormInput from '../FormInput';
 import Button from '../ui/Button';
 import { Loader2 } from 'lucide-react';
 import { showSuccessToast, showErrorToastFromError } from '@/lib/toastHelpers';
+import {
+  PROJECT_CATEGORIES,
+  PROJECT_CATEGORY_LABELS,
+  type ProjectCategory,
+} from '@/lib/projectCategories';
 
 const createProjectSchema = z.object({
   title: z
@@ -19,6 +24,7 @@ const createProjectSchema = z.object({
     .string()
     .min(10, 'Description must be at least 10 characters')
     .max(1000, 'Description must be at most 1000 characters'),
+  category: z.enum(PROJECT_CATEGORIES as [ProjectCategory, ...ProjectCategory[]]),
 });
 
 type CreateProjectFormData = z.infer<typeof createProjectSchema>;
@@ -40,6 +46,7 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess, ownerId }: Crea
     reset,
   } = useForm<CreateProjectFormData>({
     resolver: zodResolver(createProjectSchema),
+    defaultValues: { category: 'OTHER' },
   });
 
   const onSubmit = async (data: CreateProjectFormData) => {
@@ -123,6 +130,24 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess, ownerId }: Crea
           )}
         </div>
 
+        <div>
+          <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">
+            Cause
+          </label>
+          <select
+            id="category"
+            disabled={isSubmitting}
+            className="w-full border border-gray-300 p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+            {...register('category')}
+          >
+            {PROJECT_CATEGORIES.map((category) => (
+              <option key={category} value={category}>
+                {PROJECT_CATEGORY_LABELS[category]}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div className="flex justify-end gap-3 pt-4">
           <Button
             type="button"
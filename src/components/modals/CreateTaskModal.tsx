@@ -9,6 +9,12 @@ import FormInput from '../FormInput';
 import Button from '../ui/Button';
 import { Loader2 } from 'lucide-react';
 import { showSuccessToast, showErrorToastFromError } from '@/lib/toastHelpers';
+import {
+  TaskPlanningFields,
+  taskPlanningShape,
+  hasValidTaskSchedule,
+  toTaskPlanningPayload,
+} from '../tasks/TaskPlanningFields';
 
 const createTaskSchema = z.object({
   title: z
@@ -18,6 +24,11 @@ const createTaskSchema = z.object({
   description: z
     .string()
     .optional(),
+  milestoneId: z.string().optional(),
+  ...taskPlanningShape,
+}).refine(hasValidTaskSchedule, {
+  message: 'Due date cannot be before the start date',
+  path: ['dueDate'],
 });
 
 type CreateTaskFormData = z.infer<typeof createTaskSchema>;
@@ -27,10 +38,22 @@ interface CreateTaskModalProps {
   onClose: () => void;
   onSuccess?: () => void;
   projectId: string;
+  /** Milestones the new task can be put under */
+  milestones?: Array<{ id: string; title: string }>;
+  /** Labels the new task can carry */
+  labels?: Array<{ id: string; name: string; color: string }>;
 }
 
-export function CreateTaskModal({ isOpen, onClose, onSuccess, projectId }: CreateTaskModalProps) {
+export function CreateTaskModal({
+  isOpen,
+  onClose,
+  onSuccess,
+  projectId,
+  milestones = [],
+  labels = [],
+}: CreateTaskModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [labelIds, setLabelIds] = useState<string[]>([]);
   
   const {
     register,
@@ -39,8 +62,17 @@ export function CreateTaskModal({ isOpen, onClose, onSuccess, projectId }: Creat
     reset,
   } = useForm<CreateTaskFormData>({
     resolver: zodResolver(createTaskSchema),
+    defaultValues: { priority: 'MEDIUM' },
   });
 
+  const toggleLabel = (labelId: string) => {
+    setLabelIds((current) =>
+      current.includes(labelId)
+        ? current.filter((id) => id !== labelId)
+        : [...current, labelId]
+    );
+  };
+
   const onSubmit = async (data: CreateTaskFormData) => {
     setIsSubmitting(true);
     
@@ -51,7 +83,11 @@ export function CreateTaskModal({ isOpen, onClose, onSuccess, projectId }: Creat
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          ...data,
+          title: data.title,
+          description: data.description,
+          ...toTaskPlanningPayload(data),
+          milestoneId: data.milestoneId || null,
+          labelIds,
           projectId,
         }),
       });
@@ -64,6 +100,7 @@ export function CreateTaskModal({ isOpen, onClose, onSuccess, projectId }: Creat
 
       showSuccessToast('Task created successfully!');
       reset();
+      setLabelIds([]);
       onClose();
       onSuccess?.();
     } catch (error) {
@@ -76,6 +113,7 @@ export function CreateTaskModal({ isOpen, onClose, onSuccess, projectId }: Creat
   const handleClose = () => {
     if (!isSubmitting) {
       reset();
+      setLabelIds([]);
       onClose();
     }
   };
@@ -122,6 +160,63 @@ export function CreateTaskModal({ isOpen, onClose, onSuccess, projectId }: Creat
           )}
         </div>
 
+        <TaskPlanningFields
+          register={register}
+          errors={errors}
+          disabled={isSubmitting}
+        />
+
+        {milestones.length > 0 && (
+          <div>
+            <label htmlFor="milestoneId" className="block text-sm font-medium text-gray-700 mb-1">
+              Milestone <span className="text-gray-500 text-xs">(optional)</span>
+            </label>
+            <select
+              id="milestoneId"
+              disabled={isSubmitting}
+              className="w-full border border-gray-300 p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+              {...register('milestoneId')}
+            >
+              <option value="">No milestone</option>
+              {milestones.map((milestone) => (
+                <option key={milestone.id} value={milestone.id}>
+                  {milestone.title}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {labels.length > 0 && (
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">
+              Labels
+            </legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 border border-gray-300 rounded-md p-2">
+              {labels.map((label) => (
+                <label
+                  key={label.id}
+                  className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={labelIds.includes(label.id)}
+                    onChange={() => toggleLabel(label.id)}
+                    disabled={isSubmitting}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span
+                    className="h-2.5 w-2.5 rounded-full"
+                    style={{ backgroundColor: label.color }}
+                    aria-hidden="true"
+                  />
+                  {label.name}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
         <div className="flex justify-end gap-3 pt-4">
           <Button
             type="button"
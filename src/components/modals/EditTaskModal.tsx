@@ -9,6 +9,14 @@ import FormInput from '../FormInput';
 import Button from '../ui/Button';
 import { Loader2 } from 'lucide-react';
 import { showSuccessToast, showErrorToastFromError } from '@/lib/toastHelpers';
+import {
+  TaskPlanningFields,
+  taskPlanningShape,
+  hasValidTaskSchedule,
+  toTaskPlanningPayload,
+  toTaskPlanningFormData,
+  type TaskPriority,
+} from '../tasks/TaskPlanningFields';
 
 const editTaskSchema = z.object({
   title: z
@@ -18,14 +26,32 @@ const editTaskSchema = z.object({
   description: z
     .string()
     .optional(),
+  milestoneId: z.string().optional(),
+  ...taskPlanningShape,
+}).refine(hasValidTaskSchedule, {
+  message: 'Due date cannot be before the start date',
+  path: ['dueDate'],
 });
 
 type EditTaskFormData = z.infer<typeof editTaskSchema>;
 
+interface AssignableUser {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
 interface Task {
   id: string;
   title: string;
   description: string | null;
+  priority?: TaskPriority;
+  startDate?: string | null;
+  dueDate?: string | null;
+  estimatedHours?: number | null;
+  milestoneId?: string | null;
+  labels?: Array<{ label: { id: string } }>;
+  assignees?: Array<{ user: AssignableUser }>;
 }
 
 interface EditTaskModalProps {
@@ -33,10 +59,25 @@ interface EditTaskModalProps {
   onClose: () => void;
   onSuccess?: () => void;
   task: Task | null;
+  assignableUsers?: AssignableUser[];
+  /** Milestones the task can be put under */
+  milestones?: Array<{ id: string; title: string }>;
+  /** Labels the task can carry */
+  labels?: Array<{ id: string; name: string; color: string }>;
 }
 
-export function EditTaskModal({ isOpen, onClose, onSuccess, task }: EditTaskModalProps) {
+export function EditTaskModal({
+  isOpen,
+  onClose,
+  onSuccess,
+  task,
+  assignableUsers = [],
+  milestones = [],
+  labels = [],
+}: EditTaskModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
+  const [labelIds, setLabelIds] = useState<string[]>([]);
   
   const {
     register,
@@ -53,10 +94,30 @@ export function EditTaskModal({ isOpen, onClose, onSuccess, task }: EditTaskModa
       reset({
         title: task.title,
         description: task.description || '',
+        milestoneId: task.milestoneId ?? '',
+        ...toTaskPlanningFormData(task),
       });
+      setAssigneeIds(task.assignees?.map((assignee) => assignee.user.id) || []);
+      setLabelIds(task.labels?.map(({ label }) => label.id) || []);
     }
   }, [isOpen, task, reset]);
 
+  const toggleAssignee = (userId: string) => {
+    setAssigneeIds((current) =>
+      current.includes(userId)
+        ? current.filter((id) => id !== userId)
+        : [...current, userId]
+    );
+  };
+
+  const toggleLabel = (labelId: string) => {
+    setLabelIds((current) =>
+      current.includes(labelId)
+        ? current.filter((id) => id !== labelId)
+        : [...current, labelId]
+    );
+  };
+
   const onSubmit = async (data: EditTaskFormData) => {
     if (!task) return;
     
@@ -64,11 +125,19 @@ export function EditTaskModal({ isOpen, onClose, onSuccess, task }: EditTaskModa
     
     try {
       const response = await fetch(`/api/tasks/${task.id}`, {
-        method: 'PUT',
+        method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(data),
+        credentials: 'include',
+        body: JSON.stringify({
+          title: data.title,
+          description: data.description,
+          ...toTaskPlanningPayload(data),
+          milestoneId: data.milestoneId || null,
+          assigneeIds,
+          labelIds,
+        }),
       });
 
       const result = await response.json();
@@ -137,6 +206,88 @@ export function EditTaskModal({ isOpen, onClose, onSuccess, task }: EditTaskModa
           )}
         </div>
 
+        <TaskPlanningFields
+          register={register}
+          errors={errors}
+          disabled={isSubmitting}
+        />
+
+        {milestones.length > 0 && (
+          <div>
+            <label htmlFor="milestoneId" className="block text-sm font-medium text-gray-700 mb-1">
+              Milestone <span className="text-gray-500 text-xs">(optional)</span>
+            </label>
+            <select
+              id="milestoneId"
+              disabled={isSubmitting}
+              className="w-full border border-gray-300 p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+              {...register('milestoneId')}
+            >
+              <option value="">No milestone</option>
+              {milestones.map((milestone) => (
+                <option key={milestone.id} value={milestone.id}>
+                  {milestone.title}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {assignableUsers.length > 0 && (
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">
+              Assignees
+            </legend>
+            <div className="max-h-40 overflow-y-auto space-y-1 border border-gray-300 rounded-md p-2">
+              {assignableUsers.map((user) => (
+                <label
+                  key={user.id}
+                  className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={assigneeIds.includes(user.id)}
+                    onChange={() => toggleAssignee(user.id)}
+                    disabled={isSubmitting}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {user.name || user.email}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
+        {labels.length > 0 && (
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">
+              Labels
+            </legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 border border-gray-300 rounded-md p-2">
+              {labels.map((label) => (
+                <label
+                  key={label.id}
+                  className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={labelIds.includes(label.id)}
+                    onChange={() => toggleLabel(label.id)}
+                    disabled={isSubmitting}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span
+                    className="h-2.5 w-2.5 rounded-full"
+                    style={{ backgroundColor: label.color }}
+                    aria-hidden="true"
+                  />
+                  {label.name}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
         <div className="flex justify-end gap-3 pt-4">
           <Button
             type="button"
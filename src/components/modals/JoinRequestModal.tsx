@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { BaseModal } from './BaseModal';
+import Button from '../ui/Button';
+import { Loader2 } from 'lucide-react';
+import { showSuccessToast, showErrorToastFromError } from '@/lib/toastHelpers';
+
+const joinRequestSchema = z.object({
+  message: z
+    .string()
+    .max(500, 'Message must be at most 500 characters')
+    .optional(),
+});
+
+type JoinRequestFormData = z.infer<typeof joinRequestSchema>;
+
+interface JoinRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+  project: {
+    id: string;
+    title: string;
+  } | null;
+}
+
+export function JoinRequestModal({ isOpen, onClose, onSuccess, project }: JoinRequestModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<JoinRequestFormData>({
+    resolver: zodResolver(joinRequestSchema),
+  });
+
+  const onSubmit = async (data: JoinRequestFormData) => {
+    if (!project) return;
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}/join-requests`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to send join request');
+      }
+
+      showSuccessToast('Join request sent! The project owner will review it.');
+      reset();
+      onClose();
+      onSuccess?.();
+    } catch (error) {
+      showErrorToastFromError(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      reset();
+      onClose();
+    }
+  };
+
+  if (!project) return null;
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Request to Contribute"
+      description={`Tell the owner of "${project.title}" how you'd like to help`}
+      size="lg"
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div>
+          <label htmlFor="message" className="block text-sm font-medium text-gray-700 mb-1">
+            Message <span className="text-gray-500 text-xs">(optional)</span>
+          </label>
+          <textarea
+            id="message"
+            rows={4}
+            placeholder="Share your skills or availability"
+            disabled={isSubmitting}
+            className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed ${
+              errors.message ? 'border-red-500' : 'border-gray-300'
+            }`}
+            aria-invalid={!!errors.message}
+            aria-describedby={errors.message ? 'message-error' : undefined}
+            {...register('message')}
+          />
+          {errors.message && (
+            <p id="message-error" className="mt-1 text-sm text-red-600" role="alert">
+              {errors.message.message}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleClose}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSubmitting}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                Sending...
+              </>
+            ) : (
+              'Send Request'
+            )}
+          </Button>
+        </div>
+      </form>
+    </BaseModal>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+/**
+ * DependencyView Component
+ * A project's tasks laid out left to right by how many blockers deep they
+ * sit, with the critical path (the chain of linked tasks with the most
+ * remaining work) highlighted. Blockers can be added and removed in place.
+ */
+import { ArrowRight, Lock, X } from "lucide-react";
+import {
+  findCriticalPath,
+  getDependencyDepths,
+  wouldCreateCycle,
+} from "@/lib/dependencyGraph";
+
+export interface DependencyTask {
+  id: string;
+  title: string;
+  status: string;
+  estimatedHours: number | null;
+}
+
+export interface Dependency {
+  id: string;
+  blockerId: string;
+  blockedId: string;
+}
+
+interface DependencyViewProps<T extends DependencyTask> {
+  tasks: T[];
+  dependencies: Dependency[];
+  canEdit: boolean;
+  isDone: (status: string) => boolean;
+  statusName: (status: string) => string;
+  onAdd: (blockerId: string, blockedId: string) => void;
+  onRemove: (dependencyId: string) => void;
+}
+
+/** Work assumed for open tasks nobody has estimated */
+const DEFAULT_ESTIMATE_HOURS = 1;
+
+export function DependencyView<T extends DependencyTask>({
+  tasks,
+  dependencies,
+  canEdit,
+  isDone,
+  statusName,
+  onAdd,
+  onRemove,
+}: DependencyViewProps<T>) {
+  const tasksById = new Map(tasks.map((task) => [task.id, task] as const));
+  const links = dependencies.filter(
+    (link) => tasksById.has(link.blockerId) && tasksById.has(link.blockedId)
+  );
+
+  const remainingWork = (taskId: string) => {
+    const task = tasksById.get(taskId);
+    if (!task || isDone(task.status)) return 0;
+    return task.estimatedHours ?? DEFAULT_ESTIMATE_HOURS;
+  };
+
+  const criticalPath = findCriticalPath(links, remainingWork);
+  const onCriticalPath = new Set(criticalPath);
+  const criticalHours = criticalPath.reduce(
+    (sum, taskId) => sum + remainingWork(taskId),
+    0
+  );
+
+  const depths = getDependencyDepths(links);
+  const columns: T[][] = [];
+  for (const task of tasks) {
+    const depth = depths.get(task.id);
+    if (depth === undefined) continue;
+    (columns[depth] ??= []).push(task);
+  }
+  const unlinked = tasks.filter((task) => !depths.has(task.id));
+
+  const renderTask = (task: T) => {
+    const blockers = links.filter((link) => link.blockedId === task.id);
+    const openBlockers = blockers.filter(
+      (link) => !isDone(tasksById.get(link.blockerId)!.status)
+    );
+    const candidates = tasks.filter(
+      (other) =>
+        other.id !== task.id &&
+        !blockers.some((link) => link.blockerId === other.id) &&
+        !wouldCreateCycle(links, other.id, task.id)
+    );
+
+    return (
+      <div
+        key={task.id}
+        className={`bg-white rounded-2xl p-4 border shadow-sm ${
+          onCriticalPath.has(task.id)
+            ? "border-emerald-500 ring-2 ring-emerald-200"
+            : "border-gray-200"
+        }`}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <h4 className="text-sm font-bold text-gray-900">{task.title}</h4>
+          {openBlockers.length > 0 && (
+            <Lock
+              className="h-4 w-4 shrink-0 text-amber-600"
+              aria-label="Blocked"
+            />
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          {statusName(task.status)}
+          {task.estimatedHours !== null && ` · ${task.estimatedHours}h`}
+        </p>
+
+        {blockers.length > 0 && (
+          <div className="mt-3">
+            <p className="text-xs font-semibold text-gray-600 mb-1">
+              Blocked by
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {blockers.map((link) => {
+                const blocker = tasksById.get(link.blockerId)!;
+                return (
+                  <span
+                    key={link.id}
+                    className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${
+                      isDone(blocker.status)
+                        ? "bg-gray-100 text-gray-500 line-through"
+                        : "bg-amber-100 text-amber-800"
+                    }`}
+                  >
+                    {blocker.title}
+                    {canEdit && (
+                      <button
+                        onClick={() => onRemove(link.id)}
+                        className="hover:text-red-600"
+                        aria-label={`Remove "${blocker.title}" as a blocker`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {canEdit && candidates.length > 0 && (
+          <select
+            value=""
+            onChange={(event) => onAdd(event.target.value, task.id)}
+            aria-label={`Add a task that blocks "${task.title}"`}
+            className="mt-3 w-full border border-gray-300 rounded-md px-2 py-1 text-xs text-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          >
+            <option value="">Add blocker...</option>
+            {candidates.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.title}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-emerald-50 border border-emerald-200 rounded-2xl px-5 py-4 text-sm text-emerald-900">
+        {criticalPath.length > 0 ? (
+          <>
+            <p className="font-semibold mb-1">
+              Critical path · {criticalHours}h of work left
+            </p>
+            <p className="flex flex-wrap items-center gap-1">
+              {criticalPath.map((taskId, index) => (
+                <span key={taskId} className="inline-flex items-center gap-1">
+                  {index > 0 && <ArrowRight className="h-3.5 w-3.5" />}
+                  {tasksById.get(taskId)?.title}
+                </span>
+              ))}
+            </p>
+            <p className="text-xs text-emerald-700 mt-2">
+              Tasks without an estimate count as {DEFAULT_ESTIMATE_HOURS}h;
+              finished tasks count as none.
+            </p>
+          </>
+        ) : (
+          <p>
+            No dependencies yet. Add a blocker to a task to say what has to
+            be finished before it can start.
+          </p>
+        )}
+      </div>
+
+      {columns.length > 0 && (
+        <div className="flex flex-col md:flex-row gap-6 md:overflow-x-auto pb-2">
+          {columns.map((column, depth) => (
+            <section
+              key={depth}
+              aria-label={depth === 0 ? "First" : `Step ${depth + 1}`}
+              className="md:flex-1 md:min-w-64 space-y-4"
+            >
+              <h3 className="text-xs font-bold uppercase tracking-wide text-gray-500 px-1">
+                {depth === 0 ? "First" : `Step ${depth + 1}`}
+              </h3>
+              {column.map(renderTask)}
+            </section>
+          ))}
+        </div>
+      )}
+
+      {unlinked.length > 0 && (
+        <section aria-label="Tasks without dependencies">
+          <h3 className="text-xs font-bold uppercase tracking-wide text-gray-500 px-1 mb-4">
+            No dependencies
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {unlinked.map(renderTask)}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
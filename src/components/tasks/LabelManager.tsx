@@ -0,0 +1,181 @@
+"use client";
+
+/**
+ * LabelManager Component
+ * A project's task labels as colored chips. Managers can add labels, rename
+ * or recolor them and delete them (which takes them off every task).
+ */
+import { useState, type FormEvent } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+export interface TaskLabel {
+  id: string;
+  name: string;
+  /** Hex color, e.g. #10B981 */
+  color: string;
+}
+
+export interface LabelFormValues {
+  name: string;
+  color: string;
+}
+
+interface LabelManagerProps {
+  labels: TaskLabel[];
+  canManage: boolean;
+  /** Create a label, or update `labelId`; resolves to whether it saved */
+  onSave: (values: LabelFormValues, labelId?: string) => Promise<boolean>;
+  onDelete: (label: TaskLabel) => void;
+}
+
+/** Matches MAX_LABEL_NAME_LENGTH on the server */
+const MAX_NAME_LENGTH = 40;
+
+const DEFAULT_COLOR = "#10B981";
+
+/**
+ * A label as a chip tinted with its color
+ */
+export function LabelChip({ label }: { label: TaskLabel }) {
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold border"
+      style={{
+        color: label.color,
+        borderColor: label.color,
+        backgroundColor: `${label.color}1A`,
+      }}
+    >
+      {label.name}
+    </span>
+  );
+}
+
+export function LabelManager({
+  labels,
+  canManage,
+  onSave,
+  onDelete,
+}: LabelManagerProps) {
+  // null: no form open; "new": adding; otherwise the label being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<LabelFormValues>({
+    name: "",
+    color: DEFAULT_COLOR,
+  });
+  const [saving, setSaving] = useState(false);
+
+  const openForm = (label?: TaskLabel) => {
+    setEditing(label?.id ?? "new");
+    setForm(
+      label
+        ? { name: label.name, color: label.color }
+        : { name: "", color: DEFAULT_COLOR }
+    );
+  };
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!form.name.trim()) return;
+
+    setSaving(true);
+    const saved = await onSave(
+      { name: form.name.trim(), color: form.color.toUpperCase() },
+      editing === "new" ? undefined : editing!
+    );
+    setSaving(false);
+    if (saved) setEditing(null);
+  };
+
+  return (
+    <div>
+      {labels.length === 0 && editing !== "new" && (
+        <p className="text-sm text-gray-500 mb-4">
+          No labels yet.
+          {canManage && " Add one to tag and filter this project's tasks."}
+        </p>
+      )}
+
+      <ul className="flex flex-wrap gap-2">
+        {labels.map((label) => (
+          <li key={label.id} className="group flex items-center gap-1">
+            <LabelChip label={label} />
+            {canManage && (
+              <>
+                <button
+                  onClick={() => openForm(label)}
+                  className="p-1 text-gray-400 hover:text-emerald-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition"
+                  aria-label={`Edit label "${label.name}"`}
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  onClick={() => onDelete(label)}
+                  className="p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition"
+                  aria-label={`Delete label "${label.name}"`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canManage &&
+        (editing === null ? (
+          <button
+            onClick={() => openForm()}
+            className="mt-4 px-3 py-1.5 text-sm font-semibold text-emerald-700 hover:bg-emerald-50 rounded-lg flex items-center gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            Add label
+          </button>
+        ) : (
+          <form
+            onSubmit={submit}
+            className="mt-4 flex flex-wrap items-center gap-2"
+          >
+            <input
+              type="color"
+              value={form.color}
+              onChange={(event) =>
+                setForm({ ...form, color: event.target.value })
+              }
+              aria-label="Label color"
+              disabled={saving}
+              className="h-8 w-10 rounded border border-gray-300 cursor-pointer"
+            />
+            <input
+              type="text"
+              value={form.name}
+              onChange={(event) =>
+                setForm({ ...form, name: event.target.value })
+              }
+              maxLength={MAX_NAME_LENGTH}
+              placeholder="Label name"
+              aria-label="Label name"
+              disabled={saving}
+              autoFocus
+              className="flex-1 min-w-40 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              disabled={saving}
+              className="px-3 py-1 text-sm font-semibold text-gray-600 hover:bg-gray-100 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !form.name.trim()}
+              className="px-3 py-1 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </form>
+        ))}
+    </div>
+  );
+}
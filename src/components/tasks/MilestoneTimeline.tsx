@@ -0,0 +1,320 @@
+"use client";
+
+/**
+ * MilestoneTimeline Component
+ * A project's milestones in target date order, each with the share of its
+ * tasks that are done. Progress is worked out from the tasks on the page,
+ * so it follows board moves as they happen. Managers can add, edit and
+ * delete milestones in place.
+ */
+import { useState, type FormEvent } from "react";
+import { CalendarDays, Flag, Pencil, Plus, Trash2 } from "lucide-react";
+import { getMilestoneProgress, type IsDoneStatus } from "@/lib/taskProgress";
+
+export interface Milestone {
+  id: string;
+  title: string;
+  description: string | null;
+  targetDate: string | null;
+}
+
+export interface MilestoneTask {
+  id: string;
+  status: string;
+  milestoneId?: string | null;
+}
+
+export interface MilestoneFormValues {
+  title: string;
+  description: string | null;
+  /** "YYYY-MM-DD", or null for no target date */
+  targetDate: string | null;
+}
+
+interface MilestoneTimelineProps<T extends MilestoneTask> {
+  milestones: Milestone[];
+  tasks: T[];
+  canManage: boolean;
+  isDone: IsDoneStatus;
+  /** Create a milestone, or update `milestoneId`; resolves to whether it saved */
+  onSave: (
+    values: MilestoneFormValues,
+    milestoneId?: string
+  ) => Promise<boolean>;
+  onDelete: (milestone: Milestone) => void;
+}
+
+/** Matches MAX_MILESTONE_TITLE_LENGTH on the server */
+const MAX_TITLE_LENGTH = 120;
+
+const EMPTY_FORM: MilestoneFormValues = {
+  title: "",
+  description: null,
+  targetDate: null,
+};
+
+// Target dates are calendar days stored as UTC midnight
+function formatTargetDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function isPastTarget(targetDate: string): boolean {
+  const now = new Date();
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  return new Date(targetDate).getTime() < today;
+}
+
+/**
+ * Soonest target date first, undated milestones last
+ */
+function byTargetDate(a: Milestone, b: Milestone): number {
+  if (a.targetDate === b.targetDate) return 0;
+  if (!a.targetDate) return 1;
+  if (!b.targetDate) return -1;
+  return a.targetDate < b.targetDate ? -1 : 1;
+}
+
+export function MilestoneTimeline<T extends MilestoneTask>({
+  milestones,
+  tasks,
+  canManage,
+  isDone,
+  onSave,
+  onDelete,
+}: MilestoneTimelineProps<T>) {
+  // null: no form open; "new": adding; otherwise the milestone being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<MilestoneFormValues>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const openForm = (milestone?: Milestone) => {
+    setEditing(milestone?.id ?? "new");
+    setForm(
+      milestone
+        ? {
+            title: milestone.title,
+            description: milestone.description,
+            targetDate: milestone.targetDate?.slice(0, 10) ?? null,
+          }
+        : EMPTY_FORM
+    );
+  };
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!form.title.trim()) return;
+
+    setSaving(true);
+    const saved = await onSave(
+      {
+        title: form.title.trim(),
+        description: form.description?.trim() || null,
+        targetDate: form.targetDate || null,
+      },
+      editing === "new" ? undefined : editing!
+    );
+    setSaving(false);
+    if (saved) setEditing(null);
+  };
+
+  const renderForm = () => (
+    <form onSubmit={submit} className="space-y-2">
+      <input
+        type="text"
+        value={form.title}
+        onChange={(event) => setForm({ ...form, title: event.target.value })}
+        maxLength={MAX_TITLE_LENGTH}
+        placeholder="Milestone title"
+        aria-label="Milestone title"
+        disabled={saving}
+        autoFocus
+        className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+      />
+      <textarea
+        value={form.description ?? ""}
+        onChange={(event) =>
+          setForm({ ...form, description: event.target.value })
+        }
+        rows={2}
+        placeholder="Description (optional)"
+        aria-label="Milestone description"
+        disabled={saving}
+        className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="date"
+          value={form.targetDate ?? ""}
+          onChange={(event) =>
+            setForm({ ...form, targetDate: event.target.value || null })
+          }
+          aria-label="Target date"
+          disabled={saving}
+          className="border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        />
+        <div className="flex gap-2 ml-auto">
+          <button
+            type="button"
+            onClick={() => setEditing(null)}
+            disabled={saving}
+            className="px-3 py-1 text-sm font-semibold text-gray-600 hover:bg-gray-100 rounded-md"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !form.title.trim()}
+            className="px-3 py-1 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+
+  const sorted = [...milestones].sort(byTargetDate);
+  const unplanned = tasks.filter((task) => !task.milestoneId).length;
+
+  return (
+    <div>
+      {sorted.length === 0 && editing !== "new" && (
+        <p className="text-sm text-gray-500 mb-4">
+          No milestones yet.
+          {canManage && " Add one to group tasks under a checkpoint."}
+        </p>
+      )}
+
+      <ol className="relative border-l-2 border-emerald-100 ml-3 space-y-6">
+        {sorted.map((milestone) => {
+          const progress = getMilestoneProgress(
+            tasks.filter((task) => task.milestoneId === milestone.id),
+            isDone
+          );
+          const complete =
+            progress.total > 0 && progress.done === progress.total;
+          const overdue =
+            !complete &&
+            milestone.targetDate !== null &&
+            isPastTarget(milestone.targetDate);
+
+          return (
+            <li key={milestone.id} className="pl-6">
+              <span
+                className={`absolute -left-[9px] mt-1 flex h-4 w-4 items-center justify-center rounded-full ring-4 ring-white ${
+                  complete
+                    ? "bg-emerald-500"
+                    : overdue
+                      ? "bg-red-500"
+                      : "bg-gray-300"
+                }`}
+                aria-hidden="true"
+              />
+              {editing === milestone.id ? (
+                renderForm()
+              ) : (
+                <>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h3 className="font-bold text-gray-900">
+                        {milestone.title}
+                      </h3>
+                      <p
+                        className={`text-xs flex items-center gap-1 mt-0.5 ${
+                          overdue
+                            ? "text-red-600 font-semibold"
+                            : "text-gray-500"
+                        }`}
+                      >
+                        <CalendarDays className="h-3.5 w-3.5" />
+                        {milestone.targetDate
+                          ? formatTargetDate(milestone.targetDate)
+                          : "No target date"}
+                        {overdue && " · Overdue"}
+                      </p>
+                    </div>
+                    {canManage && (
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => openForm(milestone)}
+                          className="p-1.5 text-gray-400 hover:text-emerald-700 rounded-md"
+                          aria-label={`Edit "${milestone.title}"`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => onDelete(milestone)}
+                          className="p-1.5 text-gray-400 hover:text-red-600 rounded-md"
+                          aria-label={`Delete "${milestone.title}"`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {milestone.description && (
+                    <p className="text-sm text-gray-600 mt-1">
+                      {milestone.description}
+                    </p>
+                  )}
+                  <div className="mt-2 flex items-center gap-3">
+                    <div
+                      className="h-2 flex-1 rounded-full bg-gray-100 overflow-hidden"
+                      role="progressbar"
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                      aria-valuenow={progress.percent}
+                      aria-label={`${milestone.title} progress`}
+                    >
+                      <div
+                        className={`h-full rounded-full ${
+                          overdue ? "bg-red-500" : "bg-emerald-500"
+                        }`}
+                        style={{ width: `${progress.percent}%` }}
+                      />
+                    </div>
+                    <span className="text-xs font-semibold text-gray-600 whitespace-nowrap">
+                      {progress.percent}% · {progress.done}/{progress.total}{" "}
+                      {progress.total === 1 ? "task" : "tasks"}
+                    </span>
+                  </div>
+                </>
+              )}
+            </li>
+          );
+        })}
+
+        {editing === "new" && (
+          <li className="pl-6">
+            <span
+              className="absolute -left-[9px] mt-1 h-4 w-4 rounded-full bg-emerald-200 ring-4 ring-white"
+              aria-hidden="true"
+            />
+            {renderForm()}
+          </li>
+        )}
+      </ol>
+
+      <div className="mt-6 flex items-center justify-between gap-4">
+        <p className="text-xs text-gray-500 flex items-center gap-1">
+          <Flag className="h-3.5 w-3.5" />
+          {unplanned} {unplanned === 1 ? "task" : "tasks"} without a milestone
+        </p>
+        {canManage && editing === null && (
+          <button
+            onClick={() => openForm()}
+            className="px-3 py-1.5 text-sm font-semibold text-emerald-700 hover:bg-emerald-50 rounded-lg flex items-center gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            Add milestone
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+/**
+ * SubtaskList Component
+ * A task's subtasks with their status, and an inline form that adds a
+ * subtask by title. New subtasks start in the workflow's first status.
+ */
+import { useState, type FormEvent } from "react";
+import { CheckCircle2, Circle, Plus } from "lucide-react";
+import { showErrorToast } from "@/lib/toastHelpers";
+
+export interface SubtaskSummary {
+  id: string;
+  title: string;
+  statusName: string;
+  done: boolean;
+}
+
+interface SubtaskListProps<T> {
+  projectId: string;
+  parentId: string;
+  subtasks: SubtaskSummary[];
+  canCreate: boolean;
+  /** Receives the created task as returned by the API */
+  onCreated: (task: T) => void;
+}
+
+/** Matches the create task form */
+const MIN_TITLE_LENGTH = 3;
+const MAX_TITLE_LENGTH = 120;
+
+export function SubtaskList<T>({
+  projectId,
+  parentId,
+  subtasks,
+  canCreate,
+  onCreated,
+}: SubtaskListProps<T>) {
+  const [title, setTitle] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const addSubtask = async (event: FormEvent) => {
+    event.preventDefault();
+    if (title.trim().length < MIN_TITLE_LENGTH) {
+      showErrorToast(`Title must be at least ${MIN_TITLE_LENGTH} characters`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/tasks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ title: title.trim(), projectId, parentId }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to create subtask");
+      }
+
+      onCreated(result.data as T);
+      setTitle("");
+    } catch (error) {
+      showErrorToast(
+        error instanceof Error ? error.message : "Failed to create subtask"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-xs font-bold uppercase tracking-wide text-gray-500 mb-2">
+        Subtasks
+      </h4>
+
+      {subtasks.length === 0 && !canCreate && (
+        <p className="text-sm text-gray-400">No subtasks</p>
+      )}
+
+      <ul className="space-y-1">
+        {subtasks.map((subtask) => (
+          <li key={subtask.id} className="flex items-center gap-2 text-sm">
+            {subtask.done ? (
+              <CheckCircle2 className="h-4 w-4 shrink-0 text-emerald-600" />
+            ) : (
+              <Circle className="h-4 w-4 shrink-0 text-gray-300" />
+            )}
+            <span
+              className={`flex-1 truncate ${subtask.done ? "line-through text-gray-400" : "text-gray-700"}`}
+            >
+              {subtask.title}
+            </span>
+            <span className="text-xs text-gray-500">{subtask.statusName}</span>
+          </li>
+        ))}
+      </ul>
+
+      {canCreate && (
+        <form onSubmit={addSubtask} className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            maxLength={MAX_TITLE_LENGTH}
+            placeholder="Add a subtask"
+            disabled={saving}
+            className="flex-1 min-w-0 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          <button
+            type="submit"
+            disabled={saving || !title.trim()}
+            className="p-1.5 text-emerald-700 hover:bg-emerald-50 rounded-md disabled:opacity-50"
+            aria-label="Add subtask"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+/**
+ * TaskBoard Component
+ * Kanban view of a project's tasks: one column per workflow status, ordered
+ * by `position`. Tasks can be dragged between columns the workflow allows
+ * (`canDrop`) and reordered within one; the parent persists the move
+ * through `onMove`.
+ */
+import { useState, type DragEvent, type ReactNode } from "react";
+
+export interface BoardTask {
+  id: string;
+  status: string;
+  position: number;
+}
+
+export interface BoardColumn {
+  status: string;
+  label: string;
+}
+
+export interface TaskMove {
+  taskId: string;
+  status: string;
+  /** 0-based place in the target column, not counting the moved task */
+  index: number;
+  /** Position between the new neighbours, for an optimistic update */
+  position: number;
+}
+
+interface TaskBoardProps<T extends BoardTask> {
+  tasks: T[];
+  columns: BoardColumn[];
+  canMove: boolean;
+  onMove: (move: TaskMove) => void;
+  /** Whether `task` may move to the `status` column (default: yes) */
+  canDrop?: (task: T, status: string) => boolean;
+  renderTask: (task: T) => ReactNode;
+}
+
+/** Matches TASK_POSITION_STEP on the server */
+const POSITION_STEP = 1024;
+
+function byPosition(a: BoardTask, b: BoardTask): number {
+  return a.position - b.position;
+}
+
+/**
+ * Position that lands between the tasks around `index`
+ */
+function positionForIndex(column: BoardTask[], index: number): number {
+  const before = column[index - 1];
+  const after = column[index];
+
+  if (before && after) return (before.position + after.position) / 2;
+  if (before) return before.position + POSITION_STEP;
+  if (after) return after.position - POSITION_STEP;
+  return POSITION_STEP;
+}
+
+export function TaskBoard<T extends BoardTask>({
+  tasks,
+  columns,
+  canMove,
+  onMove,
+  canDrop = () => true,
+  renderTask,
+}: TaskBoardProps<T>) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{
+    status: string;
+    index: number;
+  } | null>(null);
+
+  const columnTasks = (status: string) =>
+    tasks.filter((task) => task.status === status).sort(byPosition);
+
+  const draggedTask = tasks.find((task) => task.id === draggingId);
+  const accepts = (status: string) =>
+    !!draggedTask &&
+    (draggedTask.status === status || canDrop(draggedTask, status));
+
+  const endDrag = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOverTask = (
+    event: DragEvent<HTMLDivElement>,
+    status: string,
+    index: number
+  ) => {
+    if (!accepts(status)) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Drop above or below the hovered card depending on the pointer
+    const rect = event.currentTarget.getBoundingClientRect();
+    const below = event.clientY > rect.top + rect.height / 2;
+    const target = { status, index: below ? index + 1 : index };
+
+    if (
+      dropTarget?.status !== target.status ||
+      dropTarget.index !== target.index
+    ) {
+      setDropTarget(target);
+    }
+  };
+
+  const handleDragOverColumn = (
+    event: DragEvent<HTMLDivElement>,
+    status: string,
+    count: number
+  ) => {
+    if (!accepts(status)) return;
+    event.preventDefault();
+
+    // Empty space in a column means "at the bottom"
+    if (event.target === event.currentTarget) {
+      setDropTarget({ status, index: count });
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+
+    const task = draggedTask;
+    const target = dropTarget;
+    endDrag();
+
+    if (!task || !target || !accepts(target.status)) return;
+
+    // Indexes above were counted with the dragged card still in place
+    const column = columnTasks(target.status);
+    const currentIndex = column.findIndex((other) => other.id === task.id);
+    const index =
+      currentIndex !== -1 && currentIndex < target.index
+        ? target.index - 1
+        : target.index;
+
+    if (task.status === target.status && currentIndex === index) return;
+
+    const others = column.filter((other) => other.id !== task.id);
+    onMove({
+      taskId: task.id,
+      status: target.status,
+      index,
+      position: positionForIndex(others, index),
+    });
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6 md:overflow-x-auto pb-2">
+      {columns.map((column) => {
+        const items = columnTasks(column.status);
+
+        return (
+          <section
+            key={column.status}
+            aria-label={column.label}
+            className={`md:flex-1 md:min-w-72 bg-gray-50 rounded-3xl border border-gray-200 p-4 flex flex-col transition-opacity ${
+              draggedTask && !accepts(column.status) ? "opacity-50" : ""
+            }`}
+          >
+            <header className="flex items-center justify-between px-2 mb-4">
+              <h3 className="text-sm font-bold uppercase tracking-wide text-gray-700">
+                {column.label}
+              </h3>
+              <span className="text-xs font-semibold text-gray-500 bg-white border border-gray-200 rounded-full px-2 py-0.5">
+                {items.length}
+              </span>
+            </header>
+
+            <div
+              onDragOver={(event) =>
+                handleDragOverColumn(event, column.status, items.length)
+              }
+              onDrop={handleDrop}
+              className={`flex-1 min-h-32 space-y-4 rounded-2xl transition-colors ${
+                dropTarget?.status === column.status ? "bg-emerald-50" : ""
+              }`}
+            >
+              {items.map((task, index) => (
+                <div
+                  key={task.id}
+                  draggable={canMove}
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = "move";
+                    event.dataTransfer.setData("text/plain", task.id);
+                    setDraggingId(task.id);
+                  }}
+                  onDragEnd={endDrag}
+                  onDragOver={(event) =>
+                    handleDragOverTask(event, column.status, index)
+                  }
+                  className={`relative ${canMove ? "cursor-grab active:cursor-grabbing" : ""} ${
+                    draggingId === task.id ? "opacity-50" : ""
+                  }`}
+                >
+                  {dropTarget?.status === column.status &&
+                    dropTarget.index === index && (
+                      <div className="absolute -top-2.5 inset-x-2 h-1 rounded-full bg-emerald-500" />
+                    )}
+                  {renderTask(task)}
+                  {dropTarget?.status === column.status &&
+                    dropTarget.index === items.length &&
+                    index === items.length - 1 && (
+                      <div className="absolute -bottom-2.5 inset-x-2 h-1 rounded-full bg-emerald-500" />
+                    )}
+                </div>
+              ))}
+
+              {items.length === 0 && (
+                <p className="py-8 text-center text-sm text-gray-400 pointer-events-none">
+                  {canMove ? "Drop tasks here" : "No tasks"}
+                </p>
+              )}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
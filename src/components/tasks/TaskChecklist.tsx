@@ -0,0 +1,172 @@
+"use client";
+
+/**
+ * TaskChecklist Component
+ * A task's checklist: tick items off, add new ones at the bottom and remove
+ * them. Changes are saved right away and reported through `onChange`.
+ */
+import { useState, type FormEvent } from "react";
+import { Plus, X } from "lucide-react";
+import { showErrorToast } from "@/lib/toastHelpers";
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  position: number;
+}
+
+interface TaskChecklistProps {
+  taskId: string;
+  items: ChecklistItem[];
+  canEdit: boolean;
+  onChange: (items: ChecklistItem[]) => void;
+}
+
+/** Matches MAX_CHECKLIST_ITEM_LENGTH on the server */
+const MAX_ITEM_LENGTH = 200;
+
+async function request<T>(
+  url: string,
+  init: { method: string; body?: string }
+): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.message || "Failed to update the checklist");
+  }
+  return result.data as T;
+}
+
+export function TaskChecklist({
+  taskId,
+  items,
+  canEdit,
+  onChange,
+}: TaskChecklistProps) {
+  const [text, setText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const endpoint = `/api/tasks/${taskId}/checklist`;
+
+  const toggleItem = async (item: ChecklistItem) => {
+    // Tick it off right away; put it back if saving fails
+    onChange(
+      items.map((other) =>
+        other.id === item.id ? { ...other, done: !item.done } : other
+      )
+    );
+
+    try {
+      await request(`${endpoint}/${item.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ done: !item.done }),
+      });
+    } catch (error) {
+      onChange(items);
+      showErrorToast(
+        error instanceof Error ? error.message : "Failed to update item"
+      );
+    }
+  };
+
+  const removeItem = async (item: ChecklistItem) => {
+    try {
+      await request(`${endpoint}/${item.id}`, { method: "DELETE" });
+      onChange(items.filter((other) => other.id !== item.id));
+    } catch (error) {
+      showErrorToast(
+        error instanceof Error ? error.message : "Failed to remove item"
+      );
+    }
+  };
+
+  const addItem = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+
+    setSaving(true);
+    try {
+      const item = await request<ChecklistItem>(endpoint, {
+        method: "POST",
+        body: JSON.stringify({ text: text.trim() }),
+      });
+      onChange([...items, item]);
+      setText("");
+    } catch (error) {
+      showErrorToast(
+        error instanceof Error ? error.message : "Failed to add item"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-xs font-bold uppercase tracking-wide text-gray-500 mb-2">
+        Checklist
+      </h4>
+
+      {items.length === 0 && !canEdit && (
+        <p className="text-sm text-gray-400">No checklist items</p>
+      )}
+
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li key={item.id} className="group flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={item.done}
+              onChange={() => toggleItem(item)}
+              disabled={!canEdit}
+              aria-label={`Mark "${item.text}" as ${item.done ? "not done" : "done"}`}
+              className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            <span
+              className={`flex-1 ${item.done ? "line-through text-gray-400" : "text-gray-700"}`}
+            >
+              {item.text}
+            </span>
+            {canEdit && (
+              <button
+                onClick={() => removeItem(item)}
+                className="p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition"
+                aria-label={`Remove "${item.text}"`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canEdit && (
+        <form onSubmit={addItem} className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            maxLength={MAX_ITEM_LENGTH}
+            placeholder="Add an item"
+            disabled={saving}
+            className="flex-1 min-w-0 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          <button
+            type="submit"
+            disabled={saving || !text.trim()}
+            className="p-1.5 text-emerald-700 hover:bg-emerald-50 rounded-md disabled:opacity-50"
+            aria-label="Add checklist item"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+/**
+ * TaskPlanningFields Component
+ * Priority, start/due date and effort estimate inputs shared by the create
+ * and edit task modals, together with the zod rules and request payload
+ * for them.
+ */
+import { z } from "zod";
+import type { FieldErrors, Path, UseFormRegister } from "react-hook-form";
+
+export type TaskPriority = "LOW" | "MEDIUM" | "HIGH" | "URGENT";
+
+export const TASK_PRIORITY_LABELS: Record<TaskPriority, string> = {
+  LOW: "Low",
+  MEDIUM: "Medium",
+  HIGH: "High",
+  URGENT: "Urgent",
+};
+
+/** Matches MAX_ESTIMATED_HOURS on the server */
+const MAX_ESTIMATED_HOURS = 1000;
+
+/**
+ * Fields to spread into a task form's zod object. Dates are the
+ * YYYY-MM-DD strings of date inputs; empty means "not set".
+ */
+export const taskPlanningShape = {
+  priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]),
+  startDate: z.string().optional(),
+  dueDate: z.string().optional(),
+  estimatedHours: z
+    .string()
+    .optional()
+    .refine(
+      (value) =>
+        !value || (Number(value) >= 0 && Number(value) <= MAX_ESTIMATED_HOURS),
+      `Estimate must be between 0 and ${MAX_ESTIMATED_HOURS} hours`
+    ),
+};
+
+export interface TaskPlanningFormData {
+  priority: TaskPriority;
+  startDate?: string;
+  dueDate?: string;
+  estimatedHours?: string;
+}
+
+/**
+ * A task cannot be due before it starts (refine the whole form with this)
+ */
+export function hasValidTaskSchedule(data: {
+  startDate?: string;
+  dueDate?: string;
+}): boolean {
+  return !data.startDate || !data.dueDate || data.startDate <= data.dueDate;
+}
+
+/**
+ * Form values for an existing task
+ */
+export function toTaskPlanningFormData(task: {
+  priority?: TaskPriority;
+  startDate?: string | null;
+  dueDate?: string | null;
+  estimatedHours?: number | null;
+}): TaskPlanningFormData {
+  return {
+    priority: task.priority ?? "MEDIUM",
+    startDate: task.startDate?.slice(0, 10) ?? "",
+    dueDate: task.dueDate?.slice(0, 10) ?? "",
+    estimatedHours:
+      task.estimatedHours === null || task.estimatedHours === undefined
+        ? ""
+        : String(task.estimatedHours),
+  };
+}
+
+/**
+ * Request body fields; cleared inputs are sent as null
+ */
+export function toTaskPlanningPayload(data: TaskPlanningFormData) {
+  return {
+    priority: data.priority,
+    startDate: data.startDate || null,
+    dueDate: data.dueDate || null,
+    estimatedHours: data.estimatedHours ? Number(data.estimatedHours) : null,
+  };
+}
+
+interface TaskPlanningFieldsProps<T extends TaskPlanningFormData> {
+  register: UseFormRegister<T>;
+  errors: FieldErrors<TaskPlanningFormData>;
+  disabled?: boolean;
+}
+
+const inputClassName =
+  "w-full border p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed";
+
+export function TaskPlanningFields<T extends TaskPlanningFormData>({
+  register,
+  errors,
+  disabled,
+}: TaskPlanningFieldsProps<T>) {
+  const field = (name: keyof TaskPlanningFormData) => register(name as Path<T>);
+
+  const errorText = (name: keyof TaskPlanningFormData) =>
+    errors[name] && (
+      <p
+        id={`${name}-error`}
+        className="mt-1 text-sm text-red-600"
+        role="alert"
+      >
+        {errors[name]?.message}
+      </p>
+    );
+
+  const borderFor = (name: keyof TaskPlanningFormData) =>
+    errors[name] ? "border-red-500" : "border-gray-300";
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div>
+        <label
+          htmlFor="priority"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Priority
+        </label>
+        <select
+          id="priority"
+          disabled={disabled}
+          className={`${inputClassName} ${borderFor("priority")}`}
+          {...field("priority")}
+        >
+          {Object.entries(TASK_PRIORITY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {errorText("priority")}
+      </div>
+
+      <div>
+        <label
+          htmlFor="estimatedHours"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Estimate (hours){" "}
+          <span className="text-gray-500 text-xs">(optional)</span>
+        </label>
+        <input
+          id="estimatedHours"
+          type="number"
+          min={0}
+          max={MAX_ESTIMATED_HOURS}
+          step={0.5}
+          placeholder="e.g. 4"
+          disabled={disabled}
+          aria-invalid={!!errors.estimatedHours}
+          className={`${inputClassName} ${borderFor("estimatedHours")}`}
+          {...field("estimatedHours")}
+        />
+        {errorText("estimatedHours")}
+      </div>
+
+      <div>
+        <label
+          htmlFor="startDate"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Start date <span className="text-gray-500 text-xs">(optional)</span>
+        </label>
+        <input
+          id="startDate"
+          type="date"
+          disabled={disabled}
+          aria-invalid={!!errors.startDate}
+          className={`${inputClassName} ${borderFor("startDate")}`}
+          {...field("startDate")}
+        />
+        {errorText("startDate")}
+      </div>
+
+      <div>
+        <label
+          htmlFor="dueDate"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Due date <span className="text-gray-500 text-xs">(optional)</span>
+        </label>
+        <input
+          id="dueDate"
+          type="date"
+          disabled={disabled}
+          aria-invalid={!!errors.dueDate}
+          className={`${inputClassName} ${borderFor("dueDate")}`}
+          {...field("dueDate")}
+        />
+        {errorText("dueDate")}
+      </div>
+    </div>
+  );
+}
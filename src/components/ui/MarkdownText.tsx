@@ -0,0 +1,120 @@
+/**
+ * MarkdownText Component
+ * Renders a small, safe subset of Markdown (paragraphs, bullet lists,
+ * **bold**, *italic*, `code` and [links](https://...)) as React elements.
+ * Never uses dangerouslySetInnerHTML, so user content cannot inject HTML.
+ */
+import { type ReactNode } from "react";
+
+interface MarkdownTextProps {
+  text: string;
+  className?: string;
+}
+
+// Order matters: code first so its contents are not formatted
+const INLINE_PATTERN =
+  /(`[^`\n]+`)|(\*\*[^*\n]+\*\*)|(\*[^*\n]+\*|_[^_\n]+_)|(\[[^\]\n]+\]\([^)\s]+\))/g;
+
+function isSafeUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url) || url.startsWith("/");
+}
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  INLINE_PATTERN.lastIndex = 0;
+  while ((match = INLINE_PATTERN.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      nodes.push(text.slice(lastIndex, match.index));
+    }
+
+    const token = match[0];
+    const key = `${keyPrefix}-${match.index}`;
+
+    if (match[1]) {
+      nodes.push(
+        <code
+          key={key}
+          className="px-1 py-0.5 rounded bg-gray-100 text-sm font-mono"
+        >
+          {token.slice(1, -1)}
+        </code>
+      );
+    } else if (match[2]) {
+      nodes.push(<strong key={key}>{token.slice(2, -2)}</strong>);
+    } else if (match[3]) {
+      nodes.push(<em key={key}>{token.slice(1, -1)}</em>);
+    } else {
+      const labelEnd = token.indexOf("](");
+      const label = token.slice(1, labelEnd);
+      const url = token.slice(labelEnd + 2, -1);
+      nodes.push(
+        isSafeUrl(url) ? (
+          <a
+            key={key}
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-emerald-700 underline hover:text-emerald-900"
+          >
+            {label}
+          </a>
+        ) : (
+          token
+        )
+      );
+    }
+
+    lastIndex = match.index + token.length;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex));
+  }
+
+  return nodes;
+}
+
+function renderLines(lines: string[], keyPrefix: string): ReactNode[] {
+  return lines.flatMap((line, index) => {
+    const content = renderInline(line, `${keyPrefix}-${index}`);
+    return index === 0
+      ? content
+      : [<br key={`${keyPrefix}-br-${index}`} />, ...content];
+  });
+}
+
+export default function MarkdownText({
+  text,
+  className = "",
+}: MarkdownTextProps) {
+  const blocks = text.trim().split(/\n{2,}/);
+
+  return (
+    <div className={`space-y-2 break-words ${className}`.trim()}>
+      {blocks.map((block, blockIndex) => {
+        const lines = block.split("\n");
+        const isList = lines.every((line) => /^\s*[-*]\s+/.test(line));
+
+        if (isList) {
+          return (
+            <ul key={blockIndex} className="list-disc pl-5 space-y-1">
+              {lines.map((line, lineIndex) => (
+                <li key={lineIndex}>
+                  {renderInline(
+                    line.replace(/^\s*[-*]\s+/, ""),
+                    `${blockIndex}-${lineIndex}`
+                  )}
+                </li>
+              ))}
+            </ul>
+          );
+        }
+
+        return <p key={blockIndex}>{renderLines(lines, `${blockIndex}`)}</p>;
+      })}
+    </div>
+  );
+}
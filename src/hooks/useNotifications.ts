@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export interface AppNotification {
+  id: string;
+  type: 'TASK_ASSIGNED' | 'TASK_CHANGED' | 'JOIN_REQUEST' | 'COMMENT';
+  message: string;
+  projectId: string | null;
+  taskId: string | null;
+  readAt: string | null;
+  createdAt: string;
+  project: { id: string; title: string } | null;
+}
+
+/** How often the unread count is refreshed while the tab is visible */
+const POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Loads the current user's latest notifications and unread count from
+ * /api/notifications and keeps them fresh by polling. `signedIn` turns
+ * false when the API answers 401, so callers can hide themselves.
+ */
+export function useNotifications(limit = 10) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [signedIn, setSignedIn] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/notifications?limit=${limit}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        setSignedIn(response.status !== 401 && response.status !== 403);
+        return;
+      }
+
+      const data = await response.json();
+      setNotifications(data.data?.notifications ?? []);
+      setUnreadCount(data.data?.unreadCount ?? 0);
+      setSignedIn(true);
+    } catch (err) {
+      console.error('[NOTIFICATIONS] Fetch failed:', err);
+    } finally {
+      setLoaded(true);
+    }
+  }, [limit]);
+
+  useEffect(() => {
+    reload();
+
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        reload();
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [reload]);
+
+  const markRead = useCallback(async (id: string) => {
+    const target = notifications.find((notification) => notification.id === id);
+    if (!target || target.readAt) return;
+
+    // Optimistic: the bell updates before the request finishes
+    setNotifications((prev) =>
+      prev.map((notification) =>
+        notification.id === id
+          ? { ...notification, readAt: new Date().toISOString() }
+          : notification
+      )
+    );
+    setUnreadCount((count) => Math.max(count - 1, 0));
+
+    try {
+      const response = await fetch(`/api/notifications/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ read: true }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to mark notification as read');
+      }
+    } catch (err) {
+      console.error('[NOTIFICATIONS] Mark read failed:', err);
+      reload();
+    }
+  }, [notifications, reload]);
+
+  const markAllRead = useCallback(async () => {
+    const readAt = new Date().toISOString();
+    setNotifications((prev) =>
+      prev.map((notification) => ({
+        ...notification,
+        readAt: notification.readAt ?? readAt,
+      }))
+    );
+    setUnreadCount(0);
+
+    try {
+      const response = await fetch('/api/notifications/read-all', {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to mark notifications as read');
+      }
+    } catch (err) {
+      console.error('[NOTIFICATIONS] Mark all read failed:', err);
+      reload();
+    }
+  }, [reload]);
+
+  return {
+    notifications,
+    unreadCount,
+    signedIn,
+    loaded,
+    reload,
+    markRead,
+    markAllRead,
+  };
+}
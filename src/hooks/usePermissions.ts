@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Permission } from '@/lib/permissions';
+
+/**
+ * Loads what the current user may do (globally, and on a project when
+ * `projectId` is given) from /api/auth/me/permissions. Use it to hide
+ * controls; the API still enforces every permission.
+ */
+export function usePermissions(projectId?: string) {
+  const [permissions, setPermissions] = useState<Set<Permission>>(new Set());
+  const [loaded, setLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      const query = projectId
+        ? `?projectId=${encodeURIComponent(projectId)}`
+        : '';
+      const response = await fetch(`/api/auth/me/permissions${query}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        setPermissions(new Set());
+        return;
+      }
+
+      const data = await response.json();
+      setPermissions(
+        new Set<Permission>([
+          ...(data.data?.permissions ?? []),
+          ...(data.data?.project?.permissions ?? []),
+        ])
+      );
+    } catch (err) {
+      console.error('[PERMISSIONS] Fetch failed:', err);
+      setPermissions(new Set());
+    } finally {
+      setLoaded(true);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const can = useCallback(
+    (permission: Permission) => permissions.has(permission),
+    [permissions]
+  );
+
+  return { can, loaded, reload };
+}
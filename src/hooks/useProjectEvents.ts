@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ProjectWorkflow } from './useProjectWorkflow';
+
+/** A "blocker must finish before blocked starts" link between two tasks */
+export interface TaskDependency {
+  id: string;
+  blockerId: string;
+  blockedId: string;
+  createdAt: string;
+}
+
+/** A project milestone with the completion of its tasks */
+export interface ProjectMilestone {
+  id: string;
+  projectId: string;
+  title: string;
+  description: string | null;
+  /** "YYYY-MM-DD" at UTC midnight, as an ISO string */
+  targetDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+  progress: { done: number; total: number; percent: number };
+}
+
+/** A colored label a project defines for its tasks */
+export interface ProjectLabel {
+  id: string;
+  projectId: string;
+  name: string;
+  /** Hex color, e.g. #10B981 */
+  color: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A change streamed by the server. `task` and `project` are the same shapes
+ * the task and project routes return.
+ */
+export type ProjectEventMessage<
+  TTask = Record<string, unknown>,
+  TProject = Record<string, unknown>,
+> = {
+  projectId: string;
+  actorId: string | null;
+  at: string;
+} & (
+  | { type: 'task.created' | 'task.updated'; task: TTask }
+  | { type: 'task.deleted'; taskId: string }
+  | { type: 'tasks.reordered'; positions: { id: string; position: number }[] }
+  | { type: 'project.updated'; project: TProject }
+  | { type: 'workflow.updated'; workflow: ProjectWorkflow }
+  | { type: 'dependency.created'; dependency: TaskDependency }
+  | { type: 'dependency.deleted'; dependencyId: string }
+  | { type: 'milestone.created' | 'milestone.updated'; milestone: ProjectMilestone }
+  | { type: 'milestone.deleted'; milestoneId: string }
+  | { type: 'label.created' | 'label.updated'; label: ProjectLabel }
+  | { type: 'label.deleted'; labelId: string }
+  | { type: 'project.deleted' }
+);
+
+/** Delays before reopening a stream the browser gave up on */
+const INITIAL_RETRY_MS = 3 * 1000;
+const MAX_RETRY_MS = 60 * 1000;
+
+/**
+ * Subscribes to /api/projects/[id]/events and calls `onEvent` for every
+ * task or project change. Events sent while the stream was down are lost,
+ * so `onResync` is called each time the stream comes back after the first
+ * connection. `connected` is true while the stream is live.
+ */
+export function useProjectEvents<TTask, TProject>(
+  projectId: string | undefined,
+  handlers: {
+    onEvent: (event: ProjectEventMessage<TTask, TProject>) => void;
+    onResync?: () => void;
+  }
+) {
+  const [connected, setConnected] = useState(false);
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = INITIAL_RETRY_MS;
+    let hasConnected = false;
+    let stopped = false;
+
+    const open = () => {
+      source = new EventSource(`/api/projects/${projectId}/events`, {
+        withCredentials: true,
+      });
+
+      source.addEventListener('ready', () => {
+        setConnected(true);
+        retryDelay = INITIAL_RETRY_MS;
+        if (hasConnected) {
+          handlersRef.current.onResync?.();
+        }
+        hasConnected = true;
+      });
+
+      source.onmessage = (message) => {
+        try {
+          handlersRef.current.onEvent(JSON.parse(message.data));
+        } catch (err) {
+          console.error('[PROJECT EVENTS] Bad event:', err);
+        }
+      };
+
+      source.onerror = () => {
+        setConnected(false);
+
+        // The browser retries dropped connections itself, but gives up on
+        // error responses (e.g. an expired session), so retry those here
+        if (source?.readyState === EventSource.CLOSED && !stopped) {
+          source.close();
+          retryTimer = setTimeout(open, retryDelay);
+          retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+        }
+      };
+    };
+
+    open();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      source?.close();
+      setConnected(false);
+    };
+  }, [projectId]);
+
+  return { connected };
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export type TaskStatusCategory = 'TODO' | 'IN_PROGRESS' | 'DONE';
+
+export interface WorkflowStatus {
+  key: string;
+  name: string;
+  category: TaskStatusCategory;
+  /** Keys of the statuses a task may move to from this one */
+  next: string[];
+}
+
+export interface ProjectWorkflow {
+  statuses: WorkflowStatus[];
+  isDefault: boolean;
+}
+
+/**
+ * Loads a project's task statuses and allowed transitions from
+ * /api/projects/[id]/workflow. `setWorkflow` lets callers apply updates
+ * they already have (e.g. from the project event stream).
+ */
+export function useProjectWorkflow(projectId: string | undefined) {
+  const [workflow, setWorkflow] = useState<ProjectWorkflow | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!projectId) return;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/workflow`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        return;
+      }
+
+      const data = await response.json();
+      setWorkflow({
+        statuses: data.data?.statuses ?? [],
+        isDefault: data.data?.isDefault ?? true,
+      });
+    } catch (err) {
+      console.error('[WORKFLOW] Fetch failed:', err);
+    } finally {
+      setLoaded(true);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const findStatus = useCallback(
+    (key: string) => workflow?.statuses.find((status) => status.key === key),
+    [workflow]
+  );
+
+  /** Mirrors canTransition in lib/workflows */
+  const canTransition = useCallback(
+    (from: string, to: string) => {
+      if (from === to) return true;
+      if (!workflow?.statuses.some((status) => status.key === to)) return false;
+      const current = workflow.statuses.find((status) => status.key === from);
+      return !current || current.next.includes(to);
+    },
+    [workflow]
+  );
+
+  return { workflow, loaded, reload, setWorkflow, findStatus, canTransition };
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+
+export type SearchResultType = 'project' | 'task' | 'comment';
+
+/** A run of snippet text, marked when it matched the query */
+export interface SearchSnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  projectId: string;
+  taskId: string | null;
+  title: SearchSnippetPart[];
+  snippet: SearchSnippetPart[];
+  /** Project title for tasks and comments, author name for comments */
+  context: string | null;
+  rank: number;
+}
+
+/** Matches MIN_SEARCH_QUERY_LENGTH on the server */
+export const MIN_QUERY_LENGTH = 2;
+
+/** Quiet time after the last keystroke before searching */
+const DEBOUNCE_MS = 250;
+
+/**
+ * Searches /api/search as the query changes, waiting for typing to pause
+ * and dropping answers to queries that have since changed. Earlier results
+ * stay up while the next ones load. `signedIn` turns false when the API
+ * answers 401.
+ */
+export function useSearch(query: string, limit = 8) {
+  const trimmed = query.trim();
+  const active = trimmed.length >= MIN_QUERY_LENGTH;
+
+  const [loaded, setLoaded] = useState<{
+    query: string;
+    results: SearchResult[];
+  } | null>(null);
+  const [signedIn, setSignedIn] = useState(true);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      let results: SearchResult[] = [];
+      try {
+        const params = new URLSearchParams({ q: trimmed, limit: String(limit) });
+        const response = await fetch(`/api/search?${params}`, {
+          credentials: 'include',
+          signal: controller.signal,
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          results = data.data?.results ?? [];
+          setSignedIn(true);
+        } else {
+          setSignedIn(response.status !== 401 && response.status !== 403);
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('[SEARCH] Fetch failed:', err);
+      }
+      setLoaded({ query: trimmed, results });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [active, trimmed, limit]);
+
+  return {
+    results: active ? (loaded?.results ?? []) : [],
+    loading: active && loaded?.query !== trimmed,
+    active,
+    signedIn,
+  };
+}
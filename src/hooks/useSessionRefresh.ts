@@ -0,0 +1,44 @@
+import { useEffect } from 'react';
+
+/** Refresh a little before the 15-minute access token runs out */
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Keeps the session's access token fresh while a signed-in page is open.
+ * Refreshes on an interval and when the tab becomes visible again after
+ * being in the background for longer than the interval.
+ */
+export function useSessionRefresh(): void {
+  useEffect(() => {
+    let lastRefresh = Date.now();
+
+    const refresh = async () => {
+      lastRefresh = Date.now();
+      try {
+        await fetch('/api/auth/refresh', {
+          method: 'POST',
+          credentials: 'include',
+        });
+      } catch (err) {
+        console.error('[SESSION] Refresh failed:', err);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (
+        document.visibilityState === 'visible' &&
+        Date.now() - lastRefresh >= REFRESH_INTERVAL_MS
+      ) {
+        refresh();
+      }
+    };
+
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+}
@@ -0,0 +1,181 @@
+/**
+ * Activity Ledger
+ *
+ * Append-only record of every create/update/delete made through the
+ * projects, tasks and users routes. Events are written with the same
+ * transaction client as the change they describe, so a write and its
+ * ledger entry either both commit or both roll back. Events that belong to
+ * a project are also linked into that project's hash chain (lib/ledger).
+ *
+ * Usage (inside prisma.$transaction):
+ *   await recordActivity(tx, {
+ *     actor: auth,
+ *     entityType: "TASK",
+ *     entityId: task.id,
+ *     projectId: task.projectId,
+ *     action: "UPDATE",
+ *     before: existingTask,
+ *     after: updatedTask,
+ *   });
+ */
+
+import type {
+  ActivityAction,
+  ActivityEntity,
+  ActivityEvent,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { nextChainLink } from "./ledger";
+
+/**
+ * Field-level diff stored on each event: { field: { before, after } }
+ */
+export type ActivityChanges = Record<
+  string,
+  { before: Prisma.JsonValue; after: Prisma.JsonValue }
+>;
+
+/**
+ * Plain-object view of a record before or after the write
+ */
+export type ActivitySnapshot = Record<string, unknown>;
+
+export interface RecordActivityInput {
+  actor: { userId?: string; userEmail?: string };
+  entityType: ActivityEntity;
+  entityId: string;
+  projectId?: string | null;
+  action: ActivityAction;
+  before?: ActivitySnapshot | null;
+  after?: ActivitySnapshot | null;
+}
+
+/**
+ * Fields that never belong in the ledger (noise or secrets)
+ */
+const IGNORED_FIELDS = new Set(["updatedAt", "password"]);
+
+/**
+ * Public selection for the activity feeds
+ */
+export const activityEventSelect = {
+  id: true,
+  actorId: true,
+  actorEmail: true,
+  entityType: true,
+  entityId: true,
+  projectId: true,
+  action: true,
+  changes: true,
+  sequence: true,
+  prevHash: true,
+  hash: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Convert a value into its JSON form (Dates become ISO strings)
+ */
+function toJsonValue(value: unknown): Prisma.JsonValue {
+  if (value === undefined) return null;
+  return JSON.parse(JSON.stringify(value)) as Prisma.JsonValue;
+}
+
+/**
+ * Compare two snapshots field by field
+ * @returns Only the fields whose JSON value differs
+ */
+export function diffSnapshots(
+  before: ActivitySnapshot | null | undefined,
+  after: ActivitySnapshot | null | undefined
+): ActivityChanges {
+  const changes: ActivityChanges = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const beforeValue = toJsonValue(before?.[field]);
+    const afterValue = toJsonValue(after?.[field]);
+
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Append an event to the ledger
+ * @param tx - Transaction client the audited write is running in
+ * @returns The created event, or null for an update that changed nothing
+ */
+export async function recordActivity(
+  tx: Prisma.TransactionClient,
+  input: RecordActivityInput
+): Promise<ActivityEvent | null> {
+  const changes = diffSnapshots(input.before, input.after);
+
+  if (input.action === "UPDATE" && Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  const contents = {
+    actorId: input.actor.userId ?? null,
+    actorEmail: input.actor.userEmail ?? null,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    projectId: input.projectId ?? null,
+    action: input.action,
+    changes: changes as Prisma.JsonObject,
+    createdAt: new Date(),
+  };
+
+  // Project events are appended to that project's hash chain
+  const link = contents.projectId
+    ? await nextChainLink(tx, contents)
+    : { sequence: null, prevHash: null, hash: null };
+
+  return tx.activityEvent.create({
+    data: { ...contents, ...link },
+  });
+}
+
+export const ACTIVITY_ENTITIES: readonly ActivityEntity[] = [
+  "PROJECT",
+  "TASK",
+  "USER",
+];
+
+export const ACTIVITY_ACTIONS: readonly ActivityAction[] = [
+  "CREATE",
+  "UPDATE",
+  "DELETE",
+];
+
+/**
+ * Fetch a page of events, newest first
+ */
+export async function listActivity(
+  where: Prisma.ActivityEventWhereInput,
+  page: number,
+  limit: number
+) {
+  const [total, events] = await Promise.all([
+    prisma.activityEvent.count({ where }),
+    prisma.activityEvent.findMany({
+      where,
+      select: activityEventSelect,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+  ]);
+
+  return { total, events };
+}
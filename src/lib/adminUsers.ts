@@ -0,0 +1,49 @@
+/**
+ * Admin User Management Helpers
+ *
+ * Shared selection and validation for the /api/admin/users routes.
+ */
+
+import type { UserRole, UserStatus } from "@prisma/client";
+import { redis } from "../../lib/redis";
+import { logger } from "./logger";
+
+export const USER_ROLES: readonly UserRole[] = ["ADMIN", "EDITOR", "USER"];
+export const USER_STATUSES: readonly UserStatus[] = ["ACTIVE", "DEACTIVATED"];
+
+/**
+ * What admins see about each account (never the password hash)
+ */
+export const adminUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  status: true,
+  deactivatedAt: true,
+  emailVerifiedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: {
+    select: {
+      projects: true,
+      memberships: true,
+    },
+  },
+} as const;
+
+/**
+ * Drop the cached public users list after an admin change (best-effort)
+ */
+export async function invalidateUsersListCache(
+  context: Record<string, unknown>
+): Promise<void> {
+  try {
+    await redis.del("users:list");
+  } catch (redisError) {
+    logger.warn("Redis delete failed during invalidation", {
+      ...context,
+      redisError,
+    });
+  }
+}
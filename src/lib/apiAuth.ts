@@ -2,18 +2,26 @@ import { NextRequest } from "next/server";
 import { verifyJWT, extractTokenFromHeader } from "./auth";
 import { sendError } from "./responseHandler";
 import { ERROR_CODES } from "./errorCodes";
+import { getSessionState } from "./sessions";
+import { isApiToken } from "./edgeAuth";
+import { authenticateApiToken } from "./apiTokens";
 
 /**
  * Helper function for API routes to verify JWT tokens and extract user info
  * This runs in Node.js runtime (not Edge) so it can use crypto modules
+ * and look up the session the token belongs to (revoked sessions are refused).
+ * Personal API tokens (`Bearer clp_...`) are accepted too; `apiTokenId` is
+ * set instead of `sessionId` for those.
  */
-export function verifyApiRequest(req: NextRequest): {
+export async function verifyApiRequest(req: NextRequest): Promise<{
   success: boolean;
   userId?: string;
   userEmail?: string;
   userRole?: string;
+  sessionId?: string;
+  apiTokenId?: string;
   error?: Response;
-} {
+}> {
   // Extract token from Authorization header OR cookie
   const authHeader = req.headers.get("authorization");
   let token = extractTokenFromHeader(authHeader);
@@ -26,32 +34,22 @@ export function verifyApiRequest(req: NextRequest): {
   if (!token) {
     return {
       success: false,
-      error: new Response(
-        JSON.stringify(
-          sendError(
-            "Authorization token is missing",
-            ERROR_CODES.UNAUTHORIZED,
-            401
-          )
-        ),
-        {
-          status: 401,
-          headers: { "Content-Type": "application/json" },
-        }
+      error: sendError(
+        "Authorization token is missing",
+        ERROR_CODES.UNAUTHORIZED,
+        401
       ),
     };
   }
 
+  if (isApiToken(token)) {
+    return verifyApiToken(token, req);
+  }
+
   // Verify JWT token
+  let decoded;
   try {
-    const decoded = verifyJWT(token);
-
-    return {
-      success: true,
-      userId: decoded.id,
-      userEmail: decoded.email,
-      userRole: decoded.role,
-    };
+    decoded = verifyJWT(token);
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "Invalid token";
@@ -63,13 +61,96 @@ export function verifyApiRequest(req: NextRequest): {
 
     return {
       success: false,
-      error: new Response(
-        JSON.stringify(sendError(errorMessage, code, status)),
-        {
-          status,
-          headers: { "Content-Type": "application/json" },
-        }
+      error: sendError(errorMessage, code, status),
+    };
+  }
+
+  // Tokens issued before sessions existed carry no sid and must sign in again
+  const session = decoded.sid
+    ? await getSessionState(decoded.sid)
+    : ({ status: "revoked" } as const);
+
+  if (session.status === "deactivated") {
+    return {
+      success: false,
+      error: sendError(
+        "This account has been deactivated",
+        ERROR_CODES.ACCOUNT_DEACTIVATED,
+        403
+      ),
+    };
+  }
+
+  if (session.status !== "active") {
+    return {
+      success: false,
+      error: sendError(
+        "Session has been revoked or has expired",
+        ERROR_CODES.SESSION_REVOKED,
+        401
       ),
     };
   }
+
+  // Role comes from the database so admin role changes apply immediately
+  return {
+    success: true,
+    userId: session.user.id,
+    userEmail: session.user.email,
+    userRole: session.user.role,
+    sessionId: decoded.sid,
+  };
+}
+
+/**
+ * Authenticate a request made with a personal API token
+ */
+async function verifyApiToken(
+  token: string,
+  req: NextRequest
+): ReturnType<typeof verifyApiRequest> {
+  const result = await authenticateApiToken(token, req);
+
+  switch (result.status) {
+    case "valid":
+      return {
+        success: true,
+        userId: result.user.id,
+        userEmail: result.user.email,
+        userRole: result.user.role,
+        apiTokenId: result.tokenId,
+      };
+    case "expired":
+      return {
+        success: false,
+        error: sendError(
+          "API token has expired",
+          ERROR_CODES.TOKEN_EXPIRED,
+          401
+        ),
+      };
+    case "deactivated":
+      return {
+        success: false,
+        error: sendError(
+          "This account has been deactivated",
+          ERROR_CODES.ACCOUNT_DEACTIVATED,
+          403
+        ),
+      };
+    case "insufficient_scope":
+      return {
+        success: false,
+        error: sendError(
+          "API token is missing the scope required for this request",
+          ERROR_CODES.INSUFFICIENT_SCOPE,
+          403
+        ),
+      };
+    default:
+      return {
+        success: false,
+        error: sendError("Invalid API token", ERROR_CODES.INVALID_TOKEN, 401),
+      };
+  }
 }
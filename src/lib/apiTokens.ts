@@ -0,0 +1,164 @@
+/**
+ * Personal API Tokens
+ *
+ * Long-lived tokens users create for scripts and integrations, sent as
+ * `Authorization: Bearer clp_...`. Only the SHA-256 hash is stored; the raw
+ * token is shown once, when it is created.
+ *
+ * A token acts as its owner (same role and project permissions) but is
+ * further limited by its scopes:
+ * - "read": GET / HEAD requests
+ * - "write": every other method
+ * - "admin": required in addition for /api/admin/*
+ *
+ * verifyApiRequest hands tokens with the API_TOKEN_PREFIX to
+ * `authenticateApiToken`.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import type { NextRequest } from "next/server";
+import type { User } from "@prisma/client";
+import { prisma } from "./prisma";
+import { API_TOKEN_PREFIX } from "./edgeAuth";
+
+export const API_TOKEN_SCOPES = ["read", "write", "admin"] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/** Longest lifetime a token can be created with */
+export const MAX_API_TOKEN_TTL_DAYS = 365;
+
+/** lastUsedAt is only written once per interval to spare the database */
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+/** Characters of the raw token kept for display, e.g. "clp_Ab3dE6gH" */
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 8;
+
+/**
+ * What a client sees about a token (never the hash)
+ */
+export const apiTokenSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+export type ApiTokenAuthResult =
+  | {
+      status: "valid";
+      tokenId: string;
+      user: Pick<User, "id" | "email" | "role">;
+    }
+  | { status: "invalid" | "expired" | "deactivated" | "insufficient_scope" };
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return API_TOKEN_SCOPES.includes(value as ApiTokenScope);
+}
+
+/**
+ * Scopes a request needs, based on its method and path
+ */
+export function requiredScopes(req: NextRequest): ApiTokenScope[] {
+  const scopes: ApiTokenScope[] = ["GET", "HEAD"].includes(req.method)
+    ? ["read"]
+    : ["write"];
+
+  if (req.nextUrl.pathname.startsWith("/api/admin")) {
+    scopes.push("admin");
+  }
+
+  return scopes;
+}
+
+/**
+ * Create a token for a user
+ * @returns The stored record and the raw token (only available now)
+ */
+export async function createApiToken(
+  userId: string,
+  name: string,
+  scopes: ApiTokenScope[],
+  expiresAt: Date | null
+) {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+  const record = await prisma.apiToken.create({
+    data: {
+      userId,
+      name,
+      scopes,
+      expiresAt,
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      tokenHash: hashToken(token),
+    },
+    select: apiTokenSelect,
+  });
+
+  return { record, token };
+}
+
+/**
+ * Resolve a bearer token to its owner and check it may be used for `req`
+ */
+export async function authenticateApiToken(
+  token: string,
+  req: NextRequest
+): Promise<ApiTokenAuthResult> {
+  const record = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: {
+      id: true,
+      scopes: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      revokedAt: true,
+      user: { select: { id: true, email: true, role: true, status: true } },
+    },
+  });
+
+  if (!record || record.revokedAt) return { status: "invalid" };
+  if (record.expiresAt && record.expiresAt <= new Date()) {
+    return { status: "expired" };
+  }
+  if (record.user.status !== "ACTIVE") return { status: "deactivated" };
+
+  if (!requiredScopes(req).every((scope) => record.scopes.includes(scope))) {
+    return { status: "insufficient_scope" };
+  }
+
+  if (
+    !record.lastUsedAt ||
+    Date.now() - record.lastUsedAt.getTime() > LAST_USED_WRITE_INTERVAL_MS
+  ) {
+    await prisma.apiToken.update({
+      where: { id: record.id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  const { id, email, role } = record.user;
+  return { status: "valid", tokenId: record.id, user: { id, email, role } };
+}
+
+/**
+ * Revoke one of a user's tokens
+ * @returns True if an active token was revoked
+ */
+export async function revokeApiToken(
+  userId: string,
+  tokenId: string
+): Promise<boolean> {
+  const { count } = await prisma.apiToken.updateMany({
+    where: { id: tokenId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
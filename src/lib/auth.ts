@@ -8,6 +8,20 @@
 import jwt from "jsonwebtoken";
 import type { NextRequest } from "next/server";
 
+/**
+ * Access tokens are short-lived; clients renew them through
+ * /api/auth/refresh using the session's refresh token (see lib/sessions)
+ */
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+/**
+ * The form emails are stored, looked up and rate limited by, so sign-in
+ * does not depend on case or stray whitespace
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
 /**
  * Get JWT secret from environment variables
  */
@@ -27,6 +41,8 @@ export interface DecodedToken {
   id: string;
   email: string;
   role: "ADMIN" | "USER" | "EDITOR";
+  /** Session the token was issued for */
+  sid?: string;
   iat?: number;
   exp?: number;
 }
@@ -62,24 +78,8 @@ export function verifyJWT(token: string): DecodedToken {
   }
 }
 
-/**
- * Extract JWT token from Authorization header
- * Expected format: "Bearer <token>"
- * @param authHeader - Authorization header value
- * @returns Token string without 'Bearer ' prefix, or null if missing
- */
-export function extractTokenFromHeader(
-  authHeader: string | null
-): string | null {
-  if (!authHeader) return null;
-
-  const parts = authHeader.split(" ");
-  if (parts.length !== 2 || parts[0].toLowerCase() !== "bearer") {
-    return null;
-  }
-
-  return parts[1];
-}
+// Shared with middleware, so it lives in the Edge-safe module
+export { extractTokenFromHeader } from "./edgeAuth";
 
 /**
  * Extract user context from request headers
@@ -103,38 +103,6 @@ export function extractUserFromHeaders(req: NextRequest): UserContext | null {
   };
 }
 
-/**
- * Check if user has required role(s)
- * @param userRole - User's current role
- * @param requiredRoles - Role(s) that have access
- * @returns True if user's role is in required roles
- */
-export function hasRole(
-  userRole: string,
-  requiredRoles: string | string[]
-): boolean {
-  const roles = Array.isArray(requiredRoles) ? requiredRoles : [requiredRoles];
-  return roles.includes(userRole);
-}
-
-/**
- * Check if user is admin
- * @param userRole - User's current role
- * @returns True if user is admin
- */
-export function isAdmin(userRole: string): boolean {
-  return userRole === "ADMIN";
-}
-
-/**
- * Check if user is admin or editor
- * @param userRole - User's current role
- * @returns True if user is admin or editor
- */
-export function isAdminOrEditor(userRole: string): boolean {
-  return ["ADMIN", "EDITOR"].includes(userRole);
-}
-
 /**
  * Create JWT token for user
  * Used during login/signup to generate authentication tokens
@@ -169,13 +137,13 @@ export function isValidUserRole(
 }
 
 /**
- * Sign a JWT token with the given payload
- * @param payload - Data to be included in the token
+ * Sign a short-lived access token for a session
+ * @param payload - Data to be included in the token (sid is required)
  * @returns Signed JWT string
  */
-export function signJWT(payload: DecodedToken): string {
-  const { id, email, role } = payload;
-  return jwt.sign({ id, email, role }, getJwtSecret(), {
-    expiresIn: "1d",
+export function signJWT(payload: DecodedToken & { sid: string }): string {
+  const { id, email, role, sid } = payload;
+  return jwt.sign({ id, email, role, sid }, getJwtSecret(), {
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
   });
 }
@@ -0,0 +1,130 @@
+/**
+ * Emailed Auth Tokens
+ *
+ * Single-use, expiring tokens for email verification and password reset.
+ * The raw token only ever appears in the emailed link; the database keeps
+ * its SHA-256 hash. Issuing a new token invalidates older unused ones of
+ * the same purpose.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import type { AuthTokenPurpose, User } from "@prisma/client";
+import { prisma } from "./prisma";
+import { sendMail } from "./mailer";
+import { getAppUrl } from "./env.server";
+
+/** How long each kind of token stays valid */
+const TOKEN_TTL_SECONDS: Record<AuthTokenPurpose, number> = {
+  EMAIL_VERIFICATION: 60 * 60 * 24,
+  PASSWORD_RESET: 60 * 60,
+};
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Create a token for a user, retiring any earlier unused one
+ * @returns The raw token to embed in a link
+ */
+export async function issueAuthToken(
+  userId: string,
+  purpose: AuthTokenPurpose
+): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.authToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: now },
+    }),
+    prisma.authToken.create({
+      data: {
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + TOKEN_TTL_SECONDS[purpose] * 1000),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * Redeem a token. Marking it used and checking it is still valid happen in
+ * one conditional update, so a token cannot be redeemed twice.
+ * @returns The owning user's id, or null if the token is unknown, used or expired
+ */
+export async function consumeAuthToken(
+  token: string,
+  purpose: AuthTokenPurpose
+): Promise<string | null> {
+  const tokenHash = hashToken(token);
+
+  const { count } = await prisma.authToken.updateMany({
+    where: {
+      tokenHash,
+      purpose,
+      usedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) return null;
+
+  const record = await prisma.authToken.findUnique({
+    where: { tokenHash },
+    select: { userId: true },
+  });
+
+  return record?.userId ?? null;
+}
+
+/**
+ * Email a verification link to a user
+ */
+export async function sendVerificationEmail(
+  user: Pick<User, "id" | "email" | "name">
+): Promise<void> {
+  const token = await issueAuthToken(user.id, "EMAIL_VERIFICATION");
+  const link = `${getAppUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: "Verify your CollabLedger email address",
+    text: [
+      `Hi ${user.name || "there"},`,
+      "",
+      "Please confirm your email address to finish setting up your CollabLedger account:",
+      link,
+      "",
+      "This link expires in 24 hours. If you did not sign up, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+/**
+ * Email a password reset link to a user
+ */
+export async function sendPasswordResetEmail(
+  user: Pick<User, "id" | "email" | "name">
+): Promise<void> {
+  const token = await issueAuthToken(user.id, "PASSWORD_RESET");
+  const link = `${getAppUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: "Reset your CollabLedger password",
+    text: [
+      `Hi ${user.name || "there"},`,
+      "",
+      "We received a request to reset your password. Choose a new one here:",
+      link,
+      "",
+      "This link expires in 1 hour. If you did not ask for a reset, you can ignore this email.",
+    ].join("\n"),
+  });
+}
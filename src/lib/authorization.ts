@@ -0,0 +1,164 @@
+/**
+ * Authorization
+ *
+ * Enforces the permission matrix in lib/permissions. Project permissions
+ * need the caller's relationship to the project, which is looked up here.
+ *
+ * Usage (inside a route handler, after verifyApiRequest):
+ *   const access = await authorizeProjectAction(auth, projectId, "task:create", context);
+ *   if (!access.success) return access.error;
+ *
+ * Routes guarded by a single global permission can be wrapped instead:
+ *   export const GET = withPermission("audit:view", async (req, auth) => { ... });
+ */
+
+import type { NextRequest } from "next/server";
+import type { Project } from "@prisma/client";
+import { prisma } from "./prisma";
+import { sendError } from "./responseHandler";
+import { handleNotFound, ErrorContext } from "./errorHandler";
+import { ERROR_CODES } from "./errorCodes";
+import { logger } from "./logger";
+import { verifyApiRequest } from "./apiAuth";
+import {
+  can,
+  type Actor,
+  type GlobalPermission,
+  type ProjectPermission,
+  type ProjectRelationship,
+} from "./permissions";
+
+/**
+ * Look up the caller's relationship to a project
+ * @returns The project and relationship, or null if the project does not exist
+ */
+export async function getProjectRelationship(
+  userId: string,
+  projectId: string
+): Promise<{ project: Project; relationship: ProjectRelationship } | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: {
+        where: { userId },
+        select: { role: true },
+      },
+    },
+  });
+
+  if (!project) return null;
+
+  const { members, ...projectData } = project;
+
+  return {
+    project: projectData,
+    relationship: {
+      isOwner: project.ownerId === userId,
+      memberRole: members[0]?.role ?? null,
+    },
+  };
+}
+
+/**
+ * Build the standard 403 response for a denied action
+ */
+export function forbiddenResponse(
+  message: string = "You do not have permission to perform this action"
+): Response {
+  return sendError(message, ERROR_CODES.FORBIDDEN, 403);
+}
+
+/**
+ * Verify that the caller may perform `action` on the project.
+ * Returns 404 if the project does not exist and 403 if the action is denied.
+ */
+export async function authorizeProjectAction(
+  actor: Actor,
+  projectId: string,
+  action: ProjectPermission,
+  context: ErrorContext
+): Promise<{
+  success: boolean;
+  project?: Project;
+  relationship?: ProjectRelationship;
+  error?: Response;
+}> {
+  if (!actor.userId) {
+    return {
+      success: false,
+      error: sendError(
+        "Authorization token is missing",
+        ERROR_CODES.UNAUTHORIZED,
+        401
+      ),
+    };
+  }
+
+  const result = await getProjectRelationship(actor.userId, projectId);
+
+  if (!result) {
+    return {
+      success: false,
+      error: handleNotFound("Project", { ...context, projectId }),
+    };
+  }
+
+  if (
+    !can(actor, action, { type: "project", relationship: result.relationship })
+  ) {
+    logger.warn("Project action denied", {
+      ...context,
+      projectId,
+      userId: actor.userId,
+      action,
+    });
+
+    return { success: false, error: forbiddenResponse() };
+  }
+
+  return {
+    success: true,
+    project: result.project,
+    relationship: result.relationship,
+  };
+}
+
+type AuthenticatedRequest = Awaited<ReturnType<typeof verifyApiRequest>>;
+
+/**
+ * A route handler that runs once the caller is known to hold a permission
+ */
+type PermittedHandler<TContext> = (
+  req: NextRequest,
+  auth: AuthenticatedRequest,
+  routeContext: TContext
+) => Promise<Response>;
+
+/**
+ * Wrap a route handler so it only runs for callers holding a global
+ * permission. Unauthenticated callers get 401, everyone else 403.
+ */
+export function withPermission<TContext>(
+  permission: GlobalPermission,
+  handler: PermittedHandler<TContext>
+) {
+  return async (req: NextRequest, routeContext: TContext) => {
+    const auth = await verifyApiRequest(req);
+    if (!auth.success) {
+      return auth.error!;
+    }
+
+    if (!can(auth, permission)) {
+      logger.warn("Permission denied", {
+        route: req.nextUrl.pathname,
+        method: req.method,
+        userId: auth.userId,
+        permission,
+      });
+
+      return forbiddenResponse();
+    }
+
+    return handler(req, auth, routeContext);
+  };
+}
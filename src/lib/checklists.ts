@@ -0,0 +1,101 @@
+/**
+ * Task Checklists
+ *
+ * Checklist items belong to their task, so every checklist change is a
+ * task update: it is recorded in the activity ledger, sent to
+ * `task.updated` webhooks and published to the project's live events.
+ *
+ * Usage:
+ *   const item = await changeChecklist(auth, taskId, (tx) =>
+ *     tx.taskChecklistItem.create({ data: { ... } })
+ *   );
+ */
+
+import { revalidateTag } from "next/cache";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { recordActivity } from "./activity";
+import { dispatchWebhooks, enqueueWebhookEvent } from "./webhooks";
+import { publishProjectEvent } from "./realtime";
+import {
+  taskChecklistSelect,
+  taskLabelsSelect,
+  taskSelect,
+  toTaskActivitySnapshot,
+} from "./tasks";
+
+export const checklistItemSelect = taskChecklistSelect.select;
+
+/**
+ * A task as loaded before a checklist change
+ */
+export function findTaskWithChecklist(taskId: string) {
+  return prisma.task.findUnique({
+    where: { id: taskId },
+    include: {
+      assignees: { select: { user: { select: { id: true } } } },
+      checklistItems: taskChecklistSelect,
+      labels: taskLabelsSelect,
+    },
+  });
+}
+
+/**
+ * Apply a checklist change to a task and announce it
+ * @param task - The task as returned by findTaskWithChecklist
+ * @param change - Writes the change inside the transaction
+ * @returns Whatever `change` returned
+ */
+export async function changeChecklist<T>(
+  actor: { userId?: string; userEmail?: string },
+  task: NonNullable<Awaited<ReturnType<typeof findTaskWithChecklist>>>,
+  change: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  let webhooksQueued = 0;
+
+  const { result, updatedTask } = await prisma.$transaction(async (tx) => {
+    const result = await change(tx);
+
+    const updatedTask = await tx.task.update({
+      where: { id: task.id },
+      // Checklist edits count as edits of the task
+      data: { updatedAt: new Date() },
+      select: taskSelect,
+    });
+
+    const activity = await recordActivity(tx, {
+      actor,
+      entityType: "TASK",
+      entityId: task.id,
+      projectId: task.projectId,
+      action: "UPDATE",
+      before: toTaskActivitySnapshot(task),
+      after: toTaskActivitySnapshot(updatedTask),
+    });
+
+    if (activity) {
+      webhooksQueued = await enqueueWebhookEvent(
+        tx,
+        task.projectId,
+        "task.updated",
+        { task: updatedTask, changes: activity.changes }
+      );
+    }
+
+    return { result, updatedTask };
+  });
+
+  revalidateTag(`project:${task.projectId}`, { expire: 0 });
+  revalidateTag(`projectTasks:${task.projectId}`, { expire: 0 });
+
+  if (webhooksQueued > 0) {
+    dispatchWebhooks();
+  }
+
+  await publishProjectEvent(task.projectId, actor, {
+    type: "task.updated",
+    task: updatedTask,
+  });
+
+  return result;
+}
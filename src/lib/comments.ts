@@ -0,0 +1,155 @@
+/**
+ * Comment Helpers
+ *
+ * Shared logic for the project and task comment routes. Both routes list
+ * top-level comments page by page with their replies inlined (one level).
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { recordActivity, type RecordActivityInput } from "./activity";
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+const authorSelect = {
+  select: {
+    id: true,
+    name: true,
+    email: true,
+  },
+} as const;
+
+export const commentSelect = {
+  id: true,
+  body: true,
+  authorId: true,
+  projectId: true,
+  taskId: true,
+  parentId: true,
+  editedAt: true,
+  createdAt: true,
+  author: authorSelect,
+} as const;
+
+/**
+ * Where a comment thread lives: a project's own discussion (taskId null)
+ * or a single task's discussion
+ */
+export interface CommentScope {
+  projectId: string;
+  taskId: string | null;
+}
+
+interface CommentRecord {
+  id: string;
+  body: string;
+  authorId: string;
+  projectId: string;
+  taskId: string | null;
+  parentId: string | null;
+}
+
+/**
+ * Record a comment write in the ledger, as a change to the task or project
+ * whose discussion it belongs to
+ * @param before - The comment before the write (null when created)
+ * @param after - The comment after the write (null when deleted)
+ */
+export function recordCommentActivity(
+  tx: Prisma.TransactionClient,
+  actor: RecordActivityInput["actor"],
+  before: CommentRecord | null,
+  after: CommentRecord | null
+) {
+  const comment = (after ?? before)!;
+  const toSnapshot = (record: CommentRecord | null) =>
+    record && {
+      id: record.id,
+      authorId: record.authorId,
+      parentId: record.parentId,
+      body: record.body,
+    };
+
+  return recordActivity(tx, {
+    actor,
+    entityType: comment.taskId ? "TASK" : "PROJECT",
+    entityId: comment.taskId ?? comment.projectId,
+    projectId: comment.projectId,
+    action: "UPDATE",
+    before: { comment: toSnapshot(before) },
+    after: { comment: toSnapshot(after) },
+  });
+}
+
+/**
+ * Validate a comment body from a request
+ * @returns An error message, or null if the body is valid
+ */
+export function validateCommentBody(body: unknown): string | null {
+  if (typeof body !== "string" || body.trim().length === 0) {
+    return "Comment body is required and must be a non-empty string";
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    return `Comment must be at most ${MAX_COMMENT_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * List one page of top-level comments (newest first) with their replies
+ * (oldest first)
+ */
+export async function listComments(
+  scope: CommentScope,
+  page: number,
+  limit: number
+) {
+  const where = { ...scope, parentId: null };
+
+  const [total, comments] = await Promise.all([
+    prisma.comment.count({ where }),
+    prisma.comment.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      select: {
+        ...commentSelect,
+        replies: {
+          select: commentSelect,
+          orderBy: { createdAt: "asc" },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  return { total, comments };
+}
+
+/**
+ * Check a reply target belongs to the same thread and is itself top-level
+ * @returns An error message, or null if the parent is valid
+ */
+export async function validateParentComment(
+  parentId: string,
+  scope: CommentScope
+): Promise<string | null> {
+  const parent = await prisma.comment.findUnique({
+    where: { id: parentId },
+    select: { projectId: true, taskId: true, parentId: true },
+  });
+
+  if (
+    !parent ||
+    parent.projectId !== scope.projectId ||
+    parent.taskId !== scope.taskId
+  ) {
+    return "Parent comment not found in this discussion";
+  }
+
+  if (parent.parentId) {
+    return "Replies can only be one level deep";
+  }
+
+  return null;
+}
@@ -0,0 +1,67 @@
+/**
+ * Task Dependencies
+ *
+ * "Blocks / blocked by" links between tasks of one project. A task with
+ * unfinished blockers (tasks not in a DONE-category status) cannot be
+ * started or finished.
+ *
+ * Usage:
+ *   const blockers = await findUnfinishedBlockers(taskId, workflow);
+ *   if (blockers.length > 0) { ... refuse the move ... }
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { findWorkflowStatus, type ProjectWorkflow } from "./workflows";
+
+export const dependencySelect = {
+  id: true,
+  blockerId: true,
+  blockedId: true,
+  createdAt: true,
+} as const;
+
+export function listProjectDependencies(
+  projectId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  return client.taskDependency.findMany({
+    where: { projectId },
+    select: dependencySelect,
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Blockers of a task that are not done yet
+ */
+export async function findUnfinishedBlockers(
+  taskId: string,
+  workflow: ProjectWorkflow
+): Promise<{ id: string; title: string; status: string }[]> {
+  const links = await prisma.taskDependency.findMany({
+    where: { blockedId: taskId },
+    select: { blocker: { select: { id: true, title: true, status: true } } },
+  });
+
+  return links
+    .map(({ blocker }) => blocker)
+    .filter(
+      (blocker) =>
+        findWorkflowStatus(workflow, blocker.status)?.category !== "DONE"
+    );
+}
+
+/**
+ * IDs of the tasks blocking a task, for activity snapshots
+ */
+export async function getBlockerIds(
+  tx: Prisma.TransactionClient,
+  taskId: string
+): Promise<string[]> {
+  const links = await tx.taskDependency.findMany({
+    where: { blockedId: taskId },
+    select: { blockerId: true },
+  });
+  return links.map((link) => link.blockerId).sort();
+}
@@ -0,0 +1,126 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  findCriticalPath,
+  getDependencyDepths,
+  wouldCreateCycle,
+  type DependencyLink,
+} from "./dependencyGraph";
+
+function link(blockerId: string, blockedId: string): DependencyLink {
+  return { blockerId, blockedId };
+}
+
+// a blocks b and c, which both block d
+const diamond = [
+  link("a", "b"),
+  link("a", "c"),
+  link("b", "d"),
+  link("c", "d"),
+];
+
+function work(hours: Record<string, number>) {
+  return (taskId: string) => hours[taskId] ?? 0;
+}
+
+describe("wouldCreateCycle", () => {
+  it("rejects a task blocking itself", () => {
+    assert.equal(wouldCreateCycle([], "a", "a"), true);
+    assert.equal(wouldCreateCycle(diamond, "b", "b"), true);
+  });
+
+  it("rejects a link back to a direct blocker", () => {
+    assert.equal(wouldCreateCycle([link("a", "b")], "b", "a"), true);
+  });
+
+  it("rejects a link that closes a longer chain", () => {
+    assert.equal(wouldCreateCycle(diamond, "d", "a"), true);
+    assert.equal(wouldCreateCycle(diamond, "d", "b"), true);
+  });
+
+  it("allows links across the sides of a diamond", () => {
+    assert.equal(wouldCreateCycle(diamond, "b", "c"), false);
+    assert.equal(wouldCreateCycle(diamond, "c", "b"), false);
+  });
+
+  it("allows a link that already exists or skips a step", () => {
+    assert.equal(wouldCreateCycle(diamond, "a", "b"), false);
+    assert.equal(wouldCreateCycle(diamond, "a", "d"), false);
+  });
+
+  it("allows links between disconnected components", () => {
+    const links = [...diamond, link("x", "y")];
+    assert.equal(wouldCreateCycle(links, "d", "x"), false);
+    assert.equal(wouldCreateCycle(links, "y", "a"), false);
+  });
+});
+
+describe("getDependencyDepths", () => {
+  it("is empty without links", () => {
+    assert.equal(getDependencyDepths([]).size, 0);
+  });
+
+  it("places a task one below its deepest blocker", () => {
+    const depths = getDependencyDepths([...diamond, link("a", "d")]);
+    assert.deepEqual(Object.fromEntries(depths), { a: 0, b: 1, c: 1, d: 2 });
+  });
+
+  it("counts each disconnected component from zero", () => {
+    const depths = getDependencyDepths([
+      ...diamond,
+      link("x", "y"),
+      link("y", "z"),
+    ]);
+    assert.deepEqual(Object.fromEntries(depths), {
+      a: 0,
+      b: 1,
+      c: 1,
+      d: 2,
+      x: 0,
+      y: 1,
+      z: 2,
+    });
+  });
+
+  it("leaves out a task linked to itself", () => {
+    const depths = getDependencyDepths([link("a", "a"), link("b", "c")]);
+    assert.deepEqual(Object.fromEntries(depths), { b: 0, c: 1 });
+  });
+});
+
+describe("findCriticalPath", () => {
+  it("is empty without links", () => {
+    assert.deepEqual(findCriticalPath([], work({ a: 5 })), []);
+  });
+
+  it("follows the heavier side of a diamond", () => {
+    const hours = { a: 1, b: 2, c: 8, d: 1 };
+    assert.deepEqual(findCriticalPath(diamond, work(hours)), ["a", "c", "d"]);
+    assert.deepEqual(findCriticalPath(diamond, work({ ...hours, b: 9 })), [
+      "a",
+      "b",
+      "d",
+    ]);
+  });
+
+  it("picks the component with the most remaining work", () => {
+    const links = [...diamond, link("x", "y")];
+    const hours = { a: 1, b: 1, c: 1, d: 1, x: 2, y: 2 };
+
+    assert.deepEqual(findCriticalPath(links, work(hours)), ["x", "y"]);
+    assert.deepEqual(findCriticalPath(links, work({ ...hours, x: 0 })), [
+      "a",
+      "b",
+      "d",
+    ]);
+  });
+
+  it("returns a whole chain, first blocker first", () => {
+    const links = [link("b", "c"), link("a", "b")];
+    assert.deepEqual(findCriticalPath(links, work({ a: 1, b: 1, c: 1 })), [
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Task Dependency Graph
+ *
+ * Graph helpers over "blocker → blocked" links between tasks: cycle checks
+ * before a link is added, the depth of each task in the chain (for laying
+ * the graph out) and the critical path, the chain of linked tasks with the
+ * most remaining work.
+ *
+ * No server dependencies: used by the dependency API and the project page.
+ */
+
+export interface DependencyLink {
+  blockerId: string;
+  blockedId: string;
+}
+
+/** Hours of work left in a task */
+export type RemainingWork = (taskId: string) => number;
+
+/**
+ * Task IDs each task blocks
+ */
+function blockedByBlocker(links: DependencyLink[]): Map<string, string[]> {
+  const graph = new Map<string, string[]>();
+  for (const { blockerId, blockedId } of links) {
+    graph.set(blockerId, [...(graph.get(blockerId) ?? []), blockedId]);
+  }
+  return graph;
+}
+
+/**
+ * Whether adding `blockerId → blockedId` would close a loop, i.e. the
+ * blocked task already (indirectly) blocks the blocker
+ */
+export function wouldCreateCycle(
+  links: DependencyLink[],
+  blockerId: string,
+  blockedId: string
+): boolean {
+  if (blockerId === blockedId) return true;
+
+  const graph = blockedByBlocker(links);
+  const stack = [blockedId];
+  const seen = new Set<string>();
+
+  while (stack.length > 0) {
+    const taskId = stack.pop()!;
+    if (taskId === blockerId) return true;
+    if (seen.has(taskId)) continue;
+    seen.add(taskId);
+    stack.push(...(graph.get(taskId) ?? []));
+  }
+
+  return false;
+}
+
+/**
+ * Linked task IDs, blockers before the tasks they block
+ */
+function topologicalOrder(links: DependencyLink[]): string[] {
+  const graph = blockedByBlocker(links);
+  const waitingOn = new Map<string, number>();
+
+  for (const { blockerId, blockedId } of links) {
+    waitingOn.set(blockerId, waitingOn.get(blockerId) ?? 0);
+    waitingOn.set(blockedId, (waitingOn.get(blockedId) ?? 0) + 1);
+  }
+
+  const ready = [...waitingOn].filter(([, count]) => count === 0);
+  const queue = ready.map(([taskId]) => taskId);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const taskId = queue.shift()!;
+    order.push(taskId);
+
+    for (const next of graph.get(taskId) ?? []) {
+      const remaining = waitingOn.get(next)! - 1;
+      waitingOn.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    }
+  }
+
+  return order;
+}
+
+/**
+ * How many blockers deep each linked task sits: 0 for tasks nothing
+ * blocks, otherwise one more than its deepest blocker
+ */
+export function getDependencyDepths(
+  links: DependencyLink[]
+): Map<string, number> {
+  const depths = new Map<string, number>();
+
+  for (const taskId of topologicalOrder(links)) {
+    const blockerDepths = links
+      .filter((link) => link.blockedId === taskId)
+      .map((link) => depths.get(link.blockerId) ?? 0);
+    depths.set(
+      taskId,
+      blockerDepths.length > 0 ? Math.max(...blockerDepths) + 1 : 0
+    );
+  }
+
+  return depths;
+}
+
+/**
+ * The chain of linked tasks with the most remaining work: any delay on it
+ * delays everything at its end
+ * @returns Task IDs, first blocker first (empty without links)
+ */
+export function findCriticalPath(
+  links: DependencyLink[],
+  remainingWork: RemainingWork
+): string[] {
+  // Work finished by the end of each task, along its heaviest chain
+  const finish = new Map<string, number>();
+  const previous = new Map<string, string>();
+
+  for (const taskId of topologicalOrder(links)) {
+    let start = 0;
+    for (const { blockerId, blockedId } of links) {
+      if (blockedId !== taskId) continue;
+      const blockerFinish = finish.get(blockerId) ?? 0;
+      if (blockerFinish > start || !previous.has(taskId)) {
+        start = Math.max(start, blockerFinish);
+        previous.set(taskId, blockerId);
+      }
+    }
+    finish.set(taskId, start + remainingWork(taskId));
+  }
+
+  let last: string | undefined;
+  for (const [taskId, end] of finish) {
+    if (last === undefined || end > finish.get(last)!) last = taskId;
+  }
+
+  const path: string[] = [];
+  for (let taskId = last; taskId !== undefined; taskId = previous.get(taskId)) {
+    path.unshift(taskId);
+  }
+  return path;
+}
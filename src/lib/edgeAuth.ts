@@ -0,0 +1,90 @@
+/**
+ * Edge-safe Token Verification
+ *
+ * Middleware runs in the Edge runtime, where `jsonwebtoken` (Node crypto)
+ * is unavailable. This module verifies the same HS256 access tokens with
+ * `jose`, which only needs Web Crypto.
+ *
+ * Keep this file free of Node-only imports: it is bundled into middleware.
+ */
+
+import { errors, jwtVerify } from "jose";
+import type { DecodedToken } from "./auth";
+
+/**
+ * Personal API tokens (lib/apiTokens) start with this prefix. They are
+ * opaque and can only be checked against the database, so middleware
+ * leaves them to verifyApiRequest.
+ */
+export const API_TOKEN_PREFIX = "clp_";
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+export type AccessTokenVerification =
+  | { status: "valid"; payload: DecodedToken }
+  | { status: "expired" }
+  | { status: "invalid" };
+
+let cachedSecret: { raw: string; key: Uint8Array } | null = null;
+
+function getSecretKey(): Uint8Array {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET environment variable is not set");
+  }
+
+  if (cachedSecret?.raw !== secret) {
+    cachedSecret = { raw: secret, key: new TextEncoder().encode(secret) };
+  }
+  return cachedSecret.key;
+}
+
+/**
+ * Extract JWT token from Authorization header
+ * Expected format: "Bearer <token>"
+ * @param authHeader - Authorization header value
+ * @returns Token string without 'Bearer ' prefix, or null if missing
+ */
+export function extractTokenFromHeader(
+  authHeader: string | null
+): string | null {
+  if (!authHeader) return null;
+
+  const parts = authHeader.split(" ");
+  if (parts.length !== 2 || parts[0].toLowerCase() !== "bearer") {
+    return null;
+  }
+
+  return parts[1];
+}
+
+/**
+ * Check an access token's signature and expiry
+ * @returns The decoded payload, or why the token was rejected
+ */
+export async function verifyAccessToken(
+  token: string
+): Promise<AccessTokenVerification> {
+  try {
+    const { payload } = await jwtVerify(token, getSecretKey(), {
+      algorithms: ["HS256"],
+    });
+
+    if (
+      typeof payload.id !== "string" ||
+      typeof payload.email !== "string" ||
+      typeof payload.role !== "string"
+    ) {
+      return { status: "invalid" };
+    }
+
+    return { status: "valid", payload: payload as unknown as DecodedToken };
+  } catch (error) {
+    if (error instanceof errors.JWTExpired) {
+      return { status: "expired" };
+    }
+    return { status: "invalid" };
+  }
+}
@@ -45,6 +45,13 @@ export function getJwtSecret(): string {
   return jwtSecret;
 }
 
+/**
+ * Public base URL of the app, used to build links in outgoing email
+ */
+export function getAppUrl(): string {
+  return (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
 /**
  * Validate environment variables at startup
  * This ensures the application has all required server-side configuration
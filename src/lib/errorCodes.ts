@@ -16,7 +16,18 @@ export const ERROR_CODES = {
   TOKEN_EXPIRED: "TOKEN_EXPIRED",
   INVALID_TOKEN: "INVALID_TOKEN",
   MISSING_TOKEN: "MISSING_TOKEN",
+  SESSION_REVOKED: "SESSION_REVOKED",
   INVALID_CREDENTIALS: "INVALID_CREDENTIALS",
+  ACCOUNT_LOCKED: "ACCOUNT_LOCKED",
+  EMAIL_NOT_VERIFIED: "EMAIL_NOT_VERIFIED",
+  ACCOUNT_DEACTIVATED: "ACCOUNT_DEACTIVATED",
+  INSUFFICIENT_SCOPE: "INSUFFICIENT_SCOPE",
+
+  // Conflicts (4xx)
+  CONFLICT: "CONFLICT",
+
+  // Rate Limiting (4xx)
+  RATE_LIMITED: "RATE_LIMITED",
 
   // Resource Not Found (4xx)
   NOT_FOUND: "NOT_FOUND",
@@ -0,0 +1,39 @@
+/**
+ * Join Request Helpers
+ *
+ * Shared Prisma selection used by the join-request API routes so the
+ * project owner and the requester always see the same shape.
+ */
+
+const userSummarySelect = {
+  id: true,
+  name: true,
+  email: true,
+} as const;
+
+export const joinRequestSelect = {
+  id: true,
+  projectId: true,
+  userId: true,
+  message: true,
+  status: true,
+  reviewNote: true,
+  reviewedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  user: { select: userSummarySelect },
+  reviewedBy: { select: userSummarySelect },
+  project: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+} as const;
+
+/**
+ * Review actions accepted by PATCH /api/projects/[id]/join-requests/[requestId]
+ */
+export const JOIN_REQUEST_ACTIONS = ["approve", "reject", "cancel"] as const;
+
+export type JoinRequestAction = (typeof JOIN_REQUEST_ACTIONS)[number];
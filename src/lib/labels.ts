@@ -0,0 +1,130 @@
+/**
+ * Task Labels
+ *
+ * Free-form, colored labels a project defines for its own tasks (e.g.
+ * "Fieldwork", "Needs funding"). A task can carry any number of its
+ * project's labels; deleting a label takes it off every task.
+ *
+ * Usage:
+ *   const labels = await listProjectLabels(projectId);
+ *   const unknown = await findForeignLabelIds(projectId, labelIds);
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export const MAX_LABEL_NAME_LENGTH = 40;
+export const MAX_LABELS = 50;
+
+/** Six digit hex colors, e.g. #10B981 */
+export const LABEL_COLOR_PATTERN = /^#[0-9A-F]{6}$/i;
+
+export const labelSelect = {
+  id: true,
+  projectId: true,
+  name: true,
+  color: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export interface LabelInput {
+  name?: string;
+  color?: string;
+}
+
+/**
+ * Validate the name and color of a request body
+ * @param partial - Allow fields to be left out, for updates
+ * @returns The parsed fields, or an error message
+ */
+export function parseLabelInput(
+  body: Record<string, unknown>,
+  partial = false
+): { data: LabelInput } | { error: string } {
+  const { name, color } = body;
+  const data: LabelInput = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== "string" || name.trim().length === 0) {
+      return { error: "Name is required and must be a non-empty string" };
+    }
+    if (name.trim().length > MAX_LABEL_NAME_LENGTH) {
+      return {
+        error: `Label names must be at most ${MAX_LABEL_NAME_LENGTH} characters`,
+      };
+    }
+    data.name = name.trim();
+  }
+
+  if (color !== undefined || !partial) {
+    if (typeof color !== "string" || !LABEL_COLOR_PATTERN.test(color)) {
+      return { error: "Color must be a hex color such as #10B981" };
+    }
+    data.color = color.toUpperCase();
+  }
+
+  return { data };
+}
+
+/**
+ * Validate a list of label IDs from a request body
+ * @returns The de-duplicated IDs, or null if the value is not a string array
+ */
+export function parseLabelIds(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  if (!value.every((item) => typeof item === "string" && item.length > 0)) {
+    return null;
+  }
+  return Array.from(new Set(value as string[]));
+}
+
+export function listProjectLabels(
+  projectId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  return client.taskLabel.findMany({
+    where: { projectId },
+    select: labelSelect,
+    orderBy: { name: "asc" },
+  });
+}
+
+/**
+ * Whether another label of the project already has this name
+ * (case-insensitively, so "Urgent" and "urgent" don't both exist)
+ */
+export async function isLabelNameTaken(
+  projectId: string,
+  name: string,
+  exceptLabelId?: string
+): Promise<boolean> {
+  const existing = await prisma.taskLabel.findFirst({
+    where: {
+      projectId,
+      name: { equals: name, mode: "insensitive" },
+      ...(exceptLabelId && { NOT: { id: exceptLabelId } }),
+    },
+    select: { id: true },
+  });
+  return existing !== null;
+}
+
+/**
+ * Labels that can't go on a task of this project
+ * @returns IDs that are NOT labels of the project
+ */
+export async function findForeignLabelIds(
+  projectId: string,
+  labelIds: string[]
+): Promise<string[]> {
+  if (labelIds.length === 0) return [];
+
+  const labels = await prisma.taskLabel.findMany({
+    where: { id: { in: labelIds }, projectId },
+    select: { id: true },
+  });
+  const known = new Set(labels.map((label) => label.id));
+
+  return labelIds.filter((labelId) => !known.has(labelId));
+}
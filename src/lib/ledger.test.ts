@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { hashEvent, type ChainedEventContents } from "./ledger";
+
+const event: ChainedEventContents = {
+  actorId: "user-1",
+  actorEmail: "owner@example.com",
+  entityType: "TASK",
+  entityId: "task-1",
+  projectId: "project-1",
+  action: "UPDATE",
+  changes: { status: { before: "TODO", after: "DONE" } },
+  sequence: 2,
+  prevHash: "a".repeat(64),
+  createdAt: new Date("2026-01-01T00:00:00.000Z"),
+};
+
+describe("hashEvent", () => {
+  it("is a SHA-256 hex digest that is stable for the same contents", () => {
+    const hash = hashEvent(event);
+    assert.match(hash, /^[0-9a-f]{64}$/);
+    assert.equal(hashEvent({ ...event }), hash);
+  });
+
+  it("does not depend on the key order of the changes", () => {
+    const changes = {
+      title: { before: "Old", after: "New" },
+      status: { before: "TODO", after: "DONE" },
+    };
+    const reordered = {
+      status: changes.status,
+      title: changes.title,
+    };
+
+    assert.equal(
+      hashEvent({ ...event, changes }),
+      hashEvent({ ...event, changes: reordered })
+    );
+  });
+
+  it("changes when the contents change", () => {
+    const hash = hashEvent(event);
+
+    assert.notEqual(
+      hashEvent({
+        ...event,
+        changes: { status: { before: "TODO", after: "IN_PROGRESS" } },
+      }),
+      hash
+    );
+    assert.notEqual(hashEvent({ ...event, actorEmail: null }), hash);
+    assert.notEqual(
+      hashEvent({ ...event, createdAt: new Date("2026-01-01T00:00:01Z") }),
+      hash
+    );
+  });
+
+  it("chains on the previous hash and sequence", () => {
+    const hash = hashEvent(event);
+
+    assert.notEqual(hashEvent({ ...event, prevHash: "b".repeat(64) }), hash);
+    assert.notEqual(hashEvent({ ...event, prevHash: null }), hash);
+    assert.notEqual(hashEvent({ ...event, sequence: 3 }), hash);
+  });
+});
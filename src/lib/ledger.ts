@@ -0,0 +1,193 @@
+/**
+ * Ledger Hash Chain
+ *
+ * Makes each project's activity history tamper-evident. Every project event
+ * stores a SHA-256 hash over its own contents and the previous event's hash,
+ * so rewriting, removing or reordering any entry breaks every later link.
+ *
+ * Events are chained by recordActivity (lib/activity); this module only
+ * knows how to hash, append and verify.
+ */
+
+import { createHash } from "crypto";
+import type { ActivityEvent, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+/**
+ * The fields of an event that are covered by its hash
+ */
+export type ChainedEventContents = Pick<
+  ActivityEvent,
+  | "actorId"
+  | "actorEmail"
+  | "entityType"
+  | "entityId"
+  | "projectId"
+  | "action"
+  | "changes"
+  | "sequence"
+  | "prevHash"
+  | "createdAt"
+>;
+
+export interface ChainLink {
+  sequence: number;
+  prevHash: string | null;
+  hash: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  length: number;
+  headHash: string | null;
+  brokenLink: {
+    sequence: number | null;
+    eventId: string | null;
+    reason: string;
+  } | null;
+}
+
+/** Events read per round-trip while verifying */
+const VERIFY_BATCH_SIZE = 500;
+
+/**
+ * Serialize a JSON value with object keys sorted, so the hash does not depend
+ * on key order (PostgreSQL jsonb does not preserve it)
+ */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value ?? null);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .map(
+      (key) =>
+        `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+    );
+  return `{${entries.join(",")}}`;
+}
+
+/**
+ * SHA-256 (hex) of an event's contents, including the previous hash
+ */
+export function hashEvent(event: ChainedEventContents): string {
+  return createHash("sha256")
+    .update(
+      canonicalJson({
+        actorId: event.actorId,
+        actorEmail: event.actorEmail,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        projectId: event.projectId,
+        action: event.action,
+        changes: event.changes,
+        sequence: event.sequence,
+        prevHash: event.prevHash,
+        createdAt: event.createdAt.toISOString(),
+      })
+    )
+    .digest("hex");
+}
+
+/**
+ * Take the project's transaction-scoped advisory lock, held until the
+ * transaction ends. Writes that must see each other's results (like
+ * dependency cycle checks) take it before reading; taking it again in the
+ * same transaction, as recordActivity does, does not wait.
+ */
+export async function lockProject(
+  tx: Prisma.TransactionClient,
+  projectId: string
+): Promise<void> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${projectId}))`;
+}
+
+/**
+ * Work out the next link for a project's chain.
+ * Takes a transaction-scoped advisory lock on the project so concurrent
+ * writers append one after the other instead of forking the chain.
+ * @param tx - Transaction the new event will be inserted in
+ * @param contents - The new event without its chain fields
+ */
+export async function nextChainLink(
+  tx: Prisma.TransactionClient,
+  contents: Omit<ChainedEventContents, "sequence" | "prevHash">
+): Promise<ChainLink> {
+  const projectId = contents.projectId as string;
+
+  await lockProject(tx, projectId);
+
+  const previous = await tx.activityEvent.findFirst({
+    where: { projectId, sequence: { not: null } },
+    orderBy: { sequence: "desc" },
+    select: { sequence: true, hash: true },
+  });
+
+  const sequence = (previous?.sequence ?? 0) + 1;
+  const prevHash = previous?.hash ?? null;
+
+  return {
+    sequence,
+    prevHash,
+    hash: hashEvent({ ...contents, sequence, prevHash }),
+  };
+}
+
+/**
+ * Walk a project's chain from the first event and report the first link
+ * whose sequence, back-reference or hash does not check out
+ */
+export async function verifyProjectChain(
+  projectId: string
+): Promise<ChainVerification> {
+  let expectedSequence = 1;
+  let previousHash: string | null = null;
+
+  for (;;) {
+    const events: ActivityEvent[] = await prisma.activityEvent.findMany({
+      where: { projectId, sequence: { gte: expectedSequence } },
+      orderBy: { sequence: "asc" },
+      take: VERIFY_BATCH_SIZE,
+    });
+
+    for (const event of events) {
+      const broken = (reason: string): ChainVerification => ({
+        valid: false,
+        length: expectedSequence - 1,
+        headHash: previousHash,
+        brokenLink: { sequence: event.sequence, eventId: event.id, reason },
+      });
+
+      if (event.sequence !== expectedSequence) {
+        return broken(
+          `Expected sequence ${expectedSequence}, found ${event.sequence}`
+        );
+      }
+
+      if (event.prevHash !== previousHash) {
+        return broken("prevHash does not match the previous entry's hash");
+      }
+
+      if (event.hash !== hashEvent(event)) {
+        return broken("Stored hash does not match the entry's contents");
+      }
+
+      previousHash = event.hash;
+      expectedSequence += 1;
+    }
+
+    if (events.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  return {
+    valid: true,
+    length: expectedSequence - 1,
+    headHash: previousHash,
+    brokenLink: null,
+  };
+}
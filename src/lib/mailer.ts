@@ -0,0 +1,114 @@
+/**
+ * Mail Transport
+ *
+ * Outgoing email goes through a small `MailTransport` interface so the
+ * delivery mechanism can be swapped without touching the auth flows.
+ *
+ * Built-in transports (chosen with MAIL_TRANSPORT):
+ * - "console" (default): logs the message, links included
+ * - "file": writes each message as JSON to MAIL_OUTBOX_DIR (./.mail-outbox)
+ *
+ * A real provider (SMTP, SES, ...) only needs to implement `send` and be
+ * installed with `setMailTransport` at startup.
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { logger } from "./logger";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export type OutgoingMail = MailMessage & { from: string };
+
+/**
+ * Logs messages instead of delivering them (local development)
+ */
+async function logMail(message: OutgoingMail): Promise<void> {
+  logger.info("Email (console transport)", {
+    from: message.from,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+  });
+}
+
+/**
+ * Every transport's `send` has the same signature as the console one
+ */
+export interface MailTransport {
+  name: string;
+  send: typeof logMail;
+}
+
+export const consoleTransport: MailTransport = {
+  name: "console",
+  send: logMail,
+};
+
+/**
+ * Writes each message to a JSON file so tests can read the links back
+ */
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+
+      const fileName = `${Date.now()}-${randomUUID()}.json`;
+      await writeFile(
+        path.join(directory, fileName),
+        JSON.stringify(
+          { ...message, sentAt: new Date().toISOString() },
+          null,
+          2
+        )
+      );
+
+      logger.info("Email written to outbox", {
+        to: message.to,
+        subject: message.subject,
+        file: fileName,
+      });
+    },
+  };
+}
+
+let activeTransport: MailTransport | null = null;
+
+/**
+ * Resolve the transport configured by MAIL_TRANSPORT
+ */
+export function getMailTransport(): MailTransport {
+  if (activeTransport) return activeTransport;
+
+  activeTransport =
+    process.env.MAIL_TRANSPORT === "file"
+      ? createFileTransport(
+          process.env.MAIL_OUTBOX_DIR ||
+            path.join(process.cwd(), ".mail-outbox")
+        )
+      : consoleTransport;
+
+  return activeTransport;
+}
+
+/**
+ * Replace the transport (e.g. with a real provider)
+ */
+export function setMailTransport(transport: MailTransport): void {
+  activeTransport = transport;
+}
+
+/**
+ * Send an email through the active transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from =
+    process.env.MAIL_FROM || "CollabLedger <no-reply@collabledger.local>";
+  await getMailTransport().send({ ...message, from });
+}
@@ -0,0 +1,172 @@
+/**
+ * Project Milestones
+ *
+ * Checkpoints a project's tasks can be grouped under. A milestone's
+ * progress is the share of its tasks in a DONE-category status, so it
+ * follows the project's workflow like the rest of the task stats.
+ *
+ * Usage:
+ *   const milestones = await listProjectMilestones(projectId);
+ *   const error = await validateTaskMilestone(milestoneId, projectId);
+ */
+
+import { prisma } from "./prisma";
+import { parseCalendarDate } from "./tasks";
+import { getProjectWorkflow } from "./workflows";
+import { getMilestoneProgress, type IsDoneStatus } from "./taskProgress";
+
+export const MAX_MILESTONE_TITLE_LENGTH = 120;
+export const MAX_MILESTONE_DESCRIPTION_LENGTH = 2000;
+export const MAX_MILESTONES = 50;
+
+export const milestoneSelect = {
+  id: true,
+  projectId: true,
+  title: true,
+  description: true,
+  targetDate: true,
+  createdAt: true,
+  updatedAt: true,
+  tasks: { select: { status: true } },
+} as const;
+
+export interface MilestoneInput {
+  title?: string;
+  description?: string | null;
+  targetDate?: Date | null;
+}
+
+/**
+ * Validate the title, description and target date of a request body
+ * @param partial - Allow the title to be left out, for updates
+ * @returns The parsed fields, or an error message
+ */
+export function parseMilestoneInput(
+  body: Record<string, unknown>,
+  partial = false
+): { data: MilestoneInput } | { error: string } {
+  const { title, description, targetDate } = body;
+  const data: MilestoneInput = {};
+
+  if (title !== undefined || !partial) {
+    if (typeof title !== "string" || title.trim().length === 0) {
+      return { error: "Title is required and must be a non-empty string" };
+    }
+    if (title.trim().length > MAX_MILESTONE_TITLE_LENGTH) {
+      return {
+        error: `Title must be at most ${MAX_MILESTONE_TITLE_LENGTH} characters`,
+      };
+    }
+    data.title = title.trim();
+  }
+
+  if (description !== undefined) {
+    if (description !== null && typeof description !== "string") {
+      return { error: "Description must be a string" };
+    }
+    if (
+      description &&
+      description.trim().length > MAX_MILESTONE_DESCRIPTION_LENGTH
+    ) {
+      return {
+        error: `Description must be at most ${MAX_MILESTONE_DESCRIPTION_LENGTH} characters`,
+      };
+    }
+    data.description = description?.trim() || null;
+  }
+
+  if (targetDate !== undefined) {
+    if (targetDate === null) {
+      data.targetDate = null;
+    } else {
+      const date = parseCalendarDate(targetDate);
+      if (!date) {
+        return { error: "targetDate must be a date in YYYY-MM-DD format" };
+      }
+      data.targetDate = date;
+    }
+  }
+
+  return { data };
+}
+
+export function findMilestone(milestoneId: string) {
+  return prisma.milestone.findUnique({
+    where: { id: milestoneId },
+    select: milestoneSelect,
+  });
+}
+
+type MilestoneRecord = NonNullable<Awaited<ReturnType<typeof findMilestone>>>;
+
+/**
+ * Strip a loaded milestone down to what the API returns, with its progress
+ */
+export function toMilestoneResponse(
+  milestone: MilestoneRecord,
+  isDone: IsDoneStatus
+) {
+  const { tasks, ...fields } = milestone;
+  return { ...fields, progress: getMilestoneProgress(tasks, isDone) };
+}
+
+/**
+ * The fields of a milestone stored in the activity ledger
+ */
+export function toMilestoneSnapshot(milestone: MilestoneRecord) {
+  const { id, title, description, targetDate } = milestone;
+  return { id, title, description, targetDate };
+}
+
+/**
+ * A project's milestones with their progress, soonest target date first
+ * and undated milestones last
+ */
+export async function listProjectMilestones(projectId: string) {
+  const [milestones, isDone] = await Promise.all([
+    prisma.milestone.findMany({
+      where: { projectId },
+      select: milestoneSelect,
+      orderBy: [
+        { targetDate: { sort: "asc", nulls: "last" } },
+        { createdAt: "asc" },
+      ],
+    }),
+    getIsDoneStatus(projectId),
+  ]);
+
+  return milestones.map((milestone) => toMilestoneResponse(milestone, isDone));
+}
+
+/**
+ * Whether a status key is in one of the project's DONE-category statuses
+ */
+export async function getIsDoneStatus(
+  projectId: string
+): Promise<IsDoneStatus> {
+  const workflow = await getProjectWorkflow(projectId);
+  const doneKeys = workflow.statuses
+    .filter((status) => status.category === "DONE")
+    .map((status) => status.key);
+  return (status: string) => doneKeys.includes(status);
+}
+
+/**
+ * Check that a task can be put under `milestoneId`
+ * @returns An error message, or null if the milestone is valid
+ */
+export async function validateTaskMilestone(
+  milestoneId: string,
+  projectId: string
+): Promise<string | null> {
+  const milestone = await prisma.milestone.findUnique({
+    where: { id: milestoneId },
+    select: { projectId: true },
+  });
+
+  if (!milestone || milestone.projectId !== projectId) {
+    return "Milestone not found in this project";
+  }
+
+  return null;
+}
@@ -0,0 +1,279 @@
+/**
+ * In-app Notifications
+ *
+ * One `Notification` row per recipient, created by these rules:
+ * - TASK_ASSIGNED: someone else assigned you to a task
+ * - TASK_CHANGED: a task was created, updated or deleted on a project you
+ *   own, or on a task you are assigned to
+ * - JOIN_REQUEST: someone asked to join a project you own
+ * - COMMENT: someone commented on a project you own, a task you are
+ *   assigned to, or replied to your comment
+ *
+ * Nobody is notified about their own actions. Notifications are written
+ * after the triggering change has committed and are best-effort: a failure
+ * is logged and never fails the request.
+ */
+
+import type { NotificationType } from "@prisma/client";
+import { prisma } from "./prisma";
+import { logger } from "./logger";
+
+export const notificationSelect = {
+  id: true,
+  type: true,
+  message: true,
+  projectId: true,
+  taskId: true,
+  actorId: true,
+  readAt: true,
+  createdAt: true,
+  project: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+} as const;
+
+export interface NotificationActor {
+  userId?: string;
+  userEmail?: string;
+}
+
+interface NotificationInput {
+  type: NotificationType;
+  message: string;
+  projectId: string;
+  taskId?: string | null;
+}
+
+interface TaskSummary {
+  id: string;
+  title: string;
+  projectId: string;
+}
+
+/**
+ * Name shown in notification messages
+ */
+async function describeActor(actor: NotificationActor): Promise<string> {
+  if (!actor.userId) return "Someone";
+
+  const user = await prisma.user.findUnique({
+    where: { id: actor.userId },
+    select: { name: true, email: true },
+  });
+
+  return user?.name || user?.email || actor.userEmail || "Someone";
+}
+
+async function getProjectOwnerId(projectId: string): Promise<string | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { ownerId: true },
+  });
+  return project?.ownerId ?? null;
+}
+
+async function getTaskAssigneeIds(taskId: string): Promise<string[]> {
+  const assignees = await prisma.taskAssignee.findMany({
+    where: { taskId },
+    select: { userId: true },
+  });
+  return assignees.map((assignee) => assignee.userId);
+}
+
+/**
+ * Create the same notification for every recipient except the actor
+ */
+async function notifyUsers(
+  actor: NotificationActor,
+  recipientIds: (string | null | undefined)[],
+  input: NotificationInput
+): Promise<number> {
+  const recipients = Array.from(
+    new Set(
+      recipientIds.filter((id): id is string => !!id && id !== actor.userId)
+    )
+  );
+
+  if (recipients.length === 0) return 0;
+
+  const { count } = await prisma.notification.createMany({
+    data: recipients.map((userId) => ({
+      userId,
+      actorId: actor.userId ?? null,
+      type: input.type,
+      message: input.message,
+      projectId: input.projectId,
+      taskId: input.taskId ?? null,
+    })),
+  });
+
+  return count;
+}
+
+/**
+ * Run a rule without letting a failure reach the caller
+ */
+async function bestEffort(
+  rule: string,
+  run: () => Promise<unknown>
+): Promise<void> {
+  try {
+    await run();
+  } catch (error) {
+    logger.warn("Failed to create notifications", {
+      rule,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Tell users they were assigned to a task
+ */
+export function notifyTaskAssigned(
+  actor: NotificationActor,
+  task: TaskSummary,
+  assigneeIds: string[]
+): Promise<void> {
+  return bestEffort("TASK_ASSIGNED", async () => {
+    if (assigneeIds.length === 0) return;
+
+    const actorName = await describeActor(actor);
+    await notifyUsers(actor, assigneeIds, {
+      type: "TASK_ASSIGNED",
+      message: `${actorName} assigned you to "${task.title}"`,
+      projectId: task.projectId,
+      taskId: task.id,
+    });
+  });
+}
+
+/**
+ * Tell the project owner and the task's assignees that a task changed.
+ * @param options.status - Name of the new status, when the change was a
+ *   status move
+ * @param options.assigneeIds - Who to notify besides the owner (defaults
+ *   to the task's current assignees; pass them for deleted tasks)
+ * @param options.skipUserIds - Users already told about this change
+ */
+export function notifyTaskChanged(
+  actor: NotificationActor,
+  task: TaskSummary,
+  change: "created" | "updated" | "deleted",
+  options: {
+    status?: string;
+    assigneeIds?: string[];
+    skipUserIds?: string[];
+  } = {}
+): Promise<void> {
+  return bestEffort("TASK_CHANGED", async () => {
+    const [actorName, ownerId, assigneeIds] = await Promise.all([
+      describeActor(actor),
+      getProjectOwnerId(task.projectId),
+      options.assigneeIds ?? getTaskAssigneeIds(task.id),
+    ]);
+
+    const skip = new Set(options.skipUserIds ?? []);
+    const message =
+      change === "updated" && options.status
+        ? `${actorName} moved "${task.title}" to ${options.status}`
+        : `${actorName} ${change} the task "${task.title}"`;
+
+    await notifyUsers(
+      actor,
+      [ownerId, ...assigneeIds].filter((id) => !id || !skip.has(id)),
+      {
+        type: "TASK_CHANGED",
+        message,
+        projectId: task.projectId,
+        // A deleted task has nothing left to link to
+        taskId: change === "deleted" ? null : task.id,
+      }
+    );
+  });
+}
+
+/**
+ * Tell the project owner someone asked to join
+ */
+export function notifyJoinRequest(
+  actor: NotificationActor,
+  project: { id: string; title: string; ownerId: string }
+): Promise<void> {
+  return bestEffort("JOIN_REQUEST", async () => {
+    const actorName = await describeActor(actor);
+    await notifyUsers(actor, [project.ownerId], {
+      type: "JOIN_REQUEST",
+      message: `${actorName} asked to join ${project.title}`,
+      projectId: project.id,
+    });
+  });
+}
+
+/**
+ * Tell the people following a discussion about a new comment: the project
+ * owner, the task's assignees (task threads) and the parent's author
+ * (replies)
+ */
+export function notifyComment(
+  actor: NotificationActor,
+  comment: { projectId: string; taskId: string | null; parentId: string | null }
+): Promise<void> {
+  return bestEffort("COMMENT", async () => {
+    const [actorName, project, task, parent] = await Promise.all([
+      describeActor(actor),
+      prisma.project.findUnique({
+        where: { id: comment.projectId },
+        select: { title: true, ownerId: true },
+      }),
+      comment.taskId
+        ? prisma.task.findUnique({
+            where: { id: comment.taskId },
+            select: {
+              title: true,
+              assignees: { select: { userId: true } },
+            },
+          })
+        : null,
+      comment.parentId
+        ? prisma.comment.findUnique({
+            where: { id: comment.parentId },
+            select: { authorId: true },
+          })
+        : null,
+    ]);
+
+    if (!project) return;
+
+    const where = task ? `"${task.title}"` : project.title;
+    const input = {
+      projectId: comment.projectId,
+      taskId: comment.taskId,
+    };
+
+    // The parent's author gets the more specific "replied" message
+    if (parent) {
+      await notifyUsers(actor, [parent.authorId], {
+        ...input,
+        type: "COMMENT",
+        message: `${actorName} replied to your comment on ${where}`,
+      });
+    }
+
+    await notifyUsers(
+      actor,
+      [
+        project.ownerId,
+        ...(task?.assignees.map((assignee) => assignee.userId) ?? []),
+      ].filter((id) => id !== parent?.authorId),
+      {
+        ...input,
+        type: "COMMENT",
+        message: `${actorName} commented on ${where}`,
+      }
+    );
+  });
+}
@@ -22,3 +22,26 @@ export async function comparePasswords(
 ): Promise<boolean> {
   return await bcrypt.compare(plain, hashed);
 }
+
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Check a login password without revealing whether the account exists.
+ * When there is no stored hash, a throwaway hash is compared instead so
+ * unknown emails take as long to reject as wrong passwords.
+ * @param plain - Plain text password from the login form
+ * @param hashed - Stored hash, or null/undefined if there is no such user
+ * @returns True only if a stored hash exists and matches
+ */
+export async function verifyPassword(
+  plain: string,
+  hashed: string | null | undefined
+): Promise<boolean> {
+  if (!hashed) {
+    dummyHash ??= hashPassword("collabledger-timing-equalizer");
+    await comparePasswords(plain, await dummyHash);
+    return false;
+  }
+
+  return comparePasswords(plain, hashed);
+}
@@ -0,0 +1,255 @@
+/**
+ * Permission Matrix
+ *
+ * Declarative registry of every action the API guards, and who may perform
+ * it. A permission can be granted by:
+ * - the caller's global `UserRole` (ADMIN / EDITOR / USER)
+ * - owning the project (`owner`)
+ * - the caller's `ProjectMember.role` in the project (`memberRoles`)
+ * - acting on their own account (`self`)
+ *
+ * This module has no server dependencies so the same matrix can be shipped
+ * to the UI (see /api/auth/me/permissions). Database lookups live in
+ * lib/authorization.
+ *
+ * Usage:
+ *   can(auth, "user:create")
+ *   can(auth, "task:assign", { type: "project", relationship })
+ *   can(auth, "user:update", { type: "user", id: targetUserId })
+ */
+
+import type { MemberRole, UserRole } from "@prisma/client";
+
+export type PermissionScope = "global" | "project" | "user";
+
+export interface PermissionRule {
+  description: string;
+  scope: PermissionScope;
+  /** Global roles that always hold this permission */
+  roles: readonly UserRole[];
+  /** Project member roles that hold it (project scope) */
+  memberRoles?: readonly MemberRole[];
+  /** Whether the project owner holds it (project scope) */
+  owner?: boolean;
+  /** Whether a user holds it for their own account (user scope) */
+  self?: boolean;
+}
+
+export const PERMISSIONS = {
+  "admin:access": {
+    description: "Open the admin console",
+    scope: "global",
+    roles: ["ADMIN"],
+  },
+  "audit:view": {
+    description: "Read the system-wide audit log",
+    scope: "global",
+    roles: ["ADMIN"],
+  },
+  "user:create": {
+    description: "Create user accounts",
+    scope: "global",
+    roles: ["ADMIN"],
+  },
+  "user:manage": {
+    description: "Change roles, deactivate accounts and force logouts",
+    scope: "global",
+    roles: ["ADMIN"],
+  },
+  "user:update": {
+    description: "Edit an account's profile",
+    scope: "user",
+    roles: ["ADMIN"],
+    self: true,
+  },
+  "task:list-assigned": {
+    description: "List the tasks assigned to a user",
+    scope: "user",
+    roles: ["ADMIN"],
+    self: true,
+  },
+  "project:create": {
+    description: "Create projects",
+    scope: "global",
+    roles: ["ADMIN", "EDITOR", "USER"],
+  },
+  "project:update": {
+    description: "Edit a project's details and status",
+    scope: "project",
+    roles: ["ADMIN", "EDITOR"],
+    owner: true,
+    memberRoles: ["MAINTAINER"],
+  },
+  "project:delete": {
+    description: "Delete a project",
+    scope: "project",
+    roles: ["ADMIN"],
+    owner: true,
+  },
+  "task:create": {
+    description: "Add tasks to a project",
+    scope: "project",
+    roles: ["ADMIN", "EDITOR"],
+    owner: true,
+    memberRoles: ["MAINTAINER", "CONTRIBUTOR"],
+  },
+  "task:update": {
+    description: "Edit a project's tasks",
+    scope: "project",
+    roles: ["ADMIN", "EDITOR"],
+    owner: true,
+    memberRoles: ["MAINTAINER", "CONTRIBUTOR"],
+  },
+  "task:delete": {
+    description: "Delete a project's tasks",
+    scope: "project",
+    roles: ["ADMIN", "EDITOR"],
+    owner: true,
+    memberRoles: ["MAINTAINER"],
+  },
+  "task:assign": {
+    description: "Assign a project's tasks to people",
+    scope: "project",
+    roles: ["ADMIN", "EDITOR"],
+    owner: true,
+    memberRoles: ["MAINTAINER"],
+  },
+  "member:invite": {
+    description: "Add members and review join requests",
+    scope: "project",
+    roles: ["ADMIN"],
+    owner: true,
+  },
+  "member:remove": {
+    description: "Remove other members from a project",
+    scope: "project",
+    roles: ["ADMIN"],
+    owner: true,
+  },
+  "comment:create": {
+    description: "Comment on a project and its tasks",
+    scope: "project",
+    roles: ["ADMIN", "EDITOR"],
+    owner: true,
+    memberRoles: ["MAINTAINER", "CONTRIBUTOR"],
+  },
+  "comment:moderate": {
+    description: "Delete other people's comments",
+    scope: "project",
+    roles: ["ADMIN", "EDITOR"],
+    owner: true,
+    memberRoles: ["MAINTAINER"],
+  },
+  "activity:view": {
+    description: "Read a project's activity ledger",
+    scope: "project",
+    roles: ["ADMIN", "EDITOR"],
+    owner: true,
+    memberRoles: ["MAINTAINER", "CONTRIBUTOR"],
+  },
+  "webhook:manage": {
+    description: "Configure a project's webhooks and read their deliveries",
+    scope: "project",
+    roles: ["ADMIN"],
+    owner: true,
+  },
+  "workflow:manage": {
+    description: "Define a project's task statuses and allowed transitions",
+    scope: "project",
+    roles: ["ADMIN"],
+    owner: true,
+  },
+  "milestone:manage": {
+    description: "Plan a project's milestones",
+    scope: "project",
+    roles: ["ADMIN", "EDITOR"],
+    owner: true,
+    memberRoles: ["MAINTAINER"],
+  },
+  "label:manage": {
+    description: "Create, rename and delete a project's task labels",
+    scope: "project",
+    roles: ["ADMIN", "EDITOR"],
+    owner: true,
+    memberRoles: ["MAINTAINER"],
+  },
+} as const satisfies Record<string, PermissionRule>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+type PermissionsInScope<S extends PermissionScope> = {
+  [P in Permission]: (typeof PERMISSIONS)[P]["scope"] extends S ? P : never;
+}[Permission];
+
+export type GlobalPermission = PermissionsInScope<"global">;
+export type ProjectPermission = PermissionsInScope<"project">;
+export type UserPermission = PermissionsInScope<"user">;
+
+/**
+ * Authenticated caller as returned by verifyApiRequest
+ */
+export interface Actor {
+  userId?: string;
+  userRole?: string;
+}
+
+/**
+ * What the caller is to a given project
+ */
+export interface ProjectRelationship {
+  isOwner: boolean;
+  memberRole: MemberRole | null;
+}
+
+/**
+ * The thing a permission is checked against
+ */
+export type PermissionResource =
+  | { type: "project"; relationship: ProjectRelationship }
+  | { type: "user"; id: string };
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+/**
+ * Decide whether the caller holds a permission (no database access).
+ * Project and user permissions are only granted through ownership,
+ * membership or self when the matching resource is passed.
+ */
+export function can(
+  actor: Actor,
+  action: Permission,
+  resource?: PermissionResource
+): boolean {
+  if (!actor.userId) return false;
+
+  const rule: PermissionRule = PERMISSIONS[action];
+
+  if (rule.roles.includes(actor.userRole as UserRole)) return true;
+
+  if (rule.scope === "project" && resource?.type === "project") {
+    const { isOwner, memberRole } = resource.relationship;
+    if (rule.owner && isOwner) return true;
+    return !!memberRole && !!rule.memberRoles?.includes(memberRole);
+  }
+
+  if (rule.scope === "user" && resource?.type === "user") {
+    return !!rule.self && resource.id === actor.userId;
+  }
+
+  return false;
+}
+
+/**
+ * Every permission of one scope the caller holds, e.g. to tell the UI
+ * which buttons to show
+ */
+export function listPermissions(
+  actor: Actor,
+  scope: PermissionScope,
+  resource?: PermissionResource
+): Permission[] {
+  return ALL_PERMISSIONS.filter(
+    (action) =>
+      PERMISSIONS[action].scope === scope && can(actor, action, resource)
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * Project Categories
+ *
+ * The cause a project works for (water, education, health, ...), used to
+ * filter project lists. Mirrors the `ProjectCategory` enum in the Prisma
+ * schema.
+ *
+ * No server dependencies: used by the project API and the dashboard alike.
+ */
+
+export type ProjectCategory =
+  | "WATER"
+  | "EDUCATION"
+  | "HEALTH"
+  | "HOUSING"
+  | "ENVIRONMENT"
+  | "FOOD"
+  | "OTHER";
+
+export const PROJECT_CATEGORY_LABELS: Record<ProjectCategory, string> = {
+  WATER: "Water",
+  EDUCATION: "Education",
+  HEALTH: "Health",
+  HOUSING: "Housing",
+  ENVIRONMENT: "Environment",
+  FOOD: "Food",
+  OTHER: "Other",
+};
+
+/** Illustrations in /public; causes without their own use the generic one */
+export const PROJECT_CATEGORY_IMAGES: Record<ProjectCategory, string> = {
+  WATER: "/project-future.svg",
+  EDUCATION: "/project-education.svg",
+  HEALTH: "/project-health.svg",
+  HOUSING: "/project-housing.svg",
+  ENVIRONMENT: "/project-future.svg",
+  FOOD: "/project-future.svg",
+  OTHER: "/project-future.svg",
+};
+
+export const PROJECT_CATEGORIES = Object.keys(
+  PROJECT_CATEGORY_LABELS
+) as ProjectCategory[];
+
+export function isProjectCategory(value: unknown): value is ProjectCategory {
+  return PROJECT_CATEGORIES.includes(value as ProjectCategory);
+}
+
+/**
+ * Parse a comma separated list of categories from a query string
+ * @returns The categories, or null if any of them is unknown
+ */
+export function parseProjectCategories(
+  value: string | null
+): ProjectCategory[] | null {
+  if (!value) return [];
+  const categories = value.split(",");
+  return categories.every(isProjectCategory) ? categories : null;
+}
@@ -0,0 +1,221 @@
+/**
+ * Rate Limiting & Login Lockout (Redis)
+ *
+ * Sliding-window limiter any route can use, plus progressive lockout for
+ * repeated login failures. All state lives in Redis so limits hold across
+ * server instances.
+ *
+ * Like the rest of the Redis usage in this app, limiting is best-effort:
+ * if Redis is unreachable requests are allowed through and a warning logged.
+ *
+ * Usage (at the top of a route handler):
+ *   const limited = await enforceRateLimits(
+ *     [{ name: "signup:ip", limit: 5, windowSeconds: 3600, identifier: getClientIp(req) }],
+ *     context
+ *   );
+ *   if (limited) return limited;
+ */
+
+import { randomUUID } from "crypto";
+import type { NextRequest } from "next/server";
+import { redis } from "../../lib/redis";
+import { sendError } from "./responseHandler";
+import { ERROR_CODES } from "./errorCodes";
+import { ErrorContext } from "./errorHandler";
+import { logger } from "./logger";
+
+export interface RateLimitRule {
+  /** Namespace for the counter, e.g. "login:ip" */
+  name: string;
+  /** Max requests allowed inside the window */
+  limit: number;
+  windowSeconds: number;
+  /** What is being limited: an IP, a normalized email, a user id... */
+  identifier: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/** Failures before the first lockout kicks in */
+const LOCKOUT_THRESHOLD = 5;
+/** First lockout length; doubles with every further failure */
+const BASE_LOCKOUT_SECONDS = 60;
+const MAX_LOCKOUT_SECONDS = 60 * 60;
+/** Failures are forgotten after this long without another one */
+const FAILURE_MEMORY_SECONDS = 60 * 60 * 24;
+
+/**
+ * Atomically drop expired entries, then admit the request if the window
+ * has room. Returns [allowed (0/1), count, oldest score].
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call("ZREMRANGEBYSCORE", key, 0, now - window)
+local count = redis.call("ZCARD", key)
+local allowed = 0
+if count < limit then
+  redis.call("ZADD", key, now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call("PEXPIRE", key, window)
+local oldest = redis.call("ZRANGE", key, 0, 0, "WITHSCORES")
+return { allowed, count, oldest[2] or now }
+`;
+
+/**
+ * Best guess at the caller's IP (first hop of x-forwarded-for)
+ */
+export function getClientIp(req: NextRequest): string {
+  return (
+    req.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    req.headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
+
+/**
+ * Record a hit against a sliding window and report whether it is allowed
+ */
+export async function checkRateLimit(
+  rule: RateLimitRule
+): Promise<RateLimitResult> {
+  const windowMs = rule.windowSeconds * 1000;
+  const now = Date.now();
+
+  try {
+    const [allowed, count, oldest] = (await redis.eval(
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      `ratelimit:${rule.name}:${rule.identifier}`,
+      now,
+      windowMs,
+      rule.limit,
+      `${now}-${randomUUID()}`
+    )) as [number, number, string | number];
+
+    const retryAfterMs = Number(oldest) + windowMs - now;
+
+    return {
+      allowed: allowed === 1,
+      limit: rule.limit,
+      remaining: Math.max(rule.limit - count, 0),
+      retryAfterSeconds: allowed === 1 ? 0 : Math.ceil(retryAfterMs / 1000),
+    };
+  } catch (redisError) {
+    logger.warn("Rate limit check skipped (Redis unavailable)", {
+      rule: rule.name,
+      redisError,
+    });
+    return {
+      allowed: true,
+      limit: rule.limit,
+      remaining: rule.limit,
+      retryAfterSeconds: 0,
+    };
+  }
+}
+
+/**
+ * Build a 429 response with a Retry-After header
+ */
+export function tooManyRequestsResponse(
+  message: string,
+  retryAfterSeconds: number,
+  code:
+    | typeof ERROR_CODES.RATE_LIMITED
+    | typeof ERROR_CODES.ACCOUNT_LOCKED = ERROR_CODES.RATE_LIMITED
+): Response {
+  const response = sendError(message, code, 429, { retryAfterSeconds });
+  response.headers.set("Retry-After", String(retryAfterSeconds));
+  return response;
+}
+
+/**
+ * Apply several limits (e.g. per IP and per account) to one request
+ * @returns A 429 response for the first exceeded rule, or null if all pass
+ */
+export async function enforceRateLimits(
+  rules: RateLimitRule[],
+  context: ErrorContext
+): Promise<Response | null> {
+  for (const rule of rules) {
+    const result = await checkRateLimit(rule);
+
+    if (!result.allowed) {
+      logger.warn("Rate limit exceeded", {
+        ...context,
+        rule: rule.name,
+        retryAfterSeconds: result.retryAfterSeconds,
+      });
+
+      return tooManyRequestsResponse(
+        "Too many requests. Please try again later.",
+        result.retryAfterSeconds
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Seconds left on an account's login lockout (0 if not locked)
+ */
+export async function getLockoutSeconds(identifier: string): Promise<number> {
+  try {
+    const ttl = await redis.ttl(`lockout:${identifier}`);
+    return ttl > 0 ? ttl : 0;
+  } catch (redisError) {
+    logger.warn("Lockout check skipped (Redis unavailable)", { redisError });
+    return 0;
+  }
+}
+
+/**
+ * Count a failed login. From the LOCKOUT_THRESHOLD-th failure on, the
+ * account is locked for BASE_LOCKOUT_SECONDS, doubling each time.
+ * @returns Lockout length in seconds (0 if not locked)
+ */
+export async function recordFailedLogin(identifier: string): Promise<number> {
+  try {
+    const failuresKey = `loginfail:${identifier}`;
+    const failures = await redis.incr(failuresKey);
+    await redis.expire(failuresKey, FAILURE_MEMORY_SECONDS);
+
+    if (failures < LOCKOUT_THRESHOLD) return 0;
+
+    const lockoutSeconds = Math.min(
+      BASE_LOCKOUT_SECONDS * 2 ** (failures - LOCKOUT_THRESHOLD),
+      MAX_LOCKOUT_SECONDS
+    );
+    await redis.set(`lockout:${identifier}`, "1", "EX", lockoutSeconds);
+    return lockoutSeconds;
+  } catch (redisError) {
+    logger.warn("Failed login not recorded (Redis unavailable)", {
+      redisError,
+    });
+    return 0;
+  }
+}
+
+/**
+ * Forget failures after a successful login
+ */
+export async function clearFailedLogins(identifier: string): Promise<void> {
+  try {
+    await redis.del(`loginfail:${identifier}`, `lockout:${identifier}`);
+  } catch (redisError) {
+    logger.warn("Failed logins not cleared (Redis unavailable)", {
+      redisError,
+    });
+  }
+}
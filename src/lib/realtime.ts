@@ -0,0 +1,175 @@
+/**
+ * Real-time Project Events
+ *
+ * Write routes publish what changed on a project; the SSE endpoint
+ * (/api/projects/[id]/events) streams it to everyone viewing the project.
+ *
+ * Events go through Redis pub/sub (channel `project:<id>:events`) so every
+ * server instance sees every write. Each process keeps one subscriber
+ * connection and subscribes to a project's channel while at least one
+ * stream for that project is open. If publishing to Redis fails, the event
+ * is still delivered to streams in this process.
+ *
+ * Usage (after the write has committed):
+ *   await publishProjectEvent(projectId, auth, { type: "task.updated", task });
+ */
+
+import type Redis from "ioredis";
+import { redis } from "../../lib/redis";
+import { logger } from "./logger";
+import type { ProjectWorkflow } from "./workflows";
+
+export type ProjectEvent =
+  | { type: "task.created" | "task.updated"; task: Record<string, unknown> }
+  | { type: "task.deleted"; taskId: string }
+  | { type: "tasks.reordered"; positions: { id: string; position: number }[] }
+  | { type: "project.updated"; project: Record<string, unknown> }
+  | { type: "workflow.updated"; workflow: ProjectWorkflow }
+  | { type: "dependency.created"; dependency: Record<string, unknown> }
+  | { type: "dependency.deleted"; dependencyId: string }
+  | {
+      type: "milestone.created" | "milestone.updated";
+      milestone: Record<string, unknown>;
+    }
+  | { type: "milestone.deleted"; milestoneId: string }
+  | {
+      type: "label.created" | "label.updated";
+      label: Record<string, unknown>;
+    }
+  | { type: "label.deleted"; labelId: string }
+  | { type: "project.deleted" };
+
+/**
+ * What subscribers receive
+ */
+export type ProjectEventMessage = ProjectEvent & {
+  projectId: string;
+  actorId: string | null;
+  at: string;
+};
+
+type ProjectEventListener = (message: ProjectEventMessage) => void;
+
+const listeners = new Map<string, Set<ProjectEventListener>>();
+
+type GlobalWithSubscriber = typeof globalThis & {
+  __projectEventSubscriber?: Redis;
+};
+const globalForRealtime = globalThis as GlobalWithSubscriber;
+
+function channelFor(projectId: string): string {
+  return `project:${projectId}:events`;
+}
+
+function emitLocally(message: ProjectEventMessage): void {
+  listeners.get(message.projectId)?.forEach((listener) => {
+    try {
+      listener(message);
+    } catch (error) {
+      logger.warn("Project event listener failed", {
+        projectId: message.projectId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}
+
+/**
+ * The process-wide subscriber connection (a subscribed Redis connection
+ * cannot run other commands, so it is separate from `redis`)
+ */
+function getSubscriber(): Redis {
+  if (globalForRealtime.__projectEventSubscriber) {
+    return globalForRealtime.__projectEventSubscriber;
+  }
+
+  const subscriber = redis.duplicate();
+
+  subscriber.on("message", (channel: string, raw: string) => {
+    try {
+      const message = JSON.parse(raw) as ProjectEventMessage;
+      if (channelFor(message.projectId) === channel) {
+        emitLocally(message);
+      }
+    } catch {
+      logger.warn("Ignoring malformed project event", { channel });
+    }
+  });
+
+  subscriber.on("error", (error: Error) => {
+    logger.warn("Project event subscriber error", { error: error.message });
+  });
+
+  globalForRealtime.__projectEventSubscriber = subscriber;
+  return subscriber;
+}
+
+/**
+ * Announce a change on a project. Never throws.
+ */
+export async function publishProjectEvent(
+  projectId: string,
+  actor: { userId?: string },
+  event: ProjectEvent
+): Promise<void> {
+  const message: ProjectEventMessage = {
+    ...event,
+    projectId,
+    actorId: actor.userId ?? null,
+    at: new Date().toISOString(),
+  };
+
+  try {
+    await redis.publish(channelFor(projectId), JSON.stringify(message));
+  } catch (error) {
+    logger.warn("Redis publish failed; delivering project event locally", {
+      projectId,
+      type: event.type,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    emitLocally(message);
+  }
+}
+
+/**
+ * Listen to a project's events
+ * @returns A function that stops listening
+ */
+export function subscribeToProject(
+  projectId: string,
+  listener: ProjectEventListener
+): () => void {
+  let projectListeners = listeners.get(projectId);
+
+  if (!projectListeners) {
+    projectListeners = new Set();
+    listeners.set(projectId, projectListeners);
+
+    getSubscriber()
+      .subscribe(channelFor(projectId))
+      .catch((error: Error) => {
+        logger.warn("Redis subscribe failed; only local events will arrive", {
+          projectId,
+          error: error.message,
+        });
+      });
+  }
+
+  projectListeners.add(listener);
+
+  return () => {
+    const current = listeners.get(projectId);
+    if (!current) return;
+
+    current.delete(listener);
+
+    if (current.size === 0) {
+      listeners.delete(projectId);
+      getSubscriber()
+        .unsubscribe(channelFor(projectId))
+        .catch(() => {
+          // Reconnects resubscribe from scratch, nothing to clean up
+        });
+    }
+  };
+}
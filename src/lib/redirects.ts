@@ -0,0 +1,34 @@
+/**
+ * Post-Login Redirects
+ *
+ * Where to send a user after signing in or refreshing their session. Only
+ * paths on this site are allowed: anything that would leave it (absolute
+ * URLs, protocol-relative "//host" paths, or "/\host", which URL parsers
+ * read as "//host") falls back to the dashboard.
+ *
+ * No server dependencies: used by the refresh route and the login page.
+ */
+
+export const DEFAULT_REDIRECT_PATH = "/dashboard";
+
+// Any origin works: a path is safe when resolving it keeps this one
+const BASE_ORIGIN = "http://localhost";
+
+/**
+ * The same-site path to redirect to, or the dashboard if `value` is not one
+ */
+export function safeRedirectPath(value: string | null | undefined): string {
+  if (!value || !value.startsWith("/") || value.includes("\\")) {
+    return DEFAULT_REDIRECT_PATH;
+  }
+
+  try {
+    const url = new URL(value, BASE_ORIGIN);
+    if (url.origin !== BASE_ORIGIN) {
+      return DEFAULT_REDIRECT_PATH;
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return DEFAULT_REDIRECT_PATH;
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Full-Text Search
+ *
+ * Searches project, task and comment text with PostgreSQL full-text search.
+ * Each table has a generated `searchVector` column with a GIN index (titles
+ * weigh more than descriptions); queries use web search syntax ("quoted
+ * phrases", -excluded words, or) and results come back best match first,
+ * with the matching words marked in a short snippet.
+ *
+ * Results only cover what the read routes show a signed-in user: projects,
+ * their tasks and their comments. Tasks and comments are found through
+ * their project, so nothing outlives the project it belongs to.
+ *
+ * Usage:
+ *   const results = await search("well pump", { types: ["task"], limit: 10 });
+ */
+
+import { prisma } from "./prisma";
+
+export const SEARCH_TYPES = ["project", "task", "comment"] as const;
+
+export type SearchResultType = (typeof SEARCH_TYPES)[number];
+
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 50;
+
+/** A run of snippet text, marked when it matched the query */
+export interface SearchSnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  projectId: string;
+  /** The task a task result is, or a comment was left on */
+  taskId: string | null;
+  title: SearchSnippetPart[];
+  snippet: SearchSnippetPart[];
+  /** Project title for tasks and comments, author name for comments */
+  context: string | null;
+  rank: number;
+}
+
+export interface SearchOptions {
+  types?: SearchResultType[];
+  limit?: number;
+}
+
+interface SearchRow {
+  id: string;
+  projectId: string;
+  taskId: string | null;
+  title: string;
+  snippet: string;
+  context: string | null;
+  rank: number;
+}
+
+// Matches are marked with control characters ordinary text does not contain
+// rather than HTML tags, so snippets render as plain text, never as markup
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+const TITLE_HEADLINE_OPTIONS = `StartSel="${MATCH_START}", StopSel="${MATCH_END}", HighlightAll=true`;
+const SNIPPET_HEADLINE_OPTIONS = `StartSel="${MATCH_START}", StopSel="${MATCH_END}", MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * Validate a search query from a request
+ * @returns An error message, or null if the query is valid
+ */
+export function validateSearchQuery(query: string | null): string | null {
+  const trimmed = query?.trim() ?? "";
+  if (trimmed.length < MIN_SEARCH_QUERY_LENGTH) {
+    return `Search query must be at least ${MIN_SEARCH_QUERY_LENGTH} characters`;
+  }
+  if (trimmed.length > MAX_SEARCH_QUERY_LENGTH) {
+    return `Search query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Parse a comma-separated `type` filter
+ * @returns The types (all of them when the value is empty), or null if any
+ * is unknown
+ */
+export function parseSearchTypes(
+  value: string | null
+): SearchResultType[] | null {
+  if (!value) return [...SEARCH_TYPES];
+
+  const types = value.split(",").map((type) => type.trim().toLowerCase());
+  if (
+    !types.every((type): type is SearchResultType =>
+      (SEARCH_TYPES as readonly string[]).includes(type)
+    )
+  ) {
+    return null;
+  }
+  return [...new Set(types)];
+}
+
+/**
+ * Split a ts_headline result into plain and matched runs
+ */
+function toSnippetParts(headline: string): SearchSnippetPart[] {
+  const [before, ...rest] = headline.split(MATCH_START);
+  const parts: SearchSnippetPart[] = [{ text: before, match: false }];
+
+  for (const piece of rest) {
+    const [matched, after = ""] = piece.split(MATCH_END);
+    parts.push({ text: matched, match: true }, { text: after, match: false });
+  }
+
+  return parts.filter((part) => part.text.length > 0);
+}
+
+// Matches are ranked and cut to the limit before any headline is built:
+// ts_headline re-parses the whole text, so it only runs on returned rows
+
+function searchProjects(query: string, limit: number) {
+  return prisma.$queryRaw<SearchRow[]>`
+    WITH matches AS (
+      SELECT p."id", ts_rank(p."searchVector", q) AS "rank"
+      FROM "Project" p, websearch_to_tsquery('english', ${query}) q
+      WHERE p."searchVector" @@ q
+      ORDER BY "rank" DESC, p."updatedAt" DESC
+      LIMIT ${limit}
+    )
+    SELECT
+      p."id",
+      p."id" AS "projectId",
+      NULL::text AS "taskId",
+      ts_headline('english', p."title", q, ${TITLE_HEADLINE_OPTIONS}) AS "title",
+      ts_headline('english', p."description", q, ${SNIPPET_HEADLINE_OPTIONS}) AS "snippet",
+      NULL::text AS "context",
+      m."rank"
+    FROM matches m
+    JOIN "Project" p ON p."id" = m."id",
+      websearch_to_tsquery('english', ${query}) q
+  `;
+}
+
+function searchTasks(query: string, limit: number) {
+  return prisma.$queryRaw<SearchRow[]>`
+    WITH matches AS (
+      SELECT t."id", ts_rank(t."searchVector", q) AS "rank"
+      FROM "Task" t
+      JOIN "Project" p ON p."id" = t."projectId",
+        websearch_to_tsquery('english', ${query}) q
+      WHERE t."searchVector" @@ q
+      ORDER BY "rank" DESC, t."updatedAt" DESC
+      LIMIT ${limit}
+    )
+    SELECT
+      t."id",
+      t."projectId",
+      t."id" AS "taskId",
+      ts_headline('english', t."title", q, ${TITLE_HEADLINE_OPTIONS}) AS "title",
+      ts_headline('english', coalesce(t."description", ''), q, ${SNIPPET_HEADLINE_OPTIONS}) AS "snippet",
+      p."title" AS "context",
+      m."rank"
+    FROM matches m
+    JOIN "Task" t ON t."id" = m."id"
+    JOIN "Project" p ON p."id" = t."projectId",
+      websearch_to_tsquery('english', ${query}) q
+  `;
+}
+
+function searchComments(query: string, limit: number) {
+  return prisma.$queryRaw<SearchRow[]>`
+    WITH matches AS (
+      SELECT c."id", ts_rank(c."searchVector", q) AS "rank"
+      FROM "Comment" c
+      JOIN "Project" p ON p."id" = c."projectId",
+        websearch_to_tsquery('english', ${query}) q
+      WHERE c."searchVector" @@ q
+      ORDER BY "rank" DESC, c."createdAt" DESC
+      LIMIT ${limit}
+    )
+    SELECT
+      c."id",
+      c."projectId",
+      c."taskId",
+      coalesce(t."title", p."title") AS "title",
+      ts_headline('english', c."body", q, ${SNIPPET_HEADLINE_OPTIONS}) AS "snippet",
+      coalesce(u."name", u."email") AS "context",
+      m."rank"
+    FROM matches m
+    JOIN "Comment" c ON c."id" = m."id"
+    JOIN "Project" p ON p."id" = c."projectId"
+    JOIN "User" u ON u."id" = c."authorId"
+    LEFT JOIN "Task" t ON t."id" = c."taskId",
+      websearch_to_tsquery('english', ${query}) q
+  `;
+}
+
+type Searcher = (query: string, limit: number) => Promise<SearchRow[]>;
+
+const searchers: Record<SearchResultType, Searcher> = {
+  project: searchProjects,
+  task: searchTasks,
+  comment: searchComments,
+};
+
+/**
+ * Search project, task and comment text, best match first
+ */
+export async function search(
+  query: string,
+  {
+    types = [...SEARCH_TYPES],
+    limit = DEFAULT_SEARCH_LIMIT,
+  }: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const trimmed = query.trim();
+
+  const found = await Promise.all(
+    types.map(async (type) => {
+      const rows = await searchers[type](trimmed, limit);
+      return rows.map(
+        (row): SearchResult => ({
+          type,
+          id: row.id,
+          projectId: row.projectId,
+          taskId: row.taskId,
+          // Comment titles name what was commented on, not the match
+          title:
+            type === "comment"
+              ? [{ text: row.title, match: false }]
+              : toSnippetParts(row.title),
+          snippet: toSnippetParts(row.snippet),
+          context: row.context,
+          rank: Number(row.rank),
+        })
+      );
+    })
+  );
+
+  return found
+    .flat()
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, limit);
+}
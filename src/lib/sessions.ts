@@ -0,0 +1,280 @@
+/**
+ * Sessions & Refresh Tokens
+ *
+ * Every sign-in creates a `Session` row. The browser holds two cookies:
+ * - `token`: short-lived access JWT carrying the session id (`sid`)
+ * - `refreshToken`: opaque `<sessionId>.<secret>`, only sent to /api/auth/*
+ *
+ * Refresh tokens rotate on every use and only their SHA-256 hash is stored.
+ * Presenting a token that has already been rotated away means it was copied,
+ * so the whole session is revoked (reuse detection). A short grace window
+ * tolerates two tabs refreshing at the same moment.
+ *
+ * verifyApiRequest checks `getSessionState` so revoked sessions (and
+ * deactivated users) stop working immediately, not when the token expires.
+ */
+
+import { createHash, randomBytes, randomUUID } from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import type { Session, User } from "@prisma/client";
+import { prisma } from "./prisma";
+import { signJWT } from "./auth";
+
+/** Idle lifetime of a session; every refresh pushes expiry out again */
+export const REFRESH_TOKEN_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+/** A just-rotated token is still honoured for this long */
+const REUSE_GRACE_PERIOD_MS = 10 * 1000;
+
+export const ACCESS_TOKEN_COOKIE = "token";
+export const REFRESH_TOKEN_COOKIE = "refreshToken";
+
+export type RevocationReason =
+  | "LOGOUT"
+  | "LOGOUT_ALL"
+  | "REUSE_DETECTED"
+  | "PASSWORD_RESET"
+  | "DEACTIVATED"
+  | "FORCED_LOGOUT";
+
+export type RotationResult =
+  | { status: "rotated"; session: Session; user: User; refreshToken: string }
+  | { status: "invalid" | "expired" | "revoked" | "reused" };
+
+/**
+ * Hash a refresh token for storage / lookup
+ */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Build a new refresh token for a session
+ */
+function generateRefreshToken(sessionId: string): string {
+  return `${sessionId}.${randomBytes(32).toString("base64url")}`;
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+}
+
+/**
+ * Start a session for a user who just proved their identity
+ * @returns The access token and refresh token to hand to the client
+ */
+export async function createSession(
+  user: Pick<User, "id" | "email" | "role">,
+  req: NextRequest
+): Promise<{ session: Session; accessToken: string; refreshToken: string }> {
+  const sessionId = randomUUID();
+  const refreshToken = generateRefreshToken(sessionId);
+
+  const session = await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: req.headers.get("user-agent"),
+      ipAddress: req.headers.get("x-forwarded-for")?.split(",")[0].trim(),
+      expiresAt: refreshExpiry(),
+    },
+  });
+
+  const accessToken = signJWT({
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    sid: session.id,
+  });
+
+  return { session, accessToken, refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new one (and mark the old one as used)
+ */
+export async function rotateRefreshToken(
+  refreshToken: string
+): Promise<RotationResult> {
+  const [sessionId] = refreshToken.split(".");
+  if (!sessionId) return { status: "invalid" };
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { user: true },
+  });
+
+  if (!session) return { status: "invalid" };
+  if (session.revokedAt || session.user.status !== "ACTIVE") {
+    return { status: "revoked" };
+  }
+  if (session.expiresAt < new Date()) return { status: "expired" };
+
+  const presentedHash = hashToken(refreshToken);
+
+  if (presentedHash !== session.refreshTokenHash) {
+    const withinGrace =
+      presentedHash === session.previousTokenHash &&
+      session.rotatedAt !== null &&
+      Date.now() - session.rotatedAt.getTime() < REUSE_GRACE_PERIOD_MS;
+
+    if (!withinGrace) {
+      if (presentedHash === session.previousTokenHash) {
+        await revokeSession(session.id, "REUSE_DETECTED");
+        return { status: "reused" };
+      }
+      return { status: "invalid" };
+    }
+  }
+
+  const nextToken = generateRefreshToken(session.id);
+
+  // Only rotate if nobody else rotated this session in the meantime
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: session.refreshTokenHash },
+    data: {
+      refreshTokenHash: hashToken(nextToken),
+      previousTokenHash: session.refreshTokenHash,
+      rotatedAt: new Date(),
+      lastUsedAt: new Date(),
+      expiresAt: refreshExpiry(),
+    },
+  });
+
+  if (count === 0) return { status: "invalid" };
+
+  const { user, ...sessionData } = session;
+  return {
+    status: "rotated",
+    session: sessionData,
+    user,
+    refreshToken: nextToken,
+  };
+}
+
+/**
+ * Look up the session behind an access token together with its user.
+ * The user's current role is returned so role changes apply immediately.
+ */
+export async function getSessionState(
+  sessionId: string
+): Promise<
+  | { status: "active"; user: Pick<User, "id" | "email" | "role"> }
+  | { status: "revoked" | "deactivated" }
+> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      revokedAt: true,
+      expiresAt: true,
+      user: { select: { id: true, email: true, role: true, status: true } },
+    },
+  });
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return { status: "revoked" };
+  }
+
+  if (session.user.status !== "ACTIVE") {
+    return { status: "deactivated" };
+  }
+
+  const { id, email, role } = session.user;
+  return { status: "active", user: { id, email, role } };
+}
+
+/**
+ * Revoke a single session
+ */
+export async function revokeSession(
+  sessionId: string,
+  reason: RevocationReason
+): Promise<void> {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+}
+
+/**
+ * Revoke every active session of a user ("sign out everywhere")
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: RevocationReason
+): Promise<number> {
+  const { count } = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return count;
+}
+
+/**
+ * Revoke the session a refresh token currently belongs to
+ * @returns True if a session was revoked
+ */
+export async function revokeSessionByRefreshToken(
+  refreshToken: string,
+  reason: RevocationReason
+): Promise<boolean> {
+  const { count } = await prisma.session.updateMany({
+    where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return count > 0;
+}
+
+/**
+ * Attach the access and refresh token cookies to a response.
+ * The access cookie lives as long as the session so page middleware can
+ * tell a signed-in visitor apart; the JWT inside it still expires quickly.
+ */
+export function setAuthCookies(
+  response: NextResponse,
+  accessToken: string,
+  refreshToken: string
+): void {
+  const secure = process.env.NODE_ENV === "production";
+
+  response.cookies.set(ACCESS_TOKEN_COOKIE, accessToken, {
+    httpOnly: true,
+    secure,
+    sameSite: "lax",
+    maxAge: REFRESH_TOKEN_TTL_SECONDS,
+    path: "/",
+  });
+
+  response.cookies.set(REFRESH_TOKEN_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite: "lax",
+    maxAge: REFRESH_TOKEN_TTL_SECONDS,
+    path: "/api/auth",
+  });
+}
+
+/**
+ * Remove both auth cookies from the browser
+ */
+export function clearAuthCookies(response: NextResponse): void {
+  const secure = process.env.NODE_ENV === "production";
+
+  response.cookies.set(ACCESS_TOKEN_COOKIE, "", {
+    httpOnly: true,
+    secure,
+    sameSite: "lax",
+    maxAge: 0,
+    path: "/",
+  });
+
+  response.cookies.set(REFRESH_TOKEN_COOKIE, "", {
+    httpOnly: true,
+    secure,
+    sameSite: "lax",
+    maxAge: 0,
+    path: "/api/auth",
+  });
+}
@@ -0,0 +1,111 @@
+/**
+ * Task Progress
+ *
+ * How far along a task is. A task in a done status is complete; otherwise
+ * each of its subtasks and checklist items is one unit of work. Checklist
+ * items are done or not, and a subtask counts for its own progress, so
+ * work on subtasks rolls up into the parent.
+ *
+ * No server dependencies: used by the task API and the project page alike.
+ *
+ * Usage:
+ *   const progress = getTaskProgress(task, subtasksOf.get(task.id) ?? [], isDone);
+ */
+
+export interface ProgressTask {
+  id: string;
+  status: string;
+  parentId?: string | null;
+  checklistItems?: { done: boolean }[];
+}
+
+export interface TaskProgress {
+  /** 0 to 100 */
+  percent: number;
+  subtasks: { done: number; total: number };
+  checklist: { done: number; total: number };
+}
+
+/** Whether a status key is in a DONE-category workflow status */
+export type IsDoneStatus = (status: string) => boolean;
+
+function completion(
+  task: ProgressTask,
+  subtasks: ProgressTask[],
+  isDone: IsDoneStatus
+): number {
+  if (isDone(task.status)) return 1;
+
+  const items = task.checklistItems ?? [];
+  const units = subtasks.length + items.length;
+  if (units === 0) return 0;
+
+  const itemsDone = items.filter((item) => item.done).length;
+  const subtasksDone = subtasks.reduce(
+    (sum, subtask) => sum + completion(subtask, [], isDone),
+    0
+  );
+
+  return (itemsDone + subtasksDone) / units;
+}
+
+export function getTaskProgress(
+  task: ProgressTask,
+  subtasks: ProgressTask[],
+  isDone: IsDoneStatus
+): TaskProgress {
+  const items = task.checklistItems ?? [];
+
+  return {
+    percent: Math.round(completion(task, subtasks, isDone) * 100),
+    subtasks: {
+      done: subtasks.filter((subtask) => isDone(subtask.status)).length,
+      total: subtasks.length,
+    },
+    checklist: {
+      done: items.filter((item) => item.done).length,
+      total: items.length,
+    },
+  };
+}
+
+/**
+ * Subtasks keyed by their parent's ID, in the order given
+ */
+export function groupSubtasks<T extends ProgressTask>(
+  tasks: T[]
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+
+  for (const task of tasks) {
+    if (!task.parentId) continue;
+    const siblings = groups.get(task.parentId) ?? [];
+    siblings.push(task);
+    groups.set(task.parentId, siblings);
+  }
+
+  return groups;
+}
+
+export interface MilestoneProgress {
+  done: number;
+  total: number;
+  /** 0 to 100; 0 for a milestone without tasks */
+  percent: number;
+}
+
+/**
+ * Share of a milestone's tasks in a done status
+ */
+export function getMilestoneProgress(
+  tasks: { status: string }[],
+  isDone: IsDoneStatus
+): MilestoneProgress {
+  const done = tasks.filter((task) => isDone(task.status)).length;
+
+  return {
+    done,
+    total: tasks.length,
+    percent: tasks.length > 0 ? Math.round((done / tasks.length) * 100) : 0,
+  };
+}
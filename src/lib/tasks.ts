@@ -0,0 +1,404 @@
+/**
+ * Task Helpers
+ *
+ * Shared Prisma selections, assignment rules, planning fields, subtask and
+ * checklist rules and board ordering for the task API routes.
+ */
+
+import type { Prisma, TaskPriority } from "@prisma/client";
+import { prisma } from "./prisma";
+
+/**
+ * Gap left between neighbouring tasks when a status column is numbered,
+ * so most moves only need to rewrite the moved task
+ */
+export const TASK_POSITION_STEP = 1024;
+
+/** Below this gap a column is renumbered instead of splitting it further */
+const MIN_POSITION_GAP = 1e-6;
+
+export const TASK_PRIORITIES: readonly TaskPriority[] = [
+  "LOW",
+  "MEDIUM",
+  "HIGH",
+  "URGENT",
+];
+
+export const MAX_ESTIMATED_HOURS = 1000;
+
+export const MAX_CHECKLIST_ITEM_LENGTH = 200;
+export const MAX_CHECKLIST_ITEMS = 50;
+
+const CALENDAR_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Planning fields from a request body; absent fields are left out and
+ * null clears a date or estimate
+ */
+export interface TaskPlanningInput {
+  priority?: TaskPriority;
+  startDate?: Date | null;
+  dueDate?: Date | null;
+  estimatedHours?: number | null;
+}
+
+/**
+ * Nested selection for a task's assignees (oldest assignment first)
+ */
+export const taskAssigneesSelect = {
+  select: {
+    assignedAt: true,
+    user: {
+      select: {
+        id: true,
+        name: true,
+        email: true,
+      },
+    },
+  },
+  orderBy: { assignedAt: "asc" },
+} as const;
+
+/**
+ * Nested selection for a task's checklist, in display order
+ */
+export const taskChecklistSelect = {
+  select: {
+    id: true,
+    text: true,
+    done: true,
+    position: true,
+  },
+  orderBy: { position: "asc" },
+} as const;
+
+/**
+ * Nested selection for a task's labels, by name
+ */
+export const taskLabelsSelect = {
+  select: {
+    label: {
+      select: {
+        id: true,
+        name: true,
+        color: true,
+      },
+    },
+  },
+  orderBy: { label: { name: "asc" } },
+} as const;
+
+/**
+ * The task fields returned by the task API routes and sent to webhooks
+ * and live project events
+ */
+export const taskSelect = {
+  id: true,
+  title: true,
+  description: true,
+  status: true,
+  position: true,
+  priority: true,
+  startDate: true,
+  dueDate: true,
+  estimatedHours: true,
+  parentId: true,
+  milestoneId: true,
+  projectId: true,
+  createdAt: true,
+  updatedAt: true,
+  assignees: taskAssigneesSelect,
+  checklistItems: taskChecklistSelect,
+  labels: taskLabelsSelect,
+} as const;
+
+/**
+ * Validate an optional list of user IDs from a request body
+ * @returns The de-duplicated IDs, or null if the value is not a string array
+ */
+export function parseUserIdList(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  if (!value.every((item) => typeof item === "string" && item.length > 0)) {
+    return null;
+  }
+  return Array.from(new Set(value as string[]));
+}
+
+/**
+ * Parse a calendar date ("YYYY-MM-DD") as UTC midnight
+ * @returns The date, or null if the value is not a real calendar date
+ */
+export function parseCalendarDate(value: unknown): Date | null {
+  if (typeof value !== "string" || !CALENDAR_DATE_PATTERN.test(value)) {
+    return null;
+  }
+
+  const date = new Date(`${value}T00:00:00.000Z`);
+  // Rejects dates that roll over, e.g. 2026-02-30
+  return !Number.isNaN(date.getTime()) &&
+    date.toISOString().slice(0, 10) === value
+    ? date
+    : null;
+}
+
+/**
+ * Today's calendar date in UTC, comparable with stored due dates
+ */
+export function startOfTodayUtc(): Date {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return today;
+}
+
+/**
+ * Validate the priority, start/due dates and effort estimate of a request
+ * body. Start and due dates are checked against each other in the route,
+ * since an update may change only one of them.
+ * @returns The parsed fields, or an error message
+ */
+export function parseTaskPlanningFields(
+  body: Record<string, unknown>
+): { data: TaskPlanningInput } | { error: string } {
+  const { priority, startDate, dueDate, estimatedHours } = body;
+  const data: TaskPlanningInput = {};
+
+  if (priority !== undefined) {
+    if (!TASK_PRIORITIES.includes(priority as TaskPriority)) {
+      return {
+        error: `Priority must be one of: ${TASK_PRIORITIES.join(", ")}`,
+      };
+    }
+    data.priority = priority as TaskPriority;
+  }
+
+  for (const [field, value] of [
+    ["startDate", startDate],
+    ["dueDate", dueDate],
+  ] as const) {
+    if (value === undefined) continue;
+    if (value === null) {
+      data[field] = null;
+      continue;
+    }
+
+    const date = parseCalendarDate(value);
+    if (!date) {
+      return { error: `${field} must be a date in YYYY-MM-DD format` };
+    }
+    data[field] = date;
+  }
+
+  if (estimatedHours !== undefined) {
+    if (
+      estimatedHours !== null &&
+      (typeof estimatedHours !== "number" ||
+        !Number.isFinite(estimatedHours) ||
+        estimatedHours < 0 ||
+        estimatedHours > MAX_ESTIMATED_HOURS)
+    ) {
+      return {
+        error: `Estimated hours must be a number between 0 and ${MAX_ESTIMATED_HOURS}`,
+      };
+    }
+    data.estimatedHours = estimatedHours;
+  }
+
+  return { data };
+}
+
+/**
+ * Validate checklist item text from a request
+ * @returns An error message, or null if the text is valid
+ */
+export function validateChecklistText(text: unknown): string | null {
+  if (typeof text !== "string" || text.trim().length === 0) {
+    return "Checklist item text is required and must be a non-empty string";
+  }
+  if (text.trim().length > MAX_CHECKLIST_ITEM_LENGTH) {
+    return `Checklist items must be at most ${MAX_CHECKLIST_ITEM_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Check that a task can become a subtask of `parentId`. Subtasks are one
+ * level deep: a parent cannot be a subtask itself, and a task that has
+ * subtasks cannot be moved under another task.
+ * @param task - The task being (re)parented; omit `id` for a new task
+ * @returns An error message, or null if the parent is valid
+ */
+export async function validateParentTask(
+  parentId: string,
+  task: { id?: string; projectId: string }
+): Promise<string | null> {
+  if (parentId === task.id) {
+    return "A task cannot be its own parent";
+  }
+
+  const parent = await prisma.task.findUnique({
+    where: { id: parentId },
+    select: { projectId: true, parentId: true },
+  });
+
+  if (!parent || parent.projectId !== task.projectId) {
+    return "Parent task not found in this project";
+  }
+
+  if (parent.parentId) {
+    return "Subtasks can only be one level deep";
+  }
+
+  if (task.id) {
+    const subtaskCount = await prisma.task.count({
+      where: { parentId: task.id },
+    });
+    if (subtaskCount > 0) {
+      return "A task with subtasks cannot become a subtask";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A task cannot be due before it starts
+ */
+export function isValidTaskSchedule(
+  startDate: Date | null | undefined,
+  dueDate: Date | null | undefined
+): boolean {
+  return !startDate || !dueDate || startDate.getTime() <= dueDate.getTime();
+}
+
+/**
+ * Only the project owner and project members can be assigned to its tasks
+ * @param projectId - Project the task belongs to
+ * @param userIds - Candidate assignee IDs
+ * @returns IDs that are NOT allowed to be assigned
+ */
+export async function findUnassignableUserIds(
+  projectId: string,
+  userIds: string[]
+): Promise<string[]> {
+  if (userIds.length === 0) return [];
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      ownerId: true,
+      members: {
+        where: { userId: { in: userIds } },
+        select: { userId: true },
+      },
+    },
+  });
+
+  if (!project) return userIds;
+
+  const allowed = new Set([
+    project.ownerId,
+    ...project.members.map((member) => member.userId),
+  ]);
+
+  return userIds.filter((userId) => !allowed.has(userId));
+}
+
+/**
+ * Flatten a task (with its assignees and labels) into the shape stored in
+ * the activity ledger, so assignment and label changes show up in the diff
+ */
+export function toTaskActivitySnapshot<
+  T extends {
+    assignees?: { user: { id: string } }[];
+    labels?: { label: { id: string } }[];
+  },
+>(task: T): Record<string, unknown> {
+  const { assignees, labels, ...fields } = task;
+  return {
+    ...fields,
+    assigneeIds: (assignees ?? []).map(({ user }) => user.id).sort(),
+    labelIds: (labels ?? []).map(({ label }) => label.id).sort(),
+  };
+}
+
+/**
+ * Position that puts a task at the bottom of a status column
+ */
+export async function nextTaskPosition(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  status: string,
+  excludeTaskId?: string
+): Promise<number> {
+  const last = await tx.task.findFirst({
+    where: {
+      projectId,
+      status,
+      ...(excludeTaskId && { id: { not: excludeTaskId } }),
+    },
+    orderBy: { position: "desc" },
+    select: { position: true },
+  });
+
+  return (last?.position ?? 0) + TASK_POSITION_STEP;
+}
+
+/**
+ * Work out the position that puts a task at `index` (0-based) in a status
+ * column. When the neighbouring positions are too close to split, the
+ * column is renumbered and the other tasks' new positions are returned in
+ * `reordered`.
+ */
+export async function placeTaskInColumn(
+  tx: Prisma.TransactionClient,
+  task: { id: string; projectId: string; status: string },
+  index: number
+): Promise<{
+  position: number;
+  reordered: { id: string; position: number }[];
+}> {
+  const column = await tx.task.findMany({
+    where: {
+      projectId: task.projectId,
+      status: task.status,
+      id: { not: task.id },
+    },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: { id: true, position: true },
+  });
+
+  const target = Math.min(Math.max(index, 0), column.length);
+  const before = column[target - 1];
+  const after = column[target];
+
+  if (!before && !after) {
+    return { position: TASK_POSITION_STEP, reordered: [] };
+  }
+  if (!after) {
+    return { position: before.position + TASK_POSITION_STEP, reordered: [] };
+  }
+  if (!before) {
+    return { position: after.position - TASK_POSITION_STEP, reordered: [] };
+  }
+  if (after.position - before.position > MIN_POSITION_GAP) {
+    return {
+      position: (before.position + after.position) / 2,
+      reordered: [],
+    };
+  }
+
+  // Out of room between the neighbours: space the whole column out again
+  const reordered = column.map((other, i) => ({
+    id: other.id,
+    position: (i < target ? i + 1 : i + 2) * TASK_POSITION_STEP,
+  }));
+
+  for (const other of reordered) {
+    await tx.task.update({
+      where: { id: other.id },
+      data: { position: other.position },
+    });
+  }
+
+  return { position: (target + 1) * TASK_POSITION_STEP, reordered };
+}
@@ -0,0 +1,570 @@
+/**
+ * Outbound Webhooks
+ *
+ * Project owners subscribe a URL to task and project events. Events are
+ * queued as `WebhookDelivery` rows with the same transaction client as the
+ * change they describe (like the activity ledger), so a rolled-back write
+ * never notifies anyone. Routes call `dispatchWebhooks()` after committing.
+ *
+ * Each request carries:
+ * - X-CollabLedger-Event: the event name, e.g. "task.updated"
+ * - X-CollabLedger-Delivery: the delivery id (stable across retries)
+ * - X-CollabLedger-Timestamp: unix seconds when this attempt was signed
+ * - X-CollabLedger-Signature: "sha256=" + hex HMAC-SHA256 of
+ *   `<timestamp>.<raw body>` keyed with the webhook secret
+ *
+ * A non-2xx response, timeout or network error is retried with exponential
+ * backoff (WEBHOOK_RETRY_BASE_MS, default 30s, doubling) until
+ * MAX_DELIVERY_ATTEMPTS is reached. The queue is processed in-process; due
+ * deliveries left over from a restart are picked up by the next dispatch.
+ *
+ * scripts/webhook-receiver.mjs is a local receiver that verifies signatures.
+ */
+
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import http from "http";
+import https from "https";
+import { isIP, type LookupFunction } from "net";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { logger } from "./logger";
+
+export const WEBHOOK_EVENTS = [
+  "task.created",
+  "task.updated",
+  "task.deleted",
+  "project.status_changed",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Sent by the "test" endpoint regardless of the subscribed events */
+export const WEBHOOK_PING_EVENT = "ping";
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+const DEFAULT_RETRY_BASE_MS = 30 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/** A claimed delivery is invisible to other workers for this long */
+const CLAIM_LEASE_MS = 60 * 1000;
+
+const BATCH_SIZE = 20;
+
+/** Response bodies are trimmed before they go into the delivery log */
+const MAX_LOGGED_RESPONSE_LENGTH = 1000;
+
+/**
+ * What a client sees about a webhook (never the secret)
+ */
+export const webhookSelect = {
+  id: true,
+  projectId: true,
+  url: true,
+  events: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export const webhookDeliverySelect = {
+  id: true,
+  webhookId: true,
+  event: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastAttemptAt: true,
+  responseStatus: true,
+  responseBody: true,
+  error: true,
+  deliveredAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * The fields of a webhook stored in the activity ledger (never the secret)
+ */
+export function toWebhookSnapshot(
+  webhook: Prisma.WebhookGetPayload<{ select: typeof webhookSelect }>
+) {
+  const { id, url, events, active } = webhook;
+  return { id, url, events, active };
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.includes(value as WebhookEvent);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Signature sent in X-CollabLedger-Signature
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Check a subscription URL
+ * @returns An error message, or null if the URL is acceptable
+ */
+export function validateWebhookUrl(value: unknown): string | null {
+  if (typeof value !== "string" || value.length > 2000) {
+    return "URL must be a string of at most 2000 characters";
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "URL is not valid";
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "URL must use http or https";
+  }
+
+  if (!privateUrlsAllowed()) {
+    if (url.protocol !== "https:") {
+      return "URL must use https";
+    }
+    if (isPrivateHost(url.hostname)) {
+      return "URL must point to a public host";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Local receivers are fine in development; production needs public https
+ */
+function privateUrlsAllowed(): boolean {
+  return (
+    process.env.NODE_ENV !== "production" ||
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true"
+  );
+}
+
+/**
+ * Whether a URL hostname names this machine or a private network, either
+ * by name or as an IP literal (IPv6 literals come in brackets)
+ */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+
+  if (host.startsWith("[") && host.endsWith("]")) {
+    return isPrivateAddress(host.slice(1, -1));
+  }
+  if (isIP(host)) {
+    return isPrivateAddress(host);
+  }
+
+  return (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".internal")
+  );
+}
+
+/**
+ * Whether an IPv4 or IPv6 address is loopback, link-local (including cloud
+ * metadata at 169.254.169.254), private, reserved, multicast, unspecified
+ * or a NAT64 route to any of those
+ */
+function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase();
+
+  if (isIP(ip) === 4) {
+    const [a, b, c] = ip.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0 && c === 0) || // IETF protocol assignments
+      (a === 198 && (b === 18 || b === 19)) || // benchmarking
+      a >= 224 // multicast and reserved
+    );
+  }
+
+  const mapped = toMappedIPv4(ip);
+  if (mapped) {
+    return isPrivateAddress(mapped);
+  }
+
+  return (
+    ip === "::" ||
+    ip === "::1" ||
+    /^f[cd]/.test(ip) || // unique local, fc00::/7
+    /^fe[89ab]/.test(ip) || // link-local, fe80::/10
+    /^ff/.test(ip) || // multicast, ff00::/8
+    /^64:ff9b::/.test(ip) // NAT64, 64:ff9b::/96, reaches any IPv4 address
+  );
+}
+
+/**
+ * The IPv4 address inside an IPv4-mapped IPv6 address, written either
+ * ::ffff:10.0.0.1 or, as URLs normalize it, ::ffff:a00:1
+ */
+function toMappedIPv4(ip: string): string | null {
+  const match = ip.match(/^::ffff:(.+)$/);
+  if (!match) return null;
+  if (isIP(match[1]) === 4) return match[1];
+
+  const hextets = match[1].split(":").map((part) => parseInt(part, 16));
+  if (hextets.length !== 2 || hextets.some(Number.isNaN)) return null;
+
+  const [high, low] = hextets;
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+}
+
+/**
+ * DNS lookup for delivery connections that refuses private addresses. The
+ * connection is made to the addresses checked here, so a hostname cannot
+ * pass the check and then resolve somewhere else (DNS rebinding).
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }).then(
+    (addresses) => {
+      const blocked = addresses.find(({ address }) =>
+        isPrivateAddress(address)
+      );
+      if (blocked) {
+        callback(
+          new Error(`URL resolves to a private address (${blocked.address})`),
+          ""
+        );
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    },
+    (error) => callback(error, "")
+  );
+};
+
+/**
+ * POST a delivery and read (the start of) the response. Redirects are not
+ * followed: a 3xx counts as a failed delivery, so a receiver cannot bounce
+ * the request on to a private address.
+ */
+function postDelivery(
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; body: string }> {
+  const target = new URL(url);
+  const guarded = !privateUrlsAllowed();
+
+  // IP literals are connected to without a lookup, so check them here
+  if (guarded && isPrivateHost(target.hostname)) {
+    return Promise.reject(new Error("URL points to a private host"));
+  }
+
+  const client = target.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: guarded ? publicOnlyLookup : undefined,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (response) => {
+        let text = "";
+        response.setEncoding("utf8");
+        response.on("data", (chunk: string) => {
+          if (text.length < MAX_LOGGED_RESPONSE_LENGTH) text += chunk;
+        });
+        response.on("end", () =>
+          resolve({
+            status: response.statusCode ?? 0,
+            body: text.slice(0, MAX_LOGGED_RESPONSE_LENGTH),
+          })
+        );
+        response.on("error", reject);
+      }
+    );
+
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+function retryDelayMs(attempt: number): number {
+  const base =
+    parseInt(process.env.WEBHOOK_RETRY_BASE_MS || "", 10) ||
+    DEFAULT_RETRY_BASE_MS;
+  return base * 2 ** (attempt - 1);
+}
+
+/**
+ * Queue an event for every active webhook of the project subscribed to it
+ * @param tx - Transaction client the triggering write is running in
+ * @returns Number of deliveries queued
+ */
+export async function enqueueWebhookEvent(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<number> {
+  const webhooks = await tx.webhook.findMany({
+    where: { projectId, active: true, events: { has: event } },
+    select: { id: true },
+  });
+
+  if (webhooks.length === 0) return 0;
+
+  const createdAt = new Date().toISOString();
+  const payloadData = JSON.parse(JSON.stringify(data)) as Prisma.JsonObject;
+
+  const { count } = await tx.webhookDelivery.createMany({
+    data: webhooks.map((webhook) => {
+      const id = randomUUID();
+      return {
+        id,
+        webhookId: webhook.id,
+        event,
+        payload: { id, event, createdAt, projectId, data: payloadData },
+      };
+    }),
+  });
+
+  return count;
+}
+
+/**
+ * Queue a ping to a single webhook (outside any transaction)
+ */
+export async function enqueueWebhookPing(webhookId: string, projectId: string) {
+  const id = randomUUID();
+
+  return prisma.webhookDelivery.create({
+    data: {
+      id,
+      webhookId,
+      event: WEBHOOK_PING_EVENT,
+      payload: {
+        id,
+        event: WEBHOOK_PING_EVENT,
+        createdAt: new Date().toISOString(),
+        projectId,
+        data: {},
+      },
+    },
+    select: webhookDeliverySelect,
+  });
+}
+
+/**
+ * Send one claimed delivery and record the outcome
+ */
+async function attemptDelivery(deliveryId: string): Promise<void> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { webhook: { select: { url: true, secret: true, active: true } } },
+  });
+
+  if (!delivery || delivery.status !== "PENDING") return;
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  if (!delivery.webhook.active) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: "FAILED",
+        nextAttemptAt: null,
+        error: "Webhook is disabled",
+      },
+    });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await postDelivery(
+      delivery.webhook.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "CollabLedger-Webhooks/1.0",
+        "X-CollabLedger-Event": delivery.event,
+        "X-CollabLedger-Delivery": delivery.id,
+        "X-CollabLedger-Timestamp": String(timestamp),
+        "X-CollabLedger-Signature": signWebhookPayload(
+          delivery.webhook.secret,
+          timestamp,
+          body
+        ),
+      },
+      body
+    );
+
+    responseStatus = response.status;
+    responseBody = response.body;
+    if (response.status < 200 || response.status >= 300) {
+      error = `Receiver responded with HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Delivery failed";
+  }
+
+  const succeeded = error === null;
+  const exhausted = !succeeded && attempts >= MAX_DELIVERY_ATTEMPTS;
+
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      attempts,
+      lastAttemptAt: now,
+      responseStatus,
+      responseBody,
+      error,
+      status: succeeded ? "SUCCEEDED" : exhausted ? "FAILED" : "PENDING",
+      deliveredAt: succeeded ? now : null,
+      nextAttemptAt:
+        succeeded || exhausted
+          ? null
+          : new Date(now.getTime() + retryDelayMs(attempts)),
+    },
+  });
+
+  const logContext = {
+    deliveryId,
+    webhookId: delivery.webhookId,
+    event: delivery.event,
+    attempts,
+    responseStatus,
+  };
+
+  if (succeeded) {
+    logger.info("Webhook delivered", logContext);
+  } else {
+    logger.warn(
+      exhausted
+        ? "Webhook delivery failed permanently"
+        : "Webhook delivery failed, will retry",
+      { ...logContext, error }
+    );
+  }
+}
+
+/**
+ * Send every delivery that is due, in batches
+ * @returns Number of deliveries attempted
+ */
+export async function processDueWebhookDeliveries(): Promise<number> {
+  let attempted = 0;
+
+  for (;;) {
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: "PENDING", nextAttemptAt: { lte: new Date() } },
+      select: { id: true, nextAttemptAt: true },
+      orderBy: { nextAttemptAt: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    if (due.length === 0) return attempted;
+
+    for (const delivery of due) {
+      // Claim it so another worker (or a concurrent dispatch) skips it
+      const { count } = await prisma.webhookDelivery.updateMany({
+        where: {
+          id: delivery.id,
+          status: "PENDING",
+          nextAttemptAt: delivery.nextAttemptAt,
+        },
+        data: { nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) },
+      });
+
+      if (count === 0) continue;
+
+      await attemptDelivery(delivery.id);
+      attempted++;
+    }
+  }
+}
+
+let processing = false;
+let rerunRequested = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Arm a timer for the next pending retry
+ */
+async function scheduleNextRetry(): Promise<void> {
+  const next = await prisma.webhookDelivery.findFirst({
+    where: { status: "PENDING", nextAttemptAt: { not: null } },
+    select: { nextAttemptAt: true },
+    orderBy: { nextAttemptAt: "asc" },
+  });
+
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  if (!next?.nextAttemptAt) return;
+
+  const delay = Math.max(next.nextAttemptAt.getTime() - Date.now(), 0);
+  retryTimer = setTimeout(dispatchWebhooks, delay);
+  retryTimer.unref?.();
+}
+
+/**
+ * Start processing the queue in the background. Safe to call after every
+ * write; concurrent calls collapse into one more pass.
+ */
+export function dispatchWebhooks(): void {
+  if (processing) {
+    rerunRequested = true;
+    return;
+  }
+
+  processing = true;
+
+  void (async () => {
+    try {
+      do {
+        rerunRequested = false;
+        await processDueWebhookDeliveries();
+      } while (rerunRequested);
+    } catch (error) {
+      logger.warn("Webhook queue processing failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      processing = false;
+      // Even after a failed pass, so pending retries are not stranded
+      await scheduleNextRetry().catch((error) =>
+        logger.warn("Failed to schedule webhook retries", {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  })();
+}
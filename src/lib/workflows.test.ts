@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  canTransition,
+  parseWorkflowStatuses,
+  type ProjectWorkflow,
+} from "./workflows";
+
+// To Do → In Review → Done, with review able to send work back
+const reviewWorkflow: ProjectWorkflow = {
+  statuses: [
+    { key: "TODO", name: "To Do", category: "TODO", next: ["IN_REVIEW"] },
+    {
+      key: "IN_REVIEW",
+      name: "In Review",
+      category: "IN_PROGRESS",
+      next: ["TODO", "DONE"],
+    },
+    { key: "DONE", name: "Done", category: "DONE", next: [] },
+  ],
+  isDefault: false,
+};
+
+describe("canTransition", () => {
+  it("allows the moves a status lists", () => {
+    assert.equal(canTransition(reviewWorkflow, "TODO", "IN_REVIEW"), true);
+    assert.equal(canTransition(reviewWorkflow, "IN_REVIEW", "DONE"), true);
+    assert.equal(canTransition(reviewWorkflow, "IN_REVIEW", "TODO"), true);
+  });
+
+  it("rejects moves a status does not list", () => {
+    assert.equal(canTransition(reviewWorkflow, "TODO", "DONE"), false);
+    assert.equal(canTransition(reviewWorkflow, "DONE", "TODO"), false);
+  });
+
+  it("allows staying in the same status", () => {
+    assert.equal(canTransition(reviewWorkflow, "DONE", "DONE"), true);
+  });
+
+  it("rejects a status the workflow does not have", () => {
+    assert.equal(canTransition(reviewWorkflow, "TODO", "BLOCKED"), false);
+  });
+
+  it("lets a task in a removed status move anywhere", () => {
+    assert.equal(canTransition(reviewWorkflow, "BLOCKED", "DONE"), true);
+    assert.equal(canTransition(reviewWorkflow, "BLOCKED", "TODO"), true);
+  });
+});
+
+describe("parseWorkflowStatuses", () => {
+  it("normalises names and repeated moves", () => {
+    const result = parseWorkflowStatuses([
+      {
+        key: "TODO",
+        name: " To Do ",
+        category: "TODO",
+        next: ["DONE", "DONE"],
+      },
+      { key: "DONE", name: "Done", category: "DONE" },
+    ]);
+
+    assert.deepEqual(result, {
+      statuses: [
+        { key: "TODO", name: "To Do", category: "TODO", next: ["DONE"] },
+        { key: "DONE", name: "Done", category: "DONE", next: [] },
+      ],
+    });
+  });
+
+  it("rejects an empty workflow", () => {
+    assert.ok("error" in parseWorkflowStatuses([]));
+  });
+
+  it("rejects duplicate keys", () => {
+    const result = parseWorkflowStatuses([
+      { key: "TODO", name: "To Do", category: "TODO" },
+      { key: "TODO", name: "Again", category: "TODO" },
+    ]);
+    assert.deepEqual(result, { error: "Duplicate status key: TODO" });
+  });
+
+  it("rejects moves to unknown statuses and to the same status", () => {
+    assert.deepEqual(
+      parseWorkflowStatuses([
+        { key: "TODO", name: "To Do", category: "TODO", next: ["DONE"] },
+      ]),
+      { error: "Status TODO moves to unknown status DONE" }
+    );
+    assert.deepEqual(
+      parseWorkflowStatuses([
+        { key: "TODO", name: "To Do", category: "TODO", next: ["TODO"] },
+      ]),
+      { error: "Status TODO cannot move to itself" }
+    );
+  });
+});
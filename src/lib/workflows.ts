@@ -0,0 +1,229 @@
+/**
+ * Project Workflows
+ *
+ * A workflow is the ordered list of statuses a project's tasks move
+ * through (one board column each) and, per status, which statuses a task
+ * may move to next. Each status has a category (TODO / IN_PROGRESS / DONE)
+ * so stats and rules can tell open work from finished work whatever the
+ * project calls its statuses.
+ *
+ * Projects that never customised their workflow have no `WorkflowStatus`
+ * rows and use DEFAULT_WORKFLOW.
+ *
+ * Usage:
+ *   const workflow = await getProjectWorkflow(projectId);
+ *   if (!canTransition(workflow, task.status, "IN_REVIEW")) { ... }
+ */
+
+import type { Prisma, TaskStatusCategory } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export interface WorkflowStatusDefinition {
+  key: string;
+  name: string;
+  category: TaskStatusCategory;
+  /** Keys of the statuses a task may move to from this one */
+  next: string[];
+}
+
+export interface ProjectWorkflow {
+  statuses: WorkflowStatusDefinition[];
+  /** True when the project uses DEFAULT_WORKFLOW */
+  isDefault: boolean;
+}
+
+export const TASK_STATUS_CATEGORIES: readonly TaskStatusCategory[] = [
+  "TODO",
+  "IN_PROGRESS",
+  "DONE",
+];
+
+/** The statuses every project started with; any move is allowed */
+export const DEFAULT_WORKFLOW: readonly WorkflowStatusDefinition[] = [
+  {
+    key: "TODO",
+    name: "To Do",
+    category: "TODO",
+    next: ["IN_PROGRESS", "DONE"],
+  },
+  {
+    key: "IN_PROGRESS",
+    name: "In Progress",
+    category: "IN_PROGRESS",
+    next: ["TODO", "DONE"],
+  },
+  {
+    key: "DONE",
+    name: "Done",
+    category: "DONE",
+    next: ["TODO", "IN_PROGRESS"],
+  },
+];
+
+export const MAX_WORKFLOW_STATUSES = 12;
+const MAX_STATUS_NAME_LENGTH = 40;
+
+/** Status keys are stored on tasks and used in URLs, e.g. IN_REVIEW */
+export const STATUS_KEY_PATTERN = /^[A-Z][A-Z0-9_]{0,29}$/;
+
+export const workflowStatusSelect = {
+  key: true,
+  name: true,
+  category: true,
+  next: true,
+} as const;
+
+function defaultWorkflow(): ProjectWorkflow {
+  return {
+    statuses: DEFAULT_WORKFLOW.map((status) => ({
+      ...status,
+      next: [...status.next],
+    })),
+    isDefault: true,
+  };
+}
+
+/**
+ * Load a project's workflow
+ * @param client - Pass the transaction client when reading inside one
+ */
+export async function getProjectWorkflow(
+  projectId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<ProjectWorkflow> {
+  const statuses = await client.workflowStatus.findMany({
+    where: { projectId },
+    select: workflowStatusSelect,
+    orderBy: { position: "asc" },
+  });
+
+  return statuses.length > 0
+    ? { statuses, isDefault: false }
+    : defaultWorkflow();
+}
+
+export function findWorkflowStatus(
+  workflow: ProjectWorkflow,
+  key: string
+): WorkflowStatusDefinition | undefined {
+  return workflow.statuses.find((status) => status.key === key);
+}
+
+/**
+ * Whether a task may move from one status to another. Tasks left in a
+ * status the workflow no longer has may move to any status.
+ */
+export function canTransition(
+  workflow: ProjectWorkflow,
+  from: string,
+  to: string
+): boolean {
+  if (from === to) return true;
+  if (!findWorkflowStatus(workflow, to)) return false;
+
+  const current = findWorkflowStatus(workflow, from);
+  return !current || current.next.includes(to);
+}
+
+/**
+ * Name and category of a task status, given the project's stored statuses
+ * (an empty list means the default workflow). Unknown keys count as open.
+ */
+export function describeTaskStatus(
+  statuses: readonly {
+    key: string;
+    name: string;
+    category: TaskStatusCategory;
+  }[],
+  key: string
+): { name: string; category: TaskStatusCategory } {
+  const source = statuses.length > 0 ? statuses : DEFAULT_WORKFLOW;
+  const status = source.find((candidate) => candidate.key === key);
+
+  return status
+    ? { name: status.name, category: status.category }
+    : { name: key, category: "TODO" };
+}
+
+/**
+ * Validate a workflow from a request body
+ * @returns The normalised statuses, or an error message
+ */
+export function parseWorkflowStatuses(
+  value: unknown
+): { statuses: WorkflowStatusDefinition[] } | { error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: "statuses must be a non-empty array" };
+  }
+
+  if (value.length > MAX_WORKFLOW_STATUSES) {
+    return {
+      error: `A workflow can have at most ${MAX_WORKFLOW_STATUSES} statuses`,
+    };
+  }
+
+  const statuses: WorkflowStatusDefinition[] = [];
+
+  for (const item of value) {
+    const { key, name, category, next } = (item ?? {}) as Record<
+      string,
+      unknown
+    >;
+
+    if (typeof key !== "string" || !STATUS_KEY_PATTERN.test(key)) {
+      return {
+        error:
+          "Status keys must be upper case letters, digits and underscores, starting with a letter (max 30 characters)",
+      };
+    }
+
+    if (
+      typeof name !== "string" ||
+      name.trim().length === 0 ||
+      name.trim().length > MAX_STATUS_NAME_LENGTH
+    ) {
+      return {
+        error: `Status names are required (max ${MAX_STATUS_NAME_LENGTH} characters)`,
+      };
+    }
+
+    if (!TASK_STATUS_CATEGORIES.includes(category as TaskStatusCategory)) {
+      return {
+        error: `Status category must be one of: ${TASK_STATUS_CATEGORIES.join(", ")}`,
+      };
+    }
+
+    if (
+      next !== undefined &&
+      (!Array.isArray(next) || !next.every((to) => typeof to === "string"))
+    ) {
+      return { error: "next must be an array of status keys" };
+    }
+
+    if (statuses.some((status) => status.key === key)) {
+      return { error: `Duplicate status key: ${key}` };
+    }
+
+    statuses.push({
+      key,
+      name: name.trim(),
+      category: category as TaskStatusCategory,
+      next: Array.from(new Set((next as string[] | undefined) ?? [])),
+    });
+  }
+
+  const keys = new Set(statuses.map((status) => status.key));
+  for (const status of statuses) {
+    const unknown = status.next.find((to) => !keys.has(to));
+    if (unknown) {
+      return {
+        error: `Status ${status.key} moves to unknown status ${unknown}`,
+      };
+    }
+    if (status.next.includes(status.key)) {
+      return { error: `Status ${status.key} cannot move to itself` };
+    }
+  }
+
+  return { statuses };
+}
@@ -2,28 +2,50 @@
  * Authorization Middleware
  *
  * Intercepts all incoming requests and:
- * 1. Checks token presence for protected API routes (Edge-safe presence check)
- * 2. Checks token presence in cookies for protected page routes (Edge-safe presence check)
+ * 1. Verifies the access token's signature and expiry (jose, Edge-safe)
+ * 2. Enforces `requireRole` for protected API and page routes
+ * 3. Forwards the verified identity as x-user-id / x-user-email / x-user-role
+ *    (read with extractUserFromHeaders); client-supplied copies are stripped
  *
- * Note: Middleware runs in the Edge runtime. To keep this production-safe and
- * compatible, we do NOT perform full JWT signature verification or RBAC checks
- * here. Full JWT verification + role enforcement happens inside API route
- * handlers (Node.js runtime).
+ * The role checked here is the one in the token, so a role change takes
+ * effect at the next refresh (at most ACCESS_TOKEN_TTL_SECONDS). Route
+ * handlers still call verifyApiRequest, which also rejects revoked sessions
+ * and deactivated users and reads the current role from the database.
  *
  * Protects API routes:
  * - /api/admin/* - Admin-only routes
  * - /api/users - Authenticated users only
  * - /api/projects - Authenticated users only
  * - /api/tasks - Authenticated users only
+ * - /api/join-requests - Authenticated users only
+ * - /api/comments - Authenticated users only
+ * - /api/notifications - Authenticated users only
  *
  * Protects page routes:
- * - /dashboard - Authenticated users only (cookie presence check)
- * - /projects/* - Authenticated users only (cookie presence check)
+ * - /dashboard - Authenticated users only
+ * - /settings - Authenticated users only
+ * - /admin - Admins only (others are sent to /dashboard)
+ * - /projects/* - Authenticated users only
+ *
+ * Access tokens are short-lived. When a page is requested with an expired
+ * access token, the visitor is bounced through /api/auth/refresh, which
+ * rotates the session and sends them back, or on to
+ * /login?redirect=<page>&reason=session_expired when the session is gone.
+ * Tokens that fail verification go straight to /login with
+ * reason=invalid_session.
+ *
+ * Personal API tokens (`Bearer clp_...`) are opaque, so API requests carrying
+ * one are passed on without identity headers and verified in the handler.
  */
 
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
-import { extractTokenFromHeader } from "@/lib/auth";
+import type { DecodedToken } from "@/lib/auth";
+import {
+  extractTokenFromHeader,
+  isApiToken,
+  verifyAccessToken,
+} from "@/lib/edgeAuth";
 import { sendError } from "@/lib/responseHandler";
 import { ERROR_CODES } from "@/lib/errorCodes";
 
@@ -51,22 +73,48 @@ const PROTECTED_API_ROUTES = [
     requireRole: null, // Authenticated users only
     description: "Task management routes",
   },
+  {
+    pattern: /^\/api\/join-requests/,
+    requireRole: null, // Authenticated users only
+    description: "Join request routes",
+  },
+  {
+    pattern: /^\/api\/comments/,
+    requireRole: null, // Authenticated users only
+    description: "Comment routes",
+  },
+  {
+    pattern: /^\/api\/notifications/,
+    requireRole: null, // Authenticated users only
+    description: "Notification routes",
+  },
 ];
 
 /**
  * Define which page routes are protected
  */
 const PROTECTED_PAGE_ROUTES = [
-  /^\/dashboard/,
-  /^\/projects\/.+/, // Dynamic routes like /projects/[id]
+  { pattern: /^\/dashboard/, requireRole: null },
+  { pattern: /^\/settings/, requireRole: null },
+  { pattern: /^\/admin/, requireRole: "ADMIN" },
+  { pattern: /^\/projects\/.+/, requireRole: null }, // Dynamic routes like /projects/[id]
 ];
 
+/**
+ * Identity headers set for route handlers after verification
+ */
+const USER_CONTEXT_HEADERS = ["x-user-id", "x-user-email", "x-user-role"];
+
 /**
  * API routes that bypass middleware (public API routes)
  */
 const PUBLIC_API_ROUTES = [
   /^\/api\/auth\/login/,
   /^\/api\/auth\/signup/,
+  /^\/api\/auth\/refresh/,
+  /^\/api\/auth\/verify-email/,
+  /^\/api\/auth\/forgot-password/,
+  /^\/api\/auth\/reset-password/,
   /^\/api\/health/,
   /^\/api\/prisma-test/, // For testing purposes
 ];
@@ -78,6 +126,9 @@ const PUBLIC_PAGE_ROUTES = [
   /^\/$/, // Home page
   /^\/login/,
   /^\/signup/,
+  /^\/verify-email/,
+  /^\/forgot-password/,
+  /^\/reset-password/,
 ];
 
 /**
@@ -95,10 +146,14 @@ function isPublicPageRoute(pathname: string): boolean {
 }
 
 /**
- * Check if a route is a protected page route
+ * Find matching protected page route configuration
  */
-function isProtectedPageRoute(pathname: string): boolean {
-  return PROTECTED_PAGE_ROUTES.some((pattern) => pattern.test(pathname));
+function findProtectedPageRoute(
+  pathname: string
+): (typeof PROTECTED_PAGE_ROUTES)[number] | null {
+  return (
+    PROTECTED_PAGE_ROUTES.find((route) => route.pattern.test(pathname)) || null
+  );
 }
 
 /**
@@ -120,6 +175,36 @@ function getTokenFromCookie(req: NextRequest): string | null {
   return req.cookies.get("token")?.value || null;
 }
 
+/**
+ * Continue to the route, replacing any identity headers sent by the client
+ * with the verified user (or none)
+ */
+function forwardRequest(req: NextRequest, user: DecodedToken | null = null) {
+  const headers = new Headers(req.headers);
+  USER_CONTEXT_HEADERS.forEach((name) => headers.delete(name));
+
+  if (user) {
+    headers.set("x-user-id", user.id);
+    headers.set("x-user-email", user.email);
+    headers.set("x-user-role", user.role);
+  }
+
+  return NextResponse.next({ request: { headers } });
+}
+
+/**
+ * Send a page visitor to the login page, remembering where they were going
+ */
+function redirectToLogin(req: NextRequest, reason?: string) {
+  const { pathname, search } = req.nextUrl;
+  const loginUrl = new URL("/login", req.url);
+  loginUrl.searchParams.set("redirect", `${pathname}${search}`);
+  if (reason) {
+    loginUrl.searchParams.set("reason", reason);
+  }
+  return NextResponse.redirect(loginUrl);
+}
+
 /**
  * Main middleware function
  * Runs for all incoming requests to the application
@@ -138,17 +223,13 @@ export async function middleware(req: NextRequest) {
 
 /**
  * Handle API route protection
- *
- * Note: Middleware runs in Edge runtime and cannot use Node.js crypto modules.
- * Therefore, we only check for token PRESENCE, not signature verification.
- * Full JWT verification happens in the API route handlers (Node runtime).
  */
-function handleApiRoute(req: NextRequest) {
+async function handleApiRoute(req: NextRequest) {
   const { pathname } = req.nextUrl;
 
   // Allow public API routes without authentication
   if (isPublicApiRoute(pathname)) {
-    return NextResponse.next();
+    return forwardRequest(req);
   }
 
   // Check if route is protected
@@ -156,7 +237,7 @@ function handleApiRoute(req: NextRequest) {
 
   if (!protectedRoute) {
     // Route is not in protected routes list, allow it
-    return NextResponse.next();
+    return forwardRequest(req);
   }
 
   // Extract token from Authorization header OR cookie
@@ -165,7 +246,7 @@ function handleApiRoute(req: NextRequest) {
 
   // If no Authorization header, try cookie (for browser fetch calls)
   if (!token) {
-    token = req.cookies.get("token")?.value || null;
+    token = getTokenFromCookie(req);
   }
 
   if (!token) {
@@ -176,28 +257,56 @@ function handleApiRoute(req: NextRequest) {
     );
   }
 
-  return NextResponse.next();
+  // Personal API tokens are checked against the database by
+  // verifyApiRequest (which also applies their scopes) in the route handler
+  if (isApiToken(token)) {
+    return forwardRequest(req);
+  }
+
+  const verification = await verifyAccessToken(token);
+
+  if (verification.status === "expired") {
+    return sendError(
+      "Access token has expired",
+      ERROR_CODES.TOKEN_EXPIRED,
+      401
+    );
+  }
+
+  if (verification.status === "invalid") {
+    return sendError("Invalid access token", ERROR_CODES.INVALID_TOKEN, 403);
+  }
+
+  const user = verification.payload;
+
+  if (protectedRoute.requireRole && user.role !== protectedRoute.requireRole) {
+    return sendError(
+      "You do not have permission to access this resource",
+      ERROR_CODES.FORBIDDEN,
+      403
+    );
+  }
+
+  return forwardRequest(req, user);
 }
 
 /**
  * Handle page route protection
- *
- * Note: Middleware runs in Edge runtime and cannot use Node.js crypto modules.
- * Therefore, we only check for cookie PRESENCE, not signature verification.
- * Full JWT verification happens in API routes (Node runtime).
  */
-function handlePageRoute(req: NextRequest) {
-  const { pathname } = req.nextUrl;
+async function handlePageRoute(req: NextRequest) {
+  const { pathname, search } = req.nextUrl;
 
   // Allow public page routes
   if (isPublicPageRoute(pathname)) {
-    return NextResponse.next();
+    return forwardRequest(req);
   }
 
   // Check if this is a protected page route
-  if (!isProtectedPageRoute(pathname)) {
+  const protectedRoute = findProtectedPageRoute(pathname);
+
+  if (!protectedRoute) {
     // Not explicitly protected, allow it
-    return NextResponse.next();
+    return forwardRequest(req);
   }
 
   // Protected page route - check for auth token in cookie
@@ -205,15 +314,32 @@ function handlePageRoute(req: NextRequest) {
 
   if (!token) {
     // No token found - redirect to login
-    const loginUrl = new URL("/login", req.url);
-    loginUrl.searchParams.set("redirect", pathname);
-    return NextResponse.redirect(loginUrl);
+    return redirectToLogin(req);
+  }
+
+  const verification = await verifyAccessToken(token);
+
+  // Token expired - refresh the session, then come back here
+  if (verification.status === "expired") {
+    const refreshUrl = new URL("/api/auth/refresh", req.url);
+    refreshUrl.searchParams.set("redirect", `${pathname}${search}`);
+    return NextResponse.redirect(refreshUrl);
+  }
+
+  // Forged or malformed token - drop it and sign in again
+  if (verification.status === "invalid") {
+    const response = redirectToLogin(req, "invalid_session");
+    response.cookies.delete("token");
+    return response;
+  }
+
+  const user = verification.payload;
+
+  if (protectedRoute.requireRole && user.role !== protectedRoute.requireRole) {
+    return NextResponse.redirect(new URL("/dashboard", req.url));
   }
 
-  // Token exists - allow access
-  // Note: We don't verify signature here (Edge runtime limitation)
-  // API routes will verify the token when data is fetched
-  return NextResponse.next();
+  return forwardRequest(req, user);
 }
 
 /**
@@ -221,6 +347,8 @@ function handlePageRoute(req: NextRequest) {
  * Matches:
  * - /api/* (all API routes)
  * - /dashboard (protected page)
+ * - /settings (account settings)
+ * - /admin (admin page)
  * - /projects/* (protected dynamic routes)
  * Excludes: static files, images, _next, favicon
  */
@@ -228,6 +356,8 @@ export const config = {
   matcher: [
     "/api/:path*",
     "/dashboard/:path*",
+    "/settings/:path*",
+    "/admin/:path*",
     "/projects/:path*",
     "/((?!_next/static|_next/image|favicon.ico|.*\\..*).)*",
   ],